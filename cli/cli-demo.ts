@@ -15,7 +15,8 @@ import { codeExecutor, MEDICAL_ANALYSIS_TOOLS } from "../src/services/code-execu
 import type {
   BAMLServiceClient as BAMLClient,
   VectorServiceClient as VectorService,
-  E2BExecutionResult,
+  MedicalAnalysisResult,
+  MedicalAnalysisTool,
 } from "../src/types/integrations.js"
 
 
@@ -33,6 +34,11 @@ class MockBAMLClient implements BAMLClient {
       created_at: new Date().toISOString(),
     } as any
   }
+  async *streamResponse() {
+    const response = await this.generateResponse()
+    yield { type: "content" as const, delta: response.content }
+    yield { type: "complete" as const, response }
+  }
   async analyzeMedicalData() {
     return {
       analysis_type: "risk_assessment",
@@ -46,6 +52,12 @@ class MockBAMLClient implements BAMLClient {
   async synthesizeFindings() {
     return "[Mock synthesis]"
   }
+  async summarizeConversation() {
+    return { summary: "[Mock summary]", key_topics: [], entities: [] }
+  }
+  async classifyMessage() {
+    return { intent: "general_question" as const, entities: [], complexity_score: 0, medical_urgency: "low" as const }
+  }
 }
 
 class MockVectorClient implements VectorService {
@@ -55,10 +67,25 @@ class MockVectorClient implements VectorService {
   async addDocument() { return "" }
   async updateDocument() {}
   async deleteDocument() {}
+  async getDocument(): Promise<never> { throw new Error("The mock vector client stores no documents") }
+  async listDocuments() { return { data: [], total_count: 0, page: 1, page_size: 20, has_more: false } }
   async createCollection() {}
+  async deleteCollection() {}
   async listCollections() { return [] }
 }
 
+// ---------------------------------------------------------------------------
+// Sample inputs bound to `patient_data` for each tool
+// ---------------------------------------------------------------------------
+const SAMPLE_INPUTS: Record<string, unknown> = {
+  voe_risk_analysis: { age: 12, hbf_level: 3.2, hemoglobin: 6.8 },
+  lab_trend_analysis: [
+    { test_date: "2024-01-15T00:00:00Z", hemoglobin: 7.9, hbf_level: 8.1, lactate_dehydrogenase: 410 },
+    { test_date: "2024-04-15T00:00:00Z", hemoglobin: 8.4, hbf_level: 12.5, lactate_dehydrogenase: 350 },
+    { test_date: "2024-07-15T00:00:00Z", hemoglobin: 8.8, hbf_level: 16.0, lactate_dehydrogenase: 300 },
+  ],
+}
+
 // ---------------------------------------------------------------------------
 // Demo Session interface – extends the broader type with only required pieces
 // ---------------------------------------------------------------------------
@@ -78,16 +105,17 @@ async function runDemo(toolName: string) {
     medicalContext: null,
   }
 
-  const toolTemplate = MEDICAL_ANALYSIS_TOOLS[toolName as keyof typeof MEDICAL_ANALYSIS_TOOLS]
+  const toolTemplate: MedicalAnalysisTool | undefined =
+    MEDICAL_ANALYSIS_TOOLS[toolName as keyof typeof MEDICAL_ANALYSIS_TOOLS]
   if (!toolTemplate) {
     console.error(`Unknown tool "${toolName}"\nAvailable: ${Object.keys(MEDICAL_ANALYSIS_TOOLS).join(", ")}`)
     process.exit(1)
   }
 
   console.log("⏳ Executing medical analysis via E2B …\n")
-  const result: E2BExecutionResult = await session.e2bSession.executeMedicalAnalysis(
+  const result: MedicalAnalysisResult = await session.e2bSession.executeMedicalAnalysis(
     toolTemplate,
-    {},
+    SAMPLE_INPUTS[toolName] ?? {},
   )
 
   if (result.status === "completed") {
@@ -0,0 +1,202 @@
+#!/usr/bin/env bun
+/**
+ * Fake BAML prompt service
+ * --------------------------------------------------
+ * Implements the HTTP API HttpBAMLClient talks to with deterministic
+ * responses, so the API can be run and tested without the real service.
+ *
+ * Usage:
+ *   bun run cli/fake-baml-server.ts
+ *
+ * Environment:
+ *   FAKE_BAML_PORT        Port to listen on (default 3002)
+ *   FAKE_BAML_DELAY_MS    Delay before every response, and between streamed words
+ *   FAKE_BAML_FAIL_FIRST  Answer the first N requests with 503
+ *   FAKE_BAML_API_KEY     Require this bearer token
+ */
+
+import { serve } from "@hono/node-server"
+import { Hono } from "hono"
+import { streamSSE } from "hono/streaming"
+import { classifyMessage } from "../src/lib/message-classifier.js"
+
+export interface FakeBamlOptions {
+  delayMs?: number
+  failFirst?: number
+  apiKey?: string
+}
+
+const ANALYSIS_TYPES = ["risk_assessment", "treatment_recommendation", "lab_interpretation", "literature_synthesis"]
+
+// Terms /summarize reports as topics and entities when a message mentions them
+const SUMMARY_TERMS: Record<string, string> = {
+  hydroxyurea: "medication",
+  "folic acid": "medication",
+  hemoglobin: "lab_value",
+  "vaso-occlusive": "condition",
+  "acute chest syndrome": "condition",
+}
+
+// Stable id derived from the request so identical requests get identical responses
+async function stableUuid(input: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input)))
+  const hex = Array.from(digest.slice(0, 16), (byte) => byte.toString(16).padStart(2, "0")).join("")
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+// The /generate response: the template name followed by its variables
+async function generated(body: Record<string, unknown>, delayMs: number) {
+  const modelConfig = isRecord(body.model_config) ? body.model_config : {}
+  const content = `[${body.template_name}] ${JSON.stringify(body.variables)}`
+  return {
+    id: await stableUuid(JSON.stringify(body)),
+    template_name: body.template_name,
+    model_used: typeof modelConfig.model === "string" ? modelConfig.model : "fake-model",
+    content,
+    metadata: {
+      tokens_used: content.split(/\s+/).length,
+      processing_time_ms: delayMs,
+      confidence_score: 0.9,
+    },
+    created_at: new Date(0).toISOString(),
+  }
+}
+
+export function createFakeBamlApp(options: FakeBamlOptions = {}): Hono {
+  const app = new Hono()
+  let failuresLeft = options.failFirst ?? 0
+
+  app.get("/health", (c) => c.json({ status: "ok" }))
+
+  app.use("*", async (c, next) => {
+    if (options.apiKey && c.req.header("Authorization") !== `Bearer ${options.apiKey}`) {
+      return c.json({ error: "Invalid API key" }, 401)
+    }
+    if (options.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs))
+    }
+    if (failuresLeft > 0) {
+      failuresLeft--
+      return c.json({ error: "Fake BAML service is unavailable" }, 503)
+    }
+    await next()
+  })
+
+  app.post("/generate", async (c) => {
+    const body: unknown = await c.req.json()
+    if (!isRecord(body) || typeof body.template_name !== "string" || !isRecord(body.variables)) {
+      return c.json({ error: "template_name and variables are required" }, 422)
+    }
+    return c.json(await generated(body, options.delayMs ?? 0))
+  })
+
+  // The /generate response one word at a time, then the whole response
+  app.post("/generate/stream", async (c) => {
+    const body: unknown = await c.req.json()
+    if (!isRecord(body) || typeof body.template_name !== "string" || !isRecord(body.variables)) {
+      return c.json({ error: "template_name and variables are required" }, 422)
+    }
+    const response = await generated(body, options.delayMs ?? 0)
+    return streamSSE(c, async (stream) => {
+      for (const word of response.content.match(/\S+\s*/g) ?? []) {
+        if (stream.aborted) {
+          return
+        }
+        await stream.writeSSE({ event: "content", data: JSON.stringify({ type: "content", delta: word }) })
+        if (options.delayMs) {
+          await stream.sleep(options.delayMs)
+        }
+      }
+      await stream.writeSSE({ event: "complete", data: JSON.stringify({ type: "complete", response }) })
+    })
+  })
+
+  app.post("/analyze", async (c) => {
+    const body: unknown = await c.req.json()
+    if (!isRecord(body) || typeof body.analysis_type !== "string" || !ANALYSIS_TYPES.includes(body.analysis_type)) {
+      return c.json({ error: `analysis_type must be one of ${ANALYSIS_TYPES.join(", ")}` }, 422)
+    }
+    const context = isRecord(body.context) ? body.context : {}
+    const condition = typeof context.condition === "string" ? context.condition : "the condition"
+    return c.json({
+      analysis_type: body.analysis_type,
+      patient_context: context,
+      findings: [
+        { category: "summary", finding: `No acute concerns identified for ${condition}`, confidence: 0.8 },
+      ],
+      recommendations: [
+        { action: "Continue routine monitoring", priority: "medium", rationale: "Fake BAML analysis" },
+      ],
+      follow_up_questions: ["Any new symptoms since the last visit?"],
+    })
+  })
+
+  app.post("/literature-query", async (c) => {
+    const body: unknown = await c.req.json()
+    if (!isRecord(body) || typeof body.query !== "string") {
+      return c.json({ error: "query is required" }, 422)
+    }
+    const context = isRecord(body.context) ? body.context : {}
+    const terms = [body.query, context.condition].filter((term) => typeof term === "string")
+    return c.json({ query: terms.map((term) => `"${term}"`).join(" AND ") })
+  })
+
+  app.post("/synthesize", async (c) => {
+    const body: unknown = await c.req.json()
+    if (!isRecord(body) || !Array.isArray(body.citations)) {
+      return c.json({ error: "citations must be an array" }, 422)
+    }
+    const titles = body.citations.map((citation) => (isRecord(citation) ? String(citation.title) : "untitled"))
+    return c.json({
+      synthesis: titles.length
+        ? `Synthesis of ${titles.length} source(s): ${titles.join("; ")}`
+        : "No sources to synthesize",
+    })
+  })
+
+  // The previous summary followed by the first words of each message
+  app.post("/summarize", async (c) => {
+    const body: unknown = await c.req.json()
+    if (!isRecord(body) || !Array.isArray(body.messages)) {
+      return c.json({ error: "messages must be an array" }, 422)
+    }
+    const contents = body.messages.map((message) => (isRecord(message) ? String(message.content) : ""))
+    const lines = contents.map((content) => content.split(/\s+/).slice(0, 12).join(" "))
+    const previous = typeof body.previous_summary === "string" ? [body.previous_summary] : []
+    const mentioned = Object.keys(SUMMARY_TERMS).filter((term) =>
+      contents.some((content) => content.toLowerCase().includes(term))
+    )
+    return c.json({
+      summary: [...previous, ...lines].join("\n"),
+      key_topics: mentioned,
+      entities: mentioned.map((term) => ({ type: SUMMARY_TERMS[term], value: term })),
+    })
+  })
+
+  // The rule-based classification the API falls back on
+  app.post("/classify", async (c) => {
+    const body: unknown = await c.req.json()
+    if (!isRecord(body) || typeof body.content !== "string") {
+      return c.json({ error: "content is required" }, 422)
+    }
+    return c.json(classifyMessage(body.content))
+  })
+
+  return app
+}
+
+if (import.meta.main) {
+  const port = Number(process.env.FAKE_BAML_PORT ?? 3002)
+  const app = createFakeBamlApp({
+    delayMs: Number(process.env.FAKE_BAML_DELAY_MS ?? 0),
+    failFirst: Number(process.env.FAKE_BAML_FAIL_FIRST ?? 0),
+    apiKey: process.env.FAKE_BAML_API_KEY,
+  })
+  serve({ fetch: app.fetch, port }, () => {
+    console.log(`Fake BAML service listening on http://localhost:${port}`)
+  })
+}
@@ -0,0 +1,17 @@
+#!/usr/bin/env bun
+/**
+ * Generate Postgres RLS policies
+ * --------------------------------------------------
+ * Prints the schema migrations the API needs, then the row level security
+ * policies derived from the API permission matrix so the database enforces
+ * the same rules as the route guards.
+ *
+ * Usage:
+ *   bun run cli/generate-rls.ts > supabase/policies.sql
+ */
+
+import { renderMigrationSql } from "../src/lib/migrations.js"
+import { renderRlsSql } from "../src/lib/rls.js"
+
+console.log(renderMigrationSql())
+console.log(renderRlsSql())
@@ -0,0 +1,15 @@
+#!/usr/bin/env bun
+/**
+ * Generate the pgvector schema
+ * --------------------------------------------------
+ * Prints the tables and search functions VECTOR_BACKEND=pgvector uses,
+ * sized for EMBEDDING_DIMENSIONS (default 1536).
+ *
+ * Usage:
+ *   bun run cli/generate-vector-schema.ts > supabase/vector.sql
+ */
+
+import { renderVectorSchemaSql } from "../src/lib/pgvector-schema.js"
+import { loadEmbeddingConfig } from "../src/services/embeddings.js"
+
+console.log(renderVectorSchemaSql(loadEmbeddingConfig().dimensions))
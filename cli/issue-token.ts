@@ -0,0 +1,21 @@
+#!/usr/bin/env bun
+/**
+ * Issue a locally signed access token
+ * --------------------------------------------------
+ * Signs an HS256 token with JWT_SECRET so the API can be exercised without
+ * going through Supabase Auth.
+ *
+ * Usage:
+ *   bun run cli/issue-token.ts <user_id> [role] [organization_id]
+ */
+
+import { signAccessToken } from "../src/lib/auth.js"
+
+const [userId = crypto.randomUUID(), role = "clinician", organizationId] = process.argv.slice(2)
+
+const token = await signAccessToken({
+  sub: userId,
+  app_metadata: organizationId ? { role, organization_id: organizationId } : { role },
+})
+
+console.log(token)
@@ -1,14 +1,17 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
+import { HTTPException } from 'hono/http-exception'
 import { serve } from '@hono/node-server'
 import routes from './routes/index.js'
+import { repositories } from './repositories/index.js'
+import { codeExecutor } from './services/code-executor.js'
 
 const app = new Hono()
 
 // CORS middleware
 app.use('/*', cors({
   origin: ['http://localhost:5173', 'http://localhost:3000'], // Add your frontend URLs
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization'],
 }))
 
@@ -35,6 +38,22 @@ app.route('/', routes)
 
 // Global error handler
 app.onError((err, c) => {
+  // Raised by the validation middleware for malformed JSON or form bodies
+  if (err instanceof HTTPException && err.status < 500) {
+    return c.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: err.message,
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        request_id: crypto.randomUUID(),
+        processing_time_ms: 0,
+      },
+    }, err.status)
+  }
+
   console.error('Unhandled error:', err)
   
   return c.json({
@@ -67,10 +86,45 @@ app.notFound((c) => {
   }, 404)
 })
 
+// Deactivate medications whose end_date has passed, at startup and then hourly
+const MEDICATION_SWEEP_INTERVAL_MS = 60 * 60 * 1000
+
+const sweepMedications = () => {
+  repositories.medications.deactivateExpired().catch((error) => {
+    console.error('Medication deactivation sweep failed:', error)
+  })
+}
+
+sweepMedications()
+setInterval(sweepMedications, MEDICATION_SWEEP_INTERVAL_MS).unref()
+
+// Jobs and workflows this instance left pending or running were lost with its
+// previous process
+repositories.toolExecutions.failUnfinished('Interrupted by a server restart').catch((error) => {
+  console.error('Failed to close out interrupted jobs:', error)
+})
+repositories.workflowExecutions.failUnfinished('Interrupted by a server restart').catch((error) => {
+  console.error('Failed to close out interrupted workflows:', error)
+})
+
+// Destroy expired and idle sandbox sessions
+codeExecutor.sessions.startReaper()
+
 const port = Number(process.env.PORT) || 3001
 console.log(`🚀 AngstromSCD API starting on port ${port}`)
 
-serve({
+const server = serve({
   fetch: app.fetch,
   port,
 })
+
+// Stop accepting requests and release sandbox sessions before exiting
+process.once('SIGTERM', () => {
+  console.log('SIGTERM received, shutting down')
+  server.close()
+  codeExecutor.cleanup()
+    .catch((error) => {
+      console.error('Sandbox session cleanup failed:', error)
+    })
+    .finally(() => process.exit(0))
+})
@@ -0,0 +1,98 @@
+import { decode, sign, verify, verifyWithJwks } from 'hono/jwt'
+import { JwtTokenExpired } from 'hono/utils/jwt/types'
+import { ApiError } from './errors.js'
+import { ERROR_CODES, HTTP_STATUS } from '../types/index.js'
+
+// Claims read from Supabase-issued and locally signed access tokens
+export interface AccessTokenClaims {
+  sub: string
+  email?: string
+  role?: string
+  organization_id?: string
+  app_metadata?: {
+    role?: string
+    organization_id?: string
+    [key: string]: unknown
+  }
+  exp?: number
+  iat?: number
+  iss?: string
+  [key: string]: unknown
+}
+
+const SUPABASE_URL = process.env.SUPABASE_URL
+const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET
+const JWT_SECRET = process.env.JWT_SECRET
+
+// Default lifetime for locally signed tokens
+const LOCAL_TOKEN_TTL_SECONDS = 60 * 60
+
+function unauthorized(code: typeof ERROR_CODES.INVALID_TOKEN | typeof ERROR_CODES.TOKEN_EXPIRED, message: string) {
+  return new ApiError(code, message, HTTP_STATUS.UNAUTHORIZED)
+}
+
+// Verify a bearer token. HS256 tokens are checked against the Supabase project
+// secret and the API's own JWT_SECRET, asymmetric tokens against the Supabase
+// JWKS endpoint.
+export async function verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+  let header: ReturnType<typeof decode>['header']
+  try {
+    header = decode(token).header
+  } catch {
+    throw unauthorized(ERROR_CODES.INVALID_TOKEN, 'Malformed access token')
+  }
+
+  let payload: Record<string, unknown> | undefined
+
+  if (header.alg === 'HS256') {
+    const secrets = [SUPABASE_JWT_SECRET, JWT_SECRET].filter((secret): secret is string => !!secret)
+    if (secrets.length === 0) {
+      throw unauthorized(ERROR_CODES.INVALID_TOKEN, 'No JWT secret configured to verify HS256 tokens')
+    }
+
+    for (const secret of secrets) {
+      try {
+        payload = await verify(token, secret, 'HS256')
+        break
+      } catch (error) {
+        if (error instanceof JwtTokenExpired) {
+          throw unauthorized(ERROR_CODES.TOKEN_EXPIRED, 'Access token has expired')
+        }
+      }
+    }
+  } else if (SUPABASE_URL) {
+    try {
+      payload = await verifyWithJwks(token, {
+        jwks_uri: `${SUPABASE_URL}/auth/v1/.well-known/jwks.json`,
+        allowedAlgorithms: ['RS256', 'ES256'],
+      })
+    } catch (error) {
+      if (error instanceof JwtTokenExpired) {
+        throw unauthorized(ERROR_CODES.TOKEN_EXPIRED, 'Access token has expired')
+      }
+    }
+  }
+
+  if (!payload) {
+    throw unauthorized(ERROR_CODES.INVALID_TOKEN, 'Access token signature could not be verified')
+  }
+  if (typeof payload.sub !== 'string' || payload.sub === '') {
+    throw unauthorized(ERROR_CODES.INVALID_TOKEN, 'Access token has no subject')
+  }
+
+  return payload as AccessTokenClaims
+}
+
+// Issue an HS256 token signed with JWT_SECRET, for service-to-service calls
+// and local development
+export async function signAccessToken(
+  claims: Omit<AccessTokenClaims, 'exp' | 'iat'>,
+  ttlSeconds = LOCAL_TOKEN_TTL_SECONDS
+): Promise<string> {
+  if (!JWT_SECRET) {
+    throw new Error('JWT_SECRET is not configured')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  return sign({ ...claims, iat: now, exp: now + ttlSeconds }, JWT_SECRET, 'HS256')
+}
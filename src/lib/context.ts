@@ -0,0 +1,27 @@
+import type { Context } from 'hono'
+import { ApiError } from './errors.js'
+import { ERROR_CODES, HTTP_STATUS, type RequestContext } from '../types/index.js'
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    requestContext: RequestContext
+  }
+}
+
+// Per-request context built by the requestContext and authenticate middleware
+export function getRequestContext(c: Context): RequestContext {
+  const context = c.get('requestContext')
+  if (!context) {
+    throw new Error('Request context middleware is not installed')
+  }
+  return context
+}
+
+// Context of an authenticated request, with user_id guaranteed
+export function requireUser(c: Context): RequestContext & { user_id: string } {
+  const context = getRequestContext(c)
+  if (!context.user_id) {
+    throw new ApiError(ERROR_CODES.UNAUTHORIZED, 'Authentication required', HTTP_STATUS.UNAUTHORIZED)
+  }
+  return context as RequestContext & { user_id: string }
+}
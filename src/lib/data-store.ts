@@ -0,0 +1,52 @@
+import type { PaginatedResponse } from '../types/index.js'
+
+// Storage abstraction used by the repositories. DatabaseService implements it
+// against Supabase and InMemoryDataStore implements it for local development
+// and tests, so the routes never talk to a specific backend directly.
+
+// Equality filters. Array values match any of the listed values, undefined and
+// null values are ignored, and a RelatedFilter matches through a foreign key.
+export type QueryFilters = Record<string, unknown>
+
+// Matches rows whose column references a row of `table` matching `filters`.
+// Stores resolve it with a join, so the referenced ids are never listed.
+export class RelatedFilter {
+  constructor(
+    readonly table: string,
+    readonly filters: QueryFilters
+  ) {}
+}
+
+export interface RangeFilter {
+  column: string
+  gte?: string | number
+  lte?: string | number
+}
+
+export interface QueryOptions {
+  filters?: QueryFilters
+  // Access-control filters from lib/permissions.ts. Applied in addition to
+  // `filters` so callers cannot widen them; an empty array matches nothing.
+  scope?: QueryFilters
+  ranges?: RangeFilter[]
+  orderBy?: string
+  orderDirection?: 'asc' | 'desc'
+  limit?: number
+}
+
+export interface PaginateOptions extends QueryOptions {
+  page: number
+  pageSize: number
+}
+
+export type StoredRecord = Record<string, unknown>
+
+export interface DataStore {
+  insert<T = StoredRecord>(table: string, record: StoredRecord): Promise<T>
+  batchInsert<T = StoredRecord>(table: string, records: StoredRecord[]): Promise<T[]>
+  findById<T = StoredRecord>(table: string, id: string): Promise<T | null>
+  findMany<T = StoredRecord>(table: string, options?: QueryOptions): Promise<T[]>
+  paginate<T = StoredRecord>(table: string, options: PaginateOptions): Promise<PaginatedResponse<T>>
+  update<T = StoredRecord>(table: string, id: string, changes: StoredRecord): Promise<T | null>
+  delete(table: string, id: string): Promise<boolean>
+}
@@ -1,4 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { RelatedFilter, type DataStore, type PaginateOptions, type QueryFilters, type QueryOptions, type StoredRecord } from './data-store.js'
+import type { PaginatedResponse } from '../types/index.js'
 
 // Environment variables
 const SUPABASE_URL = process.env.SUPABASE_URL
@@ -68,8 +70,41 @@ export async function checkDatabaseConnection(): Promise<{
   }
 }
 
+// Related filters are selected as inner-joined embeds under this prefix, which
+// limits the rows to those whose referenced row matches, and are removed from
+// the rows returned
+const JOIN_PREFIX = 'scope_'
+
+// PostgREST embeds and filter paths for a list of filters
+function joinFilters(filters: [string, unknown][], path = ''): { embeds: string[]; conditions: [string, unknown][] } {
+  const embeds: string[] = []
+  const conditions: [string, unknown][] = []
+
+  for (const [key, value] of filters) {
+    if (value === undefined || value === null) {
+      continue
+    }
+    if (value instanceof RelatedFilter) {
+      const alias = `${JOIN_PREFIX}${key}`
+      const nested = joinFilters(Object.entries(value.filters), `${path}${alias}.`)
+      embeds.push(`${alias}:${value.table}!${key}!inner(${['id', ...nested.embeds].join(',')})`)
+      conditions.push(...nested.conditions)
+    } else {
+      conditions.push([`${path}${key}`, value])
+    }
+  }
+
+  return { embeds, conditions }
+}
+
+function withoutJoins<T>(rows: unknown[] | null): T[] {
+  return (rows ?? []).map((row) =>
+    Object.fromEntries(Object.entries(row as StoredRecord).filter(([key]) => !key.startsWith(JOIN_PREFIX)))
+  ) as T[]
+}
+
 // Database utility functions
-export class DatabaseService {
+export class DatabaseService implements DataStore {
   private client: SupabaseClient
   
   constructor(useAdmin = false) {
@@ -85,61 +120,137 @@ export class DatabaseService {
     return this.client.from(table)
   }
   
-  // Batch operations
-  async batchInsert(table: string, records: Record<string, unknown>[]) {
+  // Select query with equality/IN filters, ranges, ordering and limit applied
+  private buildQuery(table: string, options: QueryOptions, withCount = false) {
+    const { filters, scope, ranges, orderBy, orderDirection = 'desc', limit } = options
+    const { embeds, conditions } = joinFilters([...Object.entries(filters ?? {}), ...Object.entries(scope ?? {})])
+    
+    let query = this.client
+      .from(table)
+      .select(['*', ...embeds].join(','), withCount ? { count: 'exact' } : undefined)
+    
+    for (const [key, value] of conditions) {
+      query = Array.isArray(value) ? query.in(key, value) : query.eq(key, value)
+    }
+    
+    for (const { column, gte, lte } of ranges ?? []) {
+      if (gte !== undefined) {
+        query = query.gte(column, gte)
+      }
+      if (lte !== undefined) {
+        query = query.lte(column, lte)
+      }
+    }
+    
+    if (orderBy) {
+      query = query.order(orderBy, { ascending: orderDirection === 'asc' })
+    }
+    
+    if (limit) {
+      query = query.limit(limit)
+    }
+    
+    return query
+  }
+  
+  // Single record operations
+  async insert<T = StoredRecord>(table: string, record: StoredRecord): Promise<T> {
     const { data, error } = await this.client
       .from(table)
-      .insert(records)
+      .insert(record)
       .select()
+      .single()
     
     if (error) {
-      throw new Error(`Batch insert failed: ${error.message}`)
+      throw new Error(`Insert failed: ${error.message}`)
     }
     
-    return data
+    return data as T
   }
   
-  // Pagination helper
-  async paginate(
-    table: string,
-    options: {
-      page: number
-      pageSize: number
-      orderBy?: string
-      orderDirection?: 'asc' | 'desc'
-      filters?: Record<string, unknown>
+  async findById<T = StoredRecord>(table: string, id: string): Promise<T | null> {
+    const { data, error } = await this.client
+      .from(table)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+    
+    if (error) {
+      throw new Error(`Lookup failed: ${error.message}`)
     }
-  ) {
-    const { page, pageSize, orderBy, orderDirection = 'desc', filters } = options
-    const offset = (page - 1) * pageSize
     
-    let query = this.client
+    return (data as T | null) ?? null
+  }
+  
+  async update<T = StoredRecord>(table: string, id: string, changes: StoredRecord): Promise<T | null> {
+    const { data, error } = await this.client
       .from(table)
-      .select('*', { count: 'exact' })
-      .range(offset, offset + pageSize - 1)
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .maybeSingle()
     
-    // Apply filters
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          query = query.eq(key, value)
-        }
-      })
+    if (error) {
+      throw new Error(`Update failed: ${error.message}`)
     }
     
-    // Apply ordering
-    if (orderBy) {
-      query = query.order(orderBy, { ascending: orderDirection === 'asc' })
+    return (data as T | null) ?? null
+  }
+  
+  async delete(table: string, id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from(table)
+      .delete()
+      .eq('id', id)
+      .select('id')
+    
+    if (error) {
+      throw new Error(`Delete failed: ${error.message}`)
+    }
+    
+    return (data?.length ?? 0) > 0
+  }
+  
+  // Batch operations
+  async batchInsert<T = StoredRecord>(table: string, records: StoredRecord[]): Promise<T[]> {
+    const { data, error } = await this.client
+      .from(table)
+      .insert(records)
+      .select()
+    
+    if (error) {
+      throw new Error(`Batch insert failed: ${error.message}`)
     }
     
-    const { data, error, count } = await query
+    return (data || []) as T[]
+  }
+  
+  // Unpaginated query with filters, ranges and ordering
+  async findMany<T = StoredRecord>(table: string, options: QueryOptions = {}): Promise<T[]> {
+    const { data, error } = await this.buildQuery(table, options)
+    
+    if (error) {
+      throw new Error(`Query failed: ${error.message}`)
+    }
+    
+    return withoutJoins<T>(data)
+  }
+  
+  // Pagination helper
+  async paginate<T = StoredRecord>(table: string, options: PaginateOptions): Promise<PaginatedResponse<T>> {
+    const { page, pageSize } = options
+    const offset = (page - 1) * pageSize
+    
+    const { data, error, count } = await this
+      .buildQuery(table, { ...options, limit: undefined }, true)
+      .range(offset, offset + pageSize - 1)
     
     if (error) {
       throw new Error(`Pagination query failed: ${error.message}`)
     }
     
     return {
-      data: data || [],
+      data: withoutJoins<T>(data),
       total_count: count || 0,
       page,
       page_size: pageSize,
@@ -155,24 +266,14 @@ export class DatabaseService {
     options?: {
       limit?: number
       filters?: Record<string, unknown>
+      scope?: QueryFilters
     }
   ) {
-    const { limit = 50, filters } = options || {}
+    const { limit = 50, filters, scope } = options || {}
     
-    let query = this.client
-      .from(table)
-      .select('*')
+    const query = this
+      .buildQuery(table, { filters, scope, limit })
       .ilike(searchColumn, `%${searchTerm}%`)
-      .limit(limit)
-    
-    // Apply additional filters
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          query = query.eq(key, value)
-        }
-      })
-    }
     
     const { data, error } = await query
     
@@ -180,7 +281,7 @@ export class DatabaseService {
       throw new Error(`Search query failed: ${error.message}`)
     }
     
-    return data || []
+    return withoutJoins<StoredRecord>(data)
   }
 }
 
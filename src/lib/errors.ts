@@ -0,0 +1,35 @@
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+import { ERROR_CODES, HTTP_STATUS, type ErrorCode } from '../types/index.js'
+
+// Error carrying an API error code and HTTP status so route handlers can
+// translate domain failures into a consistent ApiResponse
+export class ApiError extends Error {
+  readonly code: ErrorCode
+  readonly status: ContentfulStatusCode
+  readonly details?: Record<string, unknown>
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    status: ContentfulStatusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR,
+    details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.status = status
+    this.details = details
+  }
+}
+
+export function notFound(resource: string, id: string, code: ErrorCode = ERROR_CODES.RESOURCE_NOT_FOUND): ApiError {
+  return new ApiError(code, `${resource} ${id} not found`, HTTP_STATUS.NOT_FOUND, { resource, id })
+}
+
+export function databaseError(message: string): ApiError {
+  return new ApiError(ERROR_CODES.DATABASE_ERROR, message, HTTP_STATUS.INTERNAL_SERVER_ERROR)
+}
+
+export function forbidden(message: string): ApiError {
+  return new ApiError(ERROR_CODES.FORBIDDEN, message, HTTP_STATUS.FORBIDDEN)
+}
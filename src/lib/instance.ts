@@ -0,0 +1,12 @@
+import { hostname } from 'node:os'
+
+// Identifies this server among the instances sharing a database. Rows run by
+// the in-process job queue and workflow runner record it, so a restart only
+// closes out the work it was doing itself. The hostname stays the same across
+// restarts of a container while a rolling deploy's replacements get new ones;
+// set INSTANCE_ID where hosts share a name.
+export function loadInstanceId(env: NodeJS.ProcessEnv = process.env): string {
+  return env.INSTANCE_ID || hostname()
+}
+
+export const instanceId = loadInstanceId()
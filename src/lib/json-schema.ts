@@ -0,0 +1,112 @@
+import { z } from 'zod'
+
+// JSON Schema for the Zod schemas that describe tool inputs, so the model is
+// shown the same constraints the input is validated against. Covers the
+// types those schemas use; anything else is left unconstrained.
+
+export type JsonSchema = Record<string, unknown>
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' }
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'uuid':
+        json.format = 'uuid'
+        break
+      case 'datetime':
+        json.format = 'date-time'
+        break
+      case 'min':
+        json.minLength = check.value
+        break
+      case 'max':
+        json.maxLength = check.value
+        break
+    }
+  }
+  return json
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: 'number' }
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer'
+        break
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+        break
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+        break
+    }
+  }
+  return json
+}
+
+function objectSchema(schema: z.ZodObject<z.ZodRawShape>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+  for (const [key, value] of Object.entries(schema.shape)) {
+    properties[key] = toJsonSchema(value)
+    if (!value.isOptional()) {
+      required.push(key)
+    }
+  }
+  return {
+    type: 'object',
+    properties,
+    ...(required.length ? { required } : {}),
+    ...(schema._def.unknownKeys === 'passthrough' ? {} : { additionalProperties: false }),
+  }
+}
+
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description ? { description: schema.description } : {}
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema._def.innerType), ...description }
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [toJsonSchema(schema.unwrap()), { type: 'null' }], ...description }
+  }
+  if (schema instanceof z.ZodEffects) {
+    return { ...toJsonSchema(schema.innerType()), ...description }
+  }
+  if (schema instanceof z.ZodObject) {
+    return { ...objectSchema(schema), ...description }
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def
+    return {
+      type: 'array',
+      items: toJsonSchema(schema.element),
+      ...(minLength ? { minItems: minLength.value } : {}),
+      ...(maxLength ? { maxItems: maxLength.value } : {}),
+      ...description,
+    }
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema), ...description }
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(toJsonSchema), ...description }
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options, ...description }
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value, ...description }
+  }
+  if (schema instanceof z.ZodString) {
+    return { ...stringSchema(schema), ...description }
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { ...numberSchema(schema), ...description }
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean', ...description }
+  }
+  return description
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test'
+import { evaluateMedicationRules } from './medication-rules.js'
+import type { LabResultsTable, MedicationsTable } from '../types/index.js'
+
+const now = new Date('2026-06-01T00:00:00.000Z')
+
+function medication(medication_name: string, overrides: Partial<MedicationsTable> = {}): MedicationsTable {
+  return {
+    id: crypto.randomUUID(),
+    patient_id: 'patient-1',
+    medication_name,
+    dosage: '1 tablet',
+    frequency: 'daily',
+    start_date: '2026-01-01T00:00:00.000Z',
+    active: true,
+    created_by: 'clinician-1',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function cbc(test_date: string): LabResultsTable {
+  return {
+    id: crypto.randomUUID(),
+    patient_id: 'patient-1',
+    test_date,
+    hemoglobin: 9.1,
+    created_by: 'clinician-1',
+    created_at: test_date,
+    updated_at: test_date,
+  } as LabResultsTable
+}
+
+function ruleIds(medications: MedicationsTable[], labs: LabResultsTable[] = []) {
+  return evaluateMedicationRules({ medications, labs, now }).map((finding) => finding.rule_id)
+}
+
+describe('evaluateMedicationRules', () => {
+  test('flags hydroxyurea without a CBC in the last 90 days', () => {
+    const medications = [medication('Hydroxyurea 500mg'), medication('Folic acid')]
+
+    expect(ruleIds(medications)).toEqual(['hydroxyurea_cbc_monitoring'])
+    expect(ruleIds(medications, [cbc('2026-01-15T00:00:00.000Z')])).toEqual(['hydroxyurea_cbc_monitoring'])
+    expect(ruleIds(medications, [cbc('2026-04-15T00:00:00.000Z')])).toEqual([])
+  })
+
+  test('flags two active opioids', () => {
+    const findings = evaluateMedicationRules({
+      medications: [medication('Morphine ER'), medication('Oxycodone'), medication('Folate')],
+      labs: [],
+      now,
+    })
+    expect(findings).toHaveLength(1)
+    expect(findings[0]).toMatchObject({ rule_id: 'duplicate_opioid_therapy', severity: 'high' })
+    expect(findings[0]?.evidence.map((item) => item.value)).toEqual(['Morphine ER', 'Oxycodone'])
+  })
+
+  test('flags missing folic acid', () => {
+    expect(ruleIds([])).toEqual(['missing_folic_acid'])
+  })
+
+  test('ignores inactive medications', () => {
+    const medications = [medication('Folic acid', { active: false }), medication('Hydrea', { active: false })]
+    expect(ruleIds(medications)).toEqual(['missing_folic_acid'])
+  })
+})
@@ -0,0 +1,137 @@
+import type { ClinicalInsightsTable, LabResultsTable, MedicationsTable } from '../types/index.js'
+
+// Rule-based medication review for SCD patients. Each rule inspects the
+// patient's active medications and recent labs and may return a finding,
+// which the medication repository stores as a clinical insight.
+
+export interface MedicationRuleInput {
+  medications: MedicationsTable[]
+  labs: LabResultsTable[]
+  now: Date
+}
+
+export type MedicationFinding = Pick<
+  ClinicalInsightsTable,
+  'title' | 'description' | 'severity' | 'actionable' | 'evidence'
+> & { rule_id: string }
+
+export interface MedicationRule {
+  id: string
+  evaluate(input: MedicationRuleInput): MedicationFinding | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Hydroxyurea requires a CBC at least every 3 months
+export const CBC_MONITORING_INTERVAL_DAYS = 90
+
+export const HYDROXYUREA_NAMES = ['hydroxyurea', 'hydroxycarbamide', 'hydrea', 'droxia', 'siklos']
+export const FOLIC_ACID_NAMES = ['folic acid', 'folate', 'folvite']
+export const OPIOID_NAMES = [
+  'morphine',
+  'hydromorphone',
+  'oxycodone',
+  'oxymorphone',
+  'hydrocodone',
+  'fentanyl',
+  'methadone',
+  'codeine',
+  'tramadol',
+  'tapentadol',
+  'buprenorphine',
+  'meperidine',
+]
+
+function matches(medication: MedicationsTable, names: string[]): boolean {
+  const name = medication.medication_name.toLowerCase()
+  return names.some((candidate) => name.includes(candidate))
+}
+
+// A CBC is any result reporting hemoglobin, WBC or platelets
+function isCbc(lab: LabResultsTable): boolean {
+  return [lab.hemoglobin, lab.white_blood_cell_count, lab.platelet_count].some((value) => typeof value === 'number')
+}
+
+const hydroxyureaMonitoring: MedicationRule = {
+  id: 'hydroxyurea_cbc_monitoring',
+  evaluate({ medications, labs, now }) {
+    const hydroxyurea = medications.find((medication) => matches(medication, HYDROXYUREA_NAMES))
+    if (!hydroxyurea) {
+      return null
+    }
+
+    const cutoff = now.getTime() - CBC_MONITORING_INTERVAL_DAYS * DAY_MS
+    const lastCbc = labs
+      .filter(isCbc)
+      .map((lab) => lab.test_date)
+      .sort()
+      .at(-1)
+    if (lastCbc && new Date(lastCbc).getTime() >= cutoff) {
+      return null
+    }
+
+    return {
+      rule_id: this.id,
+      title: 'Hydroxyurea without recent CBC monitoring',
+      description: `${hydroxyurea.medication_name} is active but no complete blood count has been recorded in the last ${CBC_MONITORING_INTERVAL_DAYS} days. Myelosuppression monitoring is required during hydroxyurea therapy.`,
+      severity: 'high',
+      actionable: true,
+      evidence: [
+        { source: 'medications', data_point: 'medication_name', value: hydroxyurea.medication_name },
+        { source: 'lab_results', data_point: 'last_cbc_date', value: lastCbc ?? 'none' },
+      ],
+    }
+  },
+}
+
+const duplicateOpioids: MedicationRule = {
+  id: 'duplicate_opioid_therapy',
+  evaluate({ medications }) {
+    const opioids = medications.filter((medication) => matches(medication, OPIOID_NAMES))
+    if (opioids.length < 2) {
+      return null
+    }
+
+    return {
+      rule_id: this.id,
+      title: 'Duplicate opioid therapy',
+      description: `${opioids.length} opioids are active at the same time (${opioids.map((medication) => medication.medication_name).join(', ')}). Review for additive respiratory depression risk.`,
+      severity: 'high',
+      actionable: true,
+      evidence: opioids.map((medication) => ({
+        source: 'medications',
+        data_point: 'medication_name',
+        value: medication.medication_name,
+      })),
+    }
+  },
+}
+
+const missingFolicAcid: MedicationRule = {
+  id: 'missing_folic_acid',
+  evaluate({ medications }) {
+    if (medications.some((medication) => matches(medication, FOLIC_ACID_NAMES))) {
+      return null
+    }
+
+    return {
+      rule_id: this.id,
+      title: 'Missing folic acid supplementation',
+      description: 'No active folic acid prescription. Daily folic acid is standard supportive care for chronic hemolysis in SCD.',
+      severity: 'medium',
+      actionable: true,
+      evidence: [{ source: 'medications', data_point: 'active_medication_count', value: medications.length }],
+    }
+  },
+}
+
+export const MEDICATION_RULES: MedicationRule[] = [hydroxyureaMonitoring, duplicateOpioids, missingFolicAcid]
+
+// Evaluate the rules against a patient's active medications
+export function evaluateMedicationRules(
+  input: MedicationRuleInput,
+  rules: MedicationRule[] = MEDICATION_RULES
+): MedicationFinding[] {
+  const active = { ...input, medications: input.medications.filter((medication) => medication.active) }
+  return rules.flatMap((rule) => rule.evaluate(active) ?? [])
+}
@@ -0,0 +1,141 @@
+import { RelatedFilter, type DataStore, type PaginateOptions, type QueryFilters, type QueryOptions, type StoredRecord } from './data-store.js'
+import type { PaginatedResponse } from '../types/index.js'
+
+// In-process DataStore used for local development and tests. Mirrors the
+// filtering, ordering and pagination semantics of DatabaseService without
+// requiring a Supabase project.
+export class InMemoryDataStore implements DataStore {
+  private tables: Map<string, Map<string, StoredRecord>> = new Map()
+
+  private table(name: string): Map<string, StoredRecord> {
+    let rows = this.tables.get(name)
+    if (!rows) {
+      rows = new Map()
+      this.tables.set(name, rows)
+    }
+    return rows
+  }
+
+  async insert<T = StoredRecord>(table: string, record: StoredRecord): Promise<T> {
+    const now = new Date().toISOString()
+    const row: StoredRecord = {
+      id: crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+      ...withoutUndefined(record),
+    }
+    const id = String(row.id)
+
+    const rows = this.table(table)
+    if (rows.has(id)) {
+      throw new Error(`Insert failed: duplicate key ${id} in ${table}`)
+    }
+    rows.set(id, row)
+
+    return structuredClone(row) as T
+  }
+
+  async batchInsert<T = StoredRecord>(table: string, records: StoredRecord[]): Promise<T[]> {
+    const inserted: T[] = []
+    for (const record of records) {
+      inserted.push(await this.insert<T>(table, record))
+    }
+    return inserted
+  }
+
+  async findById<T = StoredRecord>(table: string, id: string): Promise<T | null> {
+    const row = this.table(table).get(id)
+    return row ? (structuredClone(row) as T) : null
+  }
+
+  async findMany<T = StoredRecord>(table: string, options: QueryOptions = {}): Promise<T[]> {
+    const rows = this.query(table, options)
+    return (options.limit ? rows.slice(0, options.limit) : rows) as T[]
+  }
+
+  async paginate<T = StoredRecord>(table: string, options: PaginateOptions): Promise<PaginatedResponse<T>> {
+    const { page, pageSize } = options
+    const offset = (page - 1) * pageSize
+    const rows = this.query(table, options)
+
+    return {
+      data: rows.slice(offset, offset + pageSize) as T[],
+      total_count: rows.length,
+      page,
+      page_size: pageSize,
+      has_more: rows.length > offset + pageSize,
+    }
+  }
+
+  async update<T = StoredRecord>(table: string, id: string, changes: StoredRecord): Promise<T | null> {
+    const rows = this.table(table)
+    const existing = rows.get(id)
+    if (!existing) {
+      return null
+    }
+
+    const updated = { ...existing, ...withoutUndefined(changes), id }
+    rows.set(id, updated)
+    return structuredClone(updated) as T
+  }
+
+  async delete(table: string, id: string): Promise<boolean> {
+    return this.table(table).delete(id)
+  }
+
+  // Remove every stored row, useful between test cases
+  clear(): void {
+    this.tables.clear()
+  }
+
+  private query(table: string, options: QueryOptions): StoredRecord[] {
+    const { filters, scope, ranges, orderBy, orderDirection = 'desc' } = options
+
+    const rows = Array.from(this.table(table).values()).filter((row) => {
+      const matchesFilters = this.matches(row, filters ?? {}) && this.matches(row, scope ?? {})
+
+      const matchesRanges = (ranges ?? []).every(({ column, gte, lte }) => {
+        const value = row[column] as string | number | null | undefined
+        if (value === undefined || value === null) {
+          return false
+        }
+        return (gte === undefined || value >= gte) && (lte === undefined || value <= lte)
+      })
+
+      return matchesFilters && matchesRanges
+    })
+
+    if (orderBy) {
+      const direction = orderDirection === 'asc' ? 1 : -1
+      rows.sort((a, b) => compareValues(a[orderBy], b[orderBy]) * direction)
+    }
+
+    return rows.map((row) => structuredClone(row))
+  }
+
+  private matches(row: StoredRecord, filters: QueryFilters): boolean {
+    return Object.entries(filters).every(([key, value]) => {
+      if (value === undefined || value === null) {
+        return true
+      }
+      if (value instanceof RelatedFilter) {
+        const related = typeof row[key] === 'string' ? this.table(value.table).get(row[key] as string) : undefined
+        return !!related && this.matches(related, value.filters)
+      }
+      return Array.isArray(value) ? value.includes(row[key]) : row[key] === value
+    })
+  }
+}
+
+// Undefined values are dropped when Supabase serialises a payload to JSON
+function withoutUndefined(record: StoredRecord): StoredRecord {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined))
+}
+
+// Ordering compatible with Postgres defaults (NULLs sort last ascending)
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined || a === null) return 1
+  if (b === undefined || b === null) return -1
+  return (a as string | number) < (b as string | number) ? -1 : 1
+}
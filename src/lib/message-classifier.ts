@@ -0,0 +1,197 @@
+import { FOLIC_ACID_NAMES, HYDROXYUREA_NAMES, OPIOID_NAMES } from './medication-rules.js'
+import type { MessageClassification } from '../types/index.js'
+
+// Rule-based classification of a chat message: intent, entities with their
+// character offsets, sentiment and medical urgency. Used when the BAML
+// classifier is unavailable, and its red flags put a floor under the BAML
+// classifier's urgency. The vocabulary is specific to sickle cell disease.
+
+type Intent = MessageClassification['intent']
+type Urgency = NonNullable<MessageClassification['medical_urgency']>
+type Entity = MessageClassification['entities'][number]
+
+export const URGENCY_LEVELS: Urgency[] = ['low', 'medium', 'high', 'critical']
+
+const MEDICATIONS = [
+  ...HYDROXYUREA_NAMES,
+  ...FOLIC_ACID_NAMES,
+  ...OPIOID_NAMES,
+  'voxelotor',
+  'crizanlizumab',
+  'l-glutamine',
+  'penicillin',
+  'ibuprofen',
+  'ketorolac',
+  'acetaminophen',
+  'paracetamol',
+  'deferasirox',
+]
+
+const CONDITIONS = [
+  'sickle cell',
+  'vaso-occlusive',
+  'voe',
+  'pain crisis',
+  'acute chest syndrome',
+  'stroke',
+  'priapism',
+  'splenic sequestration',
+  'aplastic crisis',
+  'avascular necrosis',
+  'leg ulcer',
+  'pulmonary hypertension',
+  'anemia',
+  'fever',
+  'infection',
+]
+
+const LAB_VALUES = [
+  'hemoglobin',
+  'hematocrit',
+  'hbf',
+  'fetal hemoglobin',
+  'reticulocyte',
+  'white blood cell',
+  'wbc',
+  'platelet',
+  'ldh',
+  'lactate dehydrogenase',
+  'bilirubin',
+  'ferritin',
+  'creatinine',
+]
+
+const LOCATIONS = ['chest', 'abdomen', 'back', 'hip', 'joint', 'leg', 'arm', 'head', 'spleen']
+
+const DATE_PATTERN = /\b(\d{4}-\d{2}-\d{2}|today|yesterday|tonight|last (?:night|week|month))\b/gi
+
+// Checked in order; the first pattern that matches sets the urgency. Critical
+// is kept to symptoms happening now, since it alerts the care team.
+const URGENCY_RULES: Array<{ urgency: Urgency; pattern: RegExp }> = [
+  {
+    urgency: 'critical',
+    pattern:
+      /\b(can'?t breathe|cannot breathe|(?:difficulty|trouble) breathing|short(?:ness)? of breath|slurred speech|face (?:is )?drooping|(?:weak|numb)(?:ness)? on one side|having a stroke|unresponsive|unconscious|seizure|passed out|suicidal|kill myself|end my life|overdosed|took too many)\b/i,
+  },
+  {
+    urgency: 'high',
+    pattern:
+      /\b(fever|temperature of (?:38\.[5-9]|39|40)|chest pain|severe pain|worst pain|pain (?:is |at )?(?:8|9|10)\s*(?:\/|out of)\s*10|priapism|erection (?:that )?(?:won'?t|will not) go away|swollen (?:belly|abdomen|spleen)|yellow eyes|dark urine|sudden (?:vision|headache))\b/i,
+  },
+  {
+    urgency: 'medium',
+    pattern: /\b(pain|crisis|swelling|swollen|vomiting|dizzy|tired|fatigue|headache|jaundice)\b/i,
+  },
+]
+
+// Checked in order; the first pattern that matches sets the intent
+const INTENT_RULES: Array<{ intent: Intent; pattern: RegExp }> = [
+  { intent: 'code_execution', pattern: /\b(run|execute)\b.*\b(code|script|python|analysis)\b|```/i },
+  {
+    intent: 'literature_search',
+    pattern: /\b(studies|study|trials?|literature|papers?|evidence|guidelines?|research|publications?|meta-analysis)\b/i,
+  },
+  {
+    intent: 'data_analysis_request',
+    pattern: /\b(trends?|analy[sz]e|analysis|plot|chart|graph|compare|statistics|risk score|calculate)\b/i,
+  },
+  { intent: 'clarification', pattern: /\b(what do you mean|clarify|explain (?:that|what)|i don'?t understand)\b/i },
+  { intent: 'follow_up', pattern: /^(and|also|what about|how about|then|so)\b/i },
+]
+
+const NEGATIVE = /\b(worse|worried|scared|afraid|pain|hurts?|bad|awful|terrible|can'?t)\b/i
+const POSITIVE = /\b(better|improved|improving|thanks|thank you|great|good news|relieved)\b/i
+
+function escapeRegExp(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Every whole-word occurrence of the terms, longest terms first so
+// "fetal hemoglobin" is matched whole
+function findTerms(content: string, type: Entity['type'], terms: string[]): Entity[] {
+  const sorted = [...new Set(terms)].sort((a, b) => b.length - a.length)
+  const pattern = new RegExp(`\\b(${sorted.map(escapeRegExp).join('|')})\\b`, 'gi')
+  return [...content.matchAll(pattern)].map((match) => ({
+    type,
+    value: match[0],
+    confidence: 0.9,
+    start_position: match.index,
+    end_position: match.index + match[0].length,
+  }))
+}
+
+export function extractEntities(content: string): Entity[] {
+  const dates = [...content.matchAll(DATE_PATTERN)].map((match) => ({
+    type: 'date' as const,
+    value: match[0],
+    confidence: 0.8,
+    start_position: match.index,
+    end_position: match.index + match[0].length,
+  }))
+  const found = [
+    ...findTerms(content, 'medication', MEDICATIONS),
+    ...findTerms(content, 'condition', CONDITIONS),
+    ...findTerms(content, 'lab_value', LAB_VALUES),
+    ...findTerms(content, 'location', LOCATIONS),
+    ...dates,
+  ].sort((a, b) => a.start_position - b.start_position || b.end_position - a.end_position)
+
+  // Where matches overlap, e.g. "chest" in "acute chest syndrome", the
+  // longer one wins
+  const entities: Entity[] = []
+  for (const entity of found) {
+    const previous = entities.at(-1)
+    if (!previous || entity.start_position >= previous.end_position) {
+      entities.push(entity)
+    }
+  }
+  return entities
+}
+
+export function classifyUrgency(content: string): Urgency {
+  return URGENCY_RULES.find((rule) => rule.pattern.test(content))?.urgency ?? 'low'
+}
+
+// The more urgent of two levels
+export function maxUrgency(a: Urgency, b: Urgency): Urgency {
+  return URGENCY_LEVELS.indexOf(a) >= URGENCY_LEVELS.indexOf(b) ? a : b
+}
+
+export function classifyMessage(content: string): MessageClassification {
+  const entities = extractEntities(content)
+  const urgency = classifyUrgency(content)
+  const mentionsMedicalTerms = entities.some((entity) => entity.type !== 'date')
+  const intent =
+    INTENT_RULES.find((rule) => rule.pattern.test(content))?.intent ??
+    (mentionsMedicalTerms || urgency !== 'low' ? 'medical_query' : 'general_question')
+
+  const sentiment =
+    urgency === 'critical' || urgency === 'high'
+      ? 'urgent'
+      : NEGATIVE.test(content)
+        ? 'negative'
+        : POSITIVE.test(content)
+          ? 'positive'
+          : 'neutral'
+
+  const requiresTools = [
+    ...(intent === 'literature_search' ? ['vector_search'] : []),
+    ...(intent === 'data_analysis_request' && entities.some((entity) => entity.type === 'lab_value')
+      ? ['lab_trend_analysis']
+      : []),
+    ...(/\b(voe|vaso-occlusive|pain crisis)\b/i.test(content) && /\brisk\b/i.test(content) ? ['voe_risk_analysis'] : []),
+  ]
+
+  // Longer messages naming more things take more work to answer
+  const words = content.split(/\s+/).filter(Boolean).length
+  const complexity = Math.min(1, words / 150 + entities.length * 0.05 + (requiresTools.length ? 0.2 : 0))
+
+  return {
+    intent,
+    entities,
+    sentiment,
+    complexity_score: Math.round(complexity * 100) / 100,
+    requires_tools: requiresTools.length ? requiresTools : undefined,
+    medical_urgency: urgency,
+  }
+}
@@ -0,0 +1,66 @@
+import { JOB_PRIORITIES, TABLE_NAMES, WorkflowExecutionSchema } from '../types/index.js'
+
+// Schema changes the API depends on beyond the original Supabase tables.
+// `bun run generate-rls` prints them ahead of the policies, which reference
+// their columns. Every statement can be run again safely.
+
+export interface Migration {
+  name: string
+  statements: string[]
+}
+
+const sqlList = (values: readonly string[]) => values.map((value) => `'${value}'`).join(', ')
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // Jobs submitted through /api/jobs have no message, are owned by the user
+    // who submitted them and record the instance whose queue runs them
+    name: 'tool_executions jobs',
+    statements: [
+      `alter table ${TABLE_NAMES.TOOL_EXECUTIONS} alter column message_id drop not null`,
+      `alter table ${TABLE_NAMES.TOOL_EXECUTIONS} add column if not exists user_id uuid`,
+      // Existing rows belong to whoever owns the thread of their message
+      `update ${TABLE_NAMES.TOOL_EXECUTIONS} executions set user_id = ${TABLE_NAMES.THREADS}.user_id
+  from ${TABLE_NAMES.MESSAGES}, ${TABLE_NAMES.THREADS}
+  where executions.user_id is null and executions.message_id = ${TABLE_NAMES.MESSAGES}.id
+    and ${TABLE_NAMES.THREADS}.id = ${TABLE_NAMES.MESSAGES}.thread_id`,
+      `alter table ${TABLE_NAMES.TOOL_EXECUTIONS} alter column user_id set not null`,
+      `alter table ${TABLE_NAMES.TOOL_EXECUTIONS} add column if not exists priority text check (priority in (${sqlList(JOB_PRIORITIES)}))`,
+      `alter table ${TABLE_NAMES.TOOL_EXECUTIONS} add column if not exists instance_id text`,
+      `create index if not exists ${TABLE_NAMES.TOOL_EXECUTIONS}_user_idx on ${TABLE_NAMES.TOOL_EXECUTIONS} (user_id, started_at)`,
+      `create index if not exists ${TABLE_NAMES.TOOL_EXECUTIONS}_instance_idx on ${TABLE_NAMES.TOOL_EXECUTIONS} (instance_id, execution_status)`,
+    ],
+  },
+  {
+    // Submitted workflows, with their steps and every step's result
+    name: 'workflow_executions',
+    statements: [
+      `create table if not exists ${TABLE_NAMES.WORKFLOW_EXECUTIONS} (
+  id uuid primary key,
+  workflow_id uuid not null,
+  user_id uuid not null,
+  name text not null,
+  description text,
+  steps jsonb not null,
+  context jsonb,
+  step_results jsonb not null default '[]'::jsonb,
+  overall_status text not null check (overall_status in (${sqlList(WorkflowExecutionSchema.shape.overall_status.options)})),
+  instance_id text,
+  error_message text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  completed_at timestamptz
+)`,
+      `create index if not exists ${TABLE_NAMES.WORKFLOW_EXECUTIONS}_user_idx on ${TABLE_NAMES.WORKFLOW_EXECUTIONS} (user_id, created_at)`,
+      `create index if not exists ${TABLE_NAMES.WORKFLOW_EXECUTIONS}_instance_idx on ${TABLE_NAMES.WORKFLOW_EXECUTIONS} (instance_id, overall_status)`,
+    ],
+  },
+]
+
+export function renderMigrationSql(migrations: Migration[] = MIGRATIONS): string {
+  const statements = ['-- Generated from MIGRATIONS in src/lib/migrations.ts. Do not edit by hand.', '']
+  for (const migration of migrations) {
+    statements.push(`-- ${migration.name}`, ...migration.statements.map((statement) => `${statement};`), '')
+  }
+  return statements.join('\n')
+}
@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test'
+import { RelatedFilter } from './data-store.js'
+import { InMemoryDataStore } from './memory-store.js'
+import {
+  applyScopeToRecord,
+  assertRecordAccess,
+  authorize,
+  getAccessScope,
+  resolveScopeFilters,
+} from './permissions.js'
+import { TABLE_NAMES, type RequestContext, type UserRole } from '../types/index.js'
+
+function context(role: UserRole, overrides: Partial<RequestContext> = {}): RequestContext {
+  return {
+    request_id: 'req-1',
+    timestamp: new Date().toISOString(),
+    user_id: `${role}-1`,
+    role,
+    organization_id: 'org-1',
+    ...overrides,
+  }
+}
+
+async function seed() {
+  const store = new InMemoryDataStore()
+  const ours = await store.insert<{ id: string }>(TABLE_NAMES.PATIENTS, { user_id: 'patient-1', organization_id: 'org-1' })
+  const theirs = await store.insert<{ id: string }>(TABLE_NAMES.PATIENTS, { user_id: 'patient-2', organization_id: 'org-2' })
+  await store.insert(TABLE_NAMES.LAB_RESULTS, { patient_id: ours.id, test_name: 'hemoglobin' })
+  await store.insert(TABLE_NAMES.LAB_RESULTS, { patient_id: theirs.id, test_name: 'ferritin' })
+  return { store, ours, theirs }
+}
+
+describe('authorize', () => {
+  test('returns the scope the matrix grants each role', () => {
+    expect(authorize(context('admin'), 'patients', 'delete')).toBe('all')
+    expect(authorize(context('clinician'), 'patients', 'read')).toBe('organization')
+    expect(authorize(context('researcher'), 'lab_results', 'read')).toBe('deidentified')
+    expect(authorize(context('patient'), 'patients', 'read')).toBe('own')
+  })
+
+  test('rejects actions outside the matrix with FORBIDDEN', () => {
+    expect(() => authorize(context('researcher'), 'patients', 'update')).toThrow(
+      expect.objectContaining({ code: 'FORBIDDEN', status: 403 })
+    )
+    expect(() => authorize(context('patient'), 'code_execution', 'create')).toThrow('may not create code_execution')
+  })
+
+  test('requires an organization for organization scope', () => {
+    expect(() => authorize(context('clinician', { organization_id: undefined }), 'patients', 'read')).toThrow(
+      'Organization membership is required'
+    )
+  })
+
+  test('grants nothing to anonymous callers', () => {
+    expect(getAccessScope(context('admin', { user_id: undefined }), 'patients', 'read')).toBeNull()
+  })
+})
+
+describe('resolveScopeFilters', () => {
+  test('filters owned and organization rows by their columns', async () => {
+    const store = new InMemoryDataStore()
+    expect(await resolveScopeFilters(store, context('patient'), 'threads', 'own')).toEqual({ user_id: 'patient-1' })
+    expect(await resolveScopeFilters(store, context('clinician'), 'patients', 'organization')).toEqual({
+      organization_id: 'org-1',
+    })
+    expect(await resolveScopeFilters(store, context('admin'), 'patients', 'all')).toEqual({})
+  })
+
+  test('restricts parent-owned rows through a join on the parent', async () => {
+    const { store, ours } = await seed()
+    const scope = await resolveScopeFilters(store, context('clinician'), 'lab_results', 'organization')
+
+    expect(scope.patient_id).toBeInstanceOf(RelatedFilter)
+    expect(scope.patient_id).toMatchObject({ table: TABLE_NAMES.PATIENTS, filters: { organization_id: 'org-1' } })
+
+    const labs = await store.findMany<{ patient_id: string }>(TABLE_NAMES.LAB_RESULTS, { scope })
+    expect(labs.map((lab) => lab.patient_id)).toEqual([ours.id])
+  })
+
+  test('restricts a patient to their own record and its children', async () => {
+    const { store } = await seed()
+    const scope = await resolveScopeFilters(store, context('patient'), 'lab_results', 'own')
+
+    const labs = await store.findMany<{ test_name: string }>(TABLE_NAMES.LAB_RESULTS, { scope })
+    expect(labs.map((lab) => lab.test_name)).toEqual(['hemoglobin'])
+  })
+})
+
+describe('assertRecordAccess', () => {
+  test('checks the row against the caller scope', async () => {
+    const { store, ours, theirs } = await seed()
+    const clinician = context('clinician')
+
+    expect(await assertRecordAccess(store, clinician, 'patients', 'read', ours)).toBe('organization')
+    await expect(assertRecordAccess(store, clinician, 'patients', 'read', theirs)).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+    })
+  })
+
+  test('follows parent rows for child resources', async () => {
+    const { store, theirs } = await seed()
+    const lab = { patient_id: theirs.id }
+
+    await expect(assertRecordAccess(store, context('clinician'), 'lab_results', 'read', lab)).rejects.toMatchObject({
+      status: 403,
+    })
+    expect(await assertRecordAccess(store, context('admin'), 'lab_results', 'read', lab)).toBe('all')
+  })
+})
+
+describe('applyScopeToRecord', () => {
+  test('strips identifying fields under the deidentified scope only', () => {
+    const patient = { id: 'p-1', user_id: 'u-1', medical_record_number: 'MRN-1', genotype: 'HbSS' }
+
+    expect(applyScopeToRecord<Record<string, unknown>>('patients', 'deidentified', patient)).toEqual({ id: 'p-1', genotype: 'HbSS' })
+    expect(applyScopeToRecord('patients', 'organization', patient)).toBe(patient)
+  })
+})
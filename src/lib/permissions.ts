@@ -0,0 +1,256 @@
+import { RelatedFilter, type DataStore, type QueryFilters, type StoredRecord } from './data-store.js'
+import { forbidden } from './errors.js'
+import { TABLE_NAMES, type RequestContext, type UserRole } from '../types/index.js'
+
+// Declarative role-based access control. The same matrix drives the route
+// guards, the query scoping applied to DataStore reads and the Postgres RLS
+// policies emitted by lib/rls.ts.
+
+export const RESOURCES = [
+  'patients',
+  'lab_results',
+  'voe_episodes',
+  'medications',
+  'clinical_insights',
+  'risk_assessments',
+  'threads',
+  'messages',
+  'tool_executions',
+  'workflow_executions',
+  'user_profiles',
+] as const
+
+// Resources served by other services rather than stored as rows in the tables
+// above. They are guarded by the API's routes only and get no RLS policies.
+export const SERVICE_RESOURCES = ['vector_collections', 'vector_documents', 'prompts', 'code_execution', 'sandbox_sessions'] as const
+
+export const ACTIONS = ['read', 'create', 'update', 'delete'] as const
+
+export type TableResource = typeof RESOURCES[number]
+export type ServiceResource = typeof SERVICE_RESOURCES[number]
+export type Resource = TableResource | ServiceResource
+export type Action = typeof ACTIONS[number]
+
+// Which rows a grant covers:
+// - all: every row
+// - organization: rows belonging to the user's organization
+// - own: rows belonging to the user
+// - deidentified: every row, with identifying fields removed
+export type AccessScope = 'all' | 'organization' | 'own' | 'deidentified'
+
+export type PermissionMatrix = Record<UserRole, Partial<Record<Resource, Partial<Record<Action, AccessScope>>>>>
+
+const FULL_ACCESS = { read: 'all', create: 'all', update: 'all', delete: 'all' } as const
+const OWN_ACCESS = { read: 'own', create: 'own', update: 'own', delete: 'own' } as const
+const ORGANIZATION_RECORDS = { read: 'organization', create: 'organization', update: 'organization', delete: 'organization' } as const
+
+export const PERMISSION_MATRIX: PermissionMatrix = {
+  admin: {
+    patients: FULL_ACCESS,
+    lab_results: FULL_ACCESS,
+    voe_episodes: FULL_ACCESS,
+    medications: FULL_ACCESS,
+    clinical_insights: FULL_ACCESS,
+    risk_assessments: FULL_ACCESS,
+    threads: FULL_ACCESS,
+    messages: FULL_ACCESS,
+    tool_executions: FULL_ACCESS,
+    workflow_executions: FULL_ACCESS,
+    user_profiles: FULL_ACCESS,
+    vector_collections: FULL_ACCESS,
+    vector_documents: FULL_ACCESS,
+    prompts: FULL_ACCESS,
+    code_execution: FULL_ACCESS,
+    sandbox_sessions: FULL_ACCESS,
+  },
+  clinician: {
+    patients: { read: 'organization', create: 'organization', update: 'organization' },
+    lab_results: ORGANIZATION_RECORDS,
+    voe_episodes: ORGANIZATION_RECORDS,
+    medications: ORGANIZATION_RECORDS,
+    clinical_insights: ORGANIZATION_RECORDS,
+    risk_assessments: ORGANIZATION_RECORDS,
+    threads: OWN_ACCESS,
+    messages: OWN_ACCESS,
+    tool_executions: OWN_ACCESS,
+    workflow_executions: OWN_ACCESS,
+    user_profiles: { read: 'organization', update: 'own' },
+    vector_collections: FULL_ACCESS,
+    vector_documents: FULL_ACCESS,
+    prompts: { create: 'own' },
+    code_execution: { create: 'own' },
+    sandbox_sessions: OWN_ACCESS,
+  },
+  researcher: {
+    patients: { read: 'deidentified' },
+    lab_results: { read: 'deidentified' },
+    voe_episodes: { read: 'deidentified' },
+    medications: { read: 'deidentified' },
+    risk_assessments: { read: 'deidentified' },
+    threads: OWN_ACCESS,
+    messages: OWN_ACCESS,
+    tool_executions: OWN_ACCESS,
+    workflow_executions: OWN_ACCESS,
+    user_profiles: { read: 'own', update: 'own' },
+    vector_collections: { read: 'all' },
+    vector_documents: { read: 'all' },
+    prompts: { create: 'own' },
+    code_execution: { create: 'own' },
+    sandbox_sessions: OWN_ACCESS,
+  },
+  patient: {
+    patients: { read: 'own' },
+    lab_results: { read: 'own' },
+    voe_episodes: { read: 'own', create: 'own' },
+    medications: { read: 'own' },
+    clinical_insights: { read: 'own' },
+    risk_assessments: { read: 'own' },
+    threads: OWN_ACCESS,
+    messages: OWN_ACCESS,
+    tool_executions: OWN_ACCESS,
+    user_profiles: { read: 'own', update: 'own' },
+  },
+}
+
+// How a resource's rows relate to users and organizations. Rows without
+// their own owner columns inherit ownership from a parent row.
+export interface ResourceOwnership {
+  table: string
+  ownerColumn?: string
+  organizationColumn?: string
+  parent?: { resource: TableResource; foreignKey: string }
+}
+
+export const RESOURCE_OWNERSHIP: Record<TableResource, ResourceOwnership> = {
+  patients: { table: TABLE_NAMES.PATIENTS, ownerColumn: 'user_id', organizationColumn: 'organization_id' },
+  lab_results: { table: TABLE_NAMES.LAB_RESULTS, parent: { resource: 'patients', foreignKey: 'patient_id' } },
+  voe_episodes: { table: TABLE_NAMES.VOE_EPISODES, parent: { resource: 'patients', foreignKey: 'patient_id' } },
+  medications: { table: TABLE_NAMES.MEDICATIONS, parent: { resource: 'patients', foreignKey: 'patient_id' } },
+  clinical_insights: { table: TABLE_NAMES.CLINICAL_INSIGHTS, parent: { resource: 'patients', foreignKey: 'patient_id' } },
+  risk_assessments: { table: TABLE_NAMES.RISK_ASSESSMENTS, parent: { resource: 'patients', foreignKey: 'patient_id' } },
+  threads: { table: TABLE_NAMES.THREADS, ownerColumn: 'user_id' },
+  messages: { table: TABLE_NAMES.MESSAGES, parent: { resource: 'threads', foreignKey: 'thread_id' } },
+  tool_executions: { table: TABLE_NAMES.TOOL_EXECUTIONS, ownerColumn: 'user_id' },
+  workflow_executions: { table: TABLE_NAMES.WORKFLOW_EXECUTIONS, ownerColumn: 'user_id' },
+  user_profiles: { table: TABLE_NAMES.USER_PROFILES, ownerColumn: 'id', organizationColumn: 'organization_id' },
+}
+
+// Fields removed from rows served under the deidentified scope
+export const IDENTIFYING_FIELDS: Partial<Record<TableResource, string[]>> = {
+  patients: ['user_id', 'medical_record_number', 'diagnosis_date', 'created_by'],
+  lab_results: ['notes', 'created_by'],
+  voe_episodes: ['notes', 'created_by'],
+  medications: ['prescriber', 'created_by'],
+  risk_assessments: ['created_by'],
+}
+
+export function getAccessScope(context: RequestContext, resource: Resource, action: Action): AccessScope | null {
+  if (!context.user_id || !context.role) {
+    return null
+  }
+  return PERMISSION_MATRIX[context.role][resource]?.[action] ?? null
+}
+
+// Resolve the caller's scope or fail with FORBIDDEN
+export function authorize(context: RequestContext, resource: Resource, action: Action): AccessScope {
+  const scope = getAccessScope(context, resource, action)
+  if (!scope) {
+    throw forbidden(`Role ${context.role ?? 'anonymous'} may not ${action} ${resource}`)
+  }
+  if (scope === 'organization' && !context.organization_id) {
+    throw forbidden(`Organization membership is required to ${action} ${resource}`)
+  }
+  return scope
+}
+
+// Equality filters restricting a query on `resource` to the rows the caller
+// may access. Parent-owned resources are restricted through a join on the
+// accessible parent rows.
+export async function resolveScopeFilters(
+  store: DataStore,
+  context: RequestContext,
+  resource: TableResource,
+  scope: AccessScope
+): Promise<QueryFilters> {
+  if (scope === 'all' || scope === 'deidentified') {
+    return {}
+  }
+
+  const ownership = RESOURCE_OWNERSHIP[resource]
+
+  if (ownership.parent) {
+    const { resource: parentResource, foreignKey } = ownership.parent
+    const parentFilters = await resolveScopeFilters(store, context, parentResource, scope)
+    return { [foreignKey]: new RelatedFilter(RESOURCE_OWNERSHIP[parentResource].table, parentFilters) }
+  }
+
+  if (scope === 'own' && ownership.ownerColumn) {
+    return { [ownership.ownerColumn]: context.user_id }
+  }
+  if (scope === 'organization' && ownership.organizationColumn) {
+    return { [ownership.organizationColumn]: context.organization_id }
+  }
+  // Organization scope on a user-owned resource falls back to ownership
+  if (ownership.ownerColumn) {
+    return { [ownership.ownerColumn]: context.user_id }
+  }
+
+  throw forbidden(`Scope ${scope} cannot be applied to ${resource}`)
+}
+
+// Check whether a single row falls inside the caller's scope
+export async function canAccessRecord(
+  store: DataStore,
+  context: RequestContext,
+  resource: TableResource,
+  scope: AccessScope,
+  record: StoredRecord
+): Promise<boolean> {
+  if (scope === 'all' || scope === 'deidentified') {
+    return true
+  }
+
+  const ownership = RESOURCE_OWNERSHIP[resource]
+
+  if (ownership.parent) {
+    const { resource: parentResource, foreignKey } = ownership.parent
+    const parentId = record[foreignKey]
+    if (typeof parentId !== 'string') {
+      return false
+    }
+    const parent = await store.findById<StoredRecord>(RESOURCE_OWNERSHIP[parentResource].table, parentId)
+    return parent ? canAccessRecord(store, context, parentResource, scope, parent) : false
+  }
+
+  if (scope === 'organization' && ownership.organizationColumn) {
+    return !!context.organization_id && record[ownership.organizationColumn] === context.organization_id
+  }
+  return !!ownership.ownerColumn && record[ownership.ownerColumn] === context.user_id
+}
+
+// Authorize an action on a specific row, failing with FORBIDDEN
+export async function assertRecordAccess(
+  store: DataStore,
+  context: RequestContext,
+  resource: TableResource,
+  action: Action,
+  record: StoredRecord
+): Promise<AccessScope> {
+  const scope = authorize(context, resource, action)
+  if (!(await canAccessRecord(store, context, resource, scope, record))) {
+    throw forbidden(`Access to ${resource}${record.id ? ` ${String(record.id)}` : ''} is not permitted`)
+  }
+  return scope
+}
+
+// Strip identifying fields from rows served under the deidentified scope
+export function applyScopeToRecord<T>(resource: TableResource, scope: AccessScope, record: T): T {
+  if (scope !== 'deidentified') {
+    return record
+  }
+
+  const identifying = IDENTIFYING_FIELDS[resource] ?? []
+  return Object.fromEntries(
+    Object.entries(record as StoredRecord).filter(([key]) => !identifying.includes(key))
+  ) as T
+}
@@ -0,0 +1,104 @@
+// Tables and functions behind VECTOR_BACKEND=pgvector. Scoring matches
+// lib/vector-search.ts: cosine similarity clamped to [0, 1], blended with
+// the share of query terms found in the content, and metadata filters with
+// the same equality, array membership and any-of rules. Searches score every
+// document in the collection, which suits the smaller deployments this
+// backend is meant for. Only the service role reads these tables, so row
+// level security is enabled without policies.
+
+export const VECTOR_TABLES = {
+  collections: 'vector_collections',
+  documents: 'vector_documents',
+} as const
+
+export const MATCH_VECTOR_DOCUMENTS = 'match_vector_documents'
+
+export function renderVectorSchemaSql(dimensions: number): string {
+  const { collections, documents } = VECTOR_TABLES
+  return `-- Generated by cli/generate-vector-schema.ts for ${dimensions}-dimension embeddings
+create extension if not exists vector;
+
+create table if not exists ${collections} (
+  name text primary key,
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists ${documents} (
+  id uuid primary key,
+  collection_name text not null references ${collections} (name) on delete cascade,
+  content text not null,
+  metadata jsonb,
+  embedding vector(${dimensions}) not null,
+  -- Split the way searchTerms() in lib/vector-search.ts splits
+  terms text[] generated always as (regexp_split_to_array(lower(content), '[^a-z0-9]+')) stored,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists ${documents}_collection_idx on ${documents} (collection_name, created_at);
+
+alter table ${collections} enable row level security;
+alter table ${documents} enable row level security;
+
+create or replace function vector_metadata_matches(metadata jsonb, filters jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(bool_and(exists (
+    select 1
+    from jsonb_array_elements(
+      case jsonb_typeof(f.value) when 'array' then f.value else jsonb_build_array(f.value) end
+    ) as expected (value)
+    where metadata -> f.key = expected.value
+      or (jsonb_typeof(metadata -> f.key) = 'array' and metadata -> f.key @> jsonb_build_array(expected.value))
+  )), true)
+  from jsonb_each(coalesce(filters, '{}'::jsonb)) as f
+$$;
+
+create or replace function ${MATCH_VECTOR_DOCUMENTS}(
+  query_embedding vector(${dimensions}),
+  query_terms text[],
+  collection text,
+  match_threshold double precision,
+  match_count integer,
+  filters jsonb default '{}'::jsonb,
+  keyword_weight double precision default 0,
+  include_embeddings boolean default false
+)
+returns table (
+  id uuid,
+  content text,
+  metadata jsonb,
+  embedding vector(${dimensions}),
+  similarity_score double precision
+)
+language sql
+stable
+as $$
+  select
+    scored.id,
+    scored.content,
+    scored.metadata,
+    case when include_embeddings then scored.embedding end,
+    scored.score
+  from (
+    select
+      d.*,
+      (1 - keyword_weight) * least(1, greatest(0, coalesce(nullif(1 - (d.embedding <=> query_embedding), 'NaN'), 0)))
+        + keyword_weight * case
+          when cardinality(query_terms) = 0 then 0
+          else (select count(*) from unnest(query_terms) as q (term) where q.term = any (d.terms))::double precision
+            / cardinality(query_terms)
+        end as score
+    from ${documents} d
+    where d.collection_name = collection
+      and vector_metadata_matches(d.metadata, filters)
+  ) as scored
+  where scored.score >= match_threshold
+  order by scored.score desc, scored.created_at
+  limit match_count
+$$;
+`
+}
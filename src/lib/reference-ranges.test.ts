@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test'
+import { DEFAULT_REFERENCE_RANGES, findReferenceRange, flagLabResult, loadReferenceRanges } from './reference-ranges.js'
+
+describe('findReferenceRange', () => {
+  test('picks the band for the patient age', () => {
+    expect(findReferenceRange('hemoglobin', 8)).toMatchObject({ low: 11, high: 14.5 })
+    expect(findReferenceRange('hemoglobin', 12)).toMatchObject({ low: 12, high: 16 })
+    expect(findReferenceRange('bilirubin_total', 40)).toMatchObject({ high: 1.2 })
+  })
+
+  test('has no band for analytes without ranges', () => {
+    expect(findReferenceRange('hbf_level', 30)).toBeUndefined()
+  })
+})
+
+describe('flagLabResult', () => {
+  test('flags values outside the range for the age', () => {
+    const flags = flagLabResult({ hemoglobin: 11.5, platelet_count: 300 }, 30)
+    expect(flags).toEqual([
+      {
+        analyte: 'hemoglobin',
+        value: 11.5,
+        unit: 'g/dL',
+        status: 'low',
+        reference: { low: 12, high: 16, critical_low: 7, critical_high: undefined },
+      },
+    ])
+
+    expect(flagLabResult({ hemoglobin: 11.5 }, 8)).toEqual([])
+  })
+
+  test('reports critical values ahead of low and high', () => {
+    const flags = flagLabResult({ hemoglobin: 6.2, white_blood_cell_count: 32, bilirubin_total: 3.1 }, 20)
+    expect(flags.map((flag) => [flag.analyte, flag.status])).toEqual([
+      ['hemoglobin', 'critical_low'],
+      ['white_blood_cell_count', 'critical_high'],
+      ['bilirubin_total', 'high'],
+    ])
+  })
+
+  test('skips missing values', () => {
+    expect(flagLabResult({ hemoglobin: null }, 20)).toEqual([])
+  })
+})
+
+describe('loadReferenceRanges', () => {
+  test('uses the defaults without overrides', () => {
+    expect(loadReferenceRanges(undefined)).toBe(DEFAULT_REFERENCE_RANGES)
+  })
+
+  test('replaces the bands of overridden analytes only', () => {
+    const ranges = loadReferenceRanges(JSON.stringify({ lactate_dehydrogenase: [{ high: 250, unit: 'U/L' }] }))
+    expect(ranges.lactate_dehydrogenase).toEqual([{ high: 250, unit: 'U/L' }])
+    expect(ranges.hemoglobin).toBe(DEFAULT_REFERENCE_RANGES.hemoglobin)
+    expect(flagLabResult({ lactate_dehydrogenase: 260 }, 8, ranges)).toHaveLength(1)
+  })
+
+  test('rejects malformed overrides', () => {
+    expect(() => loadReferenceRanges('{not json')).toThrow('Invalid LAB_REFERENCE_RANGES: not valid JSON')
+    expect(() => loadReferenceRanges(JSON.stringify({ sodium: [] }))).toThrow('Invalid LAB_REFERENCE_RANGES')
+    expect(() => loadReferenceRanges(JSON.stringify({ hemoglobin: [{ low: 12 }] }))).toThrow('Invalid LAB_REFERENCE_RANGES')
+  })
+})
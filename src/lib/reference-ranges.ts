@@ -0,0 +1,155 @@
+import { z } from 'zod'
+import type { LabResultsTable } from '../types/index.js'
+
+// Age-aware reference ranges used to flag abnormal lab values. This is the
+// single source of the thresholds: the API flags values with it and the
+// lab_trend_analysis template draws its reference lines from it.
+// LAB_REFERENCE_RANGES may hold a JSON object replacing the bands of
+// individual analytes, e.g. {"lactate_dehydrogenase": [{"high": 250, "unit": "U/L"}]}
+
+export const LAB_ANALYTES = [
+  'hemoglobin',
+  'hematocrit',
+  'hbf_level',
+  'reticulocyte_count',
+  'white_blood_cell_count',
+  'platelet_count',
+  'lactate_dehydrogenase',
+  'bilirubin_total',
+] as const
+
+export type LabAnalyte = typeof LAB_ANALYTES[number]
+
+// One age band; min_age is inclusive and max_age exclusive. The first band
+// matching the patient's age applies.
+export const ReferenceRangeSchema = z.object({
+  min_age: z.number().min(0).optional(),
+  max_age: z.number().min(0).optional(),
+  low: z.number().optional(),
+  high: z.number().optional(),
+  critical_low: z.number().optional(),
+  critical_high: z.number().optional(),
+  unit: z.string(),
+})
+
+export type ReferenceRange = z.infer<typeof ReferenceRangeSchema>
+export type ReferenceRangeTable = Partial<Record<LabAnalyte, ReferenceRange[]>>
+
+export const ReferenceRangeTableSchema = z
+  .object(Object.fromEntries(LAB_ANALYTES.map((analyte) => [analyte, z.array(ReferenceRangeSchema).optional()])))
+  .strict()
+
+export const DEFAULT_REFERENCE_RANGES: ReferenceRangeTable = {
+  hemoglobin: [
+    { max_age: 12, low: 11, high: 14.5, critical_low: 7, unit: 'g/dL' },
+    { min_age: 12, low: 12, high: 16, critical_low: 7, unit: 'g/dL' },
+  ],
+  hematocrit: [
+    { max_age: 12, low: 33, high: 43, critical_low: 20, unit: '%' },
+    { min_age: 12, low: 36, high: 48, critical_low: 20, unit: '%' },
+  ],
+  reticulocyte_count: [{ low: 0.5, high: 2.5, unit: '%' }],
+  white_blood_cell_count: [
+    { max_age: 12, low: 5, high: 14.5, critical_low: 2, critical_high: 30, unit: '10^3/uL' },
+    { min_age: 12, low: 4.5, high: 11, critical_low: 2, critical_high: 30, unit: '10^3/uL' },
+  ],
+  platelet_count: [{ low: 150, high: 450, critical_low: 50, critical_high: 1000, unit: '10^3/uL' }],
+  lactate_dehydrogenase: [
+    { max_age: 12, low: 150, high: 360, unit: 'U/L' },
+    { min_age: 12, low: 140, high: 280, unit: 'U/L' },
+  ],
+  bilirubin_total: [{ high: 1.2, unit: 'mg/dL' }],
+}
+
+export type LabFlagStatus = 'low' | 'high' | 'critical_low' | 'critical_high'
+
+export interface LabFlag {
+  analyte: LabAnalyte
+  value: number
+  unit: string
+  status: LabFlagStatus
+  reference: Pick<ReferenceRange, 'low' | 'high' | 'critical_low' | 'critical_high'>
+}
+
+export type FlaggedLabResult = LabResultsTable & {
+  flags: LabFlag[]
+  abnormal: boolean
+}
+
+// Defaults with any analytes overridden by LAB_REFERENCE_RANGES
+export function loadReferenceRanges(raw = process.env.LAB_REFERENCE_RANGES): ReferenceRangeTable {
+  if (!raw) {
+    return DEFAULT_REFERENCE_RANGES
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch {
+    throw new Error('Invalid LAB_REFERENCE_RANGES: not valid JSON')
+  }
+
+  const parsed = ReferenceRangeTableSchema.safeParse(json)
+  if (!parsed.success) {
+    throw new Error(`Invalid LAB_REFERENCE_RANGES: ${parsed.error.message}`)
+  }
+  return { ...DEFAULT_REFERENCE_RANGES, ...(parsed.data as ReferenceRangeTable) }
+}
+
+export const referenceRanges = loadReferenceRanges()
+
+export function findReferenceRange(
+  analyte: LabAnalyte,
+  age: number,
+  ranges: ReferenceRangeTable = referenceRanges
+): ReferenceRange | undefined {
+  return ranges[analyte]?.find(
+    (band) => (band.min_age === undefined || age >= band.min_age) && (band.max_age === undefined || age < band.max_age)
+  )
+}
+
+function classify(value: number, range: ReferenceRange): LabFlagStatus | null {
+  if (range.critical_low !== undefined && value < range.critical_low) {
+    return 'critical_low'
+  }
+  if (range.critical_high !== undefined && value > range.critical_high) {
+    return 'critical_high'
+  }
+  if (range.low !== undefined && value < range.low) {
+    return 'low'
+  }
+  if (range.high !== undefined && value > range.high) {
+    return 'high'
+  }
+  return null
+}
+
+// Values outside the reference range for a patient of the given age
+export function flagLabResult(
+  lab: Partial<Record<LabAnalyte, number | null>>,
+  age: number,
+  ranges: ReferenceRangeTable = referenceRanges
+): LabFlag[] {
+  const flags: LabFlag[] = []
+
+  for (const analyte of LAB_ANALYTES) {
+    const value = lab[analyte]
+    const range = typeof value === 'number' ? findReferenceRange(analyte, age, ranges) : undefined
+    if (typeof value !== 'number' || !range) {
+      continue
+    }
+
+    const status = classify(value, range)
+    if (status) {
+      const { low, high, critical_low, critical_high, unit } = range
+      flags.push({ analyte, value, unit, status, reference: { low, high, critical_low, critical_high } })
+    }
+  }
+
+  return flags
+}
+
+export function withLabFlags(lab: LabResultsTable, age: number): FlaggedLabResult {
+  const flags = flagLabResult(lab, age)
+  return { ...lab, flags, abnormal: flags.length > 0 }
+}
@@ -0,0 +1,63 @@
+import type { Context } from 'hono'
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+import { ApiError } from './errors.js'
+import { ERROR_CODES, HTTP_STATUS, type ApiResponse, type ErrorCode } from '../types/index.js'
+
+// Response metadata shared by every ApiResponse
+export function buildMetadata(startTime: number): NonNullable<ApiResponse['metadata']> {
+  return {
+    timestamp: new Date().toISOString(),
+    request_id: crypto.randomUUID(),
+    processing_time_ms: Date.now() - startTime,
+  }
+}
+
+export function successResponse<T>(data: T, startTime: number): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    metadata: buildMetadata(startTime),
+  }
+}
+
+export function errorResponse(
+  code: ErrorCode | string,
+  message: string,
+  startTime: number,
+  details?: Record<string, unknown>
+): ApiResponse {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      ...(details ? { details } : {}),
+    },
+    metadata: buildMetadata(startTime),
+  }
+}
+
+// Convert anything thrown inside a route handler into an error ApiResponse
+export function handleRouteError(
+  c: Context,
+  error: unknown,
+  startTime: number,
+  fallbackCode: ErrorCode = ERROR_CODES.INTERNAL_ERROR,
+  fallbackStatus: ContentfulStatusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR
+) {
+  if (error instanceof ApiError) {
+    return c.json(errorResponse(error.code, error.message, startTime, error.details), error.status)
+  }
+
+  // Thrown by c.req.json() on a malformed body
+  if (error instanceof SyntaxError) {
+    return c.json(
+      errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Malformed JSON in request body', startTime),
+      HTTP_STATUS.BAD_REQUEST
+    )
+  }
+
+  console.error('Route error:', error)
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  return c.json(errorResponse(fallbackCode, message, startTime), fallbackStatus)
+}
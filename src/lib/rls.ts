@@ -0,0 +1,112 @@
+import {
+  ACTIONS,
+  IDENTIFYING_FIELDS,
+  PERMISSION_MATRIX,
+  RESOURCE_OWNERSHIP,
+  RESOURCES,
+  type AccessScope,
+  type Action,
+  type PermissionMatrix,
+  type TableResource,
+} from './permissions.js'
+import { USER_ROLES, type RLSPolicy } from '../types/index.js'
+
+// Generates Postgres row level security policies equivalent to the API's
+// permission matrix, so direct Supabase access is held to the same rules.
+// Roles and organizations are read from the JWT app_metadata claims that
+// the API's authenticate middleware also trusts.
+
+const JWT_ROLE = "(auth.jwt() -> 'app_metadata' ->> 'role')"
+const JWT_ORGANIZATION = "((auth.jwt() -> 'app_metadata' ->> 'organization_id')::uuid)"
+
+const ACTION_COMMANDS: Record<Action, RLSPolicy['command']> = {
+  read: 'SELECT',
+  create: 'INSERT',
+  update: 'UPDATE',
+  delete: 'DELETE',
+}
+
+// SQL predicate selecting the rows of `resource` covered by `scope`
+function scopeExpression(resource: TableResource, scope: AccessScope): string {
+  if (scope === 'all' || scope === 'deidentified') {
+    return 'true'
+  }
+
+  const { table, ownerColumn, organizationColumn, parent } = RESOURCE_OWNERSHIP[resource]
+
+  if (parent) {
+    const parentTable = RESOURCE_OWNERSHIP[parent.resource].table
+    return `exists (select 1 from ${parentTable} where ${parentTable}.id = ${table}.${parent.foreignKey} and ${scopeExpression(parent.resource, scope)})`
+  }
+  if (scope === 'organization' && organizationColumn) {
+    return `${table}.${organizationColumn} = ${JWT_ORGANIZATION}`
+  }
+  if (ownerColumn) {
+    return `${table}.${ownerColumn} = auth.uid()`
+  }
+  return 'false'
+}
+
+export function generateRlsPolicies(matrix: PermissionMatrix = PERMISSION_MATRIX): RLSPolicy[] {
+  const policies: RLSPolicy[] = []
+
+  for (const resource of RESOURCES) {
+    const { table } = RESOURCE_OWNERSHIP[resource]
+
+    for (const role of USER_ROLES) {
+      for (const action of ACTIONS) {
+        const scope = matrix[role][resource]?.[action]
+        if (!scope) {
+          continue
+        }
+
+        const expression = `${JWT_ROLE} = '${role}' and ${scopeExpression(resource, scope)}`
+        const command = ACTION_COMMANDS[action]
+
+        policies.push({
+          table_name: table,
+          policy_name: `${table}_${role}_${action}`,
+          command,
+          roles: ['authenticated'],
+          using_expression: expression,
+          check_expression: command === 'INSERT' || command === 'UPDATE' ? expression : undefined,
+        })
+      }
+    }
+  }
+
+  return policies
+}
+
+export function renderRlsSql(policies: RLSPolicy[] = generateRlsPolicies()): string {
+  const tables = Array.from(new Set(policies.map((policy) => policy.table_name)))
+  const masked = Object.entries(IDENTIFYING_FIELDS)
+    .map(([resource, fields]) => `--   ${RESOURCE_OWNERSHIP[resource as TableResource].table}: ${fields.join(', ')}`)
+
+  const statements = [
+    '-- Generated from PERMISSION_MATRIX in src/lib/permissions.ts. Do not edit by hand.',
+    '-- These policies control row access only. De-identified reads rely on the API',
+    '-- (or a masking view) to remove the identifying columns:',
+    ...masked,
+    '',
+    ...tables.map((table) => `alter table ${table} enable row level security;`),
+    '',
+  ]
+
+  for (const policy of policies) {
+    const lines = [
+      `drop policy if exists "${policy.policy_name}" on ${policy.table_name};`,
+      `create policy "${policy.policy_name}" on ${policy.table_name}`,
+      `  for ${policy.command} to ${policy.roles.join(', ')}`,
+    ]
+    if (policy.command !== 'INSERT') {
+      lines.push(`  using (${policy.using_expression})`)
+    }
+    if (policy.check_expression) {
+      lines.push(`  with check (${policy.check_expression})`)
+    }
+    statements.push(`${lines.join('\n')};`, '')
+  }
+
+  return statements.join('\n')
+}
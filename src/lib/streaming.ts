@@ -0,0 +1,51 @@
+import type { Context } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import { ApiError } from './errors.js'
+import { ERROR_CODES, type ChatStreamChunk } from '../types/index.js'
+
+// Server-Sent Events in the ChatStreamChunk protocol shared by chat and code
+// execution streams. Every chunk is sent as an event named after its type
+// with the JSON-encoded chunk as data.
+
+export function streamChunk(type: ChatStreamChunk['type'], data: unknown): ChatStreamChunk {
+  return { type, data, timestamp: new Date().toISOString() }
+}
+
+export function errorChunk(error: unknown): ChatStreamChunk {
+  return streamChunk('error', {
+    code: error instanceof ApiError ? error.code : ERROR_CODES.INTERNAL_ERROR,
+    message: error instanceof Error ? error.message : 'Unknown error',
+  })
+}
+
+export interface ChunkStream {
+  // Queue a chunk; chunks are written in the order they are sent
+  send(chunk: ChatStreamChunk): void
+  // Aborted when the client disconnects
+  signal: AbortSignal
+}
+
+// Respond with an SSE stream fed by `producer`. A thrown error is sent as an
+// `error` chunk before the stream closes.
+export function streamChunks(c: Context, producer: (stream: ChunkStream) => Promise<void>): Response {
+  return streamSSE(c, async (sse) => {
+    const controller = new AbortController()
+    sse.onAbort(() => controller.abort())
+
+    let written = Promise.resolve()
+    const send = (chunk: ChatStreamChunk) => {
+      written = written.then(() => {
+        if (!sse.aborted) {
+          return sse.writeSSE({ event: chunk.type, data: JSON.stringify(chunk) })
+        }
+      })
+    }
+
+    try {
+      await producer({ send, signal: controller.signal })
+    } catch (error) {
+      send(errorChunk(error))
+    }
+    await written
+  })
+}
@@ -0,0 +1,142 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  applySearchOptions,
+  cosineSimilarity,
+  hybridScore,
+  keywordScore,
+  matchesFilters,
+  searchTerms,
+} from './vector-search.js'
+import type { VectorSearchRequest, VectorSearchResult } from '../types/index.js'
+
+function request(overrides: Partial<VectorSearchRequest> = {}): VectorSearchRequest {
+  return {
+    query: 'q',
+    collection_name: 'papers',
+    limit: 10,
+    similarity_threshold: 0,
+    include_metadata: true,
+    include_embeddings: false,
+    ...overrides,
+  }
+}
+
+function result(id: string, score: number, metadata?: Record<string, unknown>): VectorSearchResult {
+  return { id, content: id, similarity_score: score, metadata, embedding: [score] }
+}
+
+describe('searchTerms', () => {
+  // regexp_split_to_array(lower(content), '[^a-z0-9]+') in lib/pgvector-schema.ts
+  test('splits lowercased text on runs of other characters', () => {
+    expect(searchTerms('HbF levels (g/dL) & Hydroxyurea-dose 20mg')).toEqual([
+      'hbf',
+      'levels',
+      'g',
+      'dl',
+      'hydroxyurea',
+      'dose',
+      '20mg',
+    ])
+  })
+
+  test('drops empty and repeated terms', () => {
+    expect(searchTerms('  pain, pain; PAIN  ')).toEqual(['pain'])
+    expect(searchTerms('--')).toEqual([])
+  })
+})
+
+describe('cosineSimilarity', () => {
+  test('is 1 for vectors pointing the same way', () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1)
+  })
+
+  test('is 0 for orthogonal vectors', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+  })
+
+  test('clamps opposing vectors to 0', () => {
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(0)
+  })
+
+  test('is 0 when either vector is all zeros', () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0)
+  })
+})
+
+describe('keywordScore', () => {
+  test('is the share of query terms the content contains', () => {
+    expect(keywordScore(['hydroxyurea', 'dose', 'children'], ['hydroxyurea', 'dose', 'adults'])).toBeCloseTo(2 / 3)
+  })
+
+  test('is 0 without query terms', () => {
+    expect(keywordScore([], ['anything'])).toBe(0)
+  })
+})
+
+describe('hybridScore', () => {
+  test('ranks by vector similarity alone with no keyword weight', () => {
+    expect(hybridScore(0.8, 1, 0)).toBe(0.8)
+  })
+
+  test('blends the scores by the keyword weight', () => {
+    expect(hybridScore(0.8, 0.5, 0.3)).toBeCloseTo(0.7 * 0.8 + 0.3 * 0.5)
+  })
+})
+
+// The same cases hold for vector_metadata_matches in lib/pgvector-schema.ts
+describe('matchesFilters', () => {
+  const metadata = { document_type: 'research_paper', year: 2020, keywords: ['hydroxyurea', 'pediatrics'] }
+
+  test('matches everything without filters', () => {
+    expect(matchesFilters(metadata, undefined)).toBe(true)
+    expect(matchesFilters(undefined, {})).toBe(true)
+  })
+
+  test('matches equal values of the same type', () => {
+    expect(matchesFilters(metadata, { document_type: 'research_paper' })).toBe(true)
+    expect(matchesFilters(metadata, { year: 2020 })).toBe(true)
+    expect(matchesFilters(metadata, { year: '2020' })).toBe(false)
+  })
+
+  test('matches array fields containing the value', () => {
+    expect(matchesFilters(metadata, { keywords: 'pediatrics' })).toBe(true)
+    expect(matchesFilters(metadata, { keywords: 'adults' })).toBe(false)
+  })
+
+  test('matches any of the values in an array filter', () => {
+    expect(matchesFilters(metadata, { document_type: ['clinical_guideline', 'research_paper'] })).toBe(true)
+    expect(matchesFilters(metadata, { keywords: ['adults', 'hydroxyurea'] })).toBe(true)
+    expect(matchesFilters(metadata, { keywords: ['adults', 'geriatrics'] })).toBe(false)
+  })
+
+  test('requires every filter to match', () => {
+    expect(matchesFilters(metadata, { document_type: 'research_paper', keywords: 'adults' })).toBe(false)
+  })
+
+  test('does not match missing fields or metadata', () => {
+    expect(matchesFilters(metadata, { source: 'pubmed' })).toBe(false)
+    expect(matchesFilters(undefined, { source: 'pubmed' })).toBe(false)
+  })
+})
+
+describe('applySearchOptions', () => {
+  const results = [result('low', 0.2), result('best', 0.9, { tag: 'a' }), result('mid', 0.5, { tag: 'b' })]
+
+  test('sorts by score and applies the threshold and limit', () => {
+    const found = applySearchOptions(results, request({ similarity_threshold: 0.3, limit: 1 }))
+    expect(found.map((found) => found.id)).toEqual(['best'])
+  })
+
+  test('applies the filters', () => {
+    const found = applySearchOptions(results, request({ filters: { tag: 'b' } }))
+    expect(found.map((found) => found.id)).toEqual(['mid'])
+  })
+
+  test('returns metadata and embeddings only when asked to', () => {
+    const [plain] = applySearchOptions(results, request({ include_metadata: false }))
+    expect(plain).toEqual({ id: 'best', content: 'best', similarity_score: 0.9 })
+
+    const [full] = applySearchOptions(results, request({ include_embeddings: true }))
+    expect(full).toEqual({ id: 'best', content: 'best', similarity_score: 0.9, metadata: { tag: 'a' }, embedding: [0.9] })
+  })
+})
@@ -0,0 +1,93 @@
+import type { VectorSearchRequest, VectorSearchResponse, VectorSearchResult } from '../types/index.js'
+
+// Search options every vector backend honors the same way. A filter matches a
+// metadata field that equals its value, or contains it when the field is an
+// array; a filter given as an array matches any of its values.
+//
+// The embedded backends also share their scoring: cosine similarity, blended
+// for hybrid ranking with the share of query terms the content contains.
+// lib/pgvector-schema.ts computes the same scores in SQL.
+
+// Lowercased alphanumeric runs; the SQL tokenizer splits the same way
+export function searchTerms(text: string): string[] {
+  return [...new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean))]
+}
+
+// Cosine similarity, clamped to [0, 1] so it is a valid similarity_score
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i] ?? 0
+    const y = b[i] ?? 0
+    dot += x * y
+    normA += x * x
+    normB += y * y
+  }
+  if (normA === 0 || normB === 0) {
+    return 0
+  }
+  return Math.min(1, Math.max(0, dot / Math.sqrt(normA * normB)))
+}
+
+// Share of the query terms found in the content
+export function keywordScore(queryTerms: string[], contentTerms: Iterable<string>): number {
+  if (queryTerms.length === 0) {
+    return 0
+  }
+  const content = new Set(contentTerms)
+  return queryTerms.filter((term) => content.has(term)).length / queryTerms.length
+}
+
+// `keywordWeight` 0 ranks by vector similarity alone
+export function hybridScore(vectorScore: number, keyword: number, keywordWeight: number): number {
+  return (1 - keywordWeight) * vectorScore + keywordWeight * keyword
+}
+
+function valueMatches(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return expected.some((value) => valueMatches(actual, value))
+  }
+  if (Array.isArray(actual)) {
+    return actual.some((value) => valueMatches(value, expected))
+  }
+  return actual === expected
+}
+
+export function matchesFilters(metadata: Record<string, unknown> | undefined, filters?: Record<string, unknown>): boolean {
+  return Object.entries(filters ?? {}).every(([key, expected]) => valueMatches(metadata?.[key], expected))
+}
+
+// Drop results below the threshold or outside the filters, keep the best
+// `limit`, and strip metadata and embeddings the caller did not ask for
+export function applySearchOptions(
+  results: VectorSearchResult[],
+  request: VectorSearchRequest
+): VectorSearchResult[] {
+  return results
+    .filter((result) => result.similarity_score >= request.similarity_threshold)
+    .filter((result) => matchesFilters(result.metadata, request.filters))
+    .sort((a, b) => b.similarity_score - a.similarity_score)
+    .slice(0, request.limit)
+    .map(({ metadata, embedding, ...result }) => ({
+      ...result,
+      ...(request.include_metadata && metadata ? { metadata } : {}),
+      ...(request.include_embeddings && embedding ? { embedding } : {}),
+    }))
+}
+
+export function searchResponse(
+  request: VectorSearchRequest,
+  results: VectorSearchResult[],
+  startTime: number
+): VectorSearchResponse {
+  return {
+    query: request.query,
+    collection_name: request.collection_name,
+    results,
+    total_results: results.length,
+    search_time_ms: Date.now() - startTime,
+    ...(request.filters ? { filters_applied: request.filters } : {}),
+  }
+}
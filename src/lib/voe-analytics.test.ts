@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'bun:test'
+import { computeVoeAnalytics } from './voe-analytics.js'
+
+const now = new Date('2026-06-01T00:00:00.000Z')
+
+describe('computeVoeAnalytics', () => {
+  test('summarizes frequency, severity and location', () => {
+    const analytics = computeVoeAnalytics(
+      [
+        { episode_date: '2026-05-22T08:00:00.000Z', severity: 'severe', location: ['chest', 'back'], hospitalization_required: true, pain_score: 9 },
+        { episode_date: '2026-01-10T08:00:00.000Z', severity: 'moderate', location: ['legs'], hospitalization_required: false, pain_score: 6 },
+        { episode_date: '2025-03-02T08:00:00.000Z', severity: 'moderate', location: ['back'], hospitalization_required: false },
+      ],
+      now
+    )
+
+    expect(analytics).toMatchObject({
+      total_episodes: 3,
+      episodes_last_12_months: 2,
+      hospitalization_rate: 0.33,
+      mean_pain_score: 7.5,
+      last_episode_date: '2026-05-22T08:00:00.000Z',
+      days_since_last_episode: 9,
+    })
+    expect(analytics.severity_counts).toEqual({ mild: 0, moderate: 2, severe: 1 })
+    expect(analytics.location_counts).toMatchObject({ chest: 1, back: 2, legs: 1, arms: 0 })
+  })
+
+  test('does not count future episodes as recent', () => {
+    const analytics = computeVoeAnalytics(
+      [{ episode_date: '2026-07-01T00:00:00.000Z', severity: 'mild', location: ['arms'], hospitalization_required: false }],
+      now
+    )
+    expect(analytics.episodes_last_12_months).toBe(0)
+    expect(analytics.days_since_last_episode).toBe(0)
+  })
+
+  test('reports no rates without episodes', () => {
+    expect(computeVoeAnalytics([], now)).toMatchObject({
+      total_episodes: 0,
+      hospitalization_rate: null,
+      mean_pain_score: null,
+      last_episode_date: null,
+      days_since_last_episode: null,
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { VoeEpisodesTableSchema, type VoeEpisodesTable } from '../types/index.js'
+
+// Frequency and severity metrics over a patient's vaso-occlusive episodes.
+// Shared by the VOE analytics endpoint and the voe_risk_analysis tool.
+
+export type VoeLocation = VoeEpisodesTable['location'][number]
+export type VoeSeverity = VoeEpisodesTable['severity']
+
+export interface VoeAnalytics {
+  total_episodes: number
+  episodes_last_12_months: number
+  // Share of episodes that required hospitalization, 0-1
+  hospitalization_rate: number | null
+  mean_pain_score: number | null
+  location_counts: Record<VoeLocation, number>
+  severity_counts: Record<VoeSeverity, number>
+  last_episode_date: string | null
+  days_since_last_episode: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const VOE_LOCATIONS = VoeEpisodesTableSchema.shape.location.element.options
+const VOE_SEVERITIES = VoeEpisodesTableSchema.shape.severity.options
+
+function countBy<K extends string>(keys: readonly K[]): Record<K, number> {
+  return Object.fromEntries(keys.map((key) => [key, 0])) as Record<K, number>
+}
+
+function round(value: number, digits = 2): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits
+}
+
+export function computeVoeAnalytics(
+  episodes: Pick<VoeEpisodesTable, 'episode_date' | 'severity' | 'location' | 'hospitalization_required' | 'pain_score'>[],
+  now: Date = new Date()
+): VoeAnalytics {
+  const windowStart = new Date(now)
+  windowStart.setFullYear(windowStart.getFullYear() - 1)
+
+  const locationCounts = countBy(VOE_LOCATIONS)
+  const severityCounts = countBy(VOE_SEVERITIES)
+  const painScores: number[] = []
+  let hospitalizations = 0
+  let recentEpisodes = 0
+  let lastEpisode: Date | null = null
+
+  for (const episode of episodes) {
+    const date = new Date(episode.episode_date)
+
+    if (date >= windowStart && date <= now) {
+      recentEpisodes++
+    }
+    if (!lastEpisode || date > lastEpisode) {
+      lastEpisode = date
+    }
+    if (episode.hospitalization_required) {
+      hospitalizations++
+    }
+    if (typeof episode.pain_score === 'number') {
+      painScores.push(episode.pain_score)
+    }
+
+    severityCounts[episode.severity]++
+    for (const location of episode.location) {
+      locationCounts[location]++
+    }
+  }
+
+  return {
+    total_episodes: episodes.length,
+    episodes_last_12_months: recentEpisodes,
+    hospitalization_rate: episodes.length > 0 ? round(hospitalizations / episodes.length) : null,
+    mean_pain_score:
+      painScores.length > 0 ? round(painScores.reduce((sum, score) => sum + score, 0) / painScores.length, 1) : null,
+    location_counts: locationCounts,
+    severity_counts: severityCounts,
+    last_episode_date: lastEpisode ? lastEpisode.toISOString() : null,
+    days_since_last_episode: lastEpisode
+      ? Math.max(0, Math.floor((now.getTime() - lastEpisode.getTime()) / DAY_MS))
+      : null,
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  ExpressionError,
+  conditionReferences,
+  evaluateCondition,
+  resolveTemplates,
+  templateReferences,
+} from './workflow-expressions.js'
+
+const scope = {
+  context: { patient_id: 'p-1', threshold: 7 },
+  steps: {
+    triage: { status: 'completed', result: { score: 8, tags: ['chest'], label: 'urgent' } },
+    search: { status: 'failed', error: 'timeout' },
+  },
+}
+
+describe('evaluateCondition', () => {
+  test('compares references and literals', () => {
+    expect(evaluateCondition('steps.triage.result.score >= context.threshold', scope)).toBe(true)
+    expect(evaluateCondition("steps.triage.result.label == 'urgent'", scope)).toBe(true)
+    expect(evaluateCondition('steps.search.status != "completed"', scope)).toBe(true)
+    expect(evaluateCondition('steps.triage.result.tags.0 == "chest"', scope)).toBe(true)
+  })
+
+  test('applies precedence, negation and parentheses', () => {
+    expect(evaluateCondition('false && true || true', scope)).toBe(true)
+    expect(evaluateCondition('false && (true || true)', scope)).toBe(false)
+    expect(evaluateCondition('!steps.search.result', scope)).toBe(true)
+  })
+
+  test('treats missing values as null and orders only like types', () => {
+    expect(evaluateCondition('steps.missing.result == null', scope)).toBe(true)
+    expect(evaluateCondition('steps.triage.result.score > "5"', scope)).toBe(false)
+    expect(evaluateCondition('steps.triage.result.tags', scope)).toBe(true)
+  })
+
+  test('never reaches prototype members', () => {
+    expect(evaluateCondition('context.constructor == null', scope)).toBe(true)
+  })
+
+  test('rejects malformed conditions', () => {
+    expect(() => evaluateCondition('steps.triage ==', scope)).toThrow(ExpressionError)
+    expect(() => evaluateCondition('(true', scope)).toThrow("Expected ')'")
+    expect(() => evaluateCondition('process.exit()', scope)).toThrow(ExpressionError)
+    expect(() => evaluateCondition('a; b', scope)).toThrow("Unexpected character ';'")
+  })
+})
+
+describe('references', () => {
+  test('lists the references of conditions and templates', () => {
+    expect(conditionReferences('steps.a.result > 1 && !context.flag')).toEqual([
+      ['steps', 'a', 'result'],
+      ['context', 'flag'],
+    ])
+    expect(templateReferences({ query: 'about {{ steps.a.result.topic }}', ids: ['{{context.patient_id}}'] })).toEqual([
+      ['steps', 'a', 'result', 'topic'],
+      ['context', 'patient_id'],
+    ])
+  })
+
+  test('only allows references inside templates', () => {
+    expect(() => templateReferences('{{ steps.a == 1 }}')).toThrow('Templates may only contain a reference')
+  })
+})
+
+describe('resolveTemplates', () => {
+  test('keeps the type of a whole template and interpolates text', () => {
+    expect(
+      resolveTemplates(
+        {
+          score: '{{ steps.triage.result.score }}',
+          prompt: 'Patient {{context.patient_id}} tagged {{ steps.triage.result.tags }}',
+          nested: ['{{ steps.triage.result.label }}', 3],
+        },
+        scope
+      )
+    ).toEqual({ score: 8, prompt: 'Patient p-1 tagged ["chest"]', nested: ['urgent', 3] })
+  })
+
+  test('fails on undefined references', () => {
+    expect(() => resolveTemplates('{{ steps.search.result.items }}', scope)).toThrow(
+      'Reference steps.search.result.items is not defined'
+    )
+  })
+})
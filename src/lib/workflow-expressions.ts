@@ -0,0 +1,349 @@
+// Conditions and templated references for workflow steps. Both read from the
+// workflow scope, `{ context, steps }`, where `steps.<id>` holds a finished
+// step's status, result and error. Nothing is evaluated as JavaScript:
+// conditions are parsed into a small expression tree and references may
+// only walk own properties of plain data.
+//
+// Conditions support literals (numbers, strings, true, false, null),
+// references (`steps.triage.result.score`), comparisons (== != < <= > >=),
+// `&&`, `||`, `!` and parentheses. Templates are `{{ reference }}` inside
+// string parameters; a parameter that is exactly one template takes the
+// referenced value as is, otherwise the value is interpolated as text.
+
+export const SCOPE_ROOTS = ['context', 'steps'] as const
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExpressionError'
+  }
+}
+
+type Literal = string | number | boolean | null
+
+type Expression =
+  | { kind: 'literal'; value: Literal }
+  | { kind: 'reference'; path: string[] }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'logical'; operator: '&&' | '||'; left: Expression; right: Expression }
+  | { kind: 'compare'; operator: ComparisonOperator; left: Expression; right: Expression }
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>='
+
+type Token =
+  | { kind: 'literal'; value: Literal }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'operator'; value: string }
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '.']
+const COMPARISONS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>=']
+const TEMPLATE = /\{\{\s*(.*?)\s*\}\}/g
+const WHOLE_TEMPLATE = /^\{\{\s*(.*?)\s*\}\}$/
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+
+  while (position < source.length) {
+    const rest = source.slice(position)
+    const space = /^\s+/.exec(rest)
+    if (space) {
+      position += space[0].length
+      continue
+    }
+
+    // After a '.' digits are an index, so `items.0.1` is two segments
+    const previous = tokens.at(-1)
+    const afterDot = previous?.kind === 'operator' && previous.value === '.'
+    const number = (afterDot ? /^\d+/ : /^\d+(\.\d+)?/).exec(rest)
+    if (number) {
+      tokens.push({ kind: 'literal', value: Number(number[0]) })
+      position += number[0].length
+      continue
+    }
+
+    const string = /^'((?:[^'\\]|\\.)*)'|^"((?:[^"\\]|\\.)*)"/.exec(rest)
+    if (string) {
+      const body = string[1] ?? string[2] ?? ''
+      tokens.push({ kind: 'literal', value: body.replace(/\\(.)/g, '$1') })
+      position += string[0].length
+      continue
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(rest)
+    if (word) {
+      const value = word[0]
+      if (value === 'true' || value === 'false') {
+        tokens.push({ kind: 'literal', value: value === 'true' })
+      } else if (value === 'null') {
+        tokens.push({ kind: 'literal', value: null })
+      } else {
+        tokens.push({ kind: 'identifier', value })
+      }
+      position += value.length
+      continue
+    }
+
+    const operator = OPERATORS.find((candidate) => rest.startsWith(candidate))
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character '${rest[0]}' at position ${position}`)
+    }
+    tokens.push({ kind: 'operator', value: operator })
+    position += operator.length
+  }
+
+  return tokens
+}
+
+// Recursive descent over the tokens, lowest precedence first
+class Parser {
+  private position = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.or()
+    const next = this.tokens[this.position]
+    if (next) {
+      throw new ExpressionError(`Unexpected '${String(next.value)}'`)
+    }
+    return expression
+  }
+
+  // A bare reference, as used in templates
+  parseReference(): string[] {
+    const path = this.reference()
+    if (this.position < this.tokens.length) {
+      throw new ExpressionError('Templates may only contain a reference')
+    }
+    return path
+  }
+
+  private or(): Expression {
+    let left = this.and()
+    while (this.accept('||')) {
+      left = { kind: 'logical', operator: '||', left, right: this.and() }
+    }
+    return left
+  }
+
+  private and(): Expression {
+    let left = this.not()
+    while (this.accept('&&')) {
+      left = { kind: 'logical', operator: '&&', left, right: this.not() }
+    }
+    return left
+  }
+
+  private not(): Expression {
+    if (this.accept('!')) {
+      return { kind: 'not', operand: this.not() }
+    }
+    return this.comparison()
+  }
+
+  private comparison(): Expression {
+    const left = this.primary()
+    const operator = COMPARISONS.find((candidate) => this.accept(candidate))
+    if (!operator) {
+      return left
+    }
+    return { kind: 'compare', operator, left, right: this.primary() }
+  }
+
+  private primary(): Expression {
+    const token = this.tokens[this.position]
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression')
+    }
+    if (token.kind === 'literal') {
+      this.position++
+      return { kind: 'literal', value: token.value }
+    }
+    if (this.accept('(')) {
+      const expression = this.or()
+      if (!this.accept(')')) {
+        throw new ExpressionError("Expected ')'")
+      }
+      return expression
+    }
+    return { kind: 'reference', path: this.reference() }
+  }
+
+  // identifier ('.' (identifier | index))*
+  private reference(): string[] {
+    const root = this.tokens[this.position]
+    if (root?.kind !== 'identifier') {
+      throw new ExpressionError(`Expected a reference, got '${String(root?.value ?? 'end of expression')}'`)
+    }
+    this.position++
+
+    const path = [root.value]
+    while (this.accept('.')) {
+      const segment = this.tokens[this.position]
+      if (segment?.kind === 'identifier' || (segment?.kind === 'literal' && Number.isInteger(segment.value))) {
+        path.push(String(segment.value))
+        this.position++
+      } else {
+        throw new ExpressionError(`Invalid reference after '${path.join('.')}.'`)
+      }
+    }
+    return path
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.tokens[this.position]
+    if (token?.kind === 'operator' && token.value === operator) {
+      this.position++
+      return true
+    }
+    return false
+  }
+}
+
+function parseReference(source: string): string[] {
+  return new Parser(tokenize(source)).parseReference()
+}
+
+// Parse a condition, throwing ExpressionError when it is malformed
+export function parseCondition(source: string): Expression {
+  return new Parser(tokenize(source)).parse()
+}
+
+// Look up a reference. Only own properties are followed, so prototype members
+// such as `constructor` are never reachable.
+export function resolveReference(scope: unknown, path: string[]): unknown {
+  let value = scope
+  for (const segment of path) {
+    if (value === null || typeof value !== 'object' || !Object.hasOwn(value, segment)) {
+      return undefined
+    }
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0
+  }
+  return Boolean(value)
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  // Missing values compare equal to null
+  const a = left ?? null
+  const b = right ?? null
+
+  if (operator === '==') {
+    return a === b
+  }
+  if (operator === '!=') {
+    return a !== b
+  }
+  // Ordering is only defined between two numbers or two strings
+  if (!((typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string'))) {
+    return false
+  }
+  switch (operator) {
+    case '<':
+      return a < b
+    case '<=':
+      return a <= b
+    case '>':
+      return a > b
+    case '>=':
+      return a >= b
+  }
+}
+
+function evaluate(expression: Expression, scope: unknown): unknown {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value
+    case 'reference':
+      return resolveReference(scope, expression.path)
+    case 'not':
+      return !isTruthy(evaluate(expression.operand, scope))
+    case 'logical': {
+      const left = isTruthy(evaluate(expression.left, scope))
+      if (expression.operator === '&&') {
+        return left && isTruthy(evaluate(expression.right, scope))
+      }
+      return left || isTruthy(evaluate(expression.right, scope))
+    }
+    case 'compare':
+      return compare(expression.operator, evaluate(expression.left, scope), evaluate(expression.right, scope))
+  }
+}
+
+export function evaluateCondition(source: string, scope: unknown): boolean {
+  return isTruthy(evaluate(parseCondition(source), scope))
+}
+
+// References made by a condition
+export function conditionReferences(source: string): string[][] {
+  const references: string[][] = []
+  const visit = (expression: Expression) => {
+    switch (expression.kind) {
+      case 'reference':
+        references.push(expression.path)
+        break
+      case 'not':
+        visit(expression.operand)
+        break
+      case 'logical':
+      case 'compare':
+        visit(expression.left)
+        visit(expression.right)
+        break
+    }
+  }
+  visit(parseCondition(source))
+  return references
+}
+
+// References made by the templates in a parameter value, at any depth
+export function templateReferences(value: unknown): string[][] {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(TEMPLATE), (match) => parseReference(match[1] ?? ''))
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(templateReferences)
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value).flatMap(templateReferences)
+  }
+  return []
+}
+
+function lookup(source: string, scope: unknown): unknown {
+  const path = parseReference(source)
+  const value = resolveReference(scope, path)
+  if (value === undefined) {
+    throw new ExpressionError(`Reference ${path.join('.')} is not defined`)
+  }
+  return value
+}
+
+// Replace templates in a parameter value, at any depth. Unresolved
+// references throw ExpressionError.
+export function resolveTemplates(value: unknown, scope: unknown): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_TEMPLATE.exec(value)
+    if (whole && !whole[1]?.includes('}}')) {
+      return lookup(whole[1] ?? '', scope)
+    }
+    return value.replace(TEMPLATE, (_, source: string) => {
+      const resolved = lookup(source, scope)
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved)
+    })
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplates(item, scope))
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, scope)]))
+  }
+  return value
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test'
+import { Hono } from 'hono'
+import { sign } from 'hono/jwt'
+import { authenticate, requestContext } from './auth.js'
+import { signAccessToken } from '../lib/auth.js'
+import { getRequestContext } from '../lib/context.js'
+import type { ApiResponse, RequestContext } from '../types/index.js'
+
+const app = new Hono()
+  .use('*', requestContext())
+  .use('/private/*', authenticate())
+  .get('/public', (c) => c.json(getRequestContext(c)))
+  .get('/private/me', (c) => c.json(getRequestContext(c)))
+
+function me(token?: string) {
+  return app.request('/private/me', token ? { headers: { Authorization: `Bearer ${token}` } } : undefined)
+}
+
+async function contextOf(response: Response) {
+  return (await response.json()) as RequestContext
+}
+
+async function errorCode(response: Response) {
+  return ((await response.json()) as ApiResponse).error?.code
+}
+
+describe('authenticate', () => {
+  test('builds the request context from a locally signed token', async () => {
+    const organizationId = crypto.randomUUID()
+    const token = await signAccessToken({ sub: 'user-1', app_metadata: { role: 'clinician', organization_id: organizationId } })
+
+    const response = await me(token)
+    expect(response.status).toBe(200)
+    expect(await contextOf(response)).toMatchObject({ user_id: 'user-1', role: 'clinician', organization_id: organizationId })
+  })
+
+  test('gives users without a role or profile the patient role', async () => {
+    const response = await me(await signAccessToken({ sub: crypto.randomUUID() }))
+    expect((await contextOf(response)).role).toBe('patient')
+  })
+
+  test('rejects a missing token with UNAUTHORIZED', async () => {
+    const response = await me()
+    expect(response.status).toBe(401)
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer')
+    expect(await errorCode(response)).toBe('UNAUTHORIZED')
+  })
+
+  test('rejects a malformed or foreign token with INVALID_TOKEN', async () => {
+    const malformed = await me('not-a-jwt')
+    expect(malformed.status).toBe(401)
+    expect(await errorCode(malformed)).toBe('INVALID_TOKEN')
+
+    const foreign = await me(await sign({ sub: 'user-1' }, 'another-secret', 'HS256'))
+    expect(await errorCode(foreign)).toBe('INVALID_TOKEN')
+  })
+
+  test('rejects an expired token with TOKEN_EXPIRED', async () => {
+    const response = await me(await signAccessToken({ sub: 'user-1' }, -60))
+    expect(response.status).toBe(401)
+    expect(await errorCode(response)).toBe('TOKEN_EXPIRED')
+  })
+
+  test('leaves public routes open with a request id', async () => {
+    const response = await app.request('/public', { headers: { 'X-Request-Id': 'req-1' } })
+    expect(response.status).toBe(200)
+    expect(response.headers.get('X-Request-Id')).toBe('req-1')
+    expect((await contextOf(response)).user_id).toBeUndefined()
+  })
+})
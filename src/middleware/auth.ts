@@ -0,0 +1,96 @@
+import type { MiddlewareHandler } from 'hono'
+import { verifyAccessToken, type AccessTokenClaims } from '../lib/auth.js'
+import { ApiError } from '../lib/errors.js'
+import { errorResponse } from '../lib/responses.js'
+import { getDataStore } from '../repositories/index.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  TABLE_NAMES,
+  USER_ROLES,
+  type UserProfile,
+  type UserRole,
+} from '../types/index.js'
+import '../lib/context.js'
+
+// Attach a RequestContext to every request, authenticated or not
+export function requestContext(): MiddlewareHandler {
+  return async (c, next) => {
+    const requestId = c.req.header('X-Request-Id') || crypto.randomUUID()
+
+    c.set('requestContext', {
+      request_id: requestId,
+      timestamp: new Date().toISOString(),
+      ip_address: c.req.header('X-Forwarded-For')?.split(',')[0]?.trim(),
+      user_agent: c.req.header('User-Agent'),
+    })
+    c.header('X-Request-Id', requestId)
+
+    await next()
+  }
+}
+
+function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole)
+}
+
+// Role and organization come from the token's app_metadata when present,
+// otherwise from the user's profile row. Unknown users get the least
+// privileged role.
+async function resolveIdentity(claims: AccessTokenClaims): Promise<{ role: UserRole; organization_id?: string }> {
+  const claimedRole = claims.app_metadata?.role
+  const claimedOrganization = claims.app_metadata?.organization_id ?? claims.organization_id
+
+  if (isUserRole(claimedRole) && claimedOrganization) {
+    return { role: claimedRole, organization_id: claimedOrganization }
+  }
+
+  let profile: UserProfile | null = null
+  try {
+    profile = await getDataStore().findById<UserProfile>(TABLE_NAMES.USER_PROFILES, claims.sub)
+  } catch (error) {
+    console.warn(`Could not load profile for user ${claims.sub}:`, error)
+  }
+
+  return {
+    role: isUserRole(claimedRole) ? claimedRole : profile?.role ?? 'patient',
+    organization_id: claimedOrganization ?? profile?.organization_id ?? undefined,
+  }
+}
+
+// Require a valid bearer token and add the caller's identity to the context
+export function authenticate(): MiddlewareHandler {
+  return async (c, next) => {
+    const startTime = Date.now()
+    const authorization = c.req.header('Authorization')
+    const match = authorization?.match(/^Bearer\s+(.+)$/i)
+
+    if (!match?.[1]) {
+      c.header('WWW-Authenticate', 'Bearer')
+      return c.json(
+        errorResponse(ERROR_CODES.UNAUTHORIZED, 'Missing bearer token', startTime),
+        HTTP_STATUS.UNAUTHORIZED
+      )
+    }
+
+    let claims: AccessTokenClaims
+    try {
+      claims = await verifyAccessToken(match[1])
+    } catch (error) {
+      const apiError = error instanceof ApiError
+        ? error
+        : new ApiError(ERROR_CODES.INVALID_TOKEN, 'Invalid access token', HTTP_STATUS.UNAUTHORIZED)
+
+      c.header('WWW-Authenticate', `Bearer error="invalid_token"`)
+      return c.json(errorResponse(apiError.code, apiError.message, startTime), apiError.status)
+    }
+
+    c.set('requestContext', {
+      ...c.get('requestContext'),
+      ...(await resolveIdentity(claims)),
+      user_id: claims.sub,
+    })
+
+    await next()
+  }
+}
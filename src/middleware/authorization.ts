@@ -0,0 +1,19 @@
+import type { MiddlewareHandler } from 'hono'
+import { getRequestContext } from '../lib/context.js'
+import { authorize, type Action, type Resource } from '../lib/permissions.js'
+import { handleRouteError } from '../lib/responses.js'
+
+// Route guard rejecting callers whose role has no grant for the action
+export function requirePermission(resource: Resource, action: Action): MiddlewareHandler {
+  return async (c, next) => {
+    const startTime = Date.now()
+
+    try {
+      authorize(getRequestContext(c), resource, action)
+    } catch (error) {
+      return handleRouteError(c, error, startTime)
+    }
+
+    await next()
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test'
+import { Hono } from 'hono'
+import { validate } from './validation.js'
+import { E2BExecutionRequestSchema, IdParamSchema, VectorSearchRequestSchema, type ApiResponse } from '../types/index.js'
+
+const app = new Hono()
+  .post('/execute', validate('json', E2BExecutionRequestSchema), (c) => c.json(c.req.valid('json')))
+  .get('/search', validate('query', VectorSearchRequestSchema.pick({ query: true })), (c) => c.json(c.req.valid('query')))
+  .get('/items/:id', validate('param', IdParamSchema), (c) => c.json(c.req.valid('param')))
+
+function post(path: string, body: unknown) {
+  return app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+async function failure(response: Response) {
+  const { success, error } = (await response.json()) as ApiResponse
+  expect(success).toBe(false)
+  return { code: error?.code, details: error?.details as { target: string; fields: string[] } }
+}
+
+describe('validate', () => {
+  test('applies schema defaults to a valid body', async () => {
+    const response = await post('/execute', { code: 'print(1)' })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ code: 'print(1)', language: 'python', timeout_seconds: 60 })
+  })
+
+  test('rejects an invalid body with 422 and lists every failing field', async () => {
+    const response = await post('/execute', { language: 'cobol', timeout_seconds: 0 })
+    expect(response.status).toBe(422)
+
+    const error = await failure(response)
+    expect(error.code).toBe('VALIDATION_ERROR')
+    expect(error.details.target).toBe('json')
+    expect(error.details.fields.sort()).toEqual(['code', 'language', 'timeout_seconds'])
+  })
+
+  test('reports nested field paths', async () => {
+    const response = await post('/execute', { code: 'x', environment: { packages: 'numpy' } })
+    expect((await failure(response)).details.fields).toEqual(['environment.packages'])
+  })
+
+  test('rejects invalid query strings and path params with 400', async () => {
+    const search = await app.request('/search')
+    expect(search.status).toBe(400)
+    expect((await failure(search)).details.fields).toEqual(['query'])
+
+    const item = await app.request('/items/not-a-uuid')
+    expect(item.status).toBe(400)
+    expect((await failure(item)).details.target).toBe('param')
+  })
+})
@@ -0,0 +1,67 @@
+import type { Env, MiddlewareHandler, ValidationTargets } from 'hono'
+import { validator } from 'hono/validator'
+import type { z } from 'zod'
+import { errorResponse } from '../lib/responses.js'
+import { ERROR_CODES, HTTP_STATUS } from '../types/index.js'
+
+export type ValidationTarget = 'json' | 'query' | 'param' | 'form'
+
+export interface FieldIssue {
+  path: string
+  message: string
+  code: string
+}
+
+// Flatten Zod issues into `field.path` entries so clients can map each
+// failure to its input
+export function formatIssues(error: z.ZodError): FieldIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    message: issue.message,
+    code: issue.code,
+  }))
+}
+
+// Parse a request part against a Zod schema and expose the result (with
+// schema defaults applied) through c.req.valid(target). Invalid bodies are
+// rejected with 422, invalid query strings and path params with 400.
+export function validate<Target extends ValidationTarget, Schema extends z.ZodTypeAny>(
+  target: Target,
+  schema: Schema
+): MiddlewareHandler<
+  Env,
+  string,
+  {
+    in: { [K in Target]: z.input<Schema> }
+    out: { [K in Target]: z.output<Schema> }
+  }
+> {
+  return validator(target, async (value: ValidationTargets[Target]) => {
+    const startTime = Date.now()
+    const result = await schema.safeParseAsync(value)
+
+    if (!result.success) {
+      const issues = formatIssues(result.error)
+      const status =
+        target === 'json' || target === 'form'
+          ? HTTP_STATUS.UNPROCESSABLE_ENTITY
+          : HTTP_STATUS.BAD_REQUEST
+
+      return Response.json(
+        errorResponse(
+          ERROR_CODES.VALIDATION_ERROR,
+          `Invalid request ${target === 'json' ? 'body' : target}`,
+          startTime,
+          {
+            target,
+            fields: issues.map((issue) => issue.path),
+            issues,
+          }
+        ),
+        { status }
+      )
+    }
+
+    return result.data as z.output<Schema>
+  })
+}
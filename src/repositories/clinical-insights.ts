@@ -0,0 +1,26 @@
+import type { DataStore } from '../lib/data-store.js'
+import { TABLE_NAMES, type ClinicalInsightsTable } from '../types/index.js'
+
+export type RecordClinicalInsightInput = Pick<
+  ClinicalInsightsTable,
+  'patient_id' | 'insight_type' | 'title' | 'description' | 'severity' | 'actionable' | 'evidence' | 'generated_by'
+>
+
+// Insights raised by the system on a patient's behalf, e.g. care team alerts
+// for urgent chat messages, whoever's action led to them. Clinicians see them
+// through the patient's clinical_insights.
+export class ClinicalInsightRepository {
+  constructor(private store: DataStore) {}
+
+  // Record a pending insight
+  async record(input: RecordClinicalInsightInput): Promise<ClinicalInsightsTable> {
+    const now = new Date().toISOString()
+    return this.store.insert<ClinicalInsightsTable>(TABLE_NAMES.CLINICAL_INSIGHTS, {
+      id: crypto.randomUUID(),
+      ...input,
+      status: 'pending',
+      created_at: now,
+      updated_at: now,
+    })
+  }
+}
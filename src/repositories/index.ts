@@ -0,0 +1,102 @@
+import type { DataStore } from '../lib/data-store.js'
+import { adminDb } from '../lib/db.js'
+import { InMemoryDataStore } from '../lib/memory-store.js'
+import { ClinicalInsightRepository } from './clinical-insights.js'
+import { LabResultRepository } from './labs.js'
+import { MedicationRepository } from './medications.js'
+import { MessageRepository } from './messages.js'
+import { PatientRepository } from './patients.js'
+import { ServiceRequestRepository } from './service-requests.js'
+import { ThreadRepository } from './threads.js'
+import { ToolExecutionRepository } from './tool-executions.js'
+import { VoeEpisodeRepository } from './voe-episodes.js'
+import { WorkflowExecutionRepository } from './workflow-executions.js'
+import type { RequestContext } from '../types/index.js'
+
+// Active storage backend. DATA_STORE=memory keeps everything in-process,
+// otherwise records are persisted to Supabase through DatabaseService. The
+// service role client is preferred because access is enforced by the
+// permission matrix before queries reach the database.
+let activeStore: DataStore = process.env.DATA_STORE === 'memory' ? new InMemoryDataStore() : adminDb
+
+export function getDataStore(): DataStore {
+  return activeStore
+}
+
+// Swap the storage backend, e.g. for an InMemoryDataStore in tests
+export function setDataStore(store: DataStore): void {
+  activeStore = store
+}
+
+// Repositories bound to the active store
+export const repositories = {
+  get threads() {
+    return new ThreadRepository(activeStore)
+  },
+  get messages() {
+    return new MessageRepository(activeStore, new ThreadRepository(activeStore))
+  },
+  get patients() {
+    return new PatientRepository(activeStore)
+  },
+  get labs() {
+    return new LabResultRepository(activeStore, new PatientRepository(activeStore))
+  },
+  get medications() {
+    return new MedicationRepository(activeStore, new PatientRepository(activeStore))
+  },
+  get voeEpisodes() {
+    return new VoeEpisodeRepository(activeStore, new PatientRepository(activeStore))
+  },
+  get toolExecutions() {
+    return new ToolExecutionRepository(activeStore)
+  },
+  get workflowExecutions() {
+    return new WorkflowExecutionRepository(activeStore)
+  },
+  get serviceRequests() {
+    return new ServiceRequestRepository(activeStore)
+  },
+  get clinicalInsights() {
+    return new ClinicalInsightRepository(activeStore)
+  },
+
+  // Repositories enforcing the permission matrix for the requesting user
+  scoped(context: RequestContext) {
+    const threads = new ThreadRepository(activeStore, context)
+    const patients = new PatientRepository(activeStore, context)
+    return {
+      threads,
+      messages: new MessageRepository(activeStore, threads, context),
+      patients,
+      labs: new LabResultRepository(activeStore, patients, context),
+      voeEpisodes: new VoeEpisodeRepository(activeStore, patients, context),
+      medications: new MedicationRepository(activeStore, patients, context),
+      toolExecutions: new ToolExecutionRepository(activeStore, context),
+      workflowExecutions: new WorkflowExecutionRepository(activeStore, context),
+    }
+  },
+}
+
+export {
+  ClinicalInsightRepository,
+  LabResultRepository,
+  MedicationRepository,
+  MessageRepository,
+  PatientRepository,
+  ServiceRequestRepository,
+  ThreadRepository,
+  ToolExecutionRepository,
+  VoeEpisodeRepository,
+  WorkflowExecutionRepository,
+}
+export type * from './clinical-insights.js'
+export type * from './labs.js'
+export type * from './medications.js'
+export type * from './messages.js'
+export type * from './patients.js'
+export type * from './service-requests.js'
+export type * from './threads.js'
+export type * from './tool-executions.js'
+export type * from './voe-episodes.js'
+export type * from './workflow-executions.js'
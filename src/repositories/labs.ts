@@ -0,0 +1,96 @@
+import type { DataStore, RangeFilter, StoredRecord } from '../lib/data-store.js'
+import { applyScopeToRecord, assertRecordAccess, type AccessScope, type Action } from '../lib/permissions.js'
+import { withLabFlags, type FlaggedLabResult } from '../lib/reference-ranges.js'
+import type { PatientRepository } from './patients.js'
+import {
+  TABLE_NAMES,
+  type CreateLabResultRequest,
+  type DatabaseFilters,
+  type LabResultsTable,
+  type PaginatedResponse,
+  type PatientsTable,
+  type RequestContext,
+} from '../types/index.js'
+
+export interface LabResultListOptions extends Pick<DatabaseFilters, 'date_from' | 'date_to'> {
+  page: number
+  page_size: number
+}
+
+export type CreateLabResultInput = Omit<CreateLabResultRequest, 'patient_id'>
+
+export class LabResultRepository {
+  constructor(
+    private store: DataStore,
+    private patients: PatientRepository,
+    private context?: RequestContext
+  ) {}
+
+  // Lab results inherit access from their patient. The patient's age selects
+  // the reference ranges used for flagging.
+  private async authorizePatient(
+    patientId: string,
+    action: Action
+  ): Promise<{ patient: PatientsTable; scope: AccessScope }> {
+    const patient = await this.patients.get(patientId)
+    const scope = this.context
+      ? await assertRecordAccess(this.store, this.context, 'lab_results', action, { patient_id: patientId })
+      : 'all'
+    return { patient, scope }
+  }
+
+  // A patient's lab results, newest first, optionally limited to a date range
+  async list(patientId: string, options: LabResultListOptions): Promise<PaginatedResponse<FlaggedLabResult>> {
+    const { patient, scope } = await this.authorizePatient(patientId, 'read')
+
+    const ranges: RangeFilter[] = []
+    if (options.date_from || options.date_to) {
+      ranges.push({ column: 'test_date', gte: options.date_from, lte: options.date_to })
+    }
+
+    const result = await this.store.paginate<LabResultsTable>(TABLE_NAMES.LAB_RESULTS, {
+      page: options.page,
+      pageSize: options.page_size,
+      orderBy: 'test_date',
+      orderDirection: 'desc',
+      filters: { patient_id: patientId },
+      ranges,
+    })
+
+    return {
+      ...result,
+      data: result.data.map((lab) => withLabFlags(applyScopeToRecord('lab_results', scope, lab), patient.age)),
+    }
+  }
+
+  async create(patientId: string, input: CreateLabResultInput, createdBy: string): Promise<FlaggedLabResult> {
+    const { patient } = await this.authorizePatient(patientId, 'create')
+
+    const lab = await this.store.insert<LabResultsTable>(TABLE_NAMES.LAB_RESULTS, this.toRecord(patientId, input, createdBy))
+    return withLabFlags(lab, patient.age)
+  }
+
+  // Insert several results for one patient in a single batch
+  async bulkCreate(patientId: string, inputs: CreateLabResultInput[], createdBy: string): Promise<FlaggedLabResult[]> {
+    const { patient } = await this.authorizePatient(patientId, 'create')
+
+    const labs = await this.store.batchInsert<LabResultsTable>(
+      TABLE_NAMES.LAB_RESULTS,
+      inputs.map((input) => this.toRecord(patientId, input, createdBy))
+    )
+    return labs.map((lab) => withLabFlags(lab, patient.age))
+  }
+
+  private toRecord(patientId: string, input: CreateLabResultInput, createdBy: string): StoredRecord {
+    const now = new Date().toISOString()
+    return {
+      ...input,
+      id: crypto.randomUUID(),
+      patient_id: patientId,
+      notes: input.notes ?? null,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    }
+  }
+}
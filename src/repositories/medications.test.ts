@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test'
+import { withCurrentStatus } from './medications.js'
+import { MedicationRepository, PatientRepository } from './index.js'
+import { InMemoryDataStore } from '../lib/memory-store.js'
+import { TABLE_NAMES, type MedicationsTable } from '../types/index.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+async function setup() {
+  const store = new InMemoryDataStore()
+  const patient = await store.insert<{ id: string }>(TABLE_NAMES.PATIENTS, { organization_id: 'org-1' })
+  const medications = new MedicationRepository(store, new PatientRepository(store))
+  const create = (medication_name: string, start: number, end?: number) =>
+    medications.create(
+      patient.id,
+      {
+        medication_name,
+        dosage: '1 tablet',
+        frequency: 'daily',
+        start_date: new Date(Date.now() + start * DAY_MS).toISOString(),
+        end_date: end === undefined ? undefined : new Date(Date.now() + end * DAY_MS).toISOString(),
+        active: true,
+      },
+      'clinician-1'
+    )
+  return { store, patientId: patient.id, medications, create }
+}
+
+describe('withCurrentStatus', () => {
+  const medication = { active: true, end_date: '2026-05-31T12:00:00.000Z' } as MedicationsTable
+
+  test('keeps a medication active through the UTC day of its end date', () => {
+    expect(withCurrentStatus(medication, new Date('2026-05-31T23:00:00.000Z')).active).toBe(true)
+    expect(withCurrentStatus(medication, new Date('2026-06-01T00:00:00.000Z')).active).toBe(false)
+  })
+})
+
+describe('MedicationRepository', () => {
+  test('reports medications past their end date as inactive before the sweep', async () => {
+    const { store, patientId, medications, create } = await setup()
+    const ongoing = await create('Hydroxyurea', -30)
+    const course = await create('Folic acid', -30, 5)
+    await store.update(TABLE_NAMES.MEDICATIONS, course.id, { end_date: new Date(Date.now() - 3 * DAY_MS).toISOString() })
+
+    const active = await medications.list(patientId, { active: true, page: 1, page_size: 20 })
+    expect(active.data.map((medication) => medication.id)).toEqual([ongoing.id])
+    expect(active.total_count).toBe(1)
+    expect((await medications.get(patientId, course.id)).active).toBe(false)
+
+    expect(await medications.deactivateExpired()).toBe(1)
+    expect((await store.findById<MedicationsTable>(TABLE_NAMES.MEDICATIONS, course.id))?.active).toBe(false)
+  })
+
+  test('checks the merged period on update', async () => {
+    const { patientId, medications, create } = await setup()
+    const medication = await create('Hydroxyurea', -10)
+
+    await expect(
+      medications.update(patientId, medication.id, { end_date: new Date(Date.now() - 20 * DAY_MS).toISOString() })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR', status: 422 })
+  })
+
+  test('does not reactivate an expired medication', async () => {
+    const { patientId, medications, create } = await setup()
+    const medication = await create('Oxycodone', -10, -2)
+    expect(medication.active).toBe(false)
+
+    expect((await medications.update(patientId, medication.id, { active: true })).active).toBe(false)
+  })
+})
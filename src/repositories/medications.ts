@@ -0,0 +1,278 @@
+import type { DataStore, RangeFilter } from '../lib/data-store.js'
+import { ApiError, notFound } from '../lib/errors.js'
+import { applyScopeToRecord, assertRecordAccess, type AccessScope, type Action } from '../lib/permissions.js'
+import {
+  CBC_MONITORING_INTERVAL_DAYS,
+  evaluateMedicationRules,
+  type MedicationFinding,
+} from '../lib/medication-rules.js'
+import type { PatientRepository } from './patients.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  TABLE_NAMES,
+  type ClinicalInsightsTable,
+  type CreateMedicationRequest,
+  type LabResultsTable,
+  type MedicationsTable,
+  type PaginatedResponse,
+  type RequestContext,
+  type UpdateMedicationRequest,
+} from '../types/index.js'
+
+export interface MedicationListOptions {
+  active?: boolean
+  page: number
+  page_size: number
+}
+
+export type CreateMedicationInput = Omit<CreateMedicationRequest, 'patient_id'>
+
+export interface MedicationTimelineEvent {
+  date: string
+  event: 'started' | 'stopped'
+  medication_id: string
+  medication_name: string
+}
+
+export interface MedicationTimeline {
+  medications: Array<MedicationsTable & { duration_days: number | null }>
+  events: MedicationTimelineEvent[]
+}
+
+export interface MedicationReview {
+  findings: MedicationFinding[]
+  // Insights stored by this review; findings already pending are not repeated
+  insights: ClinicalInsightsTable[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class MedicationRepository {
+  constructor(
+    private store: DataStore,
+    private patients: PatientRepository,
+    private context?: RequestContext
+  ) {}
+
+  // Medications inherit access from their patient
+  private async authorizePatient(patientId: string, action: Action): Promise<AccessScope> {
+    await this.patients.get(patientId)
+    return this.context
+      ? assertRecordAccess(this.store, this.context, 'medications', action, { patient_id: patientId })
+      : 'all'
+  }
+
+  // A patient's medications are few, so they are filtered on their current
+  // status and paged here rather than in the store
+  async list(patientId: string, options: MedicationListOptions): Promise<PaginatedResponse<MedicationsTable>> {
+    const scope = await this.authorizePatient(patientId, 'read')
+    const now = new Date()
+
+    const medications = (
+      await this.store.findMany<MedicationsTable>(TABLE_NAMES.MEDICATIONS, {
+        filters: { patient_id: patientId },
+        orderBy: 'start_date',
+        orderDirection: 'desc',
+      })
+    )
+      .map((medication) => withCurrentStatus(medication, now))
+      .filter((medication) => options.active === undefined || medication.active === options.active)
+
+    const offset = (options.page - 1) * options.page_size
+    return {
+      data: medications
+        .slice(offset, offset + options.page_size)
+        .map((medication) => applyScopeToRecord('medications', scope, medication)),
+      total_count: medications.length,
+      page: options.page,
+      page_size: options.page_size,
+      has_more: medications.length > offset + options.page_size,
+    }
+  }
+
+  async get(patientId: string, medicationId: string, action: Action = 'read'): Promise<MedicationsTable> {
+    const scope = await this.authorizePatient(patientId, action)
+
+    const medication = await this.store.findById<MedicationsTable>(TABLE_NAMES.MEDICATIONS, medicationId)
+    if (!medication || medication.patient_id !== patientId) {
+      throw notFound('Medication', medicationId)
+    }
+    return applyScopeToRecord('medications', scope, withCurrentStatus(medication, new Date()))
+  }
+
+  async create(patientId: string, input: CreateMedicationInput, createdBy: string): Promise<MedicationsTable> {
+    await this.authorizePatient(patientId, 'create')
+
+    const now = new Date()
+    const timestamp = now.toISOString()
+    return this.store.insert<MedicationsTable>(TABLE_NAMES.MEDICATIONS, {
+      ...input,
+      id: crypto.randomUUID(),
+      patient_id: patientId,
+      active: (input.active ?? true) && !isExpired(input.end_date, now),
+      created_by: createdBy,
+      created_at: timestamp,
+      updated_at: timestamp,
+    })
+  }
+
+  async update(patientId: string, medicationId: string, changes: UpdateMedicationRequest): Promise<MedicationsTable> {
+    const current = await this.get(patientId, medicationId, 'update')
+    const now = new Date()
+
+    // The request only checks the period when both dates are in it
+    const startDate = changes.start_date ?? current.start_date
+    const endDate = changes.end_date ?? current.end_date
+    if (endDate && Date.parse(endDate) < Date.parse(startDate)) {
+      throw new ApiError(ERROR_CODES.VALIDATION_ERROR, 'end_date must not be before start_date', HTTP_STATUS.UNPROCESSABLE_ENTITY, {
+        issues: [{ path: 'end_date', message: 'end_date must not be before start_date', code: 'custom' }],
+      })
+    }
+
+    // A medication whose end date has passed cannot be reactivated
+    const active = (changes.active ?? current.active) && !isExpired(endDate, now)
+
+    const updated = await this.store.update<MedicationsTable>(TABLE_NAMES.MEDICATIONS, medicationId, {
+      ...changes,
+      active,
+      updated_at: now.toISOString(),
+    })
+    if (!updated) {
+      throw notFound('Medication', medicationId)
+    }
+    return updated
+  }
+
+  async delete(patientId: string, medicationId: string): Promise<void> {
+    await this.get(patientId, medicationId, 'delete')
+    await this.store.delete(TABLE_NAMES.MEDICATIONS, medicationId)
+  }
+
+  // Start and stop events across the patient's medication history
+  async timeline(patientId: string): Promise<MedicationTimeline> {
+    const scope = await this.authorizePatient(patientId, 'read')
+
+    const now = new Date()
+    const medications = (
+      await this.store.findMany<MedicationsTable>(TABLE_NAMES.MEDICATIONS, {
+        filters: { patient_id: patientId },
+        orderBy: 'start_date',
+        orderDirection: 'asc',
+      })
+    ).map((medication) => withCurrentStatus(medication, now))
+
+    const events: MedicationTimelineEvent[] = []
+    for (const medication of medications) {
+      events.push({
+        date: medication.start_date,
+        event: 'started',
+        medication_id: medication.id,
+        medication_name: medication.medication_name,
+      })
+      if (medication.end_date) {
+        events.push({
+          date: medication.end_date,
+          event: 'stopped',
+          medication_id: medication.id,
+          medication_name: medication.medication_name,
+        })
+      }
+    }
+    events.sort((a, b) => a.date.localeCompare(b.date))
+
+    return {
+      medications: medications.map((medication) => ({
+        ...applyScopeToRecord('medications', scope, medication),
+        duration_days: medication.end_date
+          ? Math.round((Date.parse(medication.end_date) - Date.parse(medication.start_date)) / DAY_MS)
+          : null,
+      })),
+      events,
+    }
+  }
+
+  // Run the medication rules and store new findings as clinical insights
+  async review(patientId: string, now: Date = new Date()): Promise<MedicationReview> {
+    await this.authorizePatient(patientId, 'read')
+    if (this.context) {
+      await assertRecordAccess(this.store, this.context, 'clinical_insights', 'create', { patient_id: patientId })
+    }
+    await this.deactivateExpired(patientId, now)
+
+    const labWindow: RangeFilter = {
+      column: 'test_date',
+      gte: new Date(now.getTime() - CBC_MONITORING_INTERVAL_DAYS * DAY_MS).toISOString(),
+    }
+    const [medications, labs, pending] = await Promise.all([
+      this.store.findMany<MedicationsTable>(TABLE_NAMES.MEDICATIONS, {
+        filters: { patient_id: patientId, active: true },
+      }),
+      this.store.findMany<LabResultsTable>(TABLE_NAMES.LAB_RESULTS, {
+        filters: { patient_id: patientId },
+        ranges: [labWindow],
+      }),
+      this.store.findMany<ClinicalInsightsTable>(TABLE_NAMES.CLINICAL_INSIGHTS, {
+        filters: { patient_id: patientId, generated_by: 'clinical_rule', status: 'pending' },
+      }),
+    ])
+
+    const findings = evaluateMedicationRules({ medications, labs, now })
+    const pendingTitles = new Set(pending.map((insight) => insight.title))
+    const timestamp = now.toISOString()
+
+    const fresh = findings.filter((finding) => !pendingTitles.has(finding.title))
+    const insights =
+      fresh.length > 0
+        ? await this.store.batchInsert<ClinicalInsightsTable>(
+            TABLE_NAMES.CLINICAL_INSIGHTS,
+            fresh.map(({ rule_id, ...finding }) => ({
+              ...finding,
+              id: crypto.randomUUID(),
+              patient_id: patientId,
+              insight_type: 'medication_review',
+              generated_by: 'clinical_rule',
+              status: 'pending',
+              created_at: timestamp,
+              updated_at: timestamp,
+            }))
+          )
+        : []
+
+    return { findings, insights }
+  }
+
+  // Mark active medications whose end_date has passed as inactive. Without a
+  // patient id every patient's medications are swept, as src/index.ts does at
+  // startup and hourly; reads report such rows as inactive in the meantime.
+  async deactivateExpired(patientId?: string, now: Date = new Date()): Promise<number> {
+    const timestamp = now.toISOString()
+    const found = await this.store.findMany<MedicationsTable>(TABLE_NAMES.MEDICATIONS, {
+      filters: { patient_id: patientId, active: true },
+      ranges: [{ column: 'end_date', lte: lastExpiredInstant(now) }],
+    })
+    const expired = found.filter((medication) => isExpired(medication.end_date, now))
+
+    for (const medication of expired) {
+      await this.store.update(TABLE_NAMES.MEDICATIONS, medication.id, { active: false, updated_at: timestamp })
+    }
+    return expired.length
+  }
+}
+
+// End dates are inclusive: a medication is taken through the UTC day of its
+// end_date, which may be a date or a timestamp, and has expired once that day
+// is over
+function lastExpiredInstant(now: Date): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - 1).toISOString()
+}
+
+function isExpired(endDate: string | undefined, now: Date): boolean {
+  return !!endDate && Date.parse(endDate) <= Date.parse(lastExpiredInstant(now))
+}
+
+// The medication as it stands at `now`, whether or not the sweep has
+// deactivated it yet
+export function withCurrentStatus(medication: MedicationsTable, now: Date): MedicationsTable {
+  return medication.active && isExpired(medication.end_date, now) ? { ...medication, active: false } : medication
+}
@@ -0,0 +1,286 @@
+import type { DataStore } from '../lib/data-store.js'
+import { notFound } from '../lib/errors.js'
+import { assertRecordAccess, type Action } from '../lib/permissions.js'
+import { conversationContext, type ThreadRepository } from './threads.js'
+import {
+  TABLE_NAMES,
+  type Message,
+  type MessageBranchesResponse,
+  type MessageListResponse,
+  type MessageTreeNode,
+  type MessageTreeResponse,
+  type RequestContext,
+  type Thread,
+} from '../types/index.js'
+
+export interface MessageListOptions {
+  page: number
+  page_size: number
+}
+
+export interface CreateMessageInput {
+  role: Message['role']
+  content: string
+  content_type?: Message['content_type']
+  metadata?: Message['metadata']
+  parent_message_id?: string
+}
+
+export interface UpdateMessageInput {
+  content?: string
+  content_type?: Message['content_type']
+  metadata?: Message['metadata']
+}
+
+export interface ForkThreadInput {
+  user_id: string
+  title?: string
+  description?: string
+}
+
+// Messages form a tree through parent_message_id: replying to an earlier
+// message, editing one or regenerating a reply adds a sibling branch next to
+// the existing one instead of replacing it. A message whose parent was
+// deleted is treated as a root.
+export class MessageRepository {
+  constructor(
+    private store: DataStore,
+    private threads: ThreadRepository,
+    private context?: RequestContext
+  ) {}
+
+  // Messages inherit access from their thread
+  private async authorizeThread(threadId: string, action: Action): Promise<Thread> {
+    const thread = await this.threads.get(threadId)
+    if (this.context) {
+      await assertRecordAccess(this.store, this.context, 'messages', action, { thread_id: threadId })
+    }
+    return thread
+  }
+
+  // List a thread's messages in conversation order, with the context the
+  // latest reply was generated with
+  async list(threadId: string, options: MessageListOptions): Promise<MessageListResponse> {
+    const thread = await this.authorizeThread(threadId, 'read')
+
+    const result = await this.store.paginate<Message>(TABLE_NAMES.MESSAGES, {
+      page: options.page,
+      pageSize: options.page_size,
+      orderBy: 'created_at',
+      orderDirection: 'asc',
+      filters: { thread_id: threadId },
+    })
+
+    return {
+      messages: result.data,
+      total_count: result.total_count,
+      page: result.page,
+      page_size: result.page_size,
+      has_more: result.has_more,
+      context: conversationContext(thread),
+    }
+  }
+
+  // The thread's latest `limit` messages, in conversation order
+  async recent(threadId: string, limit: number): Promise<Message[]> {
+    await this.authorizeThread(threadId, 'read')
+
+    const latest = await this.store.findMany<Message>(TABLE_NAMES.MESSAGES, {
+      filters: { thread_id: threadId },
+      orderBy: 'created_at',
+      orderDirection: 'desc',
+      limit,
+    })
+    return latest.reverse()
+  }
+
+  // The thread's messages as a tree; roots and siblings in the order they
+  // were written
+  async tree(threadId: string): Promise<MessageTreeResponse> {
+    await this.authorizeThread(threadId, 'read')
+
+    const messages = await this.all(threadId)
+    const nodes = new Map(messages.map((message): [string, MessageTreeNode] => [message.id, { ...message, children: [] }]))
+    const roots: MessageTreeNode[] = []
+    for (const node of nodes.values()) {
+      const parent = node.parent_message_id ? nodes.get(node.parent_message_id) : undefined
+      if (parent) {
+        parent.children.push(node)
+      } else {
+        roots.push(node)
+      }
+    }
+    return { messages: roots, total_count: messages.length }
+  }
+
+  // The message and the messages it follows from, root first; the latest
+  // `limit` of them when given
+  async ancestry(threadId: string, messageId: string, limit?: number): Promise<Message[]> {
+    await this.get(threadId, messageId)
+
+    const byId = new Map((await this.all(threadId)).map((message) => [message.id, message]))
+    const path: Message[] = []
+    for (let message = byId.get(messageId); message && (limit === undefined || path.length < limit); ) {
+      path.push(message)
+      message = message.parent_message_id ? byId.get(message.parent_message_id) : undefined
+    }
+    return path.reverse()
+  }
+
+  // The message and its alternatives: every message with the same parent
+  async branches(threadId: string, messageId: string): Promise<MessageBranchesResponse> {
+    const message = await this.get(threadId, messageId)
+    const messages = await this.all(threadId)
+    const ids = new Set(messages.map(({ id }) => id))
+    const parentOf = (candidate: Message) =>
+      candidate.parent_message_id && ids.has(candidate.parent_message_id) ? candidate.parent_message_id : null
+    const parentId = parentOf(message)
+    const branches = messages.filter((candidate) => parentOf(candidate) === parentId)
+
+    return {
+      message_id: message.id,
+      parent_message_id: parentId,
+      index: branches.findIndex((branch) => branch.id === message.id),
+      branches,
+    }
+  }
+
+  // Messages that follow directly from the message
+  async replies(threadId: string, messageId: string): Promise<Message[]> {
+    await this.get(threadId, messageId)
+    return this.store.findMany<Message>(TABLE_NAMES.MESSAGES, {
+      filters: { thread_id: threadId, parent_message_id: messageId },
+      orderBy: 'created_at',
+      orderDirection: 'asc',
+    })
+  }
+
+  async get(threadId: string, messageId: string, action: Action = 'read'): Promise<Message> {
+    await this.authorizeThread(threadId, action)
+
+    const message = await this.store.findById<Message>(TABLE_NAMES.MESSAGES, messageId)
+    if (!message || message.thread_id !== threadId) {
+      throw notFound('Message', messageId)
+    }
+    return message
+  }
+
+  // Store a message and bump the thread's last_message_at
+  async create(threadId: string, input: CreateMessageInput): Promise<Message> {
+    await this.authorizeThread(threadId, 'create')
+
+    if (input.parent_message_id) {
+      await this.get(threadId, input.parent_message_id)
+    }
+
+    const now = new Date().toISOString()
+    const message = await this.store.insert<Message>(TABLE_NAMES.MESSAGES, {
+      id: crypto.randomUUID(),
+      thread_id: threadId,
+      role: input.role,
+      content: input.content,
+      content_type: input.content_type ?? 'text',
+      metadata: input.metadata ?? null,
+      parent_message_id: input.parent_message_id ?? null,
+      created_at: now,
+      updated_at: now,
+    })
+
+    await this.threads.touch(threadId, now)
+    return message
+  }
+
+  // Store an edited copy of the message next to it, leaving the original and
+  // the conversation that followed it in place. Metadata describing the
+  // original's content, how it was generated or tool calls waiting on it is
+  // not carried over: approving those calls from the copy would run them twice.
+  async edit(threadId: string, messageId: string, changes: UpdateMessageInput): Promise<Message> {
+    const original = await this.get(threadId, messageId, 'update')
+    const {
+      model_used: _model,
+      tokens_used: _tokens,
+      processing_time_ms: _time,
+      confidence_score: _confidence,
+      citations: _citations,
+      tools_used: _tools,
+      error_details: _error,
+      awaiting_approval: _awaiting,
+      edited_from: _edited,
+      regenerated_from: _regenerated,
+      analysis: _analysis,
+      care_team_alert: _alert,
+      ...carried
+    } = original.metadata ?? {}
+    return this.create(threadId, {
+      role: original.role,
+      content: changes.content ?? original.content,
+      content_type: changes.content_type ?? original.content_type,
+      metadata: { ...(changes.metadata ?? carried), edited_from: original.id },
+      parent_message_id: original.parent_message_id ?? undefined,
+    })
+  }
+
+  async update(threadId: string, messageId: string, changes: UpdateMessageInput): Promise<Message> {
+    await this.get(threadId, messageId, 'update')
+
+    const updated = await this.store.update<Message>(TABLE_NAMES.MESSAGES, messageId, {
+      ...changes,
+      updated_at: new Date().toISOString(),
+    })
+    if (!updated) {
+      throw notFound('Message', messageId)
+    }
+    return updated
+  }
+
+  async delete(threadId: string, messageId: string): Promise<void> {
+    await this.get(threadId, messageId, 'delete')
+    await this.store.delete(TABLE_NAMES.MESSAGES, messageId)
+  }
+
+  // Start a new thread from the message: the message and its ancestry are
+  // copied, and threads.metadata.forked_from records where they came from
+  async fork(threadId: string, messageId: string, input: ForkThreadInput): Promise<Thread> {
+    const source = await this.threads.get(threadId)
+    const path = await this.ancestry(threadId, messageId)
+
+    // The source's conversation context describes its latest branch, which
+    // the fork may not include
+    const { conversation_context: _context, ...metadata } = source.metadata ?? {}
+    const forkedAt = new Date().toISOString()
+    const thread = await this.threads.create({
+      user_id: input.user_id,
+      title: input.title ?? `${source.title} (fork)`.slice(0, 200),
+      description: input.description ?? source.description ?? undefined,
+      metadata: { ...metadata, forked_from: { thread_id: source.id, message_id: messageId, forked_at: forkedAt } },
+    })
+
+    await this.authorizeThread(thread.id, 'create')
+
+    // Copies keep their timestamps so the conversation reads the same. Tool
+    // calls waiting for approval stay with the original.
+    let parentId: string | null = null
+    for (const { metadata, ...message } of path) {
+      const { awaiting_approval: _awaiting, ...copiedMetadata } = metadata ?? {}
+      const copy: Message = await this.store.insert<Message>(TABLE_NAMES.MESSAGES, {
+        ...message,
+        id: crypto.randomUUID(),
+        thread_id: thread.id,
+        metadata: metadata ? copiedMetadata : null,
+        parent_message_id: parentId,
+      })
+      parentId = copy.id
+    }
+
+    await this.threads.touch(thread.id, forkedAt)
+    return this.threads.get(thread.id)
+  }
+
+  private async all(threadId: string): Promise<Message[]> {
+    return this.store.findMany<Message>(TABLE_NAMES.MESSAGES, {
+      filters: { thread_id: threadId },
+      orderBy: 'created_at',
+      orderDirection: 'asc',
+    })
+  }
+}
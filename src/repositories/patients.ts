@@ -0,0 +1,245 @@
+import type { DataStore, QueryFilters, RangeFilter } from '../lib/data-store.js'
+import { ApiError, forbidden, notFound } from '../lib/errors.js'
+import {
+  applyScopeToRecord,
+  assertRecordAccess,
+  authorize,
+  getAccessScope,
+  resolveScopeFilters,
+  type AccessScope,
+  type Action,
+} from '../lib/permissions.js'
+import { withLabFlags, type FlaggedLabResult } from '../lib/reference-ranges.js'
+import { withCurrentStatus } from './medications.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  TABLE_NAMES,
+  type CreatePatientRequest,
+  type LabResultsTable,
+  type MedicationsTable,
+  type PaginatedResponse,
+  type PatientsTable,
+  type RequestContext,
+  type RiskAssessmentsTable,
+  type UpdatePatientRequest,
+  type UserProfile,
+} from '../types/index.js'
+
+export interface PatientSearchOptions {
+  medical_record_number?: string
+  scd_genotype?: PatientsTable['scd_genotype']
+  age_min?: number
+  age_max?: number
+  organization_id?: string
+  page: number
+  page_size: number
+}
+
+export interface PatientSummary {
+  patient: PatientsTable
+  latest_labs: FlaggedLabResult[]
+  active_medications: MedicationsTable[]
+  latest_risk_assessment: RiskAssessmentsTable | null
+}
+
+// Number of recent lab results bundled into a patient summary
+const SUMMARY_LAB_COUNT = 5
+
+export class PatientRepository {
+  constructor(
+    private store: DataStore,
+    private context?: RequestContext
+  ) {}
+
+  async search(options: PatientSearchOptions): Promise<PaginatedResponse<PatientsTable>> {
+    const scope = this.context ? authorize(this.context, 'patients', 'read') : 'all'
+
+    // Searching on a field that is redacted would leak it
+    if (scope === 'deidentified' && options.medical_record_number) {
+      throw forbidden('Medical record number search is not available on de-identified data')
+    }
+
+    const ranges: RangeFilter[] = []
+    if (options.age_min !== undefined || options.age_max !== undefined) {
+      ranges.push({ column: 'age', gte: options.age_min, lte: options.age_max })
+    }
+
+    const result = await this.store.paginate<PatientsTable>(TABLE_NAMES.PATIENTS, {
+      page: options.page,
+      pageSize: options.page_size,
+      orderBy: 'created_at',
+      orderDirection: 'desc',
+      filters: {
+        medical_record_number: options.medical_record_number,
+        scd_genotype: options.scd_genotype,
+        organization_id: options.organization_id,
+      },
+      ranges,
+      scope: await this.scopeFilters(scope),
+    })
+
+    return {
+      ...result,
+      data: result.data.map((patient) => applyScopeToRecord('patients', scope, patient)),
+    }
+  }
+
+  async get(id: string, action: Action = 'read'): Promise<PatientsTable> {
+    const { patient, scope } = await this.load(id, action)
+    return applyScopeToRecord('patients', scope, patient)
+  }
+
+  async create(input: CreatePatientRequest, createdBy: string): Promise<PatientsTable> {
+    if (this.context) {
+      const scope = authorize(this.context, 'patients', 'create')
+      if (scope === 'organization' && input.organization_id !== this.context.organization_id) {
+        throw forbidden('Patients can only be registered in your own organization')
+      }
+    }
+
+    await this.assertUniqueRecordNumber(input.organization_id, input.medical_record_number)
+    await this.assertPatientAccount(input.organization_id, input.user_id)
+
+    const now = new Date().toISOString()
+    return this.store.insert<PatientsTable>(TABLE_NAMES.PATIENTS, {
+      id: crypto.randomUUID(),
+      user_id: input.user_id ?? null,
+      medical_record_number: input.medical_record_number ?? null,
+      age: input.age,
+      gender: input.gender,
+      scd_genotype: input.scd_genotype,
+      diagnosis_date: input.diagnosis_date,
+      organization_id: input.organization_id,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    })
+  }
+
+  async update(id: string, changes: UpdatePatientRequest): Promise<PatientsTable> {
+    await this.load(id, 'update')
+
+    const updated = await this.store.update<PatientsTable>(TABLE_NAMES.PATIENTS, id, {
+      ...changes,
+      updated_at: new Date().toISOString(),
+    })
+    if (!updated) {
+      throw notFound('Patient', id, ERROR_CODES.PATIENT_NOT_FOUND)
+    }
+    return updated
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.load(id, 'delete')
+    await this.store.delete(TABLE_NAMES.PATIENTS, id)
+  }
+
+  // Latest labs, active medications and the most recent risk assessment in
+  // one response. Sections the caller's role may not read are left empty.
+  async summary(id: string): Promise<PatientSummary> {
+    const { patient, scope } = await this.load(id, 'read')
+    const labScope = this.sectionScope('lab_results')
+    const medicationScope = this.sectionScope('medications')
+    const riskScope = this.sectionScope('risk_assessments')
+    const now = new Date()
+
+    const [labs, medications, assessments] = await Promise.all([
+      labScope
+        ? this.store.findMany<LabResultsTable>(TABLE_NAMES.LAB_RESULTS, {
+            filters: { patient_id: id },
+            orderBy: 'test_date',
+            orderDirection: 'desc',
+            limit: SUMMARY_LAB_COUNT,
+          })
+        : [],
+      medicationScope
+        ? this.store.findMany<MedicationsTable>(TABLE_NAMES.MEDICATIONS, {
+            filters: { patient_id: id, active: true },
+            orderBy: 'start_date',
+            orderDirection: 'desc',
+          })
+        : [],
+      riskScope
+        ? this.store.findMany<RiskAssessmentsTable>(TABLE_NAMES.RISK_ASSESSMENTS, {
+            filters: { patient_id: id },
+            orderBy: 'assessment_date',
+            orderDirection: 'desc',
+            limit: 1,
+          })
+        : [],
+    ])
+
+    const latestAssessment = assessments[0]
+
+    return {
+      patient: applyScopeToRecord('patients', scope, patient),
+      latest_labs: labScope
+        ? labs.map((lab) => withLabFlags(applyScopeToRecord('lab_results', labScope, lab), patient.age))
+        : [],
+      active_medications: medicationScope
+        ? medications
+            .filter((medication) => withCurrentStatus(medication, now).active)
+            .map((medication) => applyScopeToRecord('medications', medicationScope, medication))
+        : [],
+      latest_risk_assessment:
+        riskScope && latestAssessment ? applyScopeToRecord('risk_assessments', riskScope, latestAssessment) : null,
+    }
+  }
+
+  // Fetch a patient and check the caller may perform `action` on it
+  private async load(id: string, action: Action): Promise<{ patient: PatientsTable; scope: AccessScope }> {
+    const patient = await this.store.findById<PatientsTable>(TABLE_NAMES.PATIENTS, id)
+    if (!patient) {
+      throw notFound('Patient', id, ERROR_CODES.PATIENT_NOT_FOUND)
+    }
+
+    const scope = this.context
+      ? await assertRecordAccess(this.store, this.context, 'patients', action, patient)
+      : 'all'
+    return { patient, scope }
+  }
+
+  private async scopeFilters(scope: AccessScope): Promise<QueryFilters | undefined> {
+    return this.context ? resolveScopeFilters(this.store, this.context, 'patients', scope) : undefined
+  }
+
+  private sectionScope(resource: 'lab_results' | 'medications' | 'risk_assessments'): AccessScope | null {
+    return this.context ? getAccessScope(this.context, resource, 'read') : 'all'
+  }
+
+  // A linked account is given `own` access to the patient's records, so it
+  // must be a patient account in the same organization
+  private async assertPatientAccount(organizationId: string, userId?: string): Promise<void> {
+    if (!userId) {
+      return
+    }
+
+    const profile = await this.store.findById<UserProfile>(TABLE_NAMES.USER_PROFILES, userId)
+    if (profile?.role !== 'patient' || profile.organization_id !== organizationId) {
+      throw new ApiError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `User ${userId} is not a patient account in this organization`,
+        HTTP_STATUS.UNPROCESSABLE_ENTITY
+      )
+    }
+  }
+
+  private async assertUniqueRecordNumber(organizationId: string, recordNumber?: string): Promise<void> {
+    if (!recordNumber) {
+      return
+    }
+
+    const existing = await this.store.findMany(TABLE_NAMES.PATIENTS, {
+      filters: { organization_id: organizationId, medical_record_number: recordNumber },
+      limit: 1,
+    })
+    if (existing.length > 0) {
+      throw new ApiError(
+        ERROR_CODES.RESOURCE_ALREADY_EXISTS,
+        `Medical record number ${recordNumber} is already registered in this organization`,
+        HTTP_STATUS.CONFLICT
+      )
+    }
+  }
+}
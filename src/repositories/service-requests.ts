@@ -0,0 +1,27 @@
+import type { DataStore } from '../lib/data-store.js'
+import { TABLE_NAMES, type ServiceRequestsTable } from '../types/index.js'
+
+export type RecordServiceRequestInput = Omit<ServiceRequestsTable, 'id'>
+
+// Log of outbound service calls, one row per attempt. Attempts of the same
+// call share a request_id and are numbered by retry_count. Written by the
+// service clients only, so there is no request-scoped variant.
+export class ServiceRequestRepository {
+  constructor(private store: DataStore) {}
+
+  async record(input: RecordServiceRequestInput): Promise<ServiceRequestsTable> {
+    return this.store.insert<ServiceRequestsTable>(TABLE_NAMES.SERVICE_REQUESTS, {
+      id: crypto.randomUUID(),
+      ...input,
+    })
+  }
+
+  // Attempts of one call, first attempt first
+  async listAttempts(requestId: string): Promise<ServiceRequestsTable[]> {
+    return this.store.findMany<ServiceRequestsTable>(TABLE_NAMES.SERVICE_REQUESTS, {
+      filters: { request_id: requestId },
+      orderBy: 'retry_count',
+      orderDirection: 'asc',
+    })
+  }
+}
@@ -0,0 +1,153 @@
+import type { DataStore } from '../lib/data-store.js'
+import { forbidden, notFound } from '../lib/errors.js'
+import { assertRecordAccess, authorize, resolveScopeFilters, type Action } from '../lib/permissions.js'
+import {
+  ConversationContextSchema,
+  TABLE_NAMES,
+  type ConversationContext,
+  type RequestContext,
+  type Thread,
+  type ThreadListResponse,
+} from '../types/index.js'
+
+export type ThreadStatus = Thread['status']
+
+export interface ThreadListOptions {
+  status?: ThreadStatus
+  page: number
+  page_size: number
+}
+
+export interface CreateThreadInput {
+  user_id: string
+  title: string
+  description?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface UpdateThreadInput {
+  title?: string
+  description?: string
+  status?: ThreadStatus
+  metadata?: Record<string, unknown>
+}
+
+// The context stored in the thread's metadata.conversation_context, unless
+// it is missing or invalid
+export function conversationContext(thread: Thread): ConversationContext | undefined {
+  const parsed = ConversationContextSchema.safeParse(thread.metadata?.conversation_context)
+  return parsed.success ? parsed.data : undefined
+}
+
+export class ThreadRepository {
+  // With a request context, every operation is checked against the
+  // permission matrix; without one the repository is unrestricted
+  constructor(
+    private store: DataStore,
+    private context?: RequestContext
+  ) {}
+
+  // List threads newest-activity first. Deleted threads are only returned
+  // when explicitly requested through the status filter.
+  async list(options: ThreadListOptions): Promise<ThreadListResponse> {
+    const scope = this.context
+      ? await resolveScopeFilters(this.store, this.context, 'threads', authorize(this.context, 'threads', 'read'))
+      : undefined
+
+    const result = await this.store.paginate<Thread>(TABLE_NAMES.THREADS, {
+      page: options.page,
+      pageSize: options.page_size,
+      orderBy: 'updated_at',
+      orderDirection: 'desc',
+      filters: {
+        status: options.status ?? ['active', 'archived'],
+      },
+      scope,
+    })
+
+    return {
+      threads: result.data,
+      total_count: result.total_count,
+      page: result.page,
+      page_size: result.page_size,
+      has_more: result.has_more,
+    }
+  }
+
+  // Fetch a thread the caller may perform `action` on, treating soft-deleted
+  // threads as missing
+  async get(id: string, action: Action = 'read'): Promise<Thread> {
+    const thread = await this.store.findById<Thread>(TABLE_NAMES.THREADS, id)
+    if (!thread || thread.status === 'deleted') {
+      throw notFound('Thread', id)
+    }
+    if (this.context) {
+      await assertRecordAccess(this.store, this.context, 'threads', action, thread)
+    }
+    return thread
+  }
+
+  async create(input: CreateThreadInput): Promise<Thread> {
+    if (this.context) {
+      const scope = authorize(this.context, 'threads', 'create')
+      if (scope === 'own' && input.user_id !== this.context.user_id) {
+        throw forbidden('Cannot create threads for another user')
+      }
+    }
+
+    const now = new Date().toISOString()
+    return this.store.insert<Thread>(TABLE_NAMES.THREADS, {
+      id: crypto.randomUUID(),
+      user_id: input.user_id,
+      title: input.title,
+      description: input.description ?? null,
+      status: 'active',
+      metadata: input.metadata ?? null,
+      created_at: now,
+      updated_at: now,
+      last_message_at: null,
+    })
+  }
+
+  async update(id: string, changes: UpdateThreadInput): Promise<Thread> {
+    await this.get(id, 'update')
+    return this.write(id, changes)
+  }
+
+  async archive(id: string): Promise<Thread> {
+    return this.update(id, { status: 'archived' })
+  }
+
+  // Soft delete: the row and its messages are kept for auditing
+  async delete(id: string): Promise<void> {
+    await this.get(id, 'delete')
+    await this.write(id, { status: 'deleted' })
+  }
+
+  // Record activity on a thread after a new message
+  async touch(id: string, at: string): Promise<void> {
+    await this.store.update(TABLE_NAMES.THREADS, id, {
+      last_message_at: at,
+      updated_at: at,
+    })
+  }
+
+  // Store the conversation context computed for the thread's latest reply;
+  // like touch(), on behalf of whoever may write messages to it
+  async recordContext(thread: Thread, context: ConversationContext): Promise<void> {
+    await this.store.update(TABLE_NAMES.THREADS, thread.id, {
+      metadata: { ...thread.metadata, conversation_context: context },
+    })
+  }
+
+  private async write(id: string, changes: UpdateThreadInput): Promise<Thread> {
+    const updated = await this.store.update<Thread>(TABLE_NAMES.THREADS, id, {
+      ...changes,
+      updated_at: new Date().toISOString(),
+    })
+    if (!updated) {
+      throw notFound('Thread', id)
+    }
+    return updated
+  }
+}
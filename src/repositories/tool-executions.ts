@@ -0,0 +1,147 @@
+import type { DataStore } from '../lib/data-store.js'
+import { forbidden, notFound } from '../lib/errors.js'
+import { instanceId } from '../lib/instance.js'
+import { assertRecordAccess, authorize, resolveScopeFilters, type Action } from '../lib/permissions.js'
+import {
+  TABLE_NAMES,
+  type JobPriority,
+  type JobQuery,
+  type PaginatedResponse,
+  type RequestContext,
+  type ToolExecutionsTable,
+} from '../types/index.js'
+
+export type ToolExecutionStatus = ToolExecutionsTable['execution_status']
+
+export interface CreateToolExecutionInput {
+  user_id: string
+  tool_name: string
+  input_parameters: Record<string, unknown>
+  priority?: JobPriority
+  message_id?: string
+}
+
+export interface UpdateToolExecutionInput {
+  execution_status?: ToolExecutionStatus
+  output_data?: Record<string, unknown>
+  execution_time_ms?: number
+  error_message?: string
+  started_at?: string
+  completed_at?: string
+}
+
+// Tool executions are owned by the user who requested them
+export class ToolExecutionRepository {
+  constructor(
+    private store: DataStore,
+    private context?: RequestContext
+  ) {}
+
+  // Newest first
+  async list(query: JobQuery): Promise<PaginatedResponse<ToolExecutionsTable>> {
+    const scope = this.context
+      ? await resolveScopeFilters(
+          this.store,
+          this.context,
+          'tool_executions',
+          authorize(this.context, 'tool_executions', 'read')
+        )
+      : undefined
+
+    return this.store.paginate<ToolExecutionsTable>(TABLE_NAMES.TOOL_EXECUTIONS, {
+      page: query.page,
+      pageSize: query.page_size,
+      orderBy: 'started_at',
+      orderDirection: 'desc',
+      filters: { execution_status: query.status },
+      scope,
+    })
+  }
+
+  // The executions a message's tool calls led to, oldest first
+  async listForMessage(messageId: string): Promise<ToolExecutionsTable[]> {
+    const scope = this.context
+      ? await resolveScopeFilters(
+          this.store,
+          this.context,
+          'tool_executions',
+          authorize(this.context, 'tool_executions', 'read')
+        )
+      : undefined
+
+    return this.store.findMany<ToolExecutionsTable>(TABLE_NAMES.TOOL_EXECUTIONS, {
+      filters: { message_id: messageId },
+      orderBy: 'started_at',
+      orderDirection: 'asc',
+      scope,
+    })
+  }
+
+  async get(id: string, action: Action = 'read'): Promise<ToolExecutionsTable> {
+    const execution = await this.store.findById<ToolExecutionsTable>(TABLE_NAMES.TOOL_EXECUTIONS, id)
+    if (!execution) {
+      throw notFound('Tool execution', id)
+    }
+    if (this.context) {
+      await assertRecordAccess(this.store, this.context, 'tool_executions', action, execution)
+    }
+    return execution
+  }
+
+  // Record a pending execution
+  async create(input: CreateToolExecutionInput): Promise<ToolExecutionsTable> {
+    if (this.context) {
+      const scope = authorize(this.context, 'tool_executions', 'create')
+      if (scope === 'own' && input.user_id !== this.context.user_id) {
+        throw forbidden('Cannot run tools for another user')
+      }
+    }
+
+    return this.store.insert<ToolExecutionsTable>(TABLE_NAMES.TOOL_EXECUTIONS, {
+      id: crypto.randomUUID(),
+      ...input,
+      output_data: {},
+      execution_status: 'pending',
+      instance_id: instanceId,
+      started_at: new Date().toISOString(),
+    })
+  }
+
+  async update(id: string, changes: UpdateToolExecutionInput): Promise<ToolExecutionsTable> {
+    if (this.context) {
+      await this.get(id, 'update')
+    }
+
+    // Approved chat tool calls may run on another instance than the one that
+    // recorded them
+    const updated = await this.store.update<ToolExecutionsTable>(TABLE_NAMES.TOOL_EXECUTIONS, id, {
+      ...changes,
+      ...(changes.execution_status === 'running' ? { instance_id: instanceId } : {}),
+    })
+    if (!updated) {
+      throw notFound('Tool execution', id)
+    }
+    return updated
+  }
+
+  // Fail this instance's executions left pending or running, e.g. by a
+  // restart that dropped the in-process queue. Other instances' executions
+  // may still be running. Pending chat tool calls are waiting for the user's
+  // approval rather than a queue, so they are left alone.
+  async failUnfinished(message: string): Promise<number> {
+    const found = await this.store.findMany<ToolExecutionsTable>(TABLE_NAMES.TOOL_EXECUTIONS, {
+      filters: { execution_status: ['pending', 'running'], instance_id: instanceId },
+    })
+    const unfinished = found.filter((execution) => execution.execution_status === 'running' || !execution.message_id)
+    const completedAt = new Date().toISOString()
+
+    for (const execution of unfinished) {
+      await this.update(execution.id, {
+        execution_status: 'failed',
+        error_message: message,
+        completed_at: completedAt,
+      })
+    }
+    return unfinished.length
+  }
+}
@@ -0,0 +1,87 @@
+import type { DataStore, RangeFilter } from '../lib/data-store.js'
+import { applyScopeToRecord, assertRecordAccess, type AccessScope, type Action } from '../lib/permissions.js'
+import { computeVoeAnalytics, type VoeAnalytics } from '../lib/voe-analytics.js'
+import type { PatientRepository } from './patients.js'
+import {
+  TABLE_NAMES,
+  type CreateVoeEpisodeRequest,
+  type DatabaseFilters,
+  type PaginatedResponse,
+  type RequestContext,
+  type VoeEpisodesTable,
+} from '../types/index.js'
+
+export interface VoeEpisodeListOptions extends Pick<DatabaseFilters, 'date_from' | 'date_to'> {
+  severity?: VoeEpisodesTable['severity']
+  page: number
+  page_size: number
+}
+
+export type CreateVoeEpisodeInput = Omit<CreateVoeEpisodeRequest, 'patient_id'>
+
+export class VoeEpisodeRepository {
+  constructor(
+    private store: DataStore,
+    private patients: PatientRepository,
+    private context?: RequestContext
+  ) {}
+
+  // Episodes inherit access from their patient
+  private async authorizePatient(patientId: string, action: Action): Promise<AccessScope> {
+    await this.patients.get(patientId)
+    return this.context
+      ? assertRecordAccess(this.store, this.context, 'voe_episodes', action, { patient_id: patientId })
+      : 'all'
+  }
+
+  // A patient's episodes, newest first
+  async list(patientId: string, options: VoeEpisodeListOptions): Promise<PaginatedResponse<VoeEpisodesTable>> {
+    const scope = await this.authorizePatient(patientId, 'read')
+
+    const ranges: RangeFilter[] = []
+    if (options.date_from || options.date_to) {
+      ranges.push({ column: 'episode_date', gte: options.date_from, lte: options.date_to })
+    }
+
+    const result = await this.store.paginate<VoeEpisodesTable>(TABLE_NAMES.VOE_EPISODES, {
+      page: options.page,
+      pageSize: options.page_size,
+      orderBy: 'episode_date',
+      orderDirection: 'desc',
+      filters: { patient_id: patientId, severity: options.severity },
+      ranges,
+    })
+
+    return {
+      ...result,
+      data: result.data.map((episode) => applyScopeToRecord('voe_episodes', scope, episode)),
+    }
+  }
+
+  async create(patientId: string, input: CreateVoeEpisodeInput, createdBy: string): Promise<VoeEpisodesTable> {
+    await this.authorizePatient(patientId, 'create')
+
+    const now = new Date().toISOString()
+    return this.store.insert<VoeEpisodesTable>(TABLE_NAMES.VOE_EPISODES, {
+      ...input,
+      id: crypto.randomUUID(),
+      patient_id: patientId,
+      notes: input.notes ?? null,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    })
+  }
+
+  // Frequency and severity metrics over the patient's full episode history
+  async analytics(patientId: string, now: Date = new Date()): Promise<VoeAnalytics> {
+    await this.authorizePatient(patientId, 'read')
+
+    const episodes = await this.store.findMany<VoeEpisodesTable>(TABLE_NAMES.VOE_EPISODES, {
+      filters: { patient_id: patientId },
+      orderBy: 'episode_date',
+      orderDirection: 'desc',
+    })
+    return computeVoeAnalytics(episodes, now)
+  }
+}
@@ -0,0 +1,112 @@
+import type { DataStore } from '../lib/data-store.js'
+import { forbidden, notFound } from '../lib/errors.js'
+import { instanceId } from '../lib/instance.js'
+import { assertRecordAccess, authorize, resolveScopeFilters, type Action } from '../lib/permissions.js'
+import {
+  TABLE_NAMES,
+  type PaginatedResponse,
+  type RequestContext,
+  type WorkflowExecutionsTable,
+  type WorkflowQuery,
+} from '../types/index.js'
+
+export type WorkflowStatus = WorkflowExecutionsTable['overall_status']
+
+export type CreateWorkflowExecutionInput = Pick<
+  WorkflowExecutionsTable,
+  'workflow_id' | 'user_id' | 'name' | 'description' | 'steps' | 'context' | 'step_results'
+>
+
+export type UpdateWorkflowExecutionInput = Partial<
+  Pick<WorkflowExecutionsTable, 'step_results' | 'overall_status' | 'error_message' | 'started_at' | 'completed_at'>
+>
+
+// Workflow executions are owned by the user who submitted them
+export class WorkflowExecutionRepository {
+  constructor(
+    private store: DataStore,
+    private context?: RequestContext
+  ) {}
+
+  // Newest first
+  async list(query: WorkflowQuery): Promise<PaginatedResponse<WorkflowExecutionsTable>> {
+    const scope = this.context
+      ? await resolveScopeFilters(
+          this.store,
+          this.context,
+          'workflow_executions',
+          authorize(this.context, 'workflow_executions', 'read')
+        )
+      : undefined
+
+    return this.store.paginate<WorkflowExecutionsTable>(TABLE_NAMES.WORKFLOW_EXECUTIONS, {
+      page: query.page,
+      pageSize: query.page_size,
+      orderBy: 'created_at',
+      orderDirection: 'desc',
+      filters: { overall_status: query.status },
+      scope,
+    })
+  }
+
+  async get(id: string, action: Action = 'read'): Promise<WorkflowExecutionsTable> {
+    const execution = await this.store.findById<WorkflowExecutionsTable>(TABLE_NAMES.WORKFLOW_EXECUTIONS, id)
+    if (!execution) {
+      throw notFound('Workflow execution', id)
+    }
+    if (this.context) {
+      await assertRecordAccess(this.store, this.context, 'workflow_executions', action, execution)
+    }
+    return execution
+  }
+
+  // Record a pending execution
+  async create(input: CreateWorkflowExecutionInput): Promise<WorkflowExecutionsTable> {
+    if (this.context) {
+      const scope = authorize(this.context, 'workflow_executions', 'create')
+      if (scope === 'own' && input.user_id !== this.context.user_id) {
+        throw forbidden('Cannot run workflows for another user')
+      }
+    }
+
+    return this.store.insert<WorkflowExecutionsTable>(TABLE_NAMES.WORKFLOW_EXECUTIONS, {
+      id: crypto.randomUUID(),
+      ...input,
+      overall_status: 'pending',
+      instance_id: instanceId,
+      created_at: new Date().toISOString(),
+    })
+  }
+
+  async update(id: string, changes: UpdateWorkflowExecutionInput): Promise<WorkflowExecutionsTable> {
+    if (this.context) {
+      await this.get(id, 'update')
+    }
+
+    const updated = await this.store.update<WorkflowExecutionsTable>(TABLE_NAMES.WORKFLOW_EXECUTIONS, id, {
+      ...changes,
+    })
+    if (!updated) {
+      throw notFound('Workflow execution', id)
+    }
+    return updated
+  }
+
+  // Fail this instance's executions left pending or running by a restart;
+  // workflows run where they were submitted
+  async failUnfinished(message: string): Promise<number> {
+    const unfinished = await this.store.findMany<WorkflowExecutionsTable>(TABLE_NAMES.WORKFLOW_EXECUTIONS, {
+      filters: { overall_status: ['pending', 'running'], instance_id: instanceId },
+    })
+    const completedAt = new Date().toISOString()
+
+    for (const execution of unfinished) {
+      await this.update(execution.id, {
+        overall_status: 'failed',
+        error_message: message,
+        completed_at: completedAt,
+      })
+    }
+    return unfinished.length
+  }
+}
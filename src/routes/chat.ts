@@ -0,0 +1,100 @@
+import { Hono } from 'hono'
+import { requireUser } from '../lib/context.js'
+import { handleRouteError, successResponse } from '../lib/responses.js'
+import { streamChunks } from '../lib/streaming.js'
+import { requirePermission } from '../middleware/authorization.js'
+import { validate } from '../middleware/validation.js'
+import { chatService } from '../services/chat-service.js'
+import {
+  ChatCompletionRequestSchema,
+  ERROR_CODES,
+  RegenerateRequestSchema,
+  StreamQuerySchema,
+  ToolApprovalRequestSchema,
+} from '../types/index.js'
+
+const chat = new Hono()
+
+// Post a message to a thread and get the assistant's reply. With
+// `?stream=true` (or `stream: true`) the reply arrives as Server-Sent Events;
+// the thread is checked and the user's message stored before the stream
+// opens, so those failures still get a status code.
+chat.post(
+  '/',
+  requirePermission('messages', 'create'),
+  validate('query', StreamQuerySchema),
+  validate('json', ChatCompletionRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const user = requireUser(c)
+      const request = c.req.valid('json')
+
+      if (c.req.valid('query').stream ?? request.stream) {
+        const turn = await chatService.prepare(user, request)
+        return streamChunks(c, ({ send, signal }) => chatService.stream(user, turn, send, signal))
+      }
+
+      const response = await chatService.complete(user, request, c.req.raw.signal)
+      return c.json(successResponse(response, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.BAML_SERVICE_ERROR)
+    }
+  }
+)
+
+// Answer again the user message an assistant reply follows. The new reply
+// is stored as a sibling of the old one. Streams like POST /.
+chat.post(
+  '/regenerate',
+  requirePermission('messages', 'create'),
+  validate('query', StreamQuerySchema),
+  validate('json', RegenerateRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const user = requireUser(c)
+      const request = c.req.valid('json')
+      const turn = await chatService.regenerate(user, request)
+
+      if (c.req.valid('query').stream ?? request.stream) {
+        return streamChunks(c, ({ send, signal }) => chatService.stream(user, turn, send, signal))
+      }
+
+      const response = await chatService.reply(user, turn, c.req.raw.signal)
+      return c.json(successResponse(response, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.BAML_SERVICE_ERROR)
+    }
+  }
+)
+
+// Approve or reject the tool calls a reply is waiting for, then carry on with
+// the reply. Streams like POST / with `?stream=true`.
+chat.post(
+  '/approvals',
+  requirePermission('messages', 'create'),
+  validate('query', StreamQuerySchema),
+  validate('json', ToolApprovalRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const user = requireUser(c)
+      const turn = await chatService.resume(user, c.req.valid('json'))
+
+      if (c.req.valid('query').stream) {
+        return streamChunks(c, ({ send, signal }) => chatService.stream(user, turn, send, signal))
+      }
+
+      const response = await chatService.reply(user, turn, c.req.raw.signal)
+      return c.json(successResponse(response, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.BAML_SERVICE_ERROR)
+    }
+  }
+)
+
+export default chat
@@ -1,14 +1,27 @@
 import { Hono } from 'hono'
 import { checkDatabaseConnection } from '../lib/db.js'
+import { bamlClient } from '../services/baml-client.js'
 import { codeExecutor } from '../services/code-executor.js'
+import { vectorClient } from '../services/vector-client.js'
+import { circuitBreakerStatuses } from '../services/resilient-client.js'
+import { authenticate, requestContext } from '../middleware/auth.js'
+import chat from './chat.js'
+import integrations from './integrations.js'
+import jobs from './jobs.js'
+import patients from './patients.js'
+import threads from './threads.js'
+import workflows from './workflows.js'
 import type { 
   HealthCheckResponse, 
   ServiceDiscoveryResponse,
-  ApiResponse 
 } from '../types/index.js'
 
 const routes = new Hono()
 
+// Every request gets a RequestContext; /health and /discovery stay public
+routes.use('*', requestContext())
+routes.use('/api/*', authenticate())
+
 // Health check endpoint
 routes.get('/health', async (c) => {
   const startTime = Date.now()
@@ -20,14 +33,21 @@ routes.get('/health', async (c) => {
     // Check E2B service
     const e2bHealth = await codeExecutor.healthCheck()
     
-    // TODO: Add BAML and Vector service health checks when implemented
-    const bamlHealth = { status: 'disconnected' as const, message: 'Not implemented yet' }
-    const vectorHealth = { status: 'disconnected' as const, message: 'Not implemented yet' }
+    // Check BAML service
+    const bamlHealth = bamlClient
+      ? await bamlClient.healthCheck()
+      : { status: 'disconnected' as const, message: 'BAML_SERVICE_URL is not set' }
+
+    // Check Vector service
+    const vectorHealth = vectorClient
+      ? await vectorClient.healthCheck()
+      : { status: 'disconnected' as const, message: 'VECTOR_SERVICE_URL is not set' }
     
     const uptime = process.uptime()
     
     const overallStatus = 
-      dbHealth.connected && e2bHealth.status === 'connected' 
+      dbHealth.connected &&
+      [e2bHealth, bamlHealth, vectorHealth].every((health) => health.status === 'connected')
         ? 'healthy' 
         : dbHealth.connected || e2bHealth.status === 'connected'
         ? 'degraded'
@@ -43,6 +63,7 @@ routes.get('/health', async (c) => {
         vector_service: vectorHealth.status,
         e2b_service: e2bHealth.status,
       },
+      circuit_breakers: circuitBreakerStatuses(),
       uptime_seconds: Math.floor(uptime),
     }
     
@@ -87,19 +108,47 @@ routes.get('/discovery', async (c) => {
         path: '/api/threads',
         method: 'GET',
         description: 'List conversation threads',
-        parameters: { page: 'number', page_size: 'number' },
+        parameters: { page: 'number', page_size: 'number', status: 'string' },
       },
       {
         path: '/api/threads',
         method: 'POST',
         description: 'Create a new conversation thread',
-        parameters: { title: 'string', description: 'string' },
+        parameters: {
+          title: 'string',
+          description: 'string',
+          metadata: 'object',
+          initial_message: 'string',
+          patient_id: 'string',
+        },
       },
       {
         path: '/api/threads/:id',
         method: 'GET',
         description: 'Get a specific thread',
       },
+      {
+        path: '/api/threads/:id',
+        method: 'PATCH',
+        description: 'Update a thread',
+        parameters: { title: 'string', description: 'string', status: 'string', metadata: 'object' },
+      },
+      {
+        path: '/api/threads/:id/archive',
+        method: 'POST',
+        description: 'Archive a thread',
+      },
+      {
+        path: '/api/threads/:id',
+        method: 'DELETE',
+        description: 'Delete a thread',
+      },
+      {
+        path: '/api/threads/:id/fork',
+        method: 'POST',
+        description: 'Start a new thread from a message, copying the conversation up to it',
+        parameters: { message_id: 'string', title: 'string', description: 'string' },
+      },
       {
         path: '/api/threads/:id/messages',
         method: 'GET',
@@ -110,364 +159,404 @@ routes.get('/discovery', async (c) => {
         path: '/api/threads/:id/messages',
         method: 'POST',
         description: 'Create a new message in a thread',
-        parameters: { content: 'string', role: 'string' },
+        parameters: { content: 'string', role: 'string', content_type: 'string', parent_message_id: 'string' },
       },
       {
-        path: '/api/integrations/baml',
+        path: '/api/chat',
         method: 'POST',
-        description: 'Execute BAML prompt',
+        description: 'Send a message to a thread and get the assistant reply',
+        parameters: {
+          thread_id: 'string',
+          message: 'string',
+          tools: 'array',
+          medical_context: 'object',
+          model_preferences: 'object',
+          parent_message_id: 'string',
+        },
       },
       {
-        path: '/api/integrations/vector/search',
+        path: '/api/chat/regenerate',
         method: 'POST',
-        description: 'Vector similarity search',
+        description: 'Generate a new reply to the message an assistant reply answered, as a sibling branch',
+        parameters: { thread_id: 'string', message_id: 'string', tools: 'array', model_preferences: 'object' },
       },
       {
-        path: '/api/integrations/e2b/execute',
+        path: '/api/chat/approvals',
         method: 'POST',
-        description: 'Execute code in E2B environment',
+        description: 'Approve or reject the tool calls a reply is waiting for and continue the reply',
+        parameters: { thread_id: 'string', message_id: 'string', decisions: 'array' },
       },
-    ],
-    dependencies: ['supabase', 'baml-service', 'vector-service', 'e2b'],
-    health_check_url: '/health',
-  }
-  
-  return c.json(response)
-})
-
-// API routes
-const api = new Hono()
-
-// Thread routes
-api.get('/threads', async (c) => {
-  try {
-    // TODO: Implement thread listing with pagination
-    const response: ApiResponse = {
-      success: true,
-      data: {
-        threads: [],
-        total_count: 0,
-        page: 1,
-        page_size: 20,
-        has_more: false,
-      },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/threads/:id/messages/tree',
+        method: 'GET',
+        description: 'Get every branch of a thread as a tree of messages',
       },
-    }
-    
-    return c.json(response)
-  } catch (error) {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: error instanceof Error ? error.message : 'Unknown error',
+      {
+        path: '/api/threads/:id/messages/:messageId',
+        method: 'GET',
+        description: 'Get a specific message',
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/threads/:id/messages/:messageId/branches',
+        method: 'GET',
+        description: 'List a message and its alternative branches',
       },
-    }
-    
-    return c.json(response, 500)
-  }
-})
-
-api.post('/threads', async (c) => {
-  try {
-    const body = await c.req.json()
-    
-    // TODO: Validate request body and create thread
-    const response: ApiResponse = {
-      success: true,
-      data: {
-        id: crypto.randomUUID(),
-        title: body.title || 'New Thread',
-        description: body.description,
-        status: 'active',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/threads/:id/messages/:messageId',
+        method: 'PATCH',
+        description: 'Update a message; a new content is stored as a sibling branch',
+        parameters: { content: 'string', content_type: 'string', metadata: 'object' },
       },
-    }
-    
-    return c.json(response, 201)
-  } catch (error) {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: 'VALIDATION_ERROR',
-        message: error instanceof Error ? error.message : 'Invalid request',
+      {
+        path: '/api/threads/:id/messages/:messageId',
+        method: 'DELETE',
+        description: 'Delete a message',
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients',
+        method: 'GET',
+        description: 'Search the patient registry',
+        parameters: {
+          medical_record_number: 'string',
+          scd_genotype: 'string',
+          age_min: 'number',
+          age_max: 'number',
+          organization_id: 'string',
+          page: 'number',
+          page_size: 'number',
+        },
       },
-    }
-    
-    return c.json(response, 400)
-  }
-})
-
-api.get('/threads/:id', async (c) => {
-  try {
-    const threadId = c.req.param('id')
-    
-    // TODO: Fetch thread from database
-    const response: ApiResponse = {
-      success: true,
-      data: {
-        id: threadId,
-        title: 'Sample Thread',
-        description: 'A sample thread',
-        status: 'active',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients',
+        method: 'POST',
+        description: 'Register a patient',
+        parameters: {
+          medical_record_number: 'string',
+          age: 'number',
+          gender: 'string',
+          scd_genotype: 'string',
+          diagnosis_date: 'string',
+          organization_id: 'string',
+          user_id: 'string',
+        },
       },
-    }
-    
-    return c.json(response)
-  } catch (error) {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: 'RESOURCE_NOT_FOUND',
-        message: 'Thread not found',
+      {
+        path: '/api/patients/:id',
+        method: 'GET',
+        description: 'Get a specific patient',
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients/:id/summary',
+        method: 'GET',
+        description: 'Get latest labs, active medications and most recent risk assessment for a patient',
       },
-    }
-    
-    return c.json(response, 404)
-  }
-})
-
-// Message routes
-api.get('/threads/:id/messages', async (c) => {
-  try {
-    const threadId = c.req.param('id')
-    
-    // TODO: Fetch messages from database
-    const response: ApiResponse = {
-      success: true,
-      data: {
-        messages: [],
-        total_count: 0,
-        page: 1,
-        page_size: 20,
-        has_more: false,
-      },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients/:id',
+        method: 'PATCH',
+        description: 'Update a patient',
+        parameters: { age: 'number', gender: 'string', scd_genotype: 'string', diagnosis_date: 'string' },
       },
-    }
-    
-    return c.json(response)
-  } catch (error) {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: error instanceof Error ? error.message : 'Unknown error',
+      {
+        path: '/api/patients/:id',
+        method: 'DELETE',
+        description: 'Delete a patient',
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients/:id/labs',
+        method: 'GET',
+        description: 'List lab results flagged against age-aware reference ranges',
+        parameters: { date_from: 'string', date_to: 'string', page: 'number', page_size: 'number' },
       },
-    }
-    
-    return c.json(response, 500)
-  }
-})
-
-api.post('/threads/:id/messages', async (c) => {
-  try {
-    const threadId = c.req.param('id')
-    const body = await c.req.json()
-    
-    // TODO: Validate and create message
-    const response: ApiResponse = {
-      success: true,
-      data: {
-        id: crypto.randomUUID(),
-        thread_id: threadId,
-        role: body.role || 'user',
-        content: body.content,
-        content_type: 'text',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients/:id/labs',
+        method: 'POST',
+        description: 'Record a lab result',
+        parameters: {
+          test_date: 'string',
+          hemoglobin: 'number',
+          hematocrit: 'number',
+          hbf_level: 'number',
+          reticulocyte_count: 'number',
+          white_blood_cell_count: 'number',
+          platelet_count: 'number',
+          lactate_dehydrogenase: 'number',
+          bilirubin_total: 'number',
+          notes: 'string',
+        },
       },
-    }
-    
-    return c.json(response, 201)
-  } catch (error) {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: 'VALIDATION_ERROR',
-        message: error instanceof Error ? error.message : 'Invalid request',
+      {
+        path: '/api/patients/:id/labs/bulk',
+        method: 'POST',
+        description: 'Record several lab results at once',
+        parameters: { results: 'array' },
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients/:id/voe-episodes',
+        method: 'GET',
+        description: 'List vaso-occlusive episodes',
+        parameters: { date_from: 'string', date_to: 'string', severity: 'string', page: 'number', page_size: 'number' },
       },
-    }
-    
-    return c.json(response, 400)
-  }
-})
-
-// Integration routes
-const integrations = new Hono()
-
-// BAML integration
-integrations.post('/baml', async (c) => {
-  try {
-    const body = await c.req.json()
-    
-    // TODO: Implement BAML service call
-    const response: ApiResponse = {
-      success: true,
-      data: {
-        id: crypto.randomUUID(),
-        template_name: body.template_name || 'default',
-        content: 'Mock BAML response',
-        model_used: 'gpt-4',
-        metadata: {
-          tokens_used: 100,
-          processing_time_ms: 500,
+      {
+        path: '/api/patients/:id/voe-episodes',
+        method: 'POST',
+        description: 'Log a vaso-occlusive episode',
+        parameters: {
+          episode_date: 'string',
+          severity: 'string',
+          location: 'array',
+          duration_hours: 'number',
+          hospitalization_required: 'boolean',
+          pain_score: 'number',
+          treatment_given: 'array',
+          notes: 'string',
         },
-        created_at: new Date().toISOString(),
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 500,
+      {
+        path: '/api/patients/:id/voe-episodes/analytics',
+        method: 'GET',
+        description: 'Episode frequency, hospitalization rate, pain and location analytics',
       },
-    }
-    
-    return c.json(response)
-  } catch (error) {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: 'BAML_SERVICE_ERROR',
-        message: error instanceof Error ? error.message : 'BAML service error',
+      {
+        path: '/api/patients/:id/medications',
+        method: 'GET',
+        description: 'List medications',
+        parameters: { active: 'boolean', page: 'number', page_size: 'number' },
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients/:id/medications',
+        method: 'POST',
+        description: 'Add a medication',
+        parameters: {
+          medication_name: 'string',
+          dosage: 'string',
+          frequency: 'string',
+          start_date: 'string',
+          end_date: 'string',
+          indication: 'string',
+          prescriber: 'string',
+          active: 'boolean',
+        },
       },
-    }
-    
-    return c.json(response, 500)
-  }
-})
-
-// Vector search integration
-integrations.post('/vector/search', async (c) => {
-  try {
-    const body = await c.req.json()
-    
-    // TODO: Implement vector service call
-    const response: ApiResponse = {
-      success: true,
-      data: {
-        query: body.query,
-        collection_name: body.collection_name || 'default',
-        results: [],
-        total_results: 0,
-        search_time_ms: 50,
-      },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 50,
+      {
+        path: '/api/patients/:id/medications/timeline',
+        method: 'GET',
+        description: 'Medication start and stop timeline',
       },
-    }
-    
-    return c.json(response)
-  } catch (error) {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: 'VECTOR_SERVICE_ERROR',
-        message: error instanceof Error ? error.message : 'Vector service error',
+      {
+        path: '/api/patients/:id/medications/review',
+        method: 'POST',
+        description: 'Run medication rules and record findings as clinical insights',
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/patients/:id/medications/:medicationId',
+        method: 'GET',
+        description: 'Get a specific medication',
       },
-    }
-    
-    return c.json(response, 500)
-  }
-})
-
-// E2B code execution integration
-integrations.post('/e2b/execute', async (c) => {
-  try {
-    const body = await c.req.json()
-    
-    const result = await codeExecutor.executeCode(body)
-    
-    const response: ApiResponse = {
-      success: true,
-      data: result,
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: result.execution_time_ms || 0,
+      {
+        path: '/api/patients/:id/medications/:medicationId',
+        method: 'PATCH',
+        description: 'Update a medication',
+        parameters: { dosage: 'string', frequency: 'string', end_date: 'string', active: 'boolean' },
       },
-    }
-    
-    return c.json(response)
-  } catch (error) {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: 'E2B_SERVICE_ERROR',
-        message: error instanceof Error ? error.message : 'E2B service error',
+      {
+        path: '/api/patients/:id/medications/:medicationId',
+        method: 'DELETE',
+        description: 'Delete a medication',
       },
-      metadata: {
-        timestamp: new Date().toISOString(),
-        request_id: crypto.randomUUID(),
-        processing_time_ms: 0,
+      {
+        path: '/api/jobs',
+        method: 'POST',
+        description: 'Queue a code execution or medical analysis job',
+        parameters: {
+          type: 'string',
+          request: 'object',
+          tool_name: 'string',
+          input: 'object',
+          priority: 'string',
+        },
       },
-    }
-    
-    return c.json(response, 500)
+      {
+        path: '/api/jobs',
+        method: 'GET',
+        description: 'List jobs submitted by the caller',
+        parameters: { status: 'string', page: 'number', page_size: 'number' },
+      },
+      {
+        path: '/api/jobs/:id',
+        method: 'GET',
+        description: 'Get job status and result',
+      },
+      {
+        path: '/api/jobs/:id/events',
+        method: 'GET',
+        description: 'Server-Sent Events for job start and completion',
+      },
+      {
+        path: '/api/jobs/:id/cancel',
+        method: 'POST',
+        description: 'Cancel a queued or running job',
+      },
+      {
+        path: '/api/workflows',
+        method: 'POST',
+        description: 'Run a multi-service workflow of dependent steps',
+        parameters: {
+          name: 'string',
+          description: 'string',
+          steps: 'array',
+          context: 'object',
+        },
+      },
+      {
+        path: '/api/workflows',
+        method: 'GET',
+        description: 'List workflow executions submitted by the caller',
+        parameters: { status: 'string', page: 'number', page_size: 'number' },
+      },
+      {
+        path: '/api/workflows/:id',
+        method: 'GET',
+        description: 'Get workflow status and step results',
+      },
+      {
+        path: '/api/workflows/:id/cancel',
+        method: 'POST',
+        description: 'Cancel a running workflow',
+      },
+      {
+        path: '/api/integrations/baml',
+        method: 'POST',
+        description: 'Execute BAML prompt',
+        parameters: { template_name: 'string', variables: 'object', model_config: 'object' },
+      },
+      {
+        path: '/api/integrations/vector/search',
+        method: 'POST',
+        description: 'Vector similarity search',
+        parameters: {
+          query: 'string',
+          collection_name: 'string',
+          filters: 'object',
+          limit: 'number',
+          similarity_threshold: 'number',
+          include_metadata: 'boolean',
+          include_embeddings: 'boolean',
+        },
+      },
+      {
+        path: '/api/integrations/vector/collections',
+        method: 'GET',
+        description: 'List vector collections',
+      },
+      {
+        path: '/api/integrations/vector/collections',
+        method: 'POST',
+        description: 'Create a vector collection',
+        parameters: { name: 'string', metadata: 'object' },
+      },
+      {
+        path: '/api/integrations/vector/collections/:name',
+        method: 'DELETE',
+        description: 'Delete a vector collection',
+      },
+      {
+        path: '/api/integrations/vector/collections/:name/documents',
+        method: 'GET',
+        description: 'List documents in a vector collection',
+        parameters: { page: 'number', page_size: 'number' },
+      },
+      {
+        path: '/api/integrations/vector/collections/:name/documents',
+        method: 'POST',
+        description: 'Add a document to a vector collection',
+        parameters: { id: 'string', content: 'string', metadata: 'object', embedding: 'array' },
+      },
+      {
+        path: '/api/integrations/vector/documents/:id',
+        method: 'GET',
+        description: 'Get a vector document',
+      },
+      {
+        path: '/api/integrations/vector/documents/:id',
+        method: 'PATCH',
+        description: 'Update a vector document',
+        parameters: { content: 'string', metadata: 'object', embedding: 'array' },
+      },
+      {
+        path: '/api/integrations/vector/documents/:id',
+        method: 'DELETE',
+        description: 'Delete a vector document',
+      },
+      {
+        path: '/api/integrations/e2b/execute',
+        method: 'POST',
+        description: 'Execute code in E2B environment (stream=true for Server-Sent Events)',
+        parameters: {
+          code: 'string',
+          language: 'string',
+          environment: 'object',
+          timeout_seconds: 'number',
+          memory_limit_mb: 'number',
+        },
+      },
+      {
+        path: '/api/integrations/e2b/sessions',
+        method: 'GET',
+        description: 'List sandbox sessions opened by the caller',
+      },
+      {
+        path: '/api/integrations/e2b/sessions',
+        method: 'POST',
+        description: 'Open a sandbox session',
+      },
+      {
+        path: '/api/integrations/e2b/sessions/:sessionId',
+        method: 'GET',
+        description: 'Get sandbox session status and expiry',
+      },
+      {
+        path: '/api/integrations/e2b/sessions/:sessionId',
+        method: 'DELETE',
+        description: 'Destroy a sandbox session',
+      },
+      {
+        path: '/api/integrations/e2b/sessions/:sessionId/execute',
+        method: 'POST',
+        description: 'Execute code in an open sandbox session',
+        parameters: {
+          code: 'string',
+          language: 'string',
+          environment: 'object',
+          timeout_seconds: 'number',
+          memory_limit_mb: 'number',
+        },
+      },
+    ],
+    dependencies: ['supabase', 'baml-service', 'vector-service', 'e2b'],
+    health_check_url: '/health',
   }
+  
+  return c.json(response)
 })
 
+// API routes
+const api = new Hono()
+
+// Thread and message routes
+api.route('/threads', threads)
+
+// Chat completions
+api.route('/chat', chat)
+
+// Patient registry routes
+api.route('/patients', patients)
+
+// Background jobs
+api.route('/jobs', jobs)
+
+// Multi-service workflows
+api.route('/workflows', workflows)
+
 // Mount sub-routes
 routes.route('/api', api)
 routes.route('/api/integrations', integrations)
@@ -0,0 +1,454 @@
+import { posix } from 'node:path'
+import { Hono, type Context } from 'hono'
+import { bodyLimit } from 'hono/body-limit'
+import { requireUser } from '../lib/context.js'
+import { ApiError, notFound } from '../lib/errors.js'
+import { errorResponse, handleRouteError, successResponse } from '../lib/responses.js'
+import { streamChunk, streamChunks } from '../lib/streaming.js'
+import { requirePermission } from '../middleware/authorization.js'
+import { validate } from '../middleware/validation.js'
+import { requireBAMLClient } from '../services/baml-client.js'
+import { codeExecutor, type ExecuteOptions } from '../services/code-executor.js'
+import { requireVectorClient } from '../services/vector-client.js'
+import {
+  ArtifactParamSchema,
+  BAMLPromptSchema,
+  CreateVectorCollectionRequestSchema,
+  CreateVectorDocumentRequestSchema,
+  E2BExecutionRequestSchema,
+  ERROR_CODES,
+  HTTP_STATUS,
+  IdParamSchema,
+  PaginationQuerySchema,
+  SandboxSessionParamSchema,
+  SandboxUploadFormSchema,
+  StreamQuerySchema,
+  UpdateVectorDocumentRequestSchema,
+  VectorCollectionParamSchema,
+  VectorSearchRequestSchema,
+  type E2BExecutionResult,
+  type VectorDocument,
+} from '../types/index.js'
+
+const integrations = new Hono()
+
+// Files that may be uploaded into a sandbox session, by extension
+const UPLOAD_TYPES: Record<string, string[]> = {
+  csv: ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'],
+  pdf: ['application/pdf'],
+}
+
+// Allowance for the multipart framing around an uploaded file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+
+function fileTooLarge(limit: number): ApiError {
+  return new ApiError(
+    ERROR_CODES.FILE_TOO_LARGE,
+    `File exceeds the ${Math.floor(limit / (1024 * 1024))}MB limit`,
+    HTTP_STATUS.PAYLOAD_TOO_LARGE,
+    { limit_bytes: limit }
+  )
+}
+
+function assertUploadType(file: File): void {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+  const types = UPLOAD_TYPES[extension]
+  // Browsers send an empty type for extensions they do not recognize
+  if (!types || (file.type !== '' && !types.includes(file.type.split(';')[0] ?? ''))) {
+    throw new ApiError(
+      ERROR_CODES.UNSUPPORTED_FILE_TYPE,
+      `Only ${Object.keys(UPLOAD_TYPES).join(', ')} files can be uploaded`,
+      HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE,
+      { filename: file.name, type: file.type }
+    )
+  }
+}
+
+// Stream an execution in the chat streaming protocol: `tool_start` for the
+// pending and running transitions, `content` for each output line,
+// `tool_result` for files as they appear and for the final result, then
+// `complete`. Disconnecting cancels the execution.
+function streamExecution(
+  c: Context,
+  execute: (options: Pick<ExecuteOptions, 'onEvent' | 'signal'>) => Promise<E2BExecutionResult>
+): Response {
+  return streamChunks(c, async ({ send, signal }) => {
+    const result = await execute({
+      signal,
+      onEvent: ({ type, ...data }) => {
+        switch (type) {
+          case 'status':
+            send(streamChunk('tool_start', { tool_name: 'code_execution', ...data }))
+            break
+          case 'output':
+            send(streamChunk('content', data))
+            break
+          case 'file':
+            send(streamChunk('tool_result', data))
+            break
+        }
+      },
+    })
+
+    send(streamChunk('tool_result', { execution_id: result.execution_id, status: result.status, result }))
+    send(streamChunk('complete', { execution_id: result.execution_id, status: result.status }))
+  })
+}
+
+// Quote a filename for Content-Disposition, with an ASCII fallback
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+}
+
+// BAML integration
+integrations.post('/baml', requirePermission('prompts', 'create'), validate('json', BAMLPromptSchema), async (c) => {
+  const startTime = Date.now()
+
+  try {
+    const response = await requireBAMLClient().generateResponse(c.req.valid('json'), { signal: c.req.raw.signal })
+    return c.json(successResponse(response, startTime))
+  } catch (error) {
+    return handleRouteError(c, error, startTime, ERROR_CODES.BAML_SERVICE_ERROR)
+  }
+})
+
+// Vector search integration
+integrations.post(
+  '/vector/search',
+  requirePermission('vector_documents', 'read'),
+  validate('json', VectorSearchRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const response = await requireVectorClient().search(c.req.valid('json'), { signal: c.req.raw.signal })
+      return c.json(successResponse(response, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+    }
+  }
+)
+
+// Vector collections and the documents in them
+integrations.get('/vector/collections', requirePermission('vector_collections', 'read'), async (c) => {
+  const startTime = Date.now()
+
+  try {
+    const collections = await requireVectorClient().listCollections({ signal: c.req.raw.signal })
+    return c.json(successResponse(collections, startTime))
+  } catch (error) {
+    return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+  }
+})
+
+integrations.post(
+  '/vector/collections',
+  requirePermission('vector_collections', 'create'),
+  validate('json', CreateVectorCollectionRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { name, metadata } = c.req.valid('json')
+      await requireVectorClient().createCollection(name, metadata, { signal: c.req.raw.signal })
+      return c.json(successResponse({ name, metadata }, startTime), HTTP_STATUS.CREATED)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.delete(
+  '/vector/collections/:name',
+  requirePermission('vector_collections', 'delete'),
+  validate('param', VectorCollectionParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { name } = c.req.valid('param')
+      await requireVectorClient().deleteCollection(name, { signal: c.req.raw.signal })
+      return c.json(successResponse({ name, deleted: true }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.get(
+  '/vector/collections/:name/documents',
+  requirePermission('vector_documents', 'read'),
+  validate('param', VectorCollectionParamSchema),
+  validate('query', PaginationQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { name } = c.req.valid('param')
+      const page = await requireVectorClient().listDocuments(name, c.req.valid('query'), { signal: c.req.raw.signal })
+      return c.json(successResponse(page, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.post(
+  '/vector/collections/:name/documents',
+  requirePermission('vector_documents', 'create'),
+  validate('param', VectorCollectionParamSchema),
+  validate('json', CreateVectorDocumentRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { name } = c.req.valid('param')
+      const { id, ...fields } = c.req.valid('json')
+      const now = new Date().toISOString()
+      const document: VectorDocument = {
+        ...fields,
+        id: id ?? crypto.randomUUID(),
+        collection_name: name,
+        created_at: now,
+        updated_at: now,
+      }
+      const documentId = await requireVectorClient().addDocument(document, { signal: c.req.raw.signal })
+      return c.json(successResponse({ ...document, id: documentId }, startTime), HTTP_STATUS.CREATED)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.get(
+  '/vector/documents/:id',
+  requirePermission('vector_documents', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const document = await requireVectorClient().getDocument(c.req.valid('param').id, { signal: c.req.raw.signal })
+      return c.json(successResponse(document, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.patch(
+  '/vector/documents/:id',
+  requirePermission('vector_documents', 'update'),
+  validate('param', IdParamSchema),
+  validate('json', UpdateVectorDocumentRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const client = requireVectorClient()
+      const options = { signal: c.req.raw.signal }
+      await client.updateDocument(id, { ...c.req.valid('json'), updated_at: new Date().toISOString() }, options)
+      return c.json(successResponse(await client.getDocument(id, options), startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.delete(
+  '/vector/documents/:id',
+  requirePermission('vector_documents', 'delete'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      await requireVectorClient().deleteDocument(id, { signal: c.req.raw.signal })
+      return c.json(successResponse({ id, deleted: true }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.VECTOR_SERVICE_ERROR)
+    }
+  }
+)
+
+// E2B code execution integration
+integrations.post(
+  '/e2b/execute',
+  requirePermission('code_execution', 'create'),
+  validate('query', StreamQuerySchema),
+  validate('json', E2BExecutionRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const ownerId = requireUser(c).user_id
+      const request = c.req.valid('json')
+      if (c.req.valid('query').stream) {
+        return streamExecution(c, (options) => codeExecutor.executeCode(request, { ...options, ownerId }))
+      }
+
+      const result = await codeExecutor.executeCode(request, { ownerId })
+      return c.json(successResponse(result, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+    }
+  }
+)
+
+// Sandbox sessions, visible only to the user who created them
+integrations.get('/e2b/sessions', requirePermission('sandbox_sessions', 'read'), async (c) => {
+  const startTime = Date.now()
+
+  try {
+    const sessions = codeExecutor.listActiveSessions(requireUser(c).user_id)
+    return c.json(successResponse(sessions, startTime))
+  } catch (error) {
+    return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+  }
+})
+
+integrations.post('/e2b/sessions', requirePermission('sandbox_sessions', 'create'), async (c) => {
+  const startTime = Date.now()
+
+  try {
+    const userId = requireUser(c).user_id
+    const sessionId = await codeExecutor.createSession(userId)
+    return c.json(successResponse(codeExecutor.sessions.getOwned(sessionId, userId), startTime), 201)
+  } catch (error) {
+    return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+  }
+})
+
+integrations.get(
+  '/e2b/sessions/:sessionId',
+  requirePermission('sandbox_sessions', 'read'),
+  validate('param', SandboxSessionParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { sessionId } = c.req.valid('param')
+      const session = codeExecutor.sessions.getOwned(sessionId, requireUser(c).user_id)
+      return c.json(successResponse(session, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.delete(
+  '/e2b/sessions/:sessionId',
+  requirePermission('sandbox_sessions', 'delete'),
+  validate('param', SandboxSessionParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { sessionId } = c.req.valid('param')
+      codeExecutor.sessions.getOwned(sessionId, requireUser(c).user_id)
+      await codeExecutor.destroySession(sessionId)
+      return c.json(successResponse({ session_id: sessionId, deleted: true }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.post(
+  '/e2b/sessions/:sessionId/execute',
+  requirePermission('sandbox_sessions', 'update'),
+  requirePermission('code_execution', 'create'),
+  validate('param', SandboxSessionParamSchema),
+  validate('query', StreamQuerySchema),
+  validate('json', E2BExecutionRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { sessionId } = c.req.valid('param')
+      codeExecutor.sessions.getOwned(sessionId, requireUser(c).user_id)
+      const request = c.req.valid('json')
+      if (c.req.valid('query').stream) {
+        return streamExecution(c, (options) => codeExecutor.executeCode(request, { ...options, sessionId }))
+      }
+
+      const result = await codeExecutor.executeCode(request, { sessionId })
+      return c.json(successResponse(result, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+    }
+  }
+)
+
+integrations.post(
+  '/e2b/sessions/:sessionId/files',
+  requirePermission('sandbox_sessions', 'update'),
+  bodyLimit({
+    maxSize: codeExecutor.config.maxUploadBytes + MULTIPART_OVERHEAD_BYTES,
+    onError: (c) => {
+      const error = fileTooLarge(codeExecutor.config.maxUploadBytes)
+      return c.json(errorResponse(error.code, error.message, Date.now(), error.details), error.status)
+    },
+  }),
+  validate('param', SandboxSessionParamSchema),
+  validate('form', SandboxUploadFormSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { sessionId } = c.req.valid('param')
+      const { file, directory } = c.req.valid('form')
+      codeExecutor.sessions.getOwned(sessionId, requireUser(c).user_id)
+
+      assertUploadType(file)
+      if (file.size > codeExecutor.config.maxUploadBytes) {
+        throw fileTooLarge(codeExecutor.config.maxUploadBytes)
+      }
+
+      const filename = posix.basename(file.name)
+      const target = posix.join(directory ?? '', filename)
+      const path = await codeExecutor.uploadFile(sessionId, target, Buffer.from(await file.arrayBuffer()))
+
+      return c.json(successResponse({
+        session_id: sessionId,
+        path,
+        filename,
+        size_bytes: file.size,
+        mime_type: file.type || null,
+      }, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+    }
+  }
+)
+
+// Files created by executions, downloadable by the session owner
+integrations.get('/e2b/artifacts/:artifactId', validate('param', ArtifactParamSchema), async (c) => {
+  const startTime = Date.now()
+
+  try {
+    const { artifactId } = c.req.valid('param')
+    const artifact = await codeExecutor.artifacts.get(artifactId)
+    if (!artifact || artifact.owner_id !== requireUser(c).user_id) {
+      throw notFound('Artifact', artifactId)
+    }
+    if (artifact.size_bytes > codeExecutor.config.maxArtifactBytes) {
+      throw fileTooLarge(codeExecutor.config.maxArtifactBytes)
+    }
+
+    const content = await codeExecutor.artifacts.read(artifactId)
+    return c.body(new Uint8Array(content), 200, {
+      'Content-Type': artifact.mime_type,
+      'Content-Length': String(content.length),
+      'Content-Disposition': contentDisposition(artifact.filename),
+      'X-Content-Type-Options': 'nosniff',
+    })
+  } catch (error) {
+    return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+  }
+})
+
+export default integrations
@@ -0,0 +1,221 @@
+import { Hono } from 'hono'
+import { requireUser } from '../lib/context.js'
+import { ApiError } from '../lib/errors.js'
+import { instanceId } from '../lib/instance.js'
+import { authorize } from '../lib/permissions.js'
+import { handleRouteError, successResponse } from '../lib/responses.js'
+import { streamChunk, streamChunks } from '../lib/streaming.js'
+import { requirePermission } from '../middleware/authorization.js'
+import { validate } from '../middleware/validation.js'
+import { repositories } from '../repositories/index.js'
+import {
+  codeExecutionTask,
+  isFinished,
+  jobQueue,
+  prepareMedicalAnalysis,
+} from '../services/job-queue.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  IdParamSchema,
+  JobQuerySchema,
+  SubmitJobRequestSchema,
+  type RequestContext,
+  type SubmitJobRequest,
+  type ToolExecutionsTable,
+} from '../types/index.js'
+
+const jobs = new Hono()
+
+// How often /:id/events re-reads a job queued on another instance
+const REMOTE_JOB_POLL_MS = 2000
+
+// Jobs are tool_executions rows; `execution_id` is their id
+function jobResponse(job: ToolExecutionsTable) {
+  return { execution_id: job.id, ...job }
+}
+
+// Validate the job up front so bad input fails the request rather than the job
+async function prepareJob(request: SubmitJobRequest, context: RequestContext & { user_id: string }) {
+  if (request.type === 'code_execution') {
+    // Held to the same grant as POST /api/integrations/e2b/execute
+    authorize(context, 'code_execution', 'create')
+    return {
+      toolName: 'code_execution',
+      input: request.request,
+      task: codeExecutionTask(request.request, context.user_id),
+    }
+  }
+
+  return {
+    toolName: request.tool_name,
+    input: request.input,
+    task: await prepareMedicalAnalysis(request.tool_name, request.input, context),
+  }
+}
+
+jobs.get(
+  '/',
+  requirePermission('tool_executions', 'read'),
+  validate('query', JobQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const result = await repositories.scoped(requireUser(c)).toolExecutions.list(c.req.valid('query'))
+      return c.json(successResponse({ ...result, data: result.data.map(jobResponse) }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+jobs.post(
+  '/',
+  requirePermission('tool_executions', 'create'),
+  validate('json', SubmitJobRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const context = requireUser(c)
+      const request = c.req.valid('json')
+      const { toolName, input, task } = await prepareJob(request, context)
+
+      const job = await jobQueue.submit(
+        {
+          user_id: context.user_id,
+          tool_name: toolName,
+          input_parameters: { input },
+          priority: request.priority,
+        },
+        task,
+        context
+      )
+      return c.json(successResponse(jobResponse(job), startTime), HTTP_STATUS.ACCEPTED)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.E2B_SERVICE_ERROR)
+    }
+  }
+)
+
+jobs.get(
+  '/:id',
+  requirePermission('tool_executions', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const job = await repositories.scoped(requireUser(c)).toolExecutions.get(id)
+      return c.json(successResponse(jobResponse(job), startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// Server-Sent Events: `tool_start` when the job starts running, then
+// `tool_result` with the finished job and `complete`
+jobs.get(
+  '/:id/events',
+  requirePermission('tool_executions', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const executions = repositories.scoped(requireUser(c)).toolExecutions
+      await executions.get(id)
+
+      return streamChunks(c, async ({ send, signal }) => {
+        // Resolves with the finished job, or null when the client disconnects
+        const finished = new Promise<ToolExecutionsTable | null>((resolve) => {
+          let started = false
+          let poll: ReturnType<typeof setTimeout> | undefined
+          const settle = (job: ToolExecutionsTable | null) => {
+            unsubscribe()
+            clearTimeout(poll)
+            resolve(job)
+          }
+          const update = (job: ToolExecutionsTable) => {
+            if (job.execution_status === 'running' && !started) {
+              started = true
+              send(streamChunk('tool_start', jobResponse(job)))
+            }
+            if (isFinished(job)) {
+              settle(job)
+            }
+          }
+          const unsubscribe = jobQueue.subscribe(id, update)
+          signal.addEventListener('abort', () => settle(null), { once: true })
+
+          // Subscribed before re-reading so a change in between is not missed.
+          // A job queued on another instance is never published here, so its
+          // row is polled until it finishes.
+          const read = () =>
+            executions.get(id).then(
+              (job) => {
+                update(job)
+                if (!isFinished(job) && job.instance_id !== instanceId) {
+                  schedule()
+                }
+              },
+              () => {
+                if (poll !== undefined) {
+                  schedule()
+                }
+              }
+            )
+          const schedule = () => {
+            if (!signal.aborted) {
+              poll = setTimeout(read, REMOTE_JOB_POLL_MS)
+            }
+          }
+          read()
+        })
+
+        const job = await finished
+        if (!job) {
+          return
+        }
+        send(streamChunk('tool_result', jobResponse(job)))
+        send(streamChunk('complete', { execution_id: job.id, status: job.execution_status }))
+      })
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+jobs.post(
+  '/:id/cancel',
+  requirePermission('tool_executions', 'update'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const executions = repositories.scoped(requireUser(c)).toolExecutions
+      const job = await executions.get(id, 'update')
+
+      if (isFinished(job) || !(await jobQueue.cancel(id))) {
+        throw new ApiError(
+          ERROR_CODES.RESOURCE_CONFLICT,
+          `Job ${id} is not queued or running`,
+          HTTP_STATUS.CONFLICT,
+          { status: job.execution_status }
+        )
+      }
+
+      return c.json(successResponse(jobResponse(await executions.get(id)), startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+export default jobs
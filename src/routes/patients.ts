@@ -0,0 +1,362 @@
+import { Hono } from 'hono'
+import { requireUser } from '../lib/context.js'
+import { handleRouteError, successResponse } from '../lib/responses.js'
+import { requirePermission } from '../middleware/authorization.js'
+import { validate } from '../middleware/validation.js'
+import { repositories } from '../repositories/index.js'
+import {
+  BulkCreateLabResultsRequestSchema,
+  CreateLabResultRequestSchema,
+  CreateMedicationRequestSchema,
+  CreatePatientRequestSchema,
+  CreateVoeEpisodeRequestSchema,
+  ERROR_CODES,
+  IdParamSchema,
+  LabResultQuerySchema,
+  MedicationParamSchema,
+  MedicationQuerySchema,
+  PatientSearchQuerySchema,
+  UpdateMedicationRequestSchema,
+  UpdatePatientRequestSchema,
+  VoeEpisodeQuerySchema,
+} from '../types/index.js'
+
+const patients = new Hono()
+
+patients.get(
+  '/',
+  requirePermission('patients', 'read'),
+  validate('query', PatientSearchQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const result = await repositories.scoped(requireUser(c)).patients.search(c.req.valid('query'))
+      return c.json(successResponse(result, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.post(
+  '/',
+  requirePermission('patients', 'create'),
+  validate('json', CreatePatientRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const context = requireUser(c)
+      const patient = await repositories.scoped(context).patients.create(c.req.valid('json'), context.user_id)
+      return c.json(successResponse(patient, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.get(
+  '/:id',
+  requirePermission('patients', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const patient = await repositories.scoped(requireUser(c)).patients.get(c.req.valid('param').id)
+      return c.json(successResponse(patient, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.get(
+  '/:id/summary',
+  requirePermission('patients', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const summary = await repositories.scoped(requireUser(c)).patients.summary(c.req.valid('param').id)
+      return c.json(successResponse(summary, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.patch(
+  '/:id',
+  requirePermission('patients', 'update'),
+  validate('param', IdParamSchema),
+  validate('json', UpdatePatientRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const patient = await repositories.scoped(requireUser(c)).patients.update(id, c.req.valid('json'))
+      return c.json(successResponse(patient, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.delete(
+  '/:id',
+  requirePermission('patients', 'delete'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      await repositories.scoped(requireUser(c)).patients.delete(id)
+      return c.json(successResponse({ id, deleted: true }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// Lab result routes
+patients.get(
+  '/:id/labs',
+  requirePermission('lab_results', 'read'),
+  validate('param', IdParamSchema),
+  validate('query', LabResultQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const result = await repositories.scoped(requireUser(c)).labs.list(id, c.req.valid('query'))
+      return c.json(successResponse(result, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.post(
+  '/:id/labs',
+  requirePermission('lab_results', 'create'),
+  validate('param', IdParamSchema),
+  validate('json', CreateLabResultRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const context = requireUser(c)
+      const { id } = c.req.valid('param')
+      const lab = await repositories.scoped(context).labs.create(id, c.req.valid('json'), context.user_id)
+      return c.json(successResponse(lab, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.post(
+  '/:id/labs/bulk',
+  requirePermission('lab_results', 'create'),
+  validate('param', IdParamSchema),
+  validate('json', BulkCreateLabResultsRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const context = requireUser(c)
+      const { id } = c.req.valid('param')
+      const labs = await repositories.scoped(context).labs.bulkCreate(id, c.req.valid('json').results, context.user_id)
+      return c.json(successResponse(labs, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// VOE episode routes
+patients.get(
+  '/:id/voe-episodes',
+  requirePermission('voe_episodes', 'read'),
+  validate('param', IdParamSchema),
+  validate('query', VoeEpisodeQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const result = await repositories.scoped(requireUser(c)).voeEpisodes.list(id, c.req.valid('query'))
+      return c.json(successResponse(result, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.post(
+  '/:id/voe-episodes',
+  requirePermission('voe_episodes', 'create'),
+  validate('param', IdParamSchema),
+  validate('json', CreateVoeEpisodeRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const context = requireUser(c)
+      const { id } = c.req.valid('param')
+      const episode = await repositories.scoped(context).voeEpisodes.create(id, c.req.valid('json'), context.user_id)
+      return c.json(successResponse(episode, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.get(
+  '/:id/voe-episodes/analytics',
+  requirePermission('voe_episodes', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const analytics = await repositories.scoped(requireUser(c)).voeEpisodes.analytics(c.req.valid('param').id)
+      return c.json(successResponse(analytics, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// Medication routes
+patients.get(
+  '/:id/medications',
+  requirePermission('medications', 'read'),
+  validate('param', IdParamSchema),
+  validate('query', MedicationQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const result = await repositories.scoped(requireUser(c)).medications.list(id, c.req.valid('query'))
+      return c.json(successResponse(result, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.post(
+  '/:id/medications',
+  requirePermission('medications', 'create'),
+  validate('param', IdParamSchema),
+  validate('json', CreateMedicationRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const context = requireUser(c)
+      const { id } = c.req.valid('param')
+      const medication = await repositories.scoped(context).medications.create(id, c.req.valid('json'), context.user_id)
+      return c.json(successResponse(medication, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.get(
+  '/:id/medications/timeline',
+  requirePermission('medications', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const timeline = await repositories.scoped(requireUser(c)).medications.timeline(c.req.valid('param').id)
+      return c.json(successResponse(timeline, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.post(
+  '/:id/medications/review',
+  requirePermission('medications', 'read'),
+  requirePermission('clinical_insights', 'create'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const review = await repositories.scoped(requireUser(c)).medications.review(c.req.valid('param').id)
+      return c.json(successResponse(review, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.get(
+  '/:id/medications/:medicationId',
+  requirePermission('medications', 'read'),
+  validate('param', MedicationParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id, medicationId } = c.req.valid('param')
+      const medication = await repositories.scoped(requireUser(c)).medications.get(id, medicationId)
+      return c.json(successResponse(medication, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.patch(
+  '/:id/medications/:medicationId',
+  requirePermission('medications', 'update'),
+  validate('param', MedicationParamSchema),
+  validate('json', UpdateMedicationRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id, medicationId } = c.req.valid('param')
+      const medication = await repositories
+        .scoped(requireUser(c))
+        .medications.update(id, medicationId, c.req.valid('json'))
+      return c.json(successResponse(medication, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+patients.delete(
+  '/:id/medications/:medicationId',
+  requirePermission('medications', 'delete'),
+  validate('param', MedicationParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id, medicationId } = c.req.valid('param')
+      await repositories.scoped(requireUser(c)).medications.delete(id, medicationId)
+      return c.json(successResponse({ id: medicationId, deleted: true }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+export default patients
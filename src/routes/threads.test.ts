@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { signAccessToken } from '../lib/auth.js'
+import { InMemoryDataStore } from '../lib/memory-store.js'
+import { setDataStore } from '../repositories/index.js'
+import routes from './index.js'
+import type { ApiResponse, Message, MessageListResponse, Thread, ThreadListResponse, UserRole } from '../types/index.js'
+
+const organizationId = crypto.randomUUID()
+
+async function user(role: UserRole = 'clinician') {
+  const id = crypto.randomUUID()
+  const token = await signAccessToken({ sub: id, app_metadata: { role, organization_id: organizationId } })
+  return { id, token }
+}
+
+async function call<T = unknown>(token: string, method: string, path: string, body?: unknown) {
+  const response = await routes.request(`/api${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const { data, error } = (await response.json()) as ApiResponse<T>
+  return { status: response.status, data: data as T, error }
+}
+
+async function createThread(token: string, body: Record<string, unknown> = {}) {
+  const { status, data } = await call<Thread>(token, 'POST', '/threads', { title: 'Pain crisis follow-up', ...body })
+  expect(status).toBe(201)
+  return data
+}
+
+const contents = (list: MessageListResponse) => list.messages.map((message) => message.content)
+
+beforeEach(() => {
+  setDataStore(new InMemoryDataStore())
+})
+
+describe('thread routes', () => {
+  test('create, read, update and list a thread', async () => {
+    const { token } = await user()
+    const thread = await createThread(token, { description: 'After discharge' })
+    expect(thread.status).toBe('active')
+
+    const fetched = await call<Thread>(token, 'GET', `/threads/${thread.id}`)
+    expect(fetched.data.title).toBe('Pain crisis follow-up')
+
+    const updated = await call<Thread>(token, 'PATCH', `/threads/${thread.id}`, { title: 'Renamed' })
+    expect(updated.data.title).toBe('Renamed')
+
+    const listed = await call<ThreadListResponse>(token, 'GET', '/threads')
+    expect(listed.data.threads.map((item) => item.id)).toEqual([thread.id])
+  })
+
+  test('archive hides a thread from the active list and delete removes it', async () => {
+    const { token } = await user()
+    const thread = await createThread(token)
+
+    expect((await call<Thread>(token, 'POST', `/threads/${thread.id}/archive`)).data.status).toBe('archived')
+    expect((await call<ThreadListResponse>(token, 'GET', '/threads?status=active')).data.threads).toEqual([])
+
+    expect((await call(token, 'DELETE', `/threads/${thread.id}`)).status).toBe(200)
+    expect((await call(token, 'GET', `/threads/${thread.id}`)).status).toBe(404)
+  })
+
+  test('an initial message is stored with the thread', async () => {
+    const { token } = await user()
+    const thread = await createThread(token, { initial_message: 'I have chest pain' })
+
+    const messages = await call<MessageListResponse>(token, 'GET', `/threads/${thread.id}/messages`)
+    expect(contents(messages.data)).toEqual(['I have chest pain'])
+  })
+
+  test('another user cannot see the thread', async () => {
+    const { token } = await user()
+    const other = await user()
+    const thread = await createThread(token)
+
+    const fetched = await call(other.token, 'GET', `/threads/${thread.id}`)
+    expect(fetched.status).toBe(403)
+    expect(fetched.error?.code).toBe('FORBIDDEN')
+    expect((await call<ThreadListResponse>(other.token, 'GET', '/threads')).data.threads).toEqual([])
+  })
+
+  test('rejects a thread without a title', async () => {
+    const { token } = await user()
+    const { status, error } = await call(token, 'POST', '/threads', {})
+    expect(status).toBe(422)
+    expect(error?.code).toBe('VALIDATION_ERROR')
+    expect(error?.details?.fields).toEqual(['title'])
+  })
+
+  test('a patient the caller cannot read is not linked', async () => {
+    const { token } = await user()
+    const { status } = await call(token, 'POST', '/threads', { title: 'Other clinic', patient_id: crypto.randomUUID() })
+    expect(status).toBe(404)
+  })
+})
+
+describe('message routes', () => {
+  test('posted messages are stored as user messages in order', async () => {
+    const { token } = await user()
+    const thread = await createThread(token)
+
+    const first = await call<Message>(token, 'POST', `/threads/${thread.id}/messages`, { content: 'First' })
+    expect(first.status).toBe(201)
+    const second = await call<Message>(token, 'POST', `/threads/${thread.id}/messages`, {
+      content: 'Second',
+      role: 'system',
+      parent_message_id: first.data.id,
+    })
+    expect(second.data.role).toBe('user')
+
+    const messages = await call<MessageListResponse>(token, 'GET', `/threads/${thread.id}/messages`)
+    expect(contents(messages.data)).toEqual(['First', 'Second'])
+  })
+
+  test('server-owned metadata is dropped from posted messages', async () => {
+    const { token } = await user()
+    const thread = await createThread(token)
+
+    const { data } = await call<Message>(token, 'POST', `/threads/${thread.id}/messages`, {
+      content: 'Hello',
+      metadata: { model_used: 'forged', tools_used: ['vector_search'] },
+    })
+    expect(data.metadata?.model_used).toBeUndefined()
+    expect(data.metadata?.tools_used).toEqual(['vector_search'])
+  })
+
+  test('messages of a missing thread are not found', async () => {
+    const { token } = await user()
+    const { status } = await call(token, 'GET', `/threads/${crypto.randomUUID()}/messages`)
+    expect(status).toBe(404)
+  })
+
+  test('deleting a message removes it from the thread', async () => {
+    const { token } = await user()
+    const thread = await createThread(token)
+    const { data } = await call<Message>(token, 'POST', `/threads/${thread.id}/messages`, { content: 'Typo' })
+
+    expect((await call(token, 'DELETE', `/threads/${thread.id}/messages/${data.id}`)).status).toBe(200)
+    expect((await call<MessageListResponse>(token, 'GET', `/threads/${thread.id}/messages`)).data.messages).toEqual([])
+  })
+})
@@ -0,0 +1,311 @@
+import { Hono } from 'hono'
+import { requireUser } from '../lib/context.js'
+import { handleRouteError, successResponse } from '../lib/responses.js'
+import { requirePermission } from '../middleware/authorization.js'
+import { validate } from '../middleware/validation.js'
+import { repositories } from '../repositories/index.js'
+import {
+  CreateMessageRequestSchema,
+  CreateThreadRequestSchema,
+  ERROR_CODES,
+  ForkThreadRequestSchema,
+  IdParamSchema,
+  MessageParamSchema,
+  PaginationQuerySchema,
+  ThreadListQuerySchema,
+  UpdateMessageRequestSchema,
+  UpdateThreadRequestSchema,
+} from '../types/index.js'
+
+const threads = new Hono()
+
+type ScopedRepositories = ReturnType<typeof repositories.scoped>
+
+// A thread's metadata.patient_id scopes its chats to that patient's records,
+// so the caller must be able to read the patient
+async function checkThreadPatient(scoped: ScopedRepositories, patientId: unknown): Promise<void> {
+  if (patientId !== undefined) {
+    await scoped.patients.get(String(patientId))
+  }
+}
+
+// Thread routes
+threads.get(
+  '/',
+  requirePermission('threads', 'read'),
+  validate('query', ThreadListQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const result = await repositories.scoped(requireUser(c)).threads.list(c.req.valid('query'))
+      return c.json(successResponse(result, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+threads.post(
+  '/',
+  requirePermission('threads', 'create'),
+  validate('json', CreateThreadRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const context = requireUser(c)
+      const scoped = repositories.scoped(context)
+      const { initial_message, patient_id, metadata, ...body } = c.req.valid('json')
+
+      await checkThreadPatient(scoped, patient_id ?? metadata?.patient_id)
+
+      const thread = await scoped.threads.create({
+        ...body,
+        user_id: context.user_id,
+        metadata: patient_id ? { ...metadata, patient_id } : metadata,
+      })
+
+      if (initial_message) {
+        await scoped.messages.create(thread.id, { role: 'user', content: initial_message })
+      }
+
+      return c.json(successResponse(thread, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+threads.get(
+  '/:id',
+  requirePermission('threads', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const thread = await repositories.scoped(requireUser(c)).threads.get(c.req.valid('param').id)
+      return c.json(successResponse(thread, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+threads.patch(
+  '/:id',
+  requirePermission('threads', 'update'),
+  validate('param', IdParamSchema),
+  validate('json', UpdateThreadRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const changes = c.req.valid('json')
+      const scoped = repositories.scoped(requireUser(c))
+      await checkThreadPatient(scoped, changes.metadata?.patient_id)
+      const thread = await scoped.threads.update(id, changes)
+      return c.json(successResponse(thread, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+threads.post(
+  '/:id/archive',
+  requirePermission('threads', 'update'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const thread = await repositories.scoped(requireUser(c)).threads.archive(c.req.valid('param').id)
+      return c.json(successResponse(thread, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// Start a new thread from any message, copying the conversation up to it
+threads.post(
+  '/:id/fork',
+  requirePermission('threads', 'create'),
+  validate('param', IdParamSchema),
+  validate('json', ForkThreadRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const context = requireUser(c)
+      const { message_id, ...body } = c.req.valid('json')
+      const thread = await repositories
+        .scoped(context)
+        .messages.fork(c.req.valid('param').id, message_id, { ...body, user_id: context.user_id })
+      return c.json(successResponse(thread, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+threads.delete(
+  '/:id',
+  requirePermission('threads', 'delete'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      await repositories.scoped(requireUser(c)).threads.delete(id)
+      return c.json(successResponse({ id, deleted: true }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// Message routes
+threads.get(
+  '/:id/messages',
+  requirePermission('messages', 'read'),
+  validate('param', IdParamSchema),
+  validate('query', PaginationQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const result = await repositories.scoped(requireUser(c)).messages.list(id, c.req.valid('query'))
+      return c.json(successResponse(result, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+threads.post(
+  '/:id/messages',
+  requirePermission('messages', 'create'),
+  validate('param', IdParamSchema),
+  validate('json', CreateMessageRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      // Clients post their own turns; system and assistant messages are only
+      // ever written by the server
+      const message = await repositories.scoped(requireUser(c)).messages.create(id, {
+        ...c.req.valid('json'),
+        role: 'user',
+      })
+      return c.json(successResponse(message, startTime), 201)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// Every branch of the conversation, nested under the message it follows
+threads.get(
+  '/:id/messages/tree',
+  requirePermission('messages', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const tree = await repositories.scoped(requireUser(c)).messages.tree(c.req.valid('param').id)
+      return c.json(successResponse(tree, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+threads.get(
+  '/:id/messages/:messageId',
+  requirePermission('messages', 'read'),
+  validate('param', MessageParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id, messageId } = c.req.valid('param')
+      const message = await repositories.scoped(requireUser(c)).messages.get(id, messageId)
+      return c.json(successResponse(message, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// The message and the alternatives to it
+threads.get(
+  '/:id/messages/:messageId/branches',
+  requirePermission('messages', 'read'),
+  validate('param', MessageParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id, messageId } = c.req.valid('param')
+      const branches = await repositories.scoped(requireUser(c)).messages.branches(id, messageId)
+      return c.json(successResponse(branches, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+// A new `content` is stored as a sibling branch of the message, which is
+// kept along with the replies to it; other changes apply in place
+threads.patch(
+  '/:id/messages/:messageId',
+  requirePermission('messages', 'update'),
+  validate('param', MessageParamSchema),
+  validate('json', UpdateMessageRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id, messageId } = c.req.valid('param')
+      const changes = c.req.valid('json')
+      const messages = repositories.scoped(requireUser(c)).messages
+
+      if (changes.content !== undefined) {
+        const edited = await messages.edit(id, messageId, changes)
+        return c.json(successResponse(edited, startTime), 201)
+      }
+
+      const message = await messages.update(id, messageId, changes)
+      return c.json(successResponse(message, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+threads.delete(
+  '/:id/messages/:messageId',
+  requirePermission('messages', 'delete'),
+  validate('param', MessageParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id, messageId } = c.req.valid('param')
+      await repositories.scoped(requireUser(c)).messages.delete(id, messageId)
+      return c.json(successResponse({ id: messageId, deleted: true }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+export default threads
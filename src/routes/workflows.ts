@@ -0,0 +1,102 @@
+import { Hono } from 'hono'
+import { requireUser } from '../lib/context.js'
+import { ApiError } from '../lib/errors.js'
+import { handleRouteError, successResponse } from '../lib/responses.js'
+import { requirePermission } from '../middleware/authorization.js'
+import { validate } from '../middleware/validation.js'
+import { repositories } from '../repositories/index.js'
+import { isWorkflowFinished, workflowRunner } from '../services/workflow-runner.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  IdParamSchema,
+  SubmitWorkflowRequestSchema,
+  WorkflowQuerySchema,
+  type WorkflowExecutionsTable,
+} from '../types/index.js'
+
+const workflows = new Hono()
+
+// `execution_id` is the workflow_executions row id
+function executionResponse(execution: WorkflowExecutionsTable) {
+  return { execution_id: execution.id, ...execution }
+}
+
+workflows.get(
+  '/',
+  requirePermission('workflow_executions', 'read'),
+  validate('query', WorkflowQuerySchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const result = await repositories.scoped(requireUser(c)).workflowExecutions.list(c.req.valid('query'))
+      return c.json(successResponse({ ...result, data: result.data.map(executionResponse) }, startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+workflows.post(
+  '/',
+  requirePermission('workflow_executions', 'create'),
+  validate('json', SubmitWorkflowRequestSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const execution = await workflowRunner.submit(c.req.valid('json'), requireUser(c))
+      return c.json(successResponse(executionResponse(execution), startTime), HTTP_STATUS.ACCEPTED)
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.SERVICE_ERROR)
+    }
+  }
+)
+
+workflows.get(
+  '/:id',
+  requirePermission('workflow_executions', 'read'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const execution = await repositories.scoped(requireUser(c)).workflowExecutions.get(id)
+      return c.json(successResponse(executionResponse(execution), startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+workflows.post(
+  '/:id/cancel',
+  requirePermission('workflow_executions', 'update'),
+  validate('param', IdParamSchema),
+  async (c) => {
+    const startTime = Date.now()
+
+    try {
+      const { id } = c.req.valid('param')
+      const executions = repositories.scoped(requireUser(c)).workflowExecutions
+      const execution = await executions.get(id, 'update')
+
+      if (isWorkflowFinished(execution) || !workflowRunner.cancel(id)) {
+        throw new ApiError(
+          ERROR_CODES.RESOURCE_CONFLICT,
+          `Workflow execution ${id} is not running`,
+          HTTP_STATUS.CONFLICT,
+          { status: execution.overall_status }
+        )
+      }
+
+      return c.json(successResponse(executionResponse(await executions.get(id)), startTime))
+    } catch (error) {
+      return handleRouteError(c, error, startTime, ERROR_CODES.DATABASE_ERROR)
+    }
+  }
+)
+
+export default workflows
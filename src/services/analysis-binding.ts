@@ -0,0 +1,139 @@
+import { ApiError } from '../lib/errors.js'
+import { formatIssues } from '../middleware/validation.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  type E2BExecutionRequest,
+  type E2BExecutionResult,
+  type MedicalAnalysisResult,
+  type MedicalAnalysisTool,
+} from '../types/index.js'
+
+// Binds MEDICAL_ANALYSIS_TOOLS templates to their input and output. The input
+// is passed to the sandbox as JSON in an environment variable, never
+// interpolated into the code, and the preamble decodes it into
+// `patient_data`. Templates report their result through emit_result(), which
+// prints one marked JSON line that parseAnalysisOutput reads back.
+
+export const ANALYSIS_INPUT_VARIABLE = 'ANALYSIS_INPUT'
+export const ANALYSIS_RESULT_MARKER = '__ANALYSIS_RESULT__'
+
+export const ANALYSIS_PREAMBLE = `
+import json
+import math
+import os
+from datetime import datetime
+
+import numpy as np
+import pandas as pd
+import matplotlib
+matplotlib.use('Agg')
+import matplotlib.pyplot as plt
+
+patient_data = json.loads(os.environ.get('${ANALYSIS_INPUT_VARIABLE}', 'null'))
+
+def _jsonable(value):
+    if isinstance(value, dict):
+        return {str(key): _jsonable(item) for key, item in value.items()}
+    if isinstance(value, (list, tuple)):
+        return [_jsonable(item) for item in value]
+    if isinstance(value, np.generic):
+        value = value.item()
+    if isinstance(value, float) and not math.isfinite(value):
+        return None
+    if isinstance(value, (pd.Timestamp, datetime)):
+        return value.isoformat()
+    return value
+
+def emit_result(value):
+    print('${ANALYSIS_RESULT_MARKER}' + json.dumps(_jsonable(value)))
+`
+
+// Artifacts (e.g. plots) are listed in expected_outputs by filename
+function isArtifactName(output: string): boolean {
+  return /\.[a-z0-9]+$/i.test(output)
+}
+
+// Validate the input and build the sandbox request for a tool
+export function bindAnalysisInput(tool: MedicalAnalysisTool, data: unknown): E2BExecutionRequest {
+  let input = data
+  if (tool.input_schema) {
+    const parsed = tool.input_schema.safeParse(data)
+    if (!parsed.success) {
+      throw new ApiError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Invalid input for ${tool.tool_name}`,
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        { issues: formatIssues(parsed.error) }
+      )
+    }
+    input = parsed.data
+  }
+
+  return {
+    code: `${ANALYSIS_PREAMBLE}\n${tool.code_template}`,
+    language: 'python',
+    environment: {
+      packages: tool.required_packages,
+      environment_variables: { [ANALYSIS_INPUT_VARIABLE]: JSON.stringify(input ?? null) },
+    },
+    timeout_seconds: 120,
+    memory_limit_mb: 1024,
+  }
+}
+
+function outputFailure(result: E2BExecutionResult, message: string): MedicalAnalysisResult<never> {
+  const { return_value: _, ...rest } = result
+  return {
+    ...rest,
+    status: 'failed',
+    error_details: { error_type: 'OutputValidationError', error_message: message },
+  }
+}
+
+// Extract the emitted JSON from stdout, validate it against the tool's output
+// schema and check every expected output is present
+export function parseAnalysisOutput<TOutput>(
+  tool: MedicalAnalysisTool<unknown, TOutput>,
+  result: E2BExecutionResult
+): MedicalAnalysisResult<TOutput> {
+  if (result.status !== 'completed') {
+    return result as MedicalAnalysisResult<TOutput>
+  }
+
+  const line = (result.stdout ?? '')
+    .split('\n')
+    .reverse()
+    .find((candidate) => candidate.startsWith(ANALYSIS_RESULT_MARKER))
+  if (!line) {
+    return outputFailure(result, `${tool.tool_name} did not emit a result`)
+  }
+
+  let value: unknown
+  try {
+    value = JSON.parse(line.slice(ANALYSIS_RESULT_MARKER.length))
+  } catch {
+    return outputFailure(result, `${tool.tool_name} emitted malformed JSON`)
+  }
+
+  if (tool.output_schema) {
+    const parsed = tool.output_schema.safeParse(value)
+    if (!parsed.success) {
+      const issues = formatIssues(parsed.error).map((issue) => `${issue.path}: ${issue.message}`)
+      return outputFailure(result, `${tool.tool_name} returned an invalid result (${issues.join('; ')})`)
+    }
+    value = parsed.data
+  }
+
+  // Artifacts can only be checked when the backend reports created files
+  const keys = value && typeof value === 'object' ? Object.keys(value) : []
+  const createdFiles = result.files_created?.map((file) => file.filename)
+  const missing = tool.expected_outputs.filter((output) =>
+    isArtifactName(output) ? createdFiles !== undefined && !createdFiles.includes(output) : !keys.includes(output)
+  )
+  if (missing.length > 0) {
+    return outputFailure(result, `${tool.tool_name} is missing expected outputs: ${missing.join(', ')}`)
+  }
+
+  return { ...result, return_value: value as TOutput }
+}
@@ -0,0 +1,131 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabaseAdmin } from '../lib/db.js'
+import { ExecutionArtifactSchema, type ExecutionArtifact } from '../types/index.js'
+
+// Keeps files created by sandbox executions after their session is gone.
+// Each artifact is stored as `<id>/content` next to `<id>/metadata.json`,
+// either on local disk or in a Supabase storage bucket.
+
+export type NewArtifact = Omit<ExecutionArtifact, 'id' | 'size_bytes' | 'created_at'>
+
+export interface ArtifactStorage {
+  save(artifact: NewArtifact, content: Buffer): Promise<ExecutionArtifact>
+  // Metadata without the content, or null when the artifact does not exist
+  get(id: string): Promise<ExecutionArtifact | null>
+  read(id: string): Promise<Buffer>
+}
+
+function createArtifact(artifact: NewArtifact, content: Buffer): ExecutionArtifact {
+  return {
+    ...artifact,
+    id: crypto.randomUUID(),
+    size_bytes: content.length,
+    created_at: new Date().toISOString(),
+  }
+}
+
+function parseMetadata(json: string): ExecutionArtifact {
+  return ExecutionArtifactSchema.parse(JSON.parse(json))
+}
+
+export class LocalArtifactStorage implements ArtifactStorage {
+  constructor(private directory: string) {}
+
+  async save(artifact: NewArtifact, content: Buffer): Promise<ExecutionArtifact> {
+    const stored = createArtifact(artifact, content)
+    const directory = join(this.directory, stored.id)
+    await mkdir(directory, { recursive: true })
+    await writeFile(join(directory, 'content'), content)
+    await writeFile(join(directory, 'metadata.json'), JSON.stringify(stored))
+    return stored
+  }
+
+  async get(id: string): Promise<ExecutionArtifact | null> {
+    try {
+      return parseMetadata(await readFile(join(this.directory, id, 'metadata.json'), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async read(id: string): Promise<Buffer> {
+    return readFile(join(this.directory, id, 'content'))
+  }
+}
+
+export class SupabaseArtifactStorage implements ArtifactStorage {
+  constructor(
+    private client: SupabaseClient,
+    private bucket: string
+  ) {}
+
+  async save(artifact: NewArtifact, content: Buffer): Promise<ExecutionArtifact> {
+    const stored = createArtifact(artifact, content)
+    const bucket = this.client.storage.from(this.bucket)
+
+    const upload = await bucket.upload(`${stored.id}/content`, content, { contentType: stored.mime_type })
+    if (upload.error) {
+      throw new Error(`Failed to store artifact: ${upload.error.message}`)
+    }
+    const metadata = await bucket.upload(`${stored.id}/metadata.json`, JSON.stringify(stored), {
+      contentType: 'application/json',
+    })
+    if (metadata.error) {
+      throw new Error(`Failed to store artifact metadata: ${metadata.error.message}`)
+    }
+    return stored
+  }
+
+  async get(id: string): Promise<ExecutionArtifact | null> {
+    const { data, error } = await this.client.storage.from(this.bucket).download(`${id}/metadata.json`)
+    if (error || !data) {
+      return null
+    }
+    return parseMetadata(await data.text())
+  }
+
+  async read(id: string): Promise<Buffer> {
+    const { data, error } = await this.client.storage.from(this.bucket).download(`${id}/content`)
+    if (error || !data) {
+      throw new Error(`Failed to read artifact ${id}: ${error?.message ?? 'no content'}`)
+    }
+    return Buffer.from(await data.arrayBuffer())
+  }
+}
+
+export interface ArtifactStorageConfig {
+  backend: 'local' | 'supabase'
+  directory: string
+  bucket: string
+}
+
+// ARTIFACT_STORAGE=supabase keeps artifacts in a storage bucket, which needs
+// SUPABASE_SERVICE_ROLE_KEY; the default is a local directory
+export function loadArtifactStorageConfig(env: NodeJS.ProcessEnv = process.env): ArtifactStorageConfig {
+  const backend = env.ARTIFACT_STORAGE || 'local'
+  if (backend !== 'local' && backend !== 'supabase') {
+    throw new Error(`Invalid ARTIFACT_STORAGE "${backend}", expected "local" or "supabase"`)
+  }
+
+  return {
+    backend,
+    directory: env.ARTIFACT_STORAGE_DIR || join(tmpdir(), 'angstromscd-artifacts'),
+    bucket: env.ARTIFACT_STORAGE_BUCKET || 'artifacts',
+  }
+}
+
+export function createArtifactStorage(config: ArtifactStorageConfig = loadArtifactStorageConfig()): ArtifactStorage {
+  if (config.backend === 'supabase') {
+    if (!supabaseAdmin) {
+      throw new Error('ARTIFACT_STORAGE=supabase requires SUPABASE_SERVICE_ROLE_KEY')
+    }
+    return new SupabaseArtifactStorage(supabaseAdmin, config.bucket)
+  }
+  return new LocalArtifactStorage(config.directory)
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { createFakeBamlApp, type FakeBamlOptions } from '../../cli/fake-baml-server.js'
+import { HttpBAMLClient } from './baml-client.js'
+import { ResilientServiceClient } from './resilient-client.js'
+import { InMemoryDataStore } from '../lib/memory-store.js'
+import { setDataStore } from '../repositories/index.js'
+import { ERROR_CODES, HTTP_STATUS, type BAMLPrompt, type BAMLStreamEvent } from '../types/index.js'
+
+const BASE_URL = 'http://baml.test'
+
+const prompt: BAMLPrompt = {
+  template_name: 'patient_chat',
+  variables: { question: 'Is hydroxyurea safe?' },
+  model_config: { model: 'test-model' },
+}
+
+// Requests reach the fake server in process rather than over the network
+function inProcess(options: FakeBamlOptions): typeof globalThis.fetch {
+  const app = createFakeBamlApp(options)
+  return ((input: string | URL | Request, init?: RequestInit) => app.request(input, init)) as typeof globalThis.fetch
+}
+
+function client(options: FakeBamlOptions = {}, maxRetries = 2) {
+  const resilient = new ResilientServiceClient('baml', {
+    timeoutSeconds: 5,
+    retry: { max_retries: maxRetries, retry_delay_ms: 1, exponential_backoff: false },
+    circuit: { failureThreshold: 10, resetTimeoutMs: 60_000 },
+  })
+  return new HttpBAMLClient(BASE_URL, { apiKey: options.apiKey, fetch: inProcess(options) }, resilient)
+}
+
+// A client for a service answering every request with `body`
+function clientReturning(body: unknown) {
+  const fetch = (async () => Response.json(body)) as unknown as typeof globalThis.fetch
+  return new HttpBAMLClient(BASE_URL, { fetch }, new ResilientServiceClient('baml'))
+}
+
+beforeEach(() => {
+  setDataStore(new InMemoryDataStore())
+})
+
+describe('HttpBAMLClient', () => {
+  test('generates a response', async () => {
+    const response = await client({ apiKey: 'baml-key' }).generateResponse(prompt)
+
+    expect(response).toMatchObject({
+      template_name: 'patient_chat',
+      model_used: 'test-model',
+      content: '[patient_chat] {"question":"Is hydroxyurea safe?"}',
+    })
+    expect(response.metadata.confidence_score).toBe(0.9)
+  })
+
+  test('analyzes medical data', async () => {
+    const analysis = await client().analyzeMedicalData({ condition: 'sickle cell disease' }, 'risk_assessment')
+
+    expect(analysis.analysis_type).toBe('risk_assessment')
+    expect(analysis.findings[0]?.finding).toBe('No acute concerns identified for sickle cell disease')
+    expect(analysis.recommendations[0]?.priority).toBe('medium')
+  })
+
+  test('streams content followed by the complete response', async () => {
+    const events: BAMLStreamEvent[] = []
+    for await (const event of client().streamResponse(prompt)) {
+      events.push(event)
+    }
+
+    const content = events.flatMap((event) => (event.type === 'content' ? [event.delta] : []))
+    expect(content.join('')).toBe('[patient_chat] {"question":"Is hydroxyurea safe?"}')
+    expect(events.at(-1)).toMatchObject({ type: 'complete', response: { template_name: 'patient_chat' } })
+  })
+
+  test('rejects responses that do not match the schema', async () => {
+    await expect(clientReturning({ content: 'no id or metadata' }).generateResponse(prompt)).rejects.toMatchObject({
+      code: ERROR_CODES.BAML_SERVICE_ERROR,
+      status: HTTP_STATUS.BAD_GATEWAY,
+      message: 'BAML service returned an invalid response',
+      details: { path: '/generate' },
+    })
+  })
+
+  test('maps request errors to 422 without retrying', async () => {
+    await expect(client().analyzeMedicalData({}, 'horoscope')).rejects.toMatchObject({
+      status: HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      details: { upstream_status: 422, attempts: 1 },
+    })
+  })
+
+  test('retries 5xx responses as 503 until the service recovers', async () => {
+    const response = await client({ failFirst: 2 }).generateResponse(prompt)
+    expect(response.template_name).toBe('patient_chat')
+
+    await expect(client({ failFirst: 2 }, 1).generateResponse(prompt)).rejects.toMatchObject({
+      code: ERROR_CODES.BAML_SERVICE_ERROR,
+      status: HTTP_STATUS.SERVICE_UNAVAILABLE,
+      message: 'BAML service returned 503: Fake BAML service is unavailable',
+      details: { upstream_status: 503, attempts: 2 },
+    })
+  })
+
+  test('sends the API key', async () => {
+    const fetch = inProcess({ apiKey: 'baml-key' })
+    const unauthenticated = new HttpBAMLClient(BASE_URL, { fetch }, new ResilientServiceClient('baml'))
+
+    await expect(unauthenticated.generateResponse(prompt)).rejects.toMatchObject({
+      status: HTTP_STATUS.BAD_GATEWAY,
+      details: { upstream_status: 401 },
+    })
+  })
+})
@@ -0,0 +1,178 @@
+import { z } from 'zod'
+import { ApiError } from '../lib/errors.js'
+import { HttpTransport, type HttpHealth, type HttpTransportOptions } from './http-transport.js'
+import { resilientClients, type ResilientServiceClient } from './resilient-client.js'
+import {
+  BAMLConversationSummarySchema,
+  BAMLMedicalAnalysisSchema,
+  BAMLResponseSchema,
+  BAMLStreamEventSchema,
+  ERROR_CODES,
+  HTTP_STATUS,
+  MessageClassificationSchema,
+  type BAMLConversationSummary,
+  type BAMLMedicalAnalysis,
+  type BAMLPrompt,
+  type BAMLResponse,
+  type BAMLServiceClient,
+  type BAMLStreamEvent,
+  type Citation,
+  type MedicalContext,
+  type MessageClassification,
+  type ServiceCallOptions,
+} from '../types/index.js'
+
+// Client for the BAML prompt service at BAML_SERVICE_URL:
+//   POST /generate          BAMLPrompt -> BAMLResponse
+//   POST /generate/stream   BAMLPrompt -> Server-Sent Events of BAMLStreamEvent
+//   POST /analyze           { context, analysis_type } -> BAMLMedicalAnalysis
+//   POST /literature-query  { query, context } -> { query }
+//   POST /synthesize        { citations, context } -> { synthesis }
+//   POST /summarize         { messages, previous_summary } -> BAMLConversationSummary
+//   POST /classify          { content, context } -> MessageClassification
+//   GET  /health
+// Every call goes through the shared resilient client; for streams that
+// covers opening the stream, not the events after it. cli/fake-baml-server.ts
+// implements the same API for local development.
+
+const LiteratureQueryResponseSchema = z.object({ query: z.string() })
+const SynthesisResponseSchema = z.object({ synthesis: z.string() })
+
+export class HttpBAMLClient implements BAMLServiceClient {
+  private transport: HttpTransport
+
+  constructor(
+    baseUrl: string,
+    options: HttpTransportOptions = {},
+    private resilient: ResilientServiceClient = resilientClients.baml
+  ) {
+    this.transport = new HttpTransport('baml', baseUrl, options)
+  }
+
+  get baseUrl(): string {
+    return this.transport.baseUrl
+  }
+
+  async generateResponse(prompt: BAMLPrompt, options: ServiceCallOptions = {}): Promise<BAMLResponse> {
+    return this.post('generate_response', '/generate', { ...prompt }, BAMLResponseSchema, options)
+  }
+
+  // Events as the service generates. An `error` event from the service is
+  // thrown; aborting `options.signal` closes the stream, which ends the
+  // generation upstream.
+  async *streamResponse(prompt: BAMLPrompt, options: ServiceCallOptions = {}): AsyncGenerator<BAMLStreamEvent> {
+    const path = '/generate/stream'
+    const body = { ...prompt }
+    const { data: stream } = await this.resilient.call({ ...options, operation: 'stream_response', parameters: body }, (signal) =>
+      // The attempt's signal only covers opening the stream
+      this.transport.openStream({ path, body, signal: options.signal ? AbortSignal.any([signal, options.signal]) : signal })
+    )
+
+    for await (const event of this.transport.events(stream, BAMLStreamEventSchema, path)) {
+      if (event.type === 'error') {
+        throw new ApiError(ERROR_CODES.BAML_SERVICE_ERROR, `BAML stream failed: ${event.message}`, HTTP_STATUS.BAD_GATEWAY)
+      }
+      yield event
+    }
+  }
+
+  async analyzeMedicalData(
+    context: MedicalContext,
+    analysisType: string,
+    options: ServiceCallOptions = {}
+  ): Promise<BAMLMedicalAnalysis> {
+    return this.post(
+      'analyze_medical_data',
+      '/analyze',
+      { context, analysis_type: analysisType },
+      BAMLMedicalAnalysisSchema,
+      options
+    )
+  }
+
+  async generateLiteratureQuery(
+    query: string,
+    context?: MedicalContext,
+    options: ServiceCallOptions = {}
+  ): Promise<string> {
+    const response = await this.post(
+      'generate_literature_query',
+      '/literature-query',
+      { query, context },
+      LiteratureQueryResponseSchema,
+      options
+    )
+    return response.query
+  }
+
+  async synthesizeFindings(
+    citations: Citation[],
+    context?: MedicalContext,
+    options: ServiceCallOptions = {}
+  ): Promise<string> {
+    const response = await this.post(
+      'synthesize_findings',
+      '/synthesize',
+      { citations, context },
+      SynthesisResponseSchema,
+      options
+    )
+    return response.synthesis
+  }
+
+  // Fold `messages` into `previousSummary`, or summarise them from scratch
+  async summarizeConversation(
+    messages: Array<{ role: string; content: string }>,
+    previousSummary?: string,
+    options: ServiceCallOptions = {}
+  ): Promise<BAMLConversationSummary> {
+    return this.post(
+      'summarize_conversation',
+      '/summarize',
+      { messages, previous_summary: previousSummary },
+      BAMLConversationSummarySchema,
+      options
+    )
+  }
+
+  // Intent, entities, sentiment and medical urgency of a user's message
+  async classifyMessage(
+    content: string,
+    context?: MedicalContext,
+    options: ServiceCallOptions = {}
+  ): Promise<MessageClassification> {
+    return this.post('classify_message', '/classify', { content, context }, MessageClassificationSchema, options)
+  }
+
+  async healthCheck(): Promise<HttpHealth> {
+    return this.transport.healthCheck()
+  }
+
+  private async post<T>(
+    operation: string,
+    path: string,
+    body: Record<string, unknown>,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: ServiceCallOptions
+  ): Promise<T> {
+    const result = await this.resilient.call({ ...options, operation, parameters: body }, (signal) =>
+      this.transport.request({ method: 'POST', path, body, schema, signal })
+    )
+    return result.data
+  }
+}
+
+// Client for BAML_SERVICE_URL, or undefined when it is not set
+export function createBAMLClient(env: NodeJS.ProcessEnv = process.env): HttpBAMLClient | undefined {
+  const baseUrl = env.BAML_SERVICE_URL
+  return baseUrl ? new HttpBAMLClient(baseUrl, { apiKey: env.BAML_API_KEY }) : undefined
+}
+
+export const bamlClient = createBAMLClient()
+
+export function requireBAMLClient(): HttpBAMLClient {
+  if (!bamlClient) {
+    throw new ApiError(ERROR_CODES.SERVICE_UNAVAILABLE, 'BAML_SERVICE_URL is not set', HTTP_STATUS.SERVICE_UNAVAILABLE)
+  }
+  return bamlClient
+}
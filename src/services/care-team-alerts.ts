@@ -0,0 +1,126 @@
+import { repositories } from '../repositories/index.js'
+import type { ClinicalInsightsTable, MessageAnalysis } from '../types/index.js'
+
+// Raises a chat message classified as critical with the care team. With a
+// patient in scope it is stored as a pending `urgent_message` clinical insight
+// for the patient, which the organization's clinicians see. When
+// CARE_TEAM_ALERT_WEBHOOK_URL is set the alert is also posted there, e.g. to
+// a paging integration. A webhook failure is logged, not thrown: the chat
+// carries on and the insight still stands. Messages without a patient in
+// scope can only reach the webhook, so urgency detection requires one.
+
+export interface CareTeamAlertConfig {
+  urgency_detection: boolean
+  webhook_url?: string
+  webhook_timeout_ms: number
+}
+
+export interface CareTeamAlert {
+  thread_id: string
+  message_id: string
+  user_id: string
+  patient_id?: string
+  content: string
+  analysis: MessageAnalysis
+  generated_by: ClinicalInsightsTable['generated_by']
+}
+
+// Recorded on the message the alert was raised for
+export interface CareTeamAlertOutcome {
+  raised_at: string
+  insight_id?: string
+  webhook_notified: boolean
+}
+
+const EXCERPT_LENGTH = 280
+
+export function loadCareTeamAlertConfig(env: NodeJS.ProcessEnv = process.env): CareTeamAlertConfig {
+  const timeout = Number(env.CARE_TEAM_ALERT_TIMEOUT_MS || 5000)
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new Error(`Invalid CARE_TEAM_ALERT_TIMEOUT_MS "${env.CARE_TEAM_ALERT_TIMEOUT_MS}", expected a positive integer`)
+  }
+  const urgencyDetection = env.MEDICAL_URGENCY_DETECTION !== 'false'
+  const webhookUrl = env.CARE_TEAM_ALERT_WEBHOOK_URL || undefined
+  if (urgencyDetection && !webhookUrl) {
+    throw new Error(
+      'CARE_TEAM_ALERT_WEBHOOK_URL is required while urgency detection is on; set MEDICAL_URGENCY_DETECTION=false to turn it off'
+    )
+  }
+  return { urgency_detection: urgencyDetection, webhook_url: webhookUrl, webhook_timeout_ms: timeout }
+}
+
+export class CareTeamAlerts {
+  constructor(
+    private config: CareTeamAlertConfig = loadCareTeamAlertConfig(),
+    private fetcher: typeof fetch = fetch
+  ) {}
+
+  get urgencyDetection(): boolean {
+    return this.config.urgency_detection
+  }
+
+  async raise(alert: CareTeamAlert): Promise<CareTeamAlertOutcome> {
+    const raisedAt = new Date().toISOString()
+    const excerpt = alert.content.length > EXCERPT_LENGTH ? `${alert.content.slice(0, EXCERPT_LENGTH)}…` : alert.content
+
+    const insight = alert.patient_id
+      ? await repositories.clinicalInsights.record({
+          patient_id: alert.patient_id,
+          insight_type: 'urgent_message',
+          title: 'Critical urgency in a chat message',
+          description: `"${excerpt}" was classified as critical (${alert.analysis.intent}). Review the conversation and contact the patient.`,
+          severity: 'critical',
+          actionable: true,
+          evidence: [
+            { source: 'messages', data_point: 'message_id', value: alert.message_id },
+            { source: 'threads', data_point: 'thread_id', value: alert.thread_id },
+            { source: 'message_analysis', data_point: 'medical_urgency', value: 'critical' },
+          ],
+          generated_by: alert.generated_by,
+        })
+      : undefined
+
+    const webhookNotified = await this.notify({
+      type: 'critical_message',
+      raised_at: raisedAt,
+      thread_id: alert.thread_id,
+      message_id: alert.message_id,
+      user_id: alert.user_id,
+      patient_id: alert.patient_id,
+      insight_id: insight?.id,
+      excerpt,
+      analysis: alert.analysis,
+    })
+
+    if (!insight && !webhookNotified) {
+      console.error(
+        `Critical chat message ${alert.message_id} in thread ${alert.thread_id} could not be raised: no patient in scope and the alert webhook was not reached`
+      )
+    }
+    return { raised_at: raisedAt, insight_id: insight?.id, webhook_notified: webhookNotified }
+  }
+
+  private async notify(payload: Record<string, unknown>): Promise<boolean> {
+    if (!this.config.webhook_url) {
+      return false
+    }
+    try {
+      const response = await this.fetcher(this.config.webhook_url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(this.config.webhook_timeout_ms),
+      })
+      await response.body?.cancel()
+      if (!response.ok) {
+        console.error(`Care team alert webhook returned ${response.status}`)
+      }
+      return response.ok
+    } catch (error) {
+      console.error('Care team alert webhook failed:', error instanceof Error ? error.message : error)
+      return false
+    }
+  }
+}
+
+export const careTeamAlerts = new CareTeamAlerts()
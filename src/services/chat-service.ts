@@ -0,0 +1,781 @@
+import type { z } from 'zod'
+import { ApiError } from '../lib/errors.js'
+import { LAB_ANALYTES } from '../lib/reference-ranges.js'
+import { streamChunk } from '../lib/streaming.js'
+import { repositories } from '../repositories/index.js'
+import type { UpdateToolExecutionInput } from '../repositories/tool-executions.js'
+import { bamlClient } from './baml-client.js'
+import { contextManager, type ContextManager } from './context-manager.js'
+import { messageAnalyzer, type MessageAnalyzer } from './message-analyzer.js'
+import { toolRegistry, type ToolRegistry } from './tool-registry.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  MedicalSettingsSchema,
+  ModelPreferencesSchema,
+  ToolSettingsSchema,
+  type BAMLPrompt,
+  type BAMLResponse,
+  type BAMLServiceClient,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type ChatSettings,
+  type ChatStreamChunk,
+  type Citation,
+  type ConversationContext,
+  type MedicalContext,
+  type Message,
+  type MessageAnalysis,
+  type RegenerateRequest,
+  type RequestContext,
+  type Thread,
+  type ToolApprovalRequest,
+  type ToolExecution,
+} from '../types/index.js'
+
+// Chat completions: a user message goes to the BAML chat template together
+// with the branch it follows, trimmed to a token budget by the context
+// manager, and, when a patient is in scope, their clinical context. Both the
+// user message and the assistant reply are stored on the thread. Streamed
+// replies are stored once they are complete.
+//
+// The model is offered the registry's tools. Tool calls it makes without a
+// result are run here, recorded in tool_executions against the user's
+// message and fed back for another round. Calls that need the user's
+// approval pause the turn: the reply is stored with `awaiting_approval` and
+// the turn carries on once every call has been approved or rejected.
+//
+// Unless the thread turns urgency detection off, each user message is
+// classified by the message analyzer before it is answered; the model is told
+// its intent and urgency.
+
+export type ModelPreferences = ChatSettings['model_preferences']
+export type ToolSettings = ChatSettings['tool_settings']
+
+export interface ChatConfig {
+  model_preferences: ModelPreferences
+  // Earlier messages sent as they are with each new one, within the token
+  // budget; older ones are summarised
+  history_messages: number
+  // Rounds of tool calls per reply before the model's answer is taken as is
+  max_tool_rounds: number
+}
+
+export const CHAT_TEMPLATE = 'chat_completion'
+
+function nonNegativeInteger(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = Number(env[name] || fallback)
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${name} "${env[name]}", expected a non-negative integer`)
+  }
+  return value
+}
+
+export function loadChatConfig(env: NodeJS.ProcessEnv = process.env): ChatConfig {
+  const preferences = ModelPreferencesSchema.safeParse({
+    primary_model: env.CHAT_MODEL || 'gpt-4o',
+    fallback_model: env.CHAT_FALLBACK_MODEL || undefined,
+    temperature: Number(env.CHAT_TEMPERATURE || 0.3),
+    max_tokens: Number(env.CHAT_MAX_TOKENS || 1024),
+  })
+  if (!preferences.success) {
+    throw new Error(`Invalid chat model settings: ${preferences.error.issues.map((issue) => issue.message).join(', ')}`)
+  }
+
+  return {
+    model_preferences: preferences.data,
+    history_messages: nonNegativeInteger(env, 'CHAT_HISTORY_MESSAGES', 20),
+    max_tool_rounds: nonNegativeInteger(env, 'CHAT_MAX_TOOL_ROUNDS', 5),
+  }
+}
+
+// The thread's metadata.chat_settings[key], or undefined when it is missing
+// or invalid
+function storedSetting<T>(thread: Thread, key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T | undefined {
+  const settings = thread.metadata?.chat_settings
+  if (settings === null || typeof settings !== 'object' || !(key in settings)) {
+    return undefined
+  }
+  const parsed = schema.safeParse((settings as Record<string, unknown>)[key])
+  return parsed.success ? parsed.data : undefined
+}
+
+// On unless the thread's metadata.chat_settings.medical_settings turns it off
+export function urgencyDetectionEnabled(thread: Thread): boolean {
+  return storedSetting(thread, 'medical_settings', MedicalSettingsSchema.partial())?.medical_urgency_detection ?? true
+}
+
+// Server defaults, overridden by the thread's metadata.chat_settings and then
+// by the request. Invalid thread settings are ignored.
+export function resolveModelPreferences(
+  defaults: ModelPreferences,
+  thread: Thread,
+  override: Partial<ModelPreferences> = {}
+): ModelPreferences {
+  return { ...defaults, ...storedSetting(thread, 'model_preferences', ModelPreferencesSchema.partial()), ...override }
+}
+
+// Every registered tool, run without approval when it is safe, unless the
+// thread's metadata.chat_settings says otherwise
+export function resolveToolSettings(tools: ToolRegistry, thread: Thread): ToolSettings {
+  return {
+    enabled_tools: tools.names(),
+    auto_execute_safe_tools: true,
+    require_confirmation_for: [],
+    ...storedSetting(thread, 'tool_settings', ToolSettingsSchema.partial()),
+  }
+}
+
+// A prepared turn: the thread, the stored user message and the prompt for it
+export interface ChatTurn {
+  started_at: number
+  thread: Thread
+  user_message: Message
+  // The message the reply follows: the user's, or a reply paused for approval
+  reply_to: string
+  // The reply this turn answers the user message again in place of
+  regenerated_from?: string
+  // The messages of the branch sent as they are; older ones are summarised
+  // in conversation_context
+  history: Array<Pick<Message, 'role' | 'content'>>
+  conversation_context: ConversationContext
+  medical_context?: MedicalContext
+  patient_scope?: { patient_id: string; include_recent_data: boolean }
+  // Tools offered to the model
+  tools: string[]
+  tool_settings: ToolSettings
+  // Tool calls run so far, fed back to the model
+  tool_results: ToolExecution[]
+  // The user message's analysis, when urgency detection is on
+  analysis?: MessageAnalysis
+  model_preferences: ModelPreferences
+}
+
+type ScopedRepositories = ReturnType<typeof repositories.scoped>
+
+type UserContext = RequestContext & { user_id: string }
+
+type ToolCall = NonNullable<BAMLResponse['metadata']['tool_calls']>[number]
+
+type Send = (chunk: ChatStreamChunk) => void
+
+export class ChatService {
+  constructor(
+    private baml: BAMLServiceClient | undefined = bamlClient,
+    private config: ChatConfig = loadChatConfig(),
+    private tools: ToolRegistry = toolRegistry,
+    private contexts: ContextManager = contextManager,
+    private analyzer: MessageAnalyzer = messageAnalyzer
+  ) {}
+
+  async complete(context: UserContext, request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse> {
+    const turn = await this.prepare(context, request)
+    return this.reply(context, turn, signal)
+  }
+
+  // Answer a prepared turn
+  async reply(context: UserContext, turn: ChatTurn, signal?: AbortSignal): Promise<ChatCompletionResponse> {
+    return this.converse(context, turn, () => this.generate(turn, signal), signal)
+  }
+
+  // Stream a prepared turn: `content` chunks as text arrives, `citation`,
+  // `tool_start` and `tool_result` as the model reports or calls them, then
+  // `complete` with the stored reply. Aborting `signal` cancels the
+  // generation and nothing is stored for it.
+  async stream(context: UserContext, turn: ChatTurn, send: Send, signal: AbortSignal): Promise<void> {
+    const response = await this.converse(context, turn, () => this.generateStream(turn, send, signal), signal, send)
+    send(streamChunk('complete', response))
+  }
+
+  // Load the thread and the branch being replied to, build the clinical
+  // context and store the user's message
+  async prepare(context: UserContext, request: ChatCompletionRequest): Promise<ChatTurn> {
+    const startedAt = Date.now()
+    // Fail before anything is stored when there is nothing to answer with
+    this.requireBaml()
+    const scoped = repositories.scoped(context)
+    const thread = await scoped.threads.get(request.thread_id)
+    const settings = await this.settings(context, thread, request, request.message)
+    const parentId = request.parent_message_id ?? (await scoped.messages.recent(thread.id, 1))[0]?.id
+    const conversation = await this.conversation(scoped, thread, parentId, settings)
+
+    const userMessage = await scoped.messages.create(thread.id, {
+      role: 'user',
+      content: request.message,
+      parent_message_id: parentId,
+    })
+    const analysis =
+      this.analyzer.enabled && urgencyDetectionEnabled(thread)
+        ? await this.analyzer.analyze(context.user_id, userMessage, {
+            patient_id: settings.patient_scope?.patient_id ?? (await this.ownPatientId(context)),
+            medical_context: settings.medical_context,
+          })
+        : undefined
+
+    return {
+      started_at: startedAt,
+      thread,
+      user_message: userMessage,
+      reply_to: userMessage.id,
+      ...conversation,
+      ...settings,
+      tool_results: [],
+      analysis,
+    }
+  }
+
+  // Answer the user message an assistant reply follows again; the new reply
+  // is stored next to the old one
+  async regenerate(context: UserContext, request: RegenerateRequest): Promise<ChatTurn> {
+    const startedAt = Date.now()
+    this.requireBaml()
+    const scoped = repositories.scoped(context)
+    const thread = await scoped.threads.get(request.thread_id)
+    const reply = await scoped.messages.get(thread.id, request.message_id)
+    // A reply resumed after tool approval follows the paused reply, so look
+    // past other assistant messages for the question
+    const userMessage =
+      reply.role === 'assistant'
+        ? (await scoped.messages.ancestry(thread.id, reply.id)).reverse().find((message) => message.role === 'user')
+        : undefined
+    if (!userMessage) {
+      throw new ApiError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Only assistant replies to a user message can be regenerated',
+        HTTP_STATUS.UNPROCESSABLE_ENTITY
+      )
+    }
+
+    const settings = await this.settings(context, thread, request, userMessage.content)
+    const conversation = await this.conversation(scoped, thread, userMessage.parent_message_id, settings)
+
+    return {
+      started_at: startedAt,
+      thread,
+      user_message: userMessage,
+      reply_to: userMessage.id,
+      regenerated_from: reply.id,
+      ...conversation,
+      ...settings,
+      tool_results: [],
+      analysis: userMessage.metadata?.analysis,
+    }
+  }
+
+  // Apply the user's decisions on a paused reply's tool calls: approved
+  // calls run, rejected ones are recorded as failed, and the turn is ready
+  // to be answered again. Nothing may have been added after the paused reply.
+  async resume(context: UserContext, request: ToolApprovalRequest): Promise<ChatTurn> {
+    const startedAt = Date.now()
+    this.requireBaml()
+    const scoped = repositories.scoped(context)
+    const thread = await scoped.threads.get(request.thread_id)
+    const paused = await scoped.messages.get(thread.id, request.message_id, 'update')
+    const awaiting = paused.metadata?.awaiting_approval
+    if (!awaiting || !paused.parent_message_id) {
+      throw new ApiError(ERROR_CODES.RESOURCE_CONFLICT, 'Message is not waiting for tool approval', HTTP_STATUS.CONFLICT)
+    }
+
+    const decisions = new Map(request.decisions.map((decision) => [decision.execution_id, decision.approved]))
+    const missing = awaiting.execution_ids.filter((id) => !decisions.has(id))
+    const unknown = [...decisions.keys()].filter((id) => !awaiting.execution_ids.includes(id))
+    if (missing.length || unknown.length) {
+      throw new ApiError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Decisions must cover exactly the tool calls the message is waiting for',
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        { missing, unknown }
+      )
+    }
+
+    if ((await scoped.messages.replies(thread.id, paused.id)).length) {
+      throw new ApiError(ERROR_CODES.RESOURCE_CONFLICT, 'The thread has moved on since the reply was paused', HTTP_STATUS.CONFLICT)
+    }
+    const userMessage = await scoped.messages.get(thread.id, paused.parent_message_id)
+
+    // Closed before anything runs, so the calls cannot be decided twice
+    const { awaiting_approval: _awaiting, ...metadata } = paused.metadata ?? {}
+    await scoped.messages.update(thread.id, paused.id, { metadata })
+
+    const patientScope = awaiting.patient_id
+      ? { patient_id: awaiting.patient_id, include_recent_data: awaiting.include_recent_data ?? false }
+      : undefined
+    const modelPreferences = resolveModelPreferences(this.config.model_preferences, thread)
+
+    const turn: ChatTurn = {
+      started_at: startedAt,
+      thread,
+      user_message: userMessage,
+      reply_to: paused.id,
+      ...(await this.conversation(scoped, thread, userMessage.parent_message_id, {
+        model_preferences: modelPreferences,
+        patient_scope: patientScope,
+      })),
+      medical_context: patientScope ? await this.medicalContext(scoped, patientScope, userMessage.content) : undefined,
+      patient_scope: patientScope,
+      tools: awaiting.tools,
+      tool_settings: resolveToolSettings(this.tools, thread),
+      tool_results: [],
+      model_preferences: modelPreferences,
+      analysis: userMessage.metadata?.analysis,
+    }
+
+    // Other replies to the same message may have run tools of their own
+    const fedBack = new Set(awaiting.tool_result_ids ?? [])
+    for (const execution of await scoped.toolExecutions.listForMessage(userMessage.id)) {
+      const approved = decisions.get(execution.id)
+      if (approved === undefined) {
+        if (fedBack.has(execution.id)) {
+          turn.tool_results.push(execution)
+        }
+      } else if (approved) {
+        turn.tool_results.push(await this.runTool(context, turn, execution))
+      } else {
+        turn.tool_results.push(
+          await scoped.toolExecutions.update(execution.id, {
+            execution_status: 'failed',
+            error_message: 'Rejected by the user',
+            completed_at: new Date().toISOString(),
+          })
+        )
+      }
+    }
+    return turn
+  }
+
+  // Run the chat template with the primary model, then the fallback model
+  // if the primary one fails for a reason other than the prompt itself
+  async generate(turn: ChatTurn, signal?: AbortSignal): Promise<BAMLResponse> {
+    const baml = this.requireBaml()
+    const { primary_model: primary, fallback_model: fallback } = turn.model_preferences
+
+    try {
+      return await baml.generateResponse(this.prompt(turn, primary), { signal })
+    } catch (error) {
+      if (!fallback || !this.shouldFallBack(turn, error, signal)) {
+        throw error
+      }
+      return baml.generateResponse(this.prompt(turn, fallback), { signal })
+    }
+  }
+
+  // As generate(), sending chunks as events arrive. The fallback model is
+  // only tried when the primary one failed before sending anything.
+  async generateStream(turn: ChatTurn, send: Send, signal: AbortSignal): Promise<BAMLResponse> {
+    const baml = this.requireBaml()
+    const { primary_model: primary, fallback_model: fallback } = turn.model_preferences
+    let started = false
+
+    const run = async (model: string): Promise<BAMLResponse> => {
+      let content = ''
+      const citations: Citation[] = []
+      const toolCalls: ToolCall[] = []
+
+      for await (const event of baml.streamResponse(this.prompt(turn, model), { signal })) {
+        started = true
+        switch (event.type) {
+          case 'content':
+            content += event.delta
+            send(streamChunk('content', { content: event.delta }))
+            break
+          case 'citation':
+            citations.push(event.citation)
+            send(streamChunk('citation', event.citation))
+            break
+          case 'tool_start':
+            send(streamChunk('tool_start', { tool_name: event.tool_name, parameters: event.parameters }))
+            break
+          case 'tool_result':
+            toolCalls.push({ tool_name: event.tool_name, parameters: event.parameters, result: event.result })
+            send(streamChunk('tool_result', { tool_name: event.tool_name, parameters: event.parameters, result: event.result }))
+            break
+          case 'complete': {
+            // The final response wins; what was streamed fills its gaps
+            const { response } = event
+            return {
+              ...response,
+              content: response.content || content,
+              metadata: {
+                ...response.metadata,
+                citations: response.metadata.citations ?? (citations.length ? citations : undefined),
+                tool_calls: response.metadata.tool_calls ?? (toolCalls.length ? toolCalls : undefined),
+              },
+            }
+          }
+        }
+      }
+      throw new ApiError(ERROR_CODES.BAML_SERVICE_ERROR, 'BAML stream ended before the response was complete', HTTP_STATUS.BAD_GATEWAY)
+    }
+
+    try {
+      return await run(primary)
+    } catch (error) {
+      if (!fallback || started || !this.shouldFallBack(turn, error, signal)) {
+        throw error
+      }
+      return run(fallback)
+    }
+  }
+
+  // Store the assistant's reply and the tool calls the service ran itself
+  async finish(context: UserContext, turn: ChatTurn, response: BAMLResponse): Promise<ChatCompletionResponse> {
+    const scoped = repositories.scoped(context)
+    const citations = response.metadata.citations ?? []
+    const toolExecutions = [...turn.tool_results]
+
+    for (const call of response.metadata.tool_calls ?? []) {
+      if (call.result === undefined) {
+        continue
+      }
+      const execution = await this.recordCall(context, turn, call)
+      toolExecutions.push(
+        await scoped.toolExecutions.update(execution.id, {
+          execution_status: 'completed',
+          output_data: { result: call.result },
+          completed_at: new Date().toISOString(),
+        })
+      )
+    }
+
+    const toolsExecuted = toolExecutions.map((execution) => execution.tool_name)
+    const processingTime = Date.now() - turn.started_at
+    const message = await scoped.messages.create(turn.thread.id, {
+      role: 'assistant',
+      content: response.content,
+      content_type: 'markdown',
+      parent_message_id: turn.reply_to,
+      metadata: {
+        model_used: response.model_used,
+        tokens_used: response.metadata.tokens_used,
+        processing_time_ms: processingTime,
+        confidence_score: response.metadata.confidence_score,
+        ...(citations.length ? { citations: citations.map((citation) => citation.id) } : {}),
+        ...(toolsExecuted.length ? { tools_used: [...new Set(toolsExecuted)] } : {}),
+        ...(turn.regenerated_from ? { regenerated_from: turn.regenerated_from } : {}),
+      },
+    })
+
+    return {
+      message,
+      citations,
+      tool_executions: toolExecutions,
+      analysis: turn.analysis,
+      processing_metadata: {
+        model_used: response.model_used,
+        tokens_used: response.metadata.tokens_used,
+        processing_time_ms: processingTime,
+        tools_executed: toolsExecuted,
+      },
+    }
+  }
+
+  // Generate, run the tools the model calls and feed their results back
+  // until it answers without calling any or max_tool_rounds is reached
+  private async converse(
+    context: UserContext,
+    turn: ChatTurn,
+    generate: () => Promise<BAMLResponse>,
+    signal?: AbortSignal,
+    send?: Send
+  ): Promise<ChatCompletionResponse> {
+    for (let round = 0; ; round++) {
+      const response = await generate()
+      const requested = (response.metadata.tool_calls ?? []).filter((call) => call.result === undefined)
+      if (!requested.length || round >= this.config.max_tool_rounds) {
+        return this.finish(context, turn, response)
+      }
+
+      const awaiting: ToolExecution[] = []
+      for (const call of requested) {
+        const execution = await this.recordCall(context, turn, call)
+        if (this.needsApproval(turn, call.tool_name)) {
+          awaiting.push(execution)
+        } else {
+          turn.tool_results.push(await this.runTool(context, turn, execution, signal, send))
+        }
+      }
+      if (awaiting.length) {
+        return this.pause(context, turn, response, awaiting)
+      }
+    }
+  }
+
+  // Store the reply as it stands, waiting for the user's decision on
+  // `awaiting`
+  private async pause(
+    context: UserContext,
+    turn: ChatTurn,
+    response: BAMLResponse,
+    awaiting: ToolExecution[]
+  ): Promise<ChatCompletionResponse> {
+    const names = [...new Set(awaiting.map((execution) => execution.tool_name))]
+    const processingTime = Date.now() - turn.started_at
+    const message = await repositories.scoped(context).messages.create(turn.thread.id, {
+      role: 'assistant',
+      content: response.content || `Waiting for approval to run ${names.join(', ')}`,
+      content_type: 'markdown',
+      parent_message_id: turn.reply_to,
+      metadata: {
+        model_used: response.model_used,
+        tokens_used: response.metadata.tokens_used,
+        processing_time_ms: processingTime,
+        awaiting_approval: {
+          execution_ids: awaiting.map((execution) => execution.id),
+          tool_result_ids: turn.tool_results.map((execution) => execution.id),
+          tools: turn.tools,
+          ...turn.patient_scope,
+        },
+        ...(turn.regenerated_from ? { regenerated_from: turn.regenerated_from } : {}),
+      },
+    })
+
+    return {
+      message,
+      citations: response.metadata.citations ?? [],
+      tool_executions: [...turn.tool_results, ...awaiting],
+      analysis: turn.analysis,
+      processing_metadata: {
+        model_used: response.model_used,
+        tokens_used: response.metadata.tokens_used,
+        processing_time_ms: processingTime,
+        tools_executed: turn.tool_results.map((execution) => execution.tool_name),
+      },
+    }
+  }
+
+  // Record a pending call against the turn's user message
+  private async recordCall(context: UserContext, turn: ChatTurn, call: ToolCall): Promise<ToolExecution> {
+    return repositories.scoped(context).toolExecutions.create({
+      user_id: context.user_id,
+      tool_name: call.tool_name,
+      input_parameters: call.parameters,
+      message_id: turn.user_message.id,
+    })
+  }
+
+  // Run a recorded call. A failing tool fails the execution, which the model
+  // is told about; only cancellation ends the turn.
+  private async runTool(
+    context: UserContext,
+    turn: ChatTurn,
+    execution: ToolExecution,
+    signal?: AbortSignal,
+    send?: Send
+  ): Promise<ToolExecution> {
+    const scoped = repositories.scoped(context)
+    const { id, tool_name: toolName, input_parameters: parameters } = execution
+    const startTime = Date.now()
+    send?.(streamChunk('tool_start', { execution_id: id, tool_name: toolName, parameters }))
+    await scoped.toolExecutions.update(id, { execution_status: 'running' })
+
+    let outcome: UpdateToolExecutionInput
+    try {
+      const tool = turn.tools.includes(toolName) ? this.tools.get(toolName) : undefined
+      if (!tool) {
+        throw new ApiError(ERROR_CODES.VALIDATION_ERROR, `Tool ${toolName} is not available`, HTTP_STATUS.UNPROCESSABLE_ENTITY)
+      }
+      outcome = { execution_status: 'completed', output_data: await tool.run(parameters, context, signal) }
+    } catch (error) {
+      if (signal?.aborted) {
+        await scoped.toolExecutions.update(id, {
+          execution_status: 'failed',
+          error_message: 'Cancelled',
+          completed_at: new Date().toISOString(),
+        })
+        throw error
+      }
+      const timedOut = error instanceof ApiError && error.code === ERROR_CODES.SERVICE_TIMEOUT
+      outcome = {
+        execution_status: timedOut ? 'timeout' : 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }
+    }
+
+    const finished = await scoped.toolExecutions.update(id, {
+      ...outcome,
+      execution_time_ms: Date.now() - startTime,
+      completed_at: new Date().toISOString(),
+    })
+    send?.(
+      streamChunk('tool_result', {
+        execution_id: id,
+        tool_name: toolName,
+        status: finished.execution_status,
+        output: finished.output_data,
+        error: finished.error_message,
+      })
+    )
+    return finished
+  }
+
+  // The branch up to `messageId`, within the token budget of the turn's
+  // model preferences
+  private async conversation(
+    scoped: ScopedRepositories,
+    thread: Thread,
+    messageId: string | null | undefined,
+    turn: Pick<ChatTurn, 'model_preferences' | 'patient_scope'>
+  ): Promise<Pick<ChatTurn, 'history' | 'conversation_context'>> {
+    const { context, window } = await this.contexts.build(
+      scoped,
+      thread,
+      messageId ?? undefined,
+      { max_tokens: turn.model_preferences.max_tokens, max_messages: this.config.history_messages },
+      turn.patient_scope?.patient_id
+    )
+    return { history: window.map(({ role, content }) => ({ role, content })), conversation_context: context }
+  }
+
+  // A patient chatting without a patient in scope is talking about
+  // themselves, so alerts are raised against their own record
+  private async ownPatientId(context: UserContext): Promise<string | undefined> {
+    if (context.role !== 'patient') {
+      return undefined
+    }
+    const own = await repositories.scoped(context).patients.search({ page: 1, page_size: 1 })
+    return own.data[0]?.id
+  }
+
+  // What a new turn takes from the thread's settings and the request
+  private async settings(
+    context: UserContext,
+    thread: Thread,
+    request: Pick<ChatCompletionRequest, 'tools' | 'medical_context' | 'model_preferences'>,
+    question: string
+  ): Promise<Pick<ChatTurn, 'medical_context' | 'patient_scope' | 'tools' | 'tool_settings' | 'model_preferences'>> {
+    const toolSettings = resolveToolSettings(this.tools, thread)
+    const tools = this.offeredTools(context, toolSettings, request.tools)
+
+    const threadPatient = thread.metadata?.patient_id
+    const patientId = request.medical_context?.patient_id ?? (typeof threadPatient === 'string' ? threadPatient : undefined)
+    const patientScope = patientId
+      ? { patient_id: patientId, include_recent_data: request.medical_context?.include_recent_data ?? false }
+      : undefined
+
+    return {
+      medical_context: patientScope ? await this.medicalContext(repositories.scoped(context), patientScope, question) : undefined,
+      patient_scope: patientScope,
+      tools,
+      tool_settings: toolSettings,
+      model_preferences: resolveModelPreferences(this.config.model_preferences, thread, request.model_preferences),
+    }
+  }
+
+  // Tools listed in require_confirmation_for always wait for approval, and
+  // so does any tool that is not safe or when safe tools are not run
+  // automatically. Unknown tools are failed by runTool() instead.
+  private needsApproval(turn: ChatTurn, toolName: string): boolean {
+    const tool = this.tools.get(toolName)
+    const { auto_execute_safe_tools: autoExecute, require_confirmation_for: confirm } = turn.tool_settings
+    return tool !== undefined && (confirm.includes(toolName) || !(tool.safe && autoExecute))
+  }
+
+  // The requested tools, or every enabled one the caller may run; asking for
+  // a tool that is not registered, not enabled on the thread or not granted
+  // to the caller is rejected
+  private offeredTools(context: UserContext, settings: ToolSettings, requested?: string[]): string[] {
+    const available = settings.enabled_tools.filter((name) => this.tools.permitted(name, context))
+    if (!requested) {
+      return available
+    }
+    const unavailable = requested.filter((name) => !available.includes(name))
+    if (unavailable.length) {
+      throw new ApiError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Tools not available: ${unavailable.join(', ')}`,
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        { available }
+      )
+    }
+    return requested
+  }
+
+  private prompt(turn: ChatTurn, model: string): BAMLPrompt {
+    return {
+      template_name: CHAT_TEMPLATE,
+      variables: {
+        message: turn.user_message.content,
+        history: turn.history,
+        ...(turn.conversation_context.summary
+          ? {
+              conversation_summary: turn.conversation_context.summary,
+              key_topics: turn.conversation_context.key_topics,
+            }
+          : {}),
+        thread: { title: turn.thread.title, description: turn.thread.description },
+        ...(turn.medical_context ? { medical_context: turn.medical_context } : {}),
+        ...(turn.analysis
+          ? { message_analysis: { intent: turn.analysis.intent, medical_urgency: turn.analysis.medical_urgency } }
+          : {}),
+        ...(turn.tools.length ? { tools: this.tools.definitions(turn.tools) } : {}),
+        ...(turn.tool_results.length
+          ? {
+              tool_results: turn.tool_results.map((execution) => ({
+                tool_name: execution.tool_name,
+                parameters: execution.input_parameters,
+                status: execution.execution_status,
+                output: execution.output_data,
+                error: execution.error_message,
+              })),
+            }
+          : {}),
+      },
+      model_config: {
+        model,
+        temperature: turn.model_preferences.temperature,
+        max_tokens: turn.model_preferences.max_tokens,
+      },
+    }
+  }
+
+  // The patient's genotype and age, plus their latest labs and active
+  // medications when asked for; all subject to the caller's permissions
+  private async medicalContext(
+    scoped: ScopedRepositories,
+    scope: { patient_id: string; include_recent_data: boolean },
+    question: string
+  ): Promise<MedicalContext> {
+    const base = { patient_id: scope.patient_id, condition: 'sickle cell disease', clinical_question: question }
+    if (!scope.include_recent_data) {
+      const patient = await scoped.patients.get(scope.patient_id)
+      return { ...base, genotype: patient.scd_genotype, age: patient.age }
+    }
+
+    const summary = await scoped.patients.summary(scope.patient_id)
+    return {
+      ...base,
+      genotype: summary.patient.scd_genotype,
+      age: summary.patient.age,
+      recent_labs: summary.latest_labs.flatMap((lab) =>
+        LAB_ANALYTES.flatMap((analyte) => {
+          const value = lab[analyte]
+          return typeof value === 'number' ? [{ test_name: analyte, value, collected_at: lab.test_date }] : []
+        })
+      ),
+      medications: summary.active_medications.map(
+        (medication) => `${medication.medication_name} ${medication.dosage} ${medication.frequency}`
+      ),
+    }
+  }
+
+  // Anything but a rejected prompt or a cancelled request is worth another
+  // try with the fallback model
+  private shouldFallBack(turn: ChatTurn, error: unknown, signal?: AbortSignal): boolean {
+    const { primary_model: primary, fallback_model: fallback } = turn.model_preferences
+    const rejected = error instanceof ApiError && error.status === HTTP_STATUS.UNPROCESSABLE_ENTITY
+    if (fallback === primary || rejected || signal?.aborted) {
+      return false
+    }
+    console.warn(`Chat model ${primary} failed, falling back to ${fallback}:`, error instanceof Error ? error.message : error)
+    return true
+  }
+
+  private requireBaml(): BAMLServiceClient {
+    if (!this.baml) {
+      throw new ApiError(ERROR_CODES.SERVICE_UNAVAILABLE, 'BAML_SERVICE_URL is not set', HTTP_STATUS.SERVICE_UNAVAILABLE)
+    }
+    return this.baml
+  }
+}
+
+export const chatService = new ChatService()
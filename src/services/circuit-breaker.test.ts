@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test'
+import { CircuitBreaker } from './circuit-breaker.js'
+
+function breaker() {
+  return new CircuitBreaker('BAML', { failureThreshold: 2, resetTimeoutMs: 1000 })
+}
+
+describe('CircuitBreaker', () => {
+  test('opens after consecutive failures and fails fast', () => {
+    const circuit = breaker()
+    circuit.recordFailure(0)
+    circuit.acquire(10)
+    circuit.recordFailure(10)
+
+    expect(circuit.status(20)).toMatchObject({ state: 'open', consecutive_failures: 2 })
+    expect(() => circuit.acquire(510)).toThrow(
+      expect.objectContaining({ code: 'SERVICE_UNAVAILABLE', status: 503, details: { circuit: 'open', retry_after_seconds: 1 } })
+    )
+  })
+
+  test('a success resets the failure count', () => {
+    const circuit = breaker()
+    circuit.recordFailure(0)
+    circuit.recordSuccess()
+    circuit.recordFailure(10)
+
+    expect(circuit.status(20)).toMatchObject({ state: 'closed', consecutive_failures: 1 })
+  })
+
+  test('lets one trial call through once the reset timeout passes', () => {
+    const circuit = breaker()
+    circuit.recordFailure(0)
+    circuit.recordFailure(0)
+    expect(circuit.status(1000).state).toBe('half_open')
+
+    circuit.acquire(1000)
+    expect(() => circuit.acquire(1000)).toThrow('BAML service is unavailable after repeated failures')
+
+    circuit.recordSuccess()
+    expect(circuit.status(1001)).toMatchObject({ state: 'closed', consecutive_failures: 0 })
+  })
+
+  test('reopens when the trial call fails', () => {
+    const circuit = breaker()
+    circuit.recordFailure(0)
+    circuit.recordFailure(0)
+    circuit.acquire(1000)
+    circuit.recordFailure(1000)
+
+    expect(circuit.status(1500).state).toBe('open')
+    expect(() => circuit.acquire(1500)).toThrow(expect.objectContaining({ status: 503 }))
+  })
+
+  test('a released trial lets the next call try', () => {
+    const circuit = breaker()
+    circuit.recordFailure(0)
+    circuit.recordFailure(0)
+    circuit.acquire(1000)
+    circuit.release()
+
+    expect(() => circuit.acquire(1000)).not.toThrow()
+  })
+})
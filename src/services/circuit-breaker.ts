@@ -0,0 +1,78 @@
+import { ApiError } from '../lib/errors.js'
+import { ERROR_CODES, HTTP_STATUS, type CircuitBreakerStatus } from '../types/index.js'
+
+// Stops calling a service that keeps failing. After `failureThreshold`
+// consecutive failures the circuit opens and calls fail fast for
+// `resetTimeoutMs`; then it is half open and a single trial call decides
+// whether it closes again or reopens.
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number
+  resetTimeoutMs: number
+}
+
+export class CircuitBreaker {
+  private state: CircuitBreakerStatus['state'] = 'closed'
+  private failures = 0
+  private openedAt?: number
+  private trialInFlight = false
+
+  constructor(
+    readonly name: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  // Throw SERVICE_UNAVAILABLE unless a call may go ahead now
+  acquire(now = Date.now()): void {
+    if (this.state === 'open' && this.openedAt !== undefined && now - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half_open'
+    }
+
+    if (this.state === 'closed') {
+      return
+    }
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return
+    }
+
+    const retryAfterMs = this.openedAt === undefined ? 0 : this.options.resetTimeoutMs - (now - this.openedAt)
+    throw new ApiError(
+      ERROR_CODES.SERVICE_UNAVAILABLE,
+      `${this.name} service is unavailable after repeated failures`,
+      HTTP_STATUS.SERVICE_UNAVAILABLE,
+      { circuit: this.state, retry_after_seconds: Math.max(0, Math.ceil(retryAfterMs / 1000)) }
+    )
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed'
+    this.failures = 0
+    this.openedAt = undefined
+    this.trialInFlight = false
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++
+    this.trialInFlight = false
+    if (this.state === 'half_open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = now
+    }
+  }
+
+  // Give up a trial call that ended without telling whether the service is
+  // healthy, e.g. because it was cancelled
+  release(): void {
+    this.trialInFlight = false
+  }
+
+  status(now = Date.now()): CircuitBreakerStatus {
+    const reopensAt = this.openedAt === undefined ? undefined : this.openedAt + this.options.resetTimeoutMs
+    return {
+      state: this.state === 'open' && reopensAt !== undefined && now >= reopensAt ? 'half_open' : this.state,
+      consecutive_failures: this.failures,
+      opened_at: this.openedAt === undefined ? undefined : new Date(this.openedAt).toISOString(),
+    }
+  }
+}
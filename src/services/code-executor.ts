@@ -1,73 +1,179 @@
-import type { 
-  E2BExecutionRequest, 
-  E2BExecutionResult, 
-  E2BMedicalAnalysisTool 
+import { basename } from 'node:path'
+import {
+  LabTrendAnalysisInputSchema,
+  LabTrendAnalysisOutputSchema,
+  VoeRiskAnalysisInputSchema,
+  VoeRiskAnalysisOutputSchema,
+  type E2BExecutionRequest,
+  type E2BExecutionResult,
+  type MedicalAnalysisResult,
+  type MedicalAnalysisTool,
+  type SandboxSession,
 } from '../types/integrations.js'
+import { ApiError } from '../lib/errors.js'
+import { findReferenceRange } from '../lib/reference-ranges.js'
+import { bindAnalysisInput, parseAnalysisOutput } from './analysis-binding.js'
+import { createArtifactStorage, type ArtifactStorage } from './artifact-storage.js'
+import {
+  createSandboxBackend,
+  loadSandboxConfig,
+  type SandboxBackend,
+  type SandboxBackendName,
+  type SandboxConfig,
+  type SandboxFileInfo,
+  type SandboxOutputStream,
+  type SandboxRunOutput,
+  type SandboxHealth,
+} from './sandbox-backend.js'
+import { SandboxSessionManager } from './session-manager.js'
+
+// Files beyond this many per execution are not collected
+const MAX_ARTIFACTS_PER_EXECUTION = 20
+
+// How often a streamed execution's session is checked for new files
+const FILE_POLL_INTERVAL_MS = 1000
+
+type CreatedFile = NonNullable<E2BExecutionResult['files_created']>[number]
+
+// Progress of an execution, reported to ExecuteOptions.onEvent while it runs.
+// The final result is executeCode's return value.
+export type ExecutionEvent =
+  | { type: 'status'; execution_id: string; status: 'pending' | 'running' }
+  | { type: 'output'; execution_id: string; stream: SandboxOutputStream; line: string }
+  | { type: 'file'; execution_id: string; file: SandboxFileInfo }
+
+export interface ExecuteOptions {
+  sessionId?: string
+  // Owner of the temporary session used when there is no sessionId
+  ownerId?: string
+  onEvent?: (event: ExecutionEvent) => void
+  signal?: AbortSignal
+}
+
+// Splits streamed output into lines, holding back an unterminated tail
+class LineSplitter {
+  private tail = ''
+
+  push(text: string): string[] {
+    const lines = (this.tail + text).split('\n')
+    this.tail = lines.pop() ?? ''
+    return lines
+  }
+
+  flush(): string[] {
+    const rest = this.tail
+    this.tail = ''
+    return rest ? [rest] : []
+  }
+}
 
 export class CodeExecutorService {
-  private apiKey: string
-  private activeSessions: Map<string, any> = new Map()
+  readonly sessions: SandboxSessionManager
+  private backend: SandboxBackend
 
-  constructor() {
-    this.apiKey = process.env.E2B_API_KEY || ''
-    if (!this.apiKey) {
+  constructor(
+    readonly config: SandboxConfig = loadSandboxConfig(),
+    backend: SandboxBackend = createSandboxBackend(config),
+    readonly artifacts: ArtifactStorage = createArtifactStorage()
+  ) {
+    if (backend.name === 'e2b' && !config.e2bApiKey) {
       console.warn('E2B_API_KEY not found. Code execution will be disabled.')
     }
+    this.backend = backend
+    this.sessions = new SandboxSessionManager(backend, config.session)
   }
 
-  // Create a new E2B session
-  async createSession(): Promise<string> {
-    if (!this.apiKey) {
-      throw new Error('E2B API key not configured')
-    }
+  get backendName(): SandboxBackendName {
+    return this.backend.name
+  }
 
+  // Create a new sandbox session, owned by `ownerId` when given
+  async createSession(ownerId?: string): Promise<string> {
     try {
-      // TODO: Replace with actual E2B session creation
-      const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      this.activeSessions.set(sessionId, { id: sessionId, created: new Date() })
-      
-      return sessionId
+      const session = await this.sessions.create(ownerId)
+      return session.session_id
     } catch (error) {
-      throw new Error(`Failed to create E2B session: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      if (error instanceof ApiError) {
+        throw error
+      }
+      throw new Error(`Failed to create ${this.backend.name} session: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
   // Get an existing session
-  private getSession(sessionId: string): any {
-    const session = this.activeSessions.get(sessionId)
+  private getSession(sessionId: string): SandboxSession {
+    const session = this.sessions.get(sessionId)
     if (!session) {
       throw new Error(`Session ${sessionId} not found`)
     }
     return session
   }
 
-  // Execute code in a session
-  async executeCode(request: E2BExecutionRequest, sessionId?: string): Promise<E2BExecutionResult> {
+  // Execute code in a session. Without a session id a temporary session,
+  // counted against `ownerId`'s limit, is created for the execution and
+  // destroyed afterwards. Files the code creates are kept as artifacts owned
+  // by the session's owner.
+  async executeCode(request: E2BExecutionRequest, options: ExecuteOptions = {}): Promise<E2BExecutionResult> {
     const startTime = Date.now()
-    const executionId = `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const executionId = crypto.randomUUID()
+    const { sessionId, onEvent } = options
+    let temporarySessionId: string | undefined
 
     try {
-      // Create session if not provided
-      const currentSessionId = sessionId || await this.createSession()
-      this.getSession(currentSessionId) // Validate session exists
+      onEvent?.({ type: 'status', execution_id: executionId, status: 'pending' })
+      if (!sessionId) {
+        temporarySessionId = await this.createSession(options.ownerId)
+      }
+      const runSessionId = sessionId ?? (temporarySessionId as string)
+      const artifactOwner = this.sessions.get(runSessionId)?.owner_id
 
-      // TODO: Replace with actual E2B code execution
-      // For now, return a mock successful result
-      const executionTime = Date.now() - startTime
+      const { output, filesCreated } = await this.sessions.use(runSessionId, async () => {
+        const before = await this.listFiles(runSessionId)
+        onEvent?.({ type: 'status', execution_id: executionId, status: 'running' })
+
+        const stopWatching = onEvent && before ? this.watchFiles(runSessionId, before, executionId, onEvent) : undefined
+        const splitters = { stdout: new LineSplitter(), stderr: new LineSplitter() }
+        const emitLines = (stream: SandboxOutputStream, lines: string[]) => {
+          for (const line of lines) {
+            onEvent?.({ type: 'output', execution_id: executionId, stream, line })
+          }
+        }
+
+        let output: SandboxRunOutput
+        try {
+          output = await this.backend.run(runSessionId, request, {
+            signal: options.signal,
+            onOutput: onEvent && ((stream, text) => emitLines(stream, splitters[stream].push(text))),
+          })
+        } finally {
+          stopWatching?.()
+          emitLines('stdout', splitters.stdout.flush())
+          emitLines('stderr', splitters.stderr.flush())
+        }
 
-      const executionResult: E2BExecutionResult = {
+        const filesCreated = before && (await this.collectArtifacts(runSessionId, before, executionId, artifactOwner))
+        return { output, filesCreated }
+      })
+
+      return {
         execution_id: executionId,
-        status: 'completed',
-        stdout: 'Mock execution completed successfully',
-        stderr: undefined,
-        return_value: { message: 'Mock result' },
-        execution_time_ms: executionTime,
+        status: output.status,
+        stdout: output.stdout,
+        stderr: output.stderr || undefined,
+        return_value: output.return_value,
+        error_details: output.error_details,
+        files_created: filesCreated,
+        memory_used_mb: output.memory_used_mb,
+        execution_time_ms: Date.now() - startTime,
         started_at: new Date(startTime).toISOString(),
         completed_at: new Date().toISOString(),
       }
-
-      return executionResult
     } catch (error) {
+      // Session limits are reported to the caller rather than as a failed run
+      if (error instanceof ApiError) {
+        throw error
+      }
+
       const executionTime = Date.now() - startTime
       
       return {
@@ -81,26 +187,97 @@ export class CodeExecutorService {
         started_at: new Date(startTime).toISOString(),
         completed_at: new Date().toISOString(),
       }
+    } finally {
+      if (temporarySessionId) {
+        await this.destroySession(temporarySessionId)
+      }
+    }
+  }
+
+  // Report files created during a run as they appear; returns a stop function
+  private watchFiles(
+    sessionId: string,
+    before: SandboxFileInfo[],
+    executionId: string,
+    onEvent: (event: ExecutionEvent) => void
+  ): () => void {
+    const seen = new Set(before.map(fileVersion))
+    let polling = false
+
+    const timer = setInterval(async () => {
+      if (polling) {
+        return
+      }
+      polling = true
+      try {
+        for (const file of (await this.listFiles(sessionId)) ?? []) {
+          if (!seen.has(fileVersion(file))) {
+            seen.add(fileVersion(file))
+            onEvent({ type: 'file', execution_id: executionId, file })
+          }
+        }
+      } finally {
+        polling = false
+      }
+    }, FILE_POLL_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }
+
+  private async listFiles(sessionId: string): Promise<SandboxFileInfo[] | undefined> {
+    try {
+      return await this.backend.listFiles(sessionId)
+    } catch (error) {
+      console.warn(`Could not list files in session ${sessionId}:`, error)
+      return undefined
     }
   }
 
-  // Execute medical analysis tool
-  async executeMedicalAnalysis(
-    tool: E2BMedicalAnalysisTool, 
-    data: unknown, 
-    sessionId?: string
-  ): Promise<E2BExecutionResult> {
-    const request: E2BExecutionRequest = {
-      code: tool.code_template,
-      language: 'python',
-      environment: {
-        packages: tool.required_packages,
-      },
-      timeout_seconds: 120,
-      memory_limit_mb: 1024,
+  // Store files created or modified since `before` as artifacts. Files over
+  // the artifact size limit are reported without being stored.
+  private async collectArtifacts(
+    sessionId: string,
+    before: SandboxFileInfo[],
+    executionId: string,
+    ownerId?: string
+  ): Promise<CreatedFile[] | undefined> {
+    const previous = new Set(before.map(fileVersion))
+
+    try {
+      const created = (await this.backend.listFiles(sessionId)).filter((file) => !previous.has(fileVersion(file)))
+
+      return await Promise.all(
+        created.slice(0, MAX_ARTIFACTS_PER_EXECUTION).map(async (file): Promise<CreatedFile> => {
+          const filename = basename(file.path)
+          const mimeType = this.getMimeType(filename)
+          const entry = { filename, path: file.path, size_bytes: file.size_bytes, mime_type: mimeType }
+          if (file.size_bytes > this.config.maxArtifactBytes) {
+            return entry
+          }
+
+          const content = await this.backend.downloadFile(sessionId, file.path)
+          const artifact = await this.artifacts.save(
+            { execution_id: executionId, owner_id: ownerId, filename, mime_type: mimeType },
+            content
+          )
+          return { ...entry, artifact_id: artifact.id }
+        })
+      )
+    } catch (error) {
+      console.warn(`Could not collect artifacts from session ${sessionId}:`, error)
+      return undefined
     }
+  }
 
-    return this.executeCode(request, sessionId)
+  // Execute medical analysis tool with `data` bound to patient_data
+  async executeMedicalAnalysis<TInput, TOutput>(
+    tool: MedicalAnalysisTool<TInput, TOutput>,
+    data: unknown,
+    options: ExecuteOptions = {}
+  ): Promise<MedicalAnalysisResult<TOutput>> {
+    const request = bindAnalysisInput(tool, data)
+    const result = await this.executeCode(request, options)
+    return parseAnalysisOutput(tool, result)
   }
 
   // Upload file to session
@@ -108,8 +285,7 @@ export class CodeExecutorService {
     this.getSession(sessionId) // Validate session exists
     
     try {
-      // TODO: Replace with actual E2B file upload
-      return filename
+      return await this.sessions.use(sessionId, () => this.backend.uploadFile(sessionId, filename, content))
     } catch (error) {
       throw new Error(`Failed to upload file: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -120,8 +296,7 @@ export class CodeExecutorService {
     this.getSession(sessionId) // Validate session exists
     
     try {
-      // TODO: Replace with actual E2B file download
-      return Buffer.from('Mock file content')
+      return await this.sessions.use(sessionId, () => this.backend.downloadFile(sessionId, filepath))
     } catch (error) {
       throw new Error(`Failed to download file: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -129,35 +304,22 @@ export class CodeExecutorService {
 
   // Destroy a session
   async destroySession(sessionId: string): Promise<void> {
-    const session = this.activeSessions.get(sessionId)
-    if (session) {
-      try {
-        // TODO: Replace with actual E2B session cleanup
-        this.activeSessions.delete(sessionId)
-      } catch (error) {
-        console.warn(`Error closing session ${sessionId}:`, error)
-      }
-    }
+    await this.sessions.destroy(sessionId)
   }
 
   // Clean up all sessions
   async cleanup(): Promise<void> {
-    const sessionIds = Array.from(this.activeSessions.keys())
-    await Promise.all(sessionIds.map(id => this.destroySession(id)))
+    await this.sessions.cleanup()
   }
 
   // Get session status
-  getSessionStatus(sessionId: string): { exists: boolean; active: boolean } {
-    const session = this.activeSessions.get(sessionId)
-    return {
-      exists: !!session,
-      active: !!session,
-    }
+  getSessionStatus(sessionId: string): SandboxSession | undefined {
+    return this.sessions.get(sessionId)
   }
 
-  // List active sessions
-  listActiveSessions(): string[] {
-    return Array.from(this.activeSessions.keys())
+  // List active sessions, optionally only those owned by `ownerId`
+  listActiveSessions(ownerId?: string): SandboxSession[] {
+    return this.sessions.list(ownerId)
   }
 
   // Helper method to determine MIME type
@@ -173,20 +335,16 @@ export class CodeExecutorService {
       'json': 'application/json',
       'txt': 'text/plain',
       'html': 'text/html',
+      'svg': 'image/svg+xml',
       'py': 'text/x-python',
     }
     return mimeTypes[ext || ''] || 'application/octet-stream'
   }
 
-  // Health check
-  async healthCheck(): Promise<{ status: 'connected' | 'disconnected' | 'error'; message?: string }> {
-    if (!this.apiKey) {
-      return { status: 'disconnected', message: 'E2B API key not configured' }
-    }
-
+  // Health check of the configured sandbox backend
+  async healthCheck(): Promise<SandboxHealth> {
     try {
-      // For mock implementation, always return connected if API key exists
-      return { status: 'connected' }
+      return await this.backend.healthCheck()
     } catch (error) {
       return { 
         status: 'error', 
@@ -196,11 +354,29 @@ export class CodeExecutorService {
   }
 }
 
+// Identifies a file's content by path, size and modification time
+function fileVersion(file: SandboxFileInfo): string {
+  return `${file.path}:${file.size_bytes}:${file.modified_at}`
+}
+
 // Export singleton instance
 export const codeExecutor = new CodeExecutorService()
 
+// Reference lines in lab_trend_analysis plots use the adult bands of the
+// same reference ranges the lab results API flags against
+const ADULT_AGE = 18
+
+function pythonNumber(value: number | undefined): string {
+  return value === undefined ? 'None' : String(value)
+}
+
+const TREND_THRESHOLDS = {
+  hemoglobin_critical_low: pythonNumber(findReferenceRange('hemoglobin', ADULT_AGE)?.critical_low),
+  ldh_upper_normal: pythonNumber(findReferenceRange('lactate_dehydrogenase', ADULT_AGE)?.high),
+}
+
 // Medical analysis tools templates
-export const MEDICAL_ANALYSIS_TOOLS: Record<string, E2BMedicalAnalysisTool> = {
+export const MEDICAL_ANALYSIS_TOOLS = {
   voe_risk_analysis: {
     tool_name: 'VOE Risk Analysis',
     description: 'Analyze vaso-occlusive episode risk factors for SCD patients',
@@ -250,6 +426,32 @@ def analyze_voe_risk(patient_data):
             risk_factors.append({'factor': 'severe_anemia', 'weight': 0.3, 'value': hb})
             risk_score += 30
     
+    # Episode history
+    voe_history = patient_data.get('voe_history') if isinstance(patient_data, dict) else None
+    if voe_history:
+        recent = voe_history.get('episodes_last_12_months') or 0
+        if recent >= 3:
+            risk_factors.append({'factor': 'frequent_voe', 'weight': 0.4, 'value': recent})
+            risk_score += 40
+        elif recent >= 1:
+            risk_factors.append({'factor': 'recent_voe', 'weight': 0.2, 'value': recent})
+            risk_score += 20
+        
+        hospitalization_rate = voe_history.get('hospitalization_rate')
+        if hospitalization_rate is not None and hospitalization_rate >= 0.5:
+            risk_factors.append({'factor': 'frequent_hospitalization', 'weight': 0.2, 'value': hospitalization_rate})
+            risk_score += 20
+        
+        mean_pain = voe_history.get('mean_pain_score')
+        if mean_pain is not None and mean_pain >= 7:
+            risk_factors.append({'factor': 'severe_pain_history', 'weight': 0.1, 'value': mean_pain})
+            risk_score += 10
+        
+        days_since = voe_history.get('days_since_last_episode')
+        if days_since is not None and days_since < 30:
+            risk_factors.append({'factor': 'very_recent_episode', 'weight': 0.1, 'value': days_since})
+            risk_score += 10
+    
     # Normalize risk score to 0-100
     risk_score = max(0, min(100, risk_score))
     
@@ -274,11 +476,13 @@ def analyze_voe_risk(patient_data):
 
 # Execute analysis
 result = analyze_voe_risk(patient_data)
-print(json.dumps(result, indent=2))
+emit_result(result)
 `,
     required_packages: ['pandas', 'numpy', 'matplotlib', 'seaborn'],
     expected_outputs: ['risk_score', 'risk_factors', 'recommendations'],
-  },
+    input_schema: VoeRiskAnalysisInputSchema,
+    output_schema: VoeRiskAnalysisOutputSchema,
+  } satisfies MedicalAnalysisTool,
 
   lab_trend_analysis: {
     tool_name: 'Lab Trend Analysis',
@@ -289,6 +493,9 @@ print(json.dumps(result, indent=2))
     },
     code_template: `
 # Lab Trend Analysis
+HEMOGLOBIN_CRITICAL_LOW = ${TREND_THRESHOLDS.hemoglobin_critical_low}
+LDH_UPPER_NORMAL = ${TREND_THRESHOLDS.ldh_upper_normal}
+
 def analyze_lab_trends(lab_data):
     """Analyze trends in laboratory values"""
     
@@ -307,8 +514,9 @@ def analyze_lab_trends(lab_data):
         axes[0, 0].plot(df['test_date'], df['hemoglobin'], marker='o')
         axes[0, 0].set_title('Hemoglobin Trend')
         axes[0, 0].set_ylabel('Hemoglobin (g/dL)')
-        axes[0, 0].axhline(y=7, color='r', linestyle='--', alpha=0.7, label='Critical Low')
-        axes[0, 0].legend()
+        if HEMOGLOBIN_CRITICAL_LOW is not None:
+            axes[0, 0].axhline(y=HEMOGLOBIN_CRITICAL_LOW, color='r', linestyle='--', alpha=0.7, label='Critical Low')
+            axes[0, 0].legend()
     
     # HbF level trend
     if 'hbf_level' in df.columns:
@@ -327,8 +535,9 @@ def analyze_lab_trends(lab_data):
         axes[1, 1].plot(df['test_date'], df['lactate_dehydrogenase'], marker='o', color='red')
         axes[1, 1].set_title('LDH Trend')
         axes[1, 1].set_ylabel('LDH (U/L)')
-        axes[1, 1].axhline(y=280, color='r', linestyle='--', alpha=0.7, label='Upper Normal')
-        axes[1, 1].legend()
+        if LDH_UPPER_NORMAL is not None:
+            axes[1, 1].axhline(y=LDH_UPPER_NORMAL, color='r', linestyle='--', alpha=0.7, label='Upper Normal')
+            axes[1, 1].legend()
     
     plt.tight_layout()
     plt.savefig('lab_trends.png', dpi=300, bbox_inches='tight')
@@ -353,9 +562,11 @@ def analyze_lab_trends(lab_data):
 
 # Execute analysis
 trends = analyze_lab_trends(patient_data)
-print(json.dumps(trends, indent=2))
+emit_result({'trend_statistics': trends})
 `,
     required_packages: ['pandas', 'numpy', 'matplotlib', 'seaborn'],
     expected_outputs: ['lab_trends.png', 'trend_statistics'],
-  },
+    input_schema: LabTrendAnalysisInputSchema,
+    output_schema: LabTrendAnalysisOutputSchema,
+  } satisfies MedicalAnalysisTool,
 } 
\ No newline at end of file
@@ -0,0 +1,131 @@
+import type { repositories } from '../repositories/index.js'
+import { conversationContext } from '../repositories/threads.js'
+import { bamlClient } from './baml-client.js'
+import type { BAMLServiceClient, ConversationContext, Message, Thread } from '../types/index.js'
+
+// Keeps the history sent with a chat message within a token budget. The
+// newest messages of the branch being replied to are sent as they are; older
+// ones are rolled into a summary by the BAML service, which also names the
+// topics and entities they discuss. The result is stored on the thread as
+// metadata.conversation_context, and a later turn on the same branch only
+// summarises what has fallen out of the window since.
+
+export interface ContextBudget {
+  // Tokens for the summary and the messages sent as they are
+  max_tokens: number
+  max_messages: number
+}
+
+export interface ManagedContext {
+  context: ConversationContext
+  // The messages sent as they are, oldest first
+  window: Message[]
+}
+
+type ScopedRepositories = ReturnType<typeof repositories.scoped>
+
+type Entity = { type: string; value: string }
+
+// A rough count for budgeting: about four characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Case-insensitive union, keeping the first spelling
+function union<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Map<string, T>()
+  for (const item of items) {
+    if (!seen.has(key(item))) {
+      seen.set(key(item), item)
+    }
+  }
+  return [...seen.values()]
+}
+
+// Where each entity is mentioned on the branch; entities no message names
+// verbatim are dropped
+function mentions(branch: Message[], entities: Entity[]): NonNullable<ConversationContext['mentioned_entities']> {
+  return entities.flatMap(({ type, value }) => {
+    const found = branch.filter((message) => message.content.toLowerCase().includes(value.toLowerCase()))
+    const first = found[0]
+    const last = found.at(-1)
+    return first && last
+      ? [{ type, value, first_mentioned_at: first.created_at, last_mentioned_at: last.created_at, mention_count: found.length }]
+      : []
+  })
+}
+
+export class ContextManager {
+  constructor(private baml: BAMLServiceClient | undefined = bamlClient) {}
+
+  // The context for replying after `messageId`, or in an empty thread. A
+  // summary that failed leaves the earlier summary in place and the
+  // overflowing messages out.
+  async build(
+    scoped: ScopedRepositories,
+    thread: Thread,
+    messageId: string | undefined,
+    budget: ContextBudget,
+    patientId?: string
+  ): Promise<ManagedContext> {
+    const branch = messageId ? await scoped.messages.ancestry(thread.id, messageId) : []
+    const stored = conversationContext(thread)
+
+    // A summary of another branch, or of messages since deleted, is not reused
+    const covered = stored?.summarized_through ? branch.findIndex(({ id }) => id === stored.summarized_through) : -1
+    const previous = covered === -1 ? undefined : stored
+    let summary = previous?.summary
+    let keyTopics = previous?.key_topics ?? []
+    let entities: Entity[] = (previous?.mentioned_entities ?? []).map(({ type, value }) => ({ type, value }))
+    let summarizedThrough = previous?.summarized_through
+
+    const unsummarized = branch.slice(covered + 1)
+    const window = this.fit(unsummarized, budget, summary)
+    const overflow = unsummarized.slice(0, unsummarized.length - window.length)
+    if (overflow.length && this.baml) {
+      try {
+        const rolled = await this.baml.summarizeConversation(
+          overflow.map(({ role, content }) => ({ role, content })),
+          summary
+        )
+        summary = rolled.summary
+        keyTopics = union([...keyTopics, ...rolled.key_topics], (topic) => topic.toLowerCase())
+        entities = union([...entities, ...rolled.entities], ({ type, value }) => `${type}:${value.toLowerCase()}`)
+        summarizedThrough = overflow.at(-1)?.id
+      } catch (error) {
+        console.warn('Conversation summary failed:', error instanceof Error ? error.message : error)
+      }
+    }
+
+    const context: ConversationContext = {
+      thread_id: thread.id,
+      context_window: window.map(({ id }) => id),
+      summary,
+      key_topics: keyTopics,
+      mentioned_entities: mentions(branch, entities),
+      active_patient_context: patientId,
+      summarized_through: summarizedThrough,
+      last_updated: new Date().toISOString(),
+    }
+    await scoped.threads.recordContext(thread, context)
+    return { context, window }
+  }
+
+  // The newest messages that fit next to the summary. The newest message is
+  // kept even when it alone is over budget.
+  private fit(messages: Message[], budget: ContextBudget, summary?: string): Message[] {
+    let tokens = summary ? estimateTokens(summary) : 0
+    let start = messages.length
+    while (start > 0 && messages.length - start < budget.max_messages) {
+      const cost = estimateTokens(messages[start - 1]?.content ?? '')
+      if (start < messages.length && tokens + cost > budget.max_tokens) {
+        break
+      }
+      tokens += cost
+      start--
+    }
+    return messages.slice(start)
+  }
+}
+
+export const contextManager = new ContextManager()
@@ -0,0 +1,163 @@
+import { FileType, Sandbox, TimeoutError } from '@e2b/code-interpreter'
+import type {
+  SandboxBackend,
+  SandboxFileInfo,
+  SandboxHealth,
+  SandboxRunOptions,
+  SandboxRunOutput,
+} from './sandbox-backend.js'
+import type { E2BExecutionRequest } from '../types/integrations.js'
+
+// Margin on top of the session TTL before E2B kills a sandbox itself, so
+// sandboxes are normally destroyed by the session reaper
+const LIFETIME_MARGIN_MS = 60 * 1000
+
+// Code runs in the sandbox user's home directory; listFiles walks it to this
+// depth, skipping dot-directories such as pip and matplotlib caches
+const WORKING_DIRECTORY = '/home/user'
+const LIST_DEPTH = 5
+
+interface E2BSession {
+  sandbox: Sandbox
+  // Package sets already installed in this sandbox
+  installed: Set<string>
+}
+
+// Runs code in E2B cloud sandboxes. Memory is fixed by the sandbox template,
+// so memory_limit_mb is not applied here, and runs cannot be interrupted
+// before their timeout.
+export class E2BSandboxBackend implements SandboxBackend {
+  readonly name = 'e2b' as const
+  private sessions = new Map<string, E2BSession>()
+
+  constructor(
+    private apiKey: string | undefined,
+    private sessionTtlMs: number
+  ) {}
+
+  async createSession(): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('E2B API key not configured')
+    }
+
+    const sandbox = await Sandbox.create({ apiKey: this.apiKey, timeoutMs: this.sessionTtlMs + LIFETIME_MARGIN_MS })
+    this.sessions.set(sandbox.sandboxId, { sandbox, installed: new Set() })
+    return sandbox.sandboxId
+  }
+
+  private getSession(sessionId: string): E2BSession {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`)
+    }
+    return session
+  }
+
+  async run(sessionId: string, request: E2BExecutionRequest, options: SandboxRunOptions = {}): Promise<SandboxRunOutput> {
+    const session = this.getSession(sessionId)
+    const { sandbox } = session
+    const timeoutMs = request.timeout_seconds * 1000
+
+    const packages = request.environment?.packages ?? []
+    const packageKey = [...packages].sort().join(' ')
+    if (packages.length > 0 && !session.installed.has(packageKey)) {
+      await sandbox.commands.run(`pip install --quiet ${packages.map(quoteShellArg).join(' ')}`, { timeoutMs })
+      session.installed.add(packageKey)
+    }
+
+    const context = request.environment?.working_directory
+      ? await sandbox.createCodeContext({ cwd: request.environment.working_directory, language: request.language })
+      : undefined
+
+    try {
+      const execution = await sandbox.runCode(request.code, {
+        ...(context ? { context } : { language: request.language }),
+        envs: request.environment?.environment_variables,
+        timeoutMs,
+        onStdout: (message) => options.onOutput?.('stdout', message.line),
+        onStderr: (message) => options.onOutput?.('stderr', message.line),
+      })
+
+      const output: SandboxRunOutput = {
+        status: execution.error ? 'failed' : 'completed',
+        stdout: execution.logs.stdout.join(''),
+        stderr: execution.logs.stderr.join(''),
+        return_value: execution.text,
+      }
+      if (execution.error) {
+        output.error_details = {
+          error_type: execution.error.name,
+          error_message: execution.error.value,
+          stack_trace: execution.error.traceback,
+        }
+      }
+      return output
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        return {
+          status: 'timeout',
+          stdout: '',
+          stderr: '',
+          error_details: {
+            error_type: 'TimeoutError',
+            error_message: `Execution exceeded ${request.timeout_seconds}s`,
+          },
+        }
+      }
+      throw error
+    }
+  }
+
+  async uploadFile(sessionId: string, path: string, content: Buffer): Promise<string> {
+    const { sandbox } = this.getSession(sessionId)
+    const data = content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer
+    const info = await sandbox.files.write(path, data)
+    return info.path
+  }
+
+  async downloadFile(sessionId: string, path: string): Promise<Buffer> {
+    const { sandbox } = this.getSession(sessionId)
+    return Buffer.from(await sandbox.files.read(path, { format: 'bytes' }))
+  }
+
+  async listFiles(sessionId: string): Promise<SandboxFileInfo[]> {
+    const { sandbox } = this.getSession(sessionId)
+    const entries = await sandbox.files.list(WORKING_DIRECTORY, { depth: LIST_DEPTH })
+
+    return entries
+      .filter((entry) => entry.type === FileType.FILE && !/\/\./.test(entry.path.slice(WORKING_DIRECTORY.length)))
+      .map((entry) => ({
+        path: entry.path,
+        size_bytes: entry.size,
+        modified_at: entry.modifiedTime?.getTime() ?? 0,
+      }))
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      return
+    }
+
+    this.sessions.delete(sessionId)
+    await session.sandbox.kill()
+  }
+
+  // Listing sandboxes verifies both connectivity and the API key
+  async healthCheck(): Promise<SandboxHealth> {
+    if (!this.apiKey) {
+      return { status: 'disconnected', message: 'E2B API key not configured' }
+    }
+
+    try {
+      await Sandbox.list({ apiKey: this.apiKey, requestTimeoutMs: 5000 })
+      return { status: 'connected' }
+    } catch (error) {
+      return { status: 'error', message: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
+}
+
+function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
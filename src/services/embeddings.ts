@@ -0,0 +1,136 @@
+import { z } from 'zod'
+import { ApiError } from '../lib/errors.js'
+import { searchTerms } from '../lib/vector-search.js'
+import { HttpTransport } from './http-transport.js'
+import { resilientClients, type ResilientServiceClient } from './resilient-client.js'
+import { ERROR_CODES, HTTP_STATUS, type ServiceCallOptions } from '../types/index.js'
+
+// Text embeddings for the embedded vector backends. OpenAI embeddings are
+// used when OPENAI_API_KEY is set; otherwise a hashing embedder maps each
+// term to a fixed dimension, which needs no service and is deterministic, so
+// tests can rely on texts sharing terms being similar.
+
+export interface EmbeddingProvider {
+  readonly dimensions: number
+  embed(texts: string[], options?: ServiceCallOptions): Promise<number[][]>
+}
+
+export interface EmbeddingConfig {
+  provider: 'openai' | 'hash'
+  model: string
+  dimensions: number
+  apiKey?: string
+}
+
+const OPENAI_API_URL = 'https://api.openai.com/v1'
+
+export function loadEmbeddingConfig(env: NodeJS.ProcessEnv = process.env): EmbeddingConfig {
+  const provider = env.EMBEDDING_PROVIDER || (env.OPENAI_API_KEY ? 'openai' : 'hash')
+  if (provider !== 'openai' && provider !== 'hash') {
+    throw new Error(`Invalid EMBEDDING_PROVIDER "${provider}", expected "openai" or "hash"`)
+  }
+  if (provider === 'openai' && !env.OPENAI_API_KEY) {
+    throw new Error('EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY')
+  }
+
+  const dimensions = Number(env.EMBEDDING_DIMENSIONS || 1536)
+  if (!Number.isInteger(dimensions) || dimensions < 1) {
+    throw new Error(`Invalid EMBEDDING_DIMENSIONS "${env.EMBEDDING_DIMENSIONS}", expected a positive integer`)
+  }
+
+  return {
+    provider,
+    model: env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    dimensions,
+    apiKey: env.OPENAI_API_KEY,
+  }
+}
+
+// FNV-1a, for spreading terms over the dimensions
+function hashTerm(term: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  constructor(readonly dimensions: number) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(this.dimensions).fill(0)
+      for (const term of searchTerms(text)) {
+        const hash = hashTerm(term)
+        const index = hash % this.dimensions
+        // The sign bit keeps colliding terms from always adding up
+        vector[index] = (vector[index] ?? 0) + (hash & 0x80000000 ? -1 : 1)
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+      return norm === 0 ? vector : vector.map((value) => value / norm)
+    })
+  }
+}
+
+const OpenAIEmbeddingResponseSchema = z.object({
+  data: z.array(z.object({ index: z.number().int(), embedding: z.array(z.number()) })),
+})
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private transport: HttpTransport
+
+  constructor(
+    private model: string,
+    readonly dimensions: number,
+    apiKey: string,
+    private resilient: ResilientServiceClient = resilientClients.vector
+  ) {
+    this.transport = new HttpTransport('vector', OPENAI_API_URL, { apiKey })
+  }
+
+  async embed(texts: string[], options: ServiceCallOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) {
+      return []
+    }
+    const body = { model: this.model, input: texts, dimensions: this.dimensions }
+    const result = await this.resilient.call(
+      { ...options, operation: 'embed', parameters: { model: this.model, inputs: texts.length } },
+      (signal) => this.transport.request({ path: '/embeddings', body, schema: OpenAIEmbeddingResponseSchema, signal })
+    )
+    return [...result.data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding)
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig = loadEmbeddingConfig()): EmbeddingProvider {
+  if (config.provider === 'openai' && config.apiKey) {
+    return new OpenAIEmbeddingProvider(config.model, config.dimensions, config.apiKey)
+  }
+  return new HashEmbeddingProvider(config.dimensions)
+}
+
+// A document's own embedding, which must have the provider's dimensions, or
+// else an embedding of its content
+export async function documentEmbedding(
+  provider: EmbeddingProvider,
+  content: string,
+  embedding: number[] | undefined,
+  options?: ServiceCallOptions
+): Promise<number[]> {
+  if (embedding) {
+    if (embedding.length !== provider.dimensions) {
+      throw new ApiError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Embeddings must have ${provider.dimensions} dimensions, got ${embedding.length}`,
+        HTTP_STATUS.UNPROCESSABLE_ENTITY
+      )
+    }
+    return embedding
+  }
+  const [embedded] = await provider.embed([content], options)
+  if (!embedded) {
+    throw new ApiError(ERROR_CODES.VECTOR_SERVICE_ERROR, 'No embedding was returned', HTTP_STATUS.BAD_GATEWAY)
+  }
+  return embedded
+}
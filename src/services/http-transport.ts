@@ -0,0 +1,235 @@
+import type { z } from 'zod'
+import { ApiError } from '../lib/errors.js'
+import { formatIssues } from '../middleware/validation.js'
+import { SERVICE_ERROR_CODES, SERVICE_LABELS, type ServiceName } from './resilient-client.js'
+import { ERROR_CODES, HTTP_STATUS } from '../types/index.js'
+
+// JSON over HTTP for the BAML and vector services. Failures are mapped so the
+// resilient client retries the right ones: network errors stay plain errors,
+// upstream 429 stays 429, upstream 5xx becomes 503, a rejected request
+// (400/422) becomes 422, 404 and 409 pass through as NOT_FOUND and
+// RESOURCE_CONFLICT, and anything else, including a response that does not
+// match its schema, becomes 502. Streamed responses are Server-Sent Events
+// whose data is one JSON value per event.
+
+export interface JsonRequest<T> {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  path: string
+  body?: unknown
+  query?: Record<string, string | undefined>
+  // Validates the response body; without one the body is not read
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>
+  signal?: AbortSignal
+}
+
+export interface HttpTransportOptions {
+  apiKey?: string
+  fetch?: typeof fetch
+}
+
+export interface HttpHealth {
+  status: 'connected' | 'disconnected' | 'error'
+  message?: string
+}
+
+const HEALTH_TIMEOUT_MS = 5000
+
+// Pull a message out of an upstream error body
+function upstreamMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    return body.slice(0, 500) || undefined
+  }
+  if (body !== null && typeof body === 'object') {
+    const record = body as Record<string, unknown>
+    const error = record.error
+    if (typeof error === 'string') {
+      return error
+    }
+    if (error !== null && typeof error === 'object' && typeof (error as Record<string, unknown>).message === 'string') {
+      return (error as Record<string, string>).message
+    }
+    for (const key of ['message', 'detail']) {
+      if (typeof record[key] === 'string') {
+        return record[key] as string
+      }
+    }
+  }
+  return undefined
+}
+
+export class HttpTransport {
+  private fetch: typeof fetch
+
+  constructor(
+    readonly serviceName: ServiceName,
+    readonly baseUrl: string,
+    private options: HttpTransportOptions = {}
+  ) {
+    this.fetch = options.fetch ?? fetch
+  }
+
+  async request<T = void>(request: JsonRequest<T>): Promise<T> {
+    const response = await this.send(request, 'application/json')
+    const body = await this.readBody(response)
+    if (!request.schema) {
+      return undefined as T
+    }
+    return this.parse(request.schema, body, request.path)
+  }
+
+  // Send a request answered with Server-Sent Events; resolves with the event
+  // stream once the response starts. Read it with events().
+  async openStream(request: Omit<JsonRequest<unknown>, 'schema'>): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.send(request, 'text/event-stream')
+    if (!response.body) {
+      throw new ApiError(
+        SERVICE_ERROR_CODES[this.serviceName],
+        `${SERVICE_LABELS[this.serviceName]} service returned an empty stream`,
+        HTTP_STATUS.BAD_GATEWAY
+      )
+    }
+    return response.body
+  }
+
+  // The data of each event in a stream from openStream(), validated against
+  // `schema`. Stopping early cancels the stream.
+  async *events<T>(
+    stream: ReadableStream<Uint8Array>,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    path: string
+  ): AsyncGenerator<T> {
+    const reader = stream.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        buffer = done ? `${buffer}${decoder.decode()}\n\n` : buffer + decoder.decode(value, { stream: true })
+        const frames = buffer.split(/\r?\n\r?\n/)
+        buffer = frames.pop() ?? ''
+
+        for (const frame of frames) {
+          // Only data lines matter; comments and event names are skipped
+          const data = frame
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).replace(/^ /, ''))
+            .join('\n')
+          if (data) {
+            yield this.parse(schema, this.parseJson(data), path)
+          }
+        }
+        if (done) {
+          return
+        }
+      }
+    } finally {
+      await reader.cancel().catch(() => {})
+    }
+  }
+
+  // GET /health; not retried or counted against the circuit breaker
+  async healthCheck(): Promise<HttpHealth> {
+    try {
+      const response = await this.fetch(this.url('/health'), {
+        headers: this.headers(false),
+        signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+      })
+      await response.body?.cancel()
+      return response.ok
+        ? { status: 'connected' }
+        : { status: 'error', message: `Health check returned ${response.status}` }
+    } catch (error) {
+      return { status: 'disconnected', message: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
+
+  private async send(request: Omit<JsonRequest<unknown>, 'schema'>, accept: string): Promise<Response> {
+    const label = SERVICE_LABELS[this.serviceName]
+    const code = SERVICE_ERROR_CODES[this.serviceName]
+    const url = this.url(request.path, request.query)
+
+    let response: Response
+    try {
+      response = await this.fetch(url, {
+        method: request.method ?? (request.body === undefined ? 'GET' : 'POST'),
+        headers: { ...this.headers(request.body !== undefined), Accept: accept },
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+        signal: request.signal,
+      })
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason ?? error
+      }
+      throw new Error(`${label} service unreachable at ${this.baseUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+
+    if (!response.ok) {
+      const body = await this.readBody(response)
+      const message = `${label} service returned ${response.status}${upstreamMessage(body) ? `: ${upstreamMessage(body)}` : ''}`
+      const details = { upstream_status: response.status }
+      if (response.status === HTTP_STATUS.TOO_MANY_REQUESTS) {
+        throw new ApiError(code, message, HTTP_STATUS.TOO_MANY_REQUESTS, details)
+      }
+      if (response.status >= 500) {
+        throw new ApiError(code, message, HTTP_STATUS.SERVICE_UNAVAILABLE, details)
+      }
+      if (response.status === HTTP_STATUS.NOT_FOUND) {
+        throw new ApiError(ERROR_CODES.RESOURCE_NOT_FOUND, message, HTTP_STATUS.NOT_FOUND, details)
+      }
+      if (response.status === HTTP_STATUS.CONFLICT) {
+        throw new ApiError(ERROR_CODES.RESOURCE_CONFLICT, message, HTTP_STATUS.CONFLICT, details)
+      }
+      if (response.status === HTTP_STATUS.BAD_REQUEST || response.status === HTTP_STATUS.UNPROCESSABLE_ENTITY) {
+        throw new ApiError(code, message, HTTP_STATUS.UNPROCESSABLE_ENTITY, details)
+      }
+      throw new ApiError(code, message, HTTP_STATUS.BAD_GATEWAY, details)
+    }
+    return response
+  }
+
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown, path: string): T {
+    const parsed = schema.safeParse(body)
+    if (!parsed.success) {
+      throw new ApiError(
+        SERVICE_ERROR_CODES[this.serviceName],
+        `${SERVICE_LABELS[this.serviceName]} service returned an invalid response`,
+        HTTP_STATUS.BAD_GATEWAY,
+        { path, issues: formatIssues(parsed.error) }
+      )
+    }
+    return parsed.data
+  }
+
+  private url(path: string, query?: Record<string, string | undefined>): string {
+    const url = new URL(path.replace(/^\//, ''), this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`)
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value)
+      }
+    }
+    return url.toString()
+  }
+
+  private headers(hasBody: boolean): Record<string, string> {
+    return {
+      Accept: 'application/json',
+      ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+      ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+    }
+  }
+
+  // JSON when it parses, otherwise the text
+  private async readBody(response: Response): Promise<unknown> {
+    const text = await response.text()
+    return text ? this.parseJson(text) : undefined
+  }
+
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { repositories } from '../repositories/index.js'
+import type {
+  CreateToolExecutionInput,
+  ToolExecutionStatus,
+  UpdateToolExecutionInput,
+} from '../repositories/tool-executions.js'
+import { runVoeRiskAnalysis, type PatientData } from '../tools/voe-risk.js'
+import { bindAnalysisInput } from './analysis-binding.js'
+import { codeExecutor, MEDICAL_ANALYSIS_TOOLS, type ExecuteOptions } from './code-executor.js'
+import type {
+  E2BExecutionRequest,
+  E2BExecutionResult,
+  JobPriority,
+  MedicalAnalysisToolName,
+  RequestContext,
+  ToolExecutionsTable,
+} from '../types/index.js'
+
+// In-process priority queue running code executions and medical analyses in
+// the background. Jobs are persisted to tool_executions as they move from
+// pending to running to their final status, so they can be polled; queued
+// jobs do not survive a restart.
+
+const PRIORITY_RANK: Record<JobPriority, number> = { urgent: 0, high: 1, normal: 2, low: 3 }
+
+const CANCELLED_MESSAGE = 'Job was cancelled'
+
+export type JobTask = (options: Pick<ExecuteOptions, 'signal'>) => Promise<E2BExecutionResult>
+
+export type JobListener = (job: ToolExecutionsTable) => void
+
+export interface SubmitJobInput extends CreateToolExecutionInput {
+  priority: JobPriority
+}
+
+interface QueuedJob {
+  id: string
+  priority: JobPriority
+  // Submission order, breaking ties between equal priorities
+  sequence: number
+  task: JobTask
+  controller: AbortController
+}
+
+export function isFinished(job: ToolExecutionsTable): boolean {
+  return job.execution_status !== 'pending' && job.execution_status !== 'running'
+}
+
+function finalStatus(result: E2BExecutionResult): ToolExecutionStatus {
+  return result.status === 'completed' || result.status === 'timeout' ? result.status : 'failed'
+}
+
+export function codeExecutionTask(request: E2BExecutionRequest, ownerId: string): JobTask {
+  return (options) => codeExecutor.executeCode(request, { ...options, ownerId })
+}
+
+// Runs as `context`'s user: patient data is read with their permissions and
+// the session is counted against their limit
+export function medicalAnalysisTask(toolName: MedicalAnalysisToolName, input: unknown, context: RequestContext): JobTask {
+  const ownerId = context.user_id
+  if (toolName === 'voe_risk_analysis') {
+    return (options) => runVoeRiskAnalysis(input as PatientData, context, { ...options, ownerId })
+  }
+  return (options) =>
+    codeExecutor.executeMedicalAnalysis(MEDICAL_ANALYSIS_TOOLS[toolName], input, { ...options, ownerId })
+}
+
+// Validate a medical analysis for `context` and build its task, so bad input
+// or an inaccessible patient fails before anything runs
+export async function prepareMedicalAnalysis(
+  toolName: MedicalAnalysisToolName,
+  input: unknown,
+  context: RequestContext
+): Promise<JobTask> {
+  bindAnalysisInput(MEDICAL_ANALYSIS_TOOLS[toolName], input)
+
+  // The VOE analysis loads the patient's episode history
+  const patientId = (input as { patient_id?: unknown } | null)?.patient_id
+  if (typeof patientId === 'string') {
+    await repositories.scoped(context).patients.get(patientId)
+  }
+  return medicalAnalysisTask(toolName, input, context)
+}
+
+export class JobQueue {
+  private queue: QueuedJob[] = []
+  private running = new Map<string, QueuedJob>()
+  private listeners = new Map<string, Set<JobListener>>()
+  private sequence = 0
+
+  constructor(private concurrency: number) {}
+
+  // Persist a pending job, checked against `context` when given, and
+  // schedule it
+  async submit(input: SubmitJobInput, task: JobTask, context?: RequestContext): Promise<ToolExecutionsTable> {
+    const executions = context ? repositories.scoped(context).toolExecutions : repositories.toolExecutions
+    const job = await executions.create(input)
+
+    this.queue.push({
+      id: job.id,
+      priority: input.priority,
+      sequence: this.sequence++,
+      task,
+      controller: new AbortController(),
+    })
+    this.pump()
+    return job
+  }
+
+  // Drop a queued job or abort a running one. Returns false when the job is
+  // not queued or running in this process.
+  async cancel(id: string): Promise<boolean> {
+    const running = this.running.get(id)
+    if (running) {
+      running.controller.abort()
+      return true
+    }
+
+    const index = this.queue.findIndex((job) => job.id === id)
+    if (index === -1) {
+      return false
+    }
+    this.queue.splice(index, 1)
+    await this.record(id, {
+      execution_status: 'failed',
+      error_message: CANCELLED_MESSAGE,
+      completed_at: new Date().toISOString(),
+    })
+    return true
+  }
+
+  // Called with the job after every status change until it finishes
+  subscribe(id: string, listener: JobListener): () => void {
+    const listeners = this.listeners.get(id) ?? new Set<JobListener>()
+    listeners.add(listener)
+    this.listeners.set(id, listeners)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) {
+        this.listeners.delete(id)
+      }
+    }
+  }
+
+  // Number of jobs waiting and running
+  stats(): { queued: number; running: number } {
+    return { queued: this.queue.length, running: this.running.size }
+  }
+
+  private pump(): void {
+    while (this.running.size < this.concurrency && this.queue.length > 0) {
+      this.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.sequence - b.sequence)
+      const job = this.queue.shift() as QueuedJob
+      this.running.set(job.id, job)
+
+      this.run(job)
+        .catch((error) => {
+          console.error(`Job ${job.id} could not be recorded:`, error)
+        })
+        .finally(() => {
+          this.running.delete(job.id)
+          this.pump()
+        })
+    }
+  }
+
+  private async run(job: QueuedJob): Promise<void> {
+    const startTime = Date.now()
+    await this.record(job.id, { execution_status: 'running', started_at: new Date(startTime).toISOString() })
+
+    try {
+      const result = await job.task({ signal: job.controller.signal })
+      const cancelled = job.controller.signal.aborted
+      await this.record(job.id, {
+        execution_status: cancelled ? 'failed' : finalStatus(result),
+        output_data: { ...result },
+        execution_time_ms: Date.now() - startTime,
+        error_message: cancelled ? CANCELLED_MESSAGE : result.error_details?.error_message,
+        completed_at: new Date().toISOString(),
+      })
+    } catch (error) {
+      await this.record(job.id, {
+        execution_status: 'failed',
+        execution_time_ms: Date.now() - startTime,
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date().toISOString(),
+      })
+    }
+  }
+
+  private async record(id: string, changes: UpdateToolExecutionInput): Promise<void> {
+    const job = await repositories.toolExecutions.update(id, changes)
+    for (const listener of this.listeners.get(id) ?? []) {
+      listener(job)
+    }
+    if (isFinished(job)) {
+      this.listeners.delete(id)
+    }
+  }
+}
+
+export const jobQueue = new JobQueue(Number(process.env.JOB_CONCURRENCY) || 2)
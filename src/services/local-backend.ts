@@ -0,0 +1,428 @@
+import { spawn } from 'node:child_process'
+import { constants } from 'node:fs'
+import { lstat, mkdir, mkdtemp, open, readdir, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join, relative, resolve, sep } from 'node:path'
+import { StringDecoder } from 'node:string_decoder'
+import type {
+  SandboxBackend,
+  SandboxFileInfo,
+  SandboxHealth,
+  SandboxOutputStream,
+  SandboxRunOptions,
+  SandboxRunOutput,
+} from './sandbox-backend.js'
+import type { E2BExecutionRequest } from '../types/integrations.js'
+
+// Runs code on this machine for offline development: in a subprocess with
+// an address-space limit, or inside a throwaway container with no network
+// when SANDBOX_DOCKER_IMAGE is set. Each session is a temporary directory
+// holding the code's working tree and, outside it, the scripts being run.
+// Packages are not installed; they must already exist locally or in the image.
+
+// Captured output beyond this is dropped
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024
+
+// Host variables a local interpreter needs; everything else, including the
+// server's own secrets, is withheld from executed code
+const INHERITED_ENV = ['PATH', 'HOME', 'LANG', 'LC_ALL', 'TMPDIR', 'PYENV_ROOT', 'PYENV_VERSION', 'VIRTUAL_ENV']
+
+// Applies the memory limit before running the script as __main__
+const PYTHON_BOOTSTRAP = `
+import resource, runpy, sys
+limit = int(sys.argv[2]) * 1024 * 1024
+try:
+    resource.setrlimit(resource.RLIMIT_AS, (limit, limit))
+except (ValueError, OSError):
+    pass
+path = sys.argv[1]
+sys.argv = [path]
+runpy.run_path(path, run_name='__main__')
+`
+
+const SCRIPT_FILES: Partial<Record<E2BExecutionRequest['language'], string>> = {
+  python: 'main.py',
+  javascript: 'main.js',
+}
+
+interface ProcessResult {
+  exitCode: number | null
+  stdout: string
+  stderr: string
+  timedOut: boolean
+  cancelled: boolean
+}
+
+interface ProcessOptions {
+  cwd?: string
+  env?: NodeJS.ProcessEnv
+  timeoutMs: number
+  // Extra cleanup when the process is killed, e.g. stopping a container
+  onKill?: () => void
+  onOutput?: (stream: SandboxOutputStream, text: string) => void
+  signal?: AbortSignal
+}
+
+export interface LocalSandboxOptions {
+  pythonPath: string
+  dockerImage?: string
+}
+
+export class LocalSandboxBackend implements SandboxBackend {
+  readonly name = 'local' as const
+  // Session directories; the working tree is their `workspace` subdirectory
+  private sessions = new Map<string, string>()
+
+  constructor(private options: LocalSandboxOptions) {}
+
+  async createSession(): Promise<string> {
+    const directory = await mkdtemp(join(tmpdir(), 'angstromscd-sandbox-'))
+    await mkdir(join(directory, 'workspace'))
+    const sessionId = `local_${crypto.randomUUID()}`
+    this.sessions.set(sessionId, directory)
+    return sessionId
+  }
+
+  private getDirectory(sessionId: string): string {
+    const directory = this.sessions.get(sessionId)
+    if (!directory) {
+      throw new Error(`Session ${sessionId} not found`)
+    }
+    return directory
+  }
+
+  private getWorkspace(sessionId: string): string {
+    return join(this.getDirectory(sessionId), 'workspace')
+  }
+
+  async run(sessionId: string, request: E2BExecutionRequest, options: SandboxRunOptions = {}): Promise<SandboxRunOutput> {
+    const directory = this.getDirectory(sessionId)
+    const root = join(directory, 'workspace')
+    const scriptName = SCRIPT_FILES[request.language]
+    if (!scriptName) {
+      return {
+        status: 'failed',
+        stdout: '',
+        stderr: '',
+        error_details: {
+          error_type: 'UnsupportedLanguage',
+          error_message: `The local sandbox cannot run ${request.language}`,
+        },
+      }
+    }
+
+    const workingDirectory = request.environment?.working_directory ?? '.'
+    const cwd = resolveInside(root, workingDirectory)
+    await checkDirectories(root, cwd, workingDirectory, true)
+
+    // Scripts live outside the working tree so they are not taken for files
+    // the code created
+    const scriptDirectory = join(directory, 'runs', crypto.randomUUID())
+    await mkdir(scriptDirectory, { recursive: true })
+    const scriptPath = join(scriptDirectory, scriptName)
+    await writeFile(scriptPath, request.code)
+
+    try {
+      const variables = request.environment?.environment_variables ?? {}
+      const result = this.options.dockerImage
+        ? await this.runInContainer(root, cwd, scriptDirectory, scriptName, request, variables, options)
+        : await this.runInProcess(cwd, scriptPath, request, variables, options)
+
+      return toRunOutput(result, request)
+    } finally {
+      await rm(scriptDirectory, { recursive: true, force: true })
+    }
+  }
+
+  private runInProcess(
+    cwd: string,
+    scriptPath: string,
+    request: E2BExecutionRequest,
+    variables: Record<string, string>,
+    options: SandboxRunOptions
+  ): Promise<ProcessResult> {
+    const env = { ...inheritedEnv(), MPLBACKEND: 'Agg', ...variables }
+    const processOptions = { cwd, env, timeoutMs: request.timeout_seconds * 1000, ...options }
+
+    if (request.language === 'javascript') {
+      return runProcess('node', [`--max-old-space-size=${request.memory_limit_mb}`, scriptPath], processOptions)
+    }
+    return runProcess(
+      this.options.pythonPath,
+      ['-c', PYTHON_BOOTSTRAP, scriptPath, String(request.memory_limit_mb)],
+      processOptions
+    )
+  }
+
+  private async runInContainer(
+    root: string,
+    cwd: string,
+    scriptDirectory: string,
+    scriptName: string,
+    request: E2BExecutionRequest,
+    variables: Record<string, string>,
+    options: SandboxRunOptions
+  ): Promise<ProcessResult> {
+    const name = `angstromscd-sandbox-${crypto.randomUUID()}`
+    const workdir = ['/workspace', relative(root, cwd)].filter(Boolean).join('/')
+    const interpreter = request.language === 'javascript' ? 'node' : 'python'
+
+    // The variables reach the container through an env file, keeping the
+    // input out of the process arguments and the docker CLI's own environment
+    const envFile = join(scriptDirectory, 'environment')
+    await writeFile(envFile, Object.entries(variables).map(([key, value]) => `${key}=${value}\n`).join(''), { mode: 0o600 })
+
+    const args = [
+      'run',
+      '--rm',
+      '--name',
+      name,
+      '--network',
+      'none',
+      '--memory',
+      `${request.memory_limit_mb}m`,
+      '--memory-swap',
+      `${request.memory_limit_mb}m`,
+      '-v',
+      `${root}:/workspace`,
+      '-v',
+      `${scriptDirectory}:/sandbox:ro`,
+      '-w',
+      workdir,
+      '-e',
+      'MPLBACKEND=Agg',
+      '--env-file',
+      envFile,
+      this.options.dockerImage as string,
+      interpreter,
+      `/sandbox/${scriptName}`,
+    ]
+
+    return runProcess('docker', args, {
+      env: inheritedEnv(),
+      timeoutMs: request.timeout_seconds * 1000,
+      ...options,
+      onKill: () => {
+        spawn('docker', ['kill', name], { stdio: 'ignore' }).on('error', () => {})
+      },
+    })
+  }
+
+  async uploadFile(sessionId: string, path: string, content: Buffer): Promise<string> {
+    const target = await resolveFile(this.getWorkspace(sessionId), path, true)
+    const file = await open(target, constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | constants.O_NOFOLLOW)
+    try {
+      await file.writeFile(content)
+    } finally {
+      await file.close()
+    }
+    return path
+  }
+
+  async downloadFile(sessionId: string, path: string): Promise<Buffer> {
+    const target = await resolveFile(this.getWorkspace(sessionId), path, false)
+    const file = await open(target, constants.O_RDONLY | constants.O_NOFOLLOW)
+    try {
+      return await file.readFile()
+    } finally {
+      await file.close()
+    }
+  }
+
+  async listFiles(sessionId: string): Promise<SandboxFileInfo[]> {
+    const root = this.getWorkspace(sessionId)
+    const entries = await readdir(root, { recursive: true, withFileTypes: true })
+    const files = entries.filter((entry) => entry.isFile()).map((entry) => join(entry.parentPath, entry.name))
+
+    return Promise.all(
+      files.map(async (file) => {
+        const info = await stat(file)
+        return { path: relative(root, file), size_bytes: info.size, modified_at: info.mtimeMs }
+      })
+    )
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    const directory = this.sessions.get(sessionId)
+    if (!directory) {
+      return
+    }
+
+    this.sessions.delete(sessionId)
+    await rm(directory, { recursive: true, force: true })
+  }
+
+  // The configured interpreter (or docker) must be runnable
+  async healthCheck(): Promise<SandboxHealth> {
+    const [command, args] = this.options.dockerImage
+      ? ['docker', ['image', 'inspect', '--format', '{{.Id}}', this.options.dockerImage]]
+      : [this.options.pythonPath, ['--version']]
+
+    try {
+      const result = await runProcess(command, args, { env: inheritedEnv(), timeoutMs: 5000 })
+      if (result.exitCode === 0) {
+        return { status: 'connected' }
+      }
+      const message = (result.stderr || result.stdout).trim() || `${command} exited with ${result.exitCode}`
+      return { status: 'disconnected', message }
+    } catch (error) {
+      return { status: 'disconnected', message: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
+}
+
+// Map a sandbox path (absolute paths are taken relative to the session
+// directory) to a location inside `root`, rejecting traversal out of it
+function resolveInside(root: string, path: string): string {
+  const target = resolve(root, path.replace(/^\/+/, ''))
+  if (target !== root && !target.startsWith(root + sep)) {
+    throw new Error(`Path ${path} is outside the sandbox`)
+  }
+  return target
+}
+
+// Executed code can leave symlinks in the workspace pointing anywhere on the
+// host. Check that each directory from `root` down to `directory` is a real
+// one, creating missing ones when `create` is set; a missing directory ends
+// the walk otherwise, as nothing below it exists.
+async function checkDirectories(root: string, directory: string, path: string, create: boolean): Promise<void> {
+  let current = root
+  for (const part of relative(root, directory).split(sep).filter(Boolean)) {
+    current = join(current, part)
+    const info = await lstat(current).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    })
+    if (!info) {
+      if (!create) {
+        return
+      }
+      await mkdir(current)
+    } else if (!info.isDirectory()) {
+      throw new Error(`Path ${path} is outside the sandbox`)
+    }
+  }
+}
+
+// A file inside `root` reached through real directories only; callers open
+// it with O_NOFOLLOW so the file itself cannot be a symlink either
+async function resolveFile(root: string, path: string, createDirectories: boolean): Promise<string> {
+  const target = resolveInside(root, path)
+  if (target === root) {
+    throw new Error(`Path ${path} is not a file`)
+  }
+  await checkDirectories(root, dirname(target), path, createDirectories)
+  return target
+}
+
+function inheritedEnv(): NodeJS.ProcessEnv {
+  return Object.fromEntries(
+    INHERITED_ENV.flatMap((key) => (process.env[key] === undefined ? [] : [[key, process.env[key]]]))
+  )
+}
+
+function runProcess(command: string, args: string[], options: ProcessOptions): Promise<ProcessResult> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(command, args, { cwd: options.cwd, env: options.env, stdio: ['ignore', 'pipe', 'pipe'] })
+    const stdout: Buffer[] = []
+    const stderr: Buffer[] = []
+    let captured = 0
+    let timedOut = false
+    let cancelled = false
+
+    const capture = (stream: SandboxOutputStream, chunks: Buffer[]) => {
+      // Keeps multi-byte characters split across chunks intact
+      const decoder = new StringDecoder('utf8')
+      return (chunk: Buffer) => {
+        if (captured < MAX_OUTPUT_BYTES) {
+          const kept = chunk.subarray(0, MAX_OUTPUT_BYTES - captured)
+          chunks.push(kept)
+          captured += chunk.length
+          options.onOutput?.(stream, decoder.write(kept))
+        }
+      }
+    }
+    child.stdout.on('data', capture('stdout', stdout))
+    child.stderr.on('data', capture('stderr', stderr))
+
+    const kill = () => {
+      options.onKill?.()
+      child.kill('SIGKILL')
+    }
+    const timer = setTimeout(() => {
+      timedOut = true
+      kill()
+    }, options.timeoutMs)
+    const abort = () => {
+      cancelled = true
+      kill()
+    }
+    if (options.signal?.aborted) {
+      abort()
+    }
+    options.signal?.addEventListener('abort', abort, { once: true })
+
+    const settle = () => {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', abort)
+    }
+    child.on('error', (error) => {
+      settle()
+      reject(error)
+    })
+    child.on('close', (exitCode) => {
+      settle()
+      resolvePromise({
+        exitCode,
+        stdout: Buffer.concat(stdout).toString('utf8'),
+        stderr: Buffer.concat(stderr).toString('utf8'),
+        timedOut,
+        cancelled,
+      })
+    })
+  })
+}
+
+function toRunOutput(result: ProcessResult, request: E2BExecutionRequest): SandboxRunOutput {
+  const { stdout, stderr } = result
+
+  if (result.cancelled) {
+    return {
+      status: 'failed',
+      stdout,
+      stderr,
+      error_details: { error_type: 'Cancelled', error_message: 'Execution was cancelled' },
+    }
+  }
+  if (result.timedOut) {
+    return {
+      status: 'timeout',
+      stdout,
+      stderr,
+      error_details: { error_type: 'TimeoutError', error_message: `Execution exceeded ${request.timeout_seconds}s` },
+    }
+  }
+  if (result.exitCode === 0) {
+    return { status: 'completed', stdout, stderr }
+  }
+
+  return { status: 'failed', stdout, stderr, error_details: parseError(stderr, result.exitCode) }
+}
+
+// Pull the exception type, message and line from a Python or Node traceback
+function parseError(stderr: string, exitCode: number | null): NonNullable<SandboxRunOutput['error_details']> {
+  const lines = stderr.trim().split('\n')
+  const last = lines.at(-1) ?? ''
+  const exception = /^([A-Za-z_][\w.]*(?:Error|Exception|Interrupt|Exit)):?\s*(.*)$/.exec(last)
+  const locations = [...stderr.matchAll(/(?:File ".*main\.(?:py|js)", line |main\.js:)(\d+)/g)]
+  const lineNumber = locations.at(-1)?.[1]
+
+  return {
+    error_type: exception?.[1] ?? 'ProcessError',
+    error_message: exception?.[2] || last || `Process exited with code ${exitCode}`,
+    line_number: lineNumber ? Number(lineNumber) : undefined,
+    stack_trace: stderr || undefined,
+  }
+}
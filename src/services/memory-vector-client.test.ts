@@ -0,0 +1,161 @@
+import { describe, expect, test } from 'bun:test'
+import { HashEmbeddingProvider, type EmbeddingProvider } from './embeddings.js'
+import { InMemoryVectorClient } from './memory-vector-client.js'
+import type { VectorDocument, VectorSearchRequest } from '../types/index.js'
+
+// Embeds every query as [1, 0], so a document's vector score is the cosine
+// of its own embedding with that axis
+const fixedQuery: EmbeddingProvider = {
+  dimensions: 2,
+  embed: async (texts) => texts.map(() => [1, 0]),
+}
+
+function document(id: string, content: string, extra: Partial<VectorDocument> = {}): VectorDocument {
+  const now = new Date().toISOString()
+  return { id, content, collection_name: 'papers', created_at: now, updated_at: now, ...extra }
+}
+
+function search(query: string, overrides: Partial<VectorSearchRequest> = {}): VectorSearchRequest {
+  return {
+    query,
+    collection_name: 'papers',
+    limit: 10,
+    similarity_threshold: 0,
+    include_metadata: true,
+    include_embeddings: false,
+    ...overrides,
+  }
+}
+
+async function client(keywordWeight = 0, embeddings: EmbeddingProvider = fixedQuery): Promise<InMemoryVectorClient> {
+  const vectors = new InMemoryVectorClient(embeddings, keywordWeight)
+  await vectors.createCollection('papers')
+  return vectors
+}
+
+// A is close to the query vector but shares no terms with the query; B is
+// further away but contains every query term
+async function withRankingDocuments(keywordWeight: number): Promise<InMemoryVectorClient> {
+  const vectors = await client(keywordWeight)
+  await vectors.addDocument(document('a', 'Transfusion outcomes in adults', { embedding: [0.9, Math.sqrt(1 - 0.81)] }))
+  await vectors.addDocument(document('b', 'Hydroxyurea dosing', { embedding: [0.6, 0.8] }))
+  return vectors
+}
+
+describe('InMemoryVectorClient ranking', () => {
+  test('ranks by cosine similarity without a keyword weight', async () => {
+    const vectors = await withRankingDocuments(0)
+    const { results } = await vectors.search(search('hydroxyurea dosing'))
+    expect(results.map((result) => result.id)).toEqual(['a', 'b'])
+    expect(results[0]?.similarity_score).toBeCloseTo(0.9)
+    expect(results[1]?.similarity_score).toBeCloseTo(0.6)
+  })
+
+  test('blends in the share of query terms with hybrid ranking', async () => {
+    const vectors = await withRankingDocuments(0.5)
+    const { results } = await vectors.search(search('hydroxyurea dosing'))
+    expect(results.map((result) => result.id)).toEqual(['b', 'a'])
+    expect(results[0]?.similarity_score).toBeCloseTo(0.5 * 0.6 + 0.5 * 1)
+    expect(results[1]?.similarity_score).toBeCloseTo(0.5 * 0.9)
+  })
+
+  test('counts partial keyword matches', async () => {
+    const vectors = await withRankingDocuments(1)
+    const { results } = await vectors.search(search('hydroxyurea in children'))
+    expect(results.find((result) => result.id === 'b')?.similarity_score).toBeCloseTo(1 / 3)
+    expect(results.find((result) => result.id === 'a')?.similarity_score).toBeCloseTo(1 / 3)
+  })
+
+  test('ranks texts sharing terms higher with hash embeddings', async () => {
+    const vectors = await client(0, new HashEmbeddingProvider(256))
+    await vectors.addDocument(document('dosing', 'Hydroxyurea dosing and fetal hemoglobin response in children'))
+    await vectors.addDocument(document('transfusion', 'Chronic transfusion and iron overload'))
+    const { results } = await vectors.search(search('hydroxyurea dosing in children'))
+    expect(results[0]?.id).toBe('dosing')
+  })
+
+  test('applies the threshold and limit', async () => {
+    const vectors = await withRankingDocuments(0)
+    expect((await vectors.search(search('q', { similarity_threshold: 0.7 }))).results.map((result) => result.id)).toEqual([
+      'a',
+    ])
+    expect((await vectors.search(search('q', { limit: 1 }))).total_results).toBe(1)
+  })
+
+  test('only searches the requested collection', async () => {
+    const vectors = await withRankingDocuments(0)
+    await vectors.createCollection('guidelines')
+    await vectors.addDocument(document('c', 'Hydroxyurea guideline', { collection_name: 'guidelines', embedding: [1, 0] }))
+    const { results } = await vectors.search(search('q'))
+    expect(results.map((result) => result.id)).toEqual(['a', 'b'])
+  })
+})
+
+describe('InMemoryVectorClient filters', () => {
+  async function withMetadata(): Promise<InMemoryVectorClient> {
+    const vectors = await client()
+    await vectors.addDocument(
+      document('guideline', 'g', {
+        embedding: [1, 0],
+        metadata: { document_type: 'clinical_guideline', keywords: ['hydroxyurea', 'pediatrics'] },
+      })
+    )
+    await vectors.addDocument(
+      document('paper', 'p', { embedding: [0.8, 0.6], metadata: { document_type: 'research_paper', keywords: ['voe'] } })
+    )
+    await vectors.addDocument(document('untagged', 'u', { embedding: [0.6, 0.8] }))
+    return vectors
+  }
+
+  async function ids(vectors: InMemoryVectorClient, filters: Record<string, unknown>): Promise<string[]> {
+    return (await vectors.search(search('q', { filters }))).results.map((result) => result.id)
+  }
+
+  test('matches equal values', async () => {
+    expect(await ids(await withMetadata(), { document_type: 'research_paper' })).toEqual(['paper'])
+  })
+
+  test('matches array fields containing the value', async () => {
+    expect(await ids(await withMetadata(), { keywords: 'pediatrics' })).toEqual(['guideline'])
+  })
+
+  test('matches any value of an array filter', async () => {
+    expect(await ids(await withMetadata(), { keywords: ['voe', 'pediatrics'] })).toEqual(['guideline', 'paper'])
+  })
+
+  test('excludes documents without the field', async () => {
+    expect(await ids(await withMetadata(), { document_type: ['clinical_guideline', 'research_paper'] })).toEqual([
+      'guideline',
+      'paper',
+    ])
+  })
+
+  test('reports the filters applied', async () => {
+    const response = await (await withMetadata()).search(search('q', { filters: { keywords: 'voe' } }))
+    expect(response.filters_applied).toEqual({ keywords: 'voe' })
+  })
+})
+
+describe('InMemoryVectorClient documents', () => {
+  test('embeds new content again on update', async () => {
+    const vectors = await client(1)
+    await vectors.addDocument(document('a', 'transfusion', { embedding: [1, 0] }))
+    await vectors.updateDocument('a', { content: 'hydroxyurea' })
+    const { results } = await vectors.search(search('hydroxyurea'))
+    expect(results[0]?.similarity_score).toBe(1)
+  })
+
+  test('rejects embeddings of the wrong size', async () => {
+    const vectors = await client()
+    await expect(vectors.addDocument(document('a', 'x', { embedding: [1, 0, 0] }))).rejects.toThrow(
+      'Embeddings must have 2 dimensions'
+    )
+  })
+
+  test('deletes a collection with its documents', async () => {
+    const vectors = await withRankingDocuments(0)
+    await vectors.deleteCollection('papers')
+    await expect(vectors.getDocument('a')).rejects.toThrow()
+    expect(await vectors.listCollections()).toEqual([])
+  })
+})
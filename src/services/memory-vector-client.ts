@@ -0,0 +1,170 @@
+import { ApiError, notFound } from '../lib/errors.js'
+import {
+  applySearchOptions,
+  cosineSimilarity,
+  hybridScore,
+  keywordScore,
+  searchResponse,
+  searchTerms,
+} from '../lib/vector-search.js'
+import { documentEmbedding, type EmbeddingProvider } from './embeddings.js'
+import type { HttpHealth } from './http-transport.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  type PaginatedResponse,
+  type ServiceCallOptions,
+  type VectorDocument,
+  type VectorSearchRequest,
+  type VectorSearchResponse,
+  type VectorServiceClient,
+} from '../types/index.js'
+
+// Brute-force vector store kept in process, for tests and local development.
+// Scores every document in the collection the same way PgVectorClient does in
+// SQL, so rankings can be checked without a database.
+
+interface StoredDocument extends VectorDocument {
+  embedding: number[]
+  terms: Set<string>
+}
+
+interface StoredCollection {
+  metadata: Record<string, unknown>
+  created_at: string
+}
+
+export class InMemoryVectorClient implements VectorServiceClient {
+  private collections = new Map<string, StoredCollection>()
+  private documents = new Map<string, StoredDocument>()
+
+  constructor(
+    private embeddings: EmbeddingProvider,
+    private keywordWeight = 0
+  ) {}
+
+  async search(request: VectorSearchRequest, options: ServiceCallOptions = {}): Promise<VectorSearchResponse> {
+    const startTime = Date.now()
+    this.requireCollection(request.collection_name)
+    const [queryEmbedding = []] = await this.embeddings.embed([request.query], options)
+    const queryTerms = searchTerms(request.query)
+
+    const scored = [...this.documents.values()]
+      .filter((document) => document.collection_name === request.collection_name)
+      .map((document) => ({
+        id: document.id,
+        content: document.content,
+        metadata: document.metadata,
+        embedding: document.embedding,
+        similarity_score: hybridScore(
+          cosineSimilarity(queryEmbedding, document.embedding),
+          keywordScore(queryTerms, document.terms),
+          this.keywordWeight
+        ),
+      }))
+    return searchResponse(request, applySearchOptions(scored, request), startTime)
+  }
+
+  async addDocument(document: VectorDocument, options: ServiceCallOptions = {}): Promise<string> {
+    this.requireCollection(document.collection_name)
+    if (this.documents.has(document.id)) {
+      throw new ApiError(ERROR_CODES.RESOURCE_CONFLICT, `Vector document ${document.id} already exists`, HTTP_STATUS.CONFLICT)
+    }
+    const embedding = await documentEmbedding(this.embeddings, document.content, document.embedding, options)
+    this.documents.set(document.id, { ...document, embedding, terms: new Set(searchTerms(document.content)) })
+    return document.id
+  }
+
+  async updateDocument(id: string, changes: Partial<VectorDocument>, options: ServiceCallOptions = {}): Promise<void> {
+    const existing = this.documents.get(id)
+    if (!existing) {
+      throw notFound('Vector document', id)
+    }
+    if (changes.collection_name !== undefined) {
+      this.requireCollection(changes.collection_name)
+    }
+
+    const content = changes.content ?? existing.content
+    // New content without a new embedding is embedded again
+    const embedding =
+      changes.embedding || changes.content !== undefined
+        ? await documentEmbedding(this.embeddings, content, changes.embedding, options)
+        : existing.embedding
+    this.documents.set(id, {
+      ...existing,
+      ...changes,
+      id,
+      created_at: existing.created_at,
+      updated_at: changes.updated_at ?? new Date().toISOString(),
+      content,
+      embedding,
+      terms: new Set(searchTerms(content)),
+    })
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    if (!this.documents.delete(id)) {
+      throw notFound('Vector document', id)
+    }
+  }
+
+  async getDocument(id: string): Promise<VectorDocument> {
+    const document = this.documents.get(id)
+    if (!document) {
+      throw notFound('Vector document', id)
+    }
+    const { terms: _terms, ...stored } = document
+    return stored
+  }
+
+  async listDocuments(
+    collectionName: string,
+    pagination: { page: number; page_size: number }
+  ): Promise<PaginatedResponse<VectorDocument>> {
+    this.requireCollection(collectionName)
+    const matching = [...this.documents.values()]
+      .filter((document) => document.collection_name === collectionName)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    const offset = (pagination.page - 1) * pagination.page_size
+    return {
+      data: matching.slice(offset, offset + pagination.page_size).map(({ terms: _terms, ...document }) => document),
+      total_count: matching.length,
+      page: pagination.page,
+      page_size: pagination.page_size,
+      has_more: matching.length > offset + pagination.page_size,
+    }
+  }
+
+  async createCollection(name: string, metadata: Record<string, unknown> = {}): Promise<void> {
+    if (this.collections.has(name)) {
+      throw new ApiError(ERROR_CODES.RESOURCE_CONFLICT, `Vector collection ${name} already exists`, HTTP_STATUS.CONFLICT)
+    }
+    this.collections.set(name, { metadata, created_at: new Date().toISOString() })
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    this.requireCollection(name)
+    this.collections.delete(name)
+    for (const [id, document] of this.documents) {
+      if (document.collection_name === name) {
+        this.documents.delete(id)
+      }
+    }
+  }
+
+  async listCollections(): Promise<string[]> {
+    return [...this.collections.keys()].sort()
+  }
+
+  async healthCheck(): Promise<HttpHealth> {
+    return { status: 'connected' }
+  }
+
+  private requireCollection(name: string): StoredCollection {
+    const collection = this.collections.get(name)
+    if (!collection) {
+      throw notFound('Vector collection', name)
+    }
+    return collection
+  }
+}
@@ -0,0 +1,70 @@
+import { classifyMessage, maxUrgency } from '../lib/message-classifier.js'
+import { repositories } from '../repositories/index.js'
+import { bamlClient } from './baml-client.js'
+import { careTeamAlerts, type CareTeamAlerts } from './care-team-alerts.js'
+import type { BAMLServiceClient, MedicalContext, Message, MessageAnalysis } from '../types/index.js'
+
+// Classifies incoming user messages with the BAML classifier, falling back on
+// the rule-based one when the service is not configured or fails. The rules'
+// red flags also set a floor for the BAML classifier's urgency, so a missed
+// emergency cannot come from the model alone. The analysis is stored on the
+// message as metadata.analysis; critical urgency raises a care team alert,
+// recorded as metadata.care_team_alert.
+
+export class MessageAnalyzer {
+  constructor(
+    private baml: BAMLServiceClient | undefined = bamlClient,
+    private alerts: CareTeamAlerts = careTeamAlerts
+  ) {}
+
+  // Off when MEDICAL_URGENCY_DETECTION=false, for every thread
+  get enabled(): boolean {
+    return this.alerts.urgencyDetection
+  }
+
+  async analyze(
+    userId: string,
+    message: Message,
+    options: { patient_id?: string; medical_context?: MedicalContext } = {}
+  ): Promise<MessageAnalysis> {
+    const rules = classifyMessage(message.content)
+    let classification = rules
+    if (this.baml) {
+      try {
+        const classified = await this.baml.classifyMessage(message.content, options.medical_context)
+        classification = {
+          ...classified,
+          medical_urgency: maxUrgency(classified.medical_urgency ?? 'low', rules.medical_urgency ?? 'low'),
+        }
+      } catch (error) {
+        console.warn('Message classification failed, using rules:', error instanceof Error ? error.message : error)
+      }
+    }
+
+    const analysis: MessageAnalysis = {
+      ...classification,
+      message_id: message.id,
+      analyzed_at: new Date().toISOString(),
+    }
+    const alert =
+      analysis.medical_urgency === 'critical'
+        ? await this.alerts.raise({
+            thread_id: message.thread_id,
+            message_id: message.id,
+            user_id: userId,
+            patient_id: options.patient_id,
+            content: message.content,
+            analysis,
+            generated_by: rules.medical_urgency === 'critical' ? 'clinical_rule' : 'ai_analysis',
+          })
+        : undefined
+
+    // Derived data, stored whoever may read the thread
+    await repositories.messages.update(message.thread_id, message.id, {
+      metadata: { ...message.metadata, analysis, ...(alert ? { care_team_alert: alert } : {}) },
+    })
+    return analysis
+  }
+}
+
+export const messageAnalyzer = new MessageAnalyzer()
@@ -0,0 +1,266 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js'
+import { ApiError, databaseError, notFound } from '../lib/errors.js'
+import { MATCH_VECTOR_DOCUMENTS, VECTOR_TABLES } from '../lib/pgvector-schema.js'
+import { applySearchOptions, searchResponse, searchTerms } from '../lib/vector-search.js'
+import { documentEmbedding, type EmbeddingProvider } from './embeddings.js'
+import type { HttpHealth } from './http-transport.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  type PaginatedResponse,
+  type ServiceCallOptions,
+  type VectorDocument,
+  type VectorSearchRequest,
+  type VectorSearchResponse,
+  type VectorSearchResult,
+  type VectorServiceClient,
+} from '../types/index.js'
+
+// Vector store in the Supabase Postgres database using pgvector, set up by
+// the SQL from cli/generate-vector-schema.ts. Similarity is computed by the
+// match_vector_documents function.
+
+const DOCUMENT_COLUMNS = 'id, collection_name, content, metadata, embedding, created_at, updated_at'
+
+// pgvector columns arrive as text such as "[0.1,0.2]"
+type Embedding = number[] | string
+
+interface DocumentRow {
+  id: string
+  collection_name: string
+  content: string
+  metadata: VectorDocument['metadata'] | null
+  embedding: Embedding | null
+  created_at: string
+  updated_at: string
+}
+
+interface MatchRow {
+  id: string
+  content: string
+  metadata: Record<string, unknown> | null
+  embedding: Embedding | null
+  similarity_score: number
+}
+
+function parseEmbedding(embedding: Embedding | null): number[] | undefined {
+  if (embedding === null) {
+    return undefined
+  }
+  return typeof embedding === 'string' ? (JSON.parse(embedding) as number[]) : embedding
+}
+
+function toDocument(row: DocumentRow): VectorDocument {
+  return {
+    id: row.id,
+    collection_name: row.collection_name,
+    content: row.content,
+    metadata: row.metadata ?? undefined,
+    embedding: parseEmbedding(row.embedding),
+    // Postgres timestamps carry an offset, the API's are in UTC
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  }
+}
+
+function withSignal<Q extends { abortSignal(signal: AbortSignal): Q }>(query: Q, signal?: AbortSignal): Q {
+  return signal ? query.abortSignal(signal) : query
+}
+
+export class PgVectorClient implements VectorServiceClient {
+  constructor(
+    private client: SupabaseClient,
+    private embeddings: EmbeddingProvider,
+    private keywordWeight = 0
+  ) {}
+
+  async search(request: VectorSearchRequest, options: ServiceCallOptions = {}): Promise<VectorSearchResponse> {
+    const startTime = Date.now()
+    await this.requireCollection(request.collection_name, options.signal)
+    const [queryEmbedding] = await this.embeddings.embed([request.query], options)
+
+    const { data, error } = await withSignal(
+      this.client.rpc(MATCH_VECTOR_DOCUMENTS, {
+        query_embedding: queryEmbedding,
+        query_terms: searchTerms(request.query),
+        collection: request.collection_name,
+        match_threshold: request.similarity_threshold,
+        match_count: request.limit,
+        filters: request.filters ?? {},
+        keyword_weight: this.keywordWeight,
+        include_embeddings: request.include_embeddings,
+      }),
+      options.signal
+    )
+    if (error) {
+      throw this.failure('search', error)
+    }
+
+    const results: VectorSearchResult[] = ((data ?? []) as MatchRow[]).map((row) => ({
+      id: row.id,
+      content: row.content,
+      metadata: row.metadata ?? undefined,
+      embedding: parseEmbedding(row.embedding),
+      similarity_score: row.similarity_score,
+    }))
+    return searchResponse(request, applySearchOptions(results, request), startTime)
+  }
+
+  async addDocument(document: VectorDocument, options: ServiceCallOptions = {}): Promise<string> {
+    const embedding = await documentEmbedding(this.embeddings, document.content, document.embedding, options)
+    const { error } = await withSignal(
+      this.client.from(VECTOR_TABLES.documents).insert({ ...document, embedding }),
+      options.signal
+    )
+    if (error) {
+      throw this.failure('insert', error, { document: document.id, collection: document.collection_name })
+    }
+    return document.id
+  }
+
+  async updateDocument(id: string, changes: Partial<VectorDocument>, options: ServiceCallOptions = {}): Promise<void> {
+    const { id: _id, created_at: _createdAt, ...fields } = changes
+    // New content without a new embedding is embedded again
+    const embedding =
+      fields.embedding || fields.content !== undefined
+        ? await documentEmbedding(this.embeddings, fields.content ?? '', fields.embedding, options)
+        : undefined
+    const { data, error } = await withSignal(
+      this.client
+        .from(VECTOR_TABLES.documents)
+        .update({ ...fields, embedding, updated_at: fields.updated_at ?? new Date().toISOString() })
+        .eq('id', id)
+        .select('id'),
+      options.signal
+    )
+    if (error) {
+      throw this.failure('update', error, { document: id, collection: fields.collection_name })
+    }
+    if (!data?.length) {
+      throw notFound('Vector document', id)
+    }
+  }
+
+  async deleteDocument(id: string, options: ServiceCallOptions = {}): Promise<void> {
+    const { data, error } = await withSignal(
+      this.client.from(VECTOR_TABLES.documents).delete().eq('id', id).select('id'),
+      options.signal
+    )
+    if (error) {
+      throw this.failure('delete', error)
+    }
+    if (!data?.length) {
+      throw notFound('Vector document', id)
+    }
+  }
+
+  async getDocument(id: string, options: ServiceCallOptions = {}): Promise<VectorDocument> {
+    const { data, error } = await withSignal(
+      this.client.from(VECTOR_TABLES.documents).select(DOCUMENT_COLUMNS).eq('id', id),
+      options.signal
+    ).maybeSingle()
+    if (error) {
+      throw this.failure('lookup', error)
+    }
+    if (!data) {
+      throw notFound('Vector document', id)
+    }
+    return toDocument(data as DocumentRow)
+  }
+
+  async listDocuments(
+    collectionName: string,
+    pagination: { page: number; page_size: number },
+    options: ServiceCallOptions = {}
+  ): Promise<PaginatedResponse<VectorDocument>> {
+    await this.requireCollection(collectionName, options.signal)
+    const offset = (pagination.page - 1) * pagination.page_size
+    const { data, error, count } = await withSignal(
+      this.client
+        .from(VECTOR_TABLES.documents)
+        .select(DOCUMENT_COLUMNS, { count: 'exact' })
+        .eq('collection_name', collectionName)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + pagination.page_size - 1),
+      options.signal
+    )
+    if (error) {
+      throw this.failure('query', error)
+    }
+    return {
+      data: ((data ?? []) as DocumentRow[]).map(toDocument),
+      total_count: count ?? 0,
+      page: pagination.page,
+      page_size: pagination.page_size,
+      has_more: (count ?? 0) > offset + pagination.page_size,
+    }
+  }
+
+  async createCollection(name: string, metadata: Record<string, unknown> = {}, options: ServiceCallOptions = {}): Promise<void> {
+    const { error } = await withSignal(
+      this.client.from(VECTOR_TABLES.collections).insert({ name, metadata }),
+      options.signal
+    )
+    if (error) {
+      throw this.failure('insert', error, { collection: name })
+    }
+  }
+
+  // Documents in the collection are removed with it
+  async deleteCollection(name: string, options: ServiceCallOptions = {}): Promise<void> {
+    const { data, error } = await withSignal(
+      this.client.from(VECTOR_TABLES.collections).delete().eq('name', name).select('name'),
+      options.signal
+    )
+    if (error) {
+      throw this.failure('delete', error)
+    }
+    if (!data?.length) {
+      throw notFound('Vector collection', name)
+    }
+  }
+
+  async listCollections(options: ServiceCallOptions = {}): Promise<string[]> {
+    const { data, error } = await withSignal(
+      this.client.from(VECTOR_TABLES.collections).select('name').order('name'),
+      options.signal
+    )
+    if (error) {
+      throw this.failure('query', error)
+    }
+    return ((data ?? []) as Array<{ name: string }>).map((row) => row.name)
+  }
+
+  async healthCheck(): Promise<HttpHealth> {
+    const { error } = await this.client.from(VECTOR_TABLES.collections).select('name', { head: true }).limit(1)
+    return error ? { status: 'error', message: error.message } : { status: 'connected' }
+  }
+
+  private async requireCollection(name: string, signal?: AbortSignal): Promise<void> {
+    const { data, error } = await withSignal(
+      this.client.from(VECTOR_TABLES.collections).select('name').eq('name', name),
+      signal
+    ).maybeSingle()
+    if (error) {
+      throw this.failure('lookup', error)
+    }
+    if (!data) {
+      throw notFound('Vector collection', name)
+    }
+  }
+
+  // Unique and foreign key violations are the caller's doing; anything else
+  // is a database failure
+  private failure(operation: string, error: PostgrestError, subject: { document?: string; collection?: string } = {}): ApiError {
+    if (error.code === '23505') {
+      const [resource, id] = subject.document
+        ? ['Vector document', subject.document]
+        : ['Vector collection', subject.collection]
+      return new ApiError(ERROR_CODES.RESOURCE_CONFLICT, `${resource} ${id} already exists`, HTTP_STATUS.CONFLICT)
+    }
+    if (error.code === '23503') {
+      return notFound('Vector collection', subject.collection ?? 'unknown')
+    }
+    return databaseError(`Vector ${operation} failed: ${error.message}`)
+  }
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { ResilientServiceClient, isRetryable, retryDelay, type ResilientClientConfig } from './resilient-client.js'
+import { ApiError } from '../lib/errors.js'
+import { InMemoryDataStore } from '../lib/memory-store.js'
+import { setDataStore } from '../repositories/index.js'
+import { ERROR_CODES, HTTP_STATUS, TABLE_NAMES, type ServiceRequestsTable } from '../types/index.js'
+
+const config: ResilientClientConfig = {
+  timeoutSeconds: 1,
+  retry: { max_retries: 2, retry_delay_ms: 1, exponential_backoff: true },
+  circuit: { failureThreshold: 3, resetTimeoutMs: 60_000 },
+}
+
+const unavailable = () => new ApiError(ERROR_CODES.BAML_SERVICE_ERROR, 'BAML is down', HTTP_STATUS.SERVICE_UNAVAILABLE)
+
+let store: InMemoryDataStore
+
+beforeEach(() => {
+  store = new InMemoryDataStore()
+  setDataStore(store)
+})
+
+describe('retryDelay', () => {
+  test('backs off exponentially with equal jitter up to the cap', () => {
+    const retry = { max_retries: 3, retry_delay_ms: 500, exponential_backoff: true }
+    expect(retryDelay(retry, 0, () => 0)).toBe(250)
+    expect(retryDelay(retry, 2, () => 1)).toBe(2000)
+    expect(retryDelay(retry, 10, () => 1)).toBe(30_000)
+    expect(retryDelay({ ...retry, exponential_backoff: false }, 3, () => 0.5)).toBe(375)
+  })
+})
+
+describe('isRetryable', () => {
+  test('retries transient failures only', () => {
+    expect(isRetryable(new TypeError('fetch failed'))).toBe(true)
+    expect(isRetryable(unavailable())).toBe(true)
+    expect(isRetryable(new ApiError(ERROR_CODES.VALIDATION_ERROR, 'Bad prompt', HTTP_STATUS.UNPROCESSABLE_ENTITY))).toBe(false)
+  })
+})
+
+describe('ResilientServiceClient', () => {
+  test('retries until the task succeeds and records every attempt', async () => {
+    const client = new ResilientServiceClient('baml', config)
+    const retries: number[] = []
+    let calls = 0
+
+    const result = await client.call(
+      { operation: 'generate_response', parameters: { patient_id: 'p-1', prompt: 'secret' }, onRetry: (attempt) => retries.push(attempt) },
+      async () => {
+        calls++
+        if (calls < 3) {
+          throw unavailable()
+        }
+        return { text: 'ok' }
+      }
+    )
+
+    expect(result).toMatchObject({ data: { text: 'ok' }, retry_count: 2 })
+    expect(retries).toEqual([0, 1])
+
+    const recorded = await store.findMany<ServiceRequestsTable>(TABLE_NAMES.SERVICE_REQUESTS, { orderBy: 'retry_count', orderDirection: 'asc' })
+    expect(recorded.map((request) => request.status)).toEqual(['failed', 'failed', 'completed'])
+    expect(recorded[0]?.parameters).toEqual({ patient_id: 'p-1', prompt: { size_bytes: 8 } })
+  })
+
+  test('does not retry errors the service answered with', async () => {
+    const client = new ResilientServiceClient('baml', config)
+    let calls = 0
+
+    await expect(
+      client.call({ operation: 'generate_response' }, async () => {
+        calls++
+        throw new ApiError(ERROR_CODES.VALIDATION_ERROR, 'Bad prompt', HTTP_STATUS.UNPROCESSABLE_ENTITY)
+      })
+    ).rejects.toMatchObject({ code: ERROR_CODES.VALIDATION_ERROR, details: { attempts: 1 } })
+    expect(calls).toBe(1)
+    expect(client.breaker.status().consecutive_failures).toBe(0)
+  })
+
+  test('wraps network errors once retries run out', async () => {
+    const client = new ResilientServiceClient('vector', config)
+
+    await expect(
+      client.call({ operation: 'search' }, async () => {
+        throw new TypeError('fetch failed')
+      })
+    ).rejects.toMatchObject({
+      code: ERROR_CODES.VECTOR_SERVICE_ERROR,
+      status: HTTP_STATUS.BAD_GATEWAY,
+      message: 'Vector request failed: fetch failed',
+      details: { attempts: 3 },
+    })
+  })
+
+  test('times out a hung attempt', async () => {
+    const client = new ResilientServiceClient('e2b', { ...config, retry: { ...config.retry, max_retries: 0 } })
+
+    await expect(
+      client.call({ operation: 'execute_code', timeout_seconds: 0.05 }, () => new Promise(() => {}))
+    ).rejects.toMatchObject({ code: ERROR_CODES.SERVICE_TIMEOUT, status: HTTP_STATUS.GATEWAY_TIMEOUT })
+  })
+
+  test('fails fast once the circuit opens', async () => {
+    const client = new ResilientServiceClient('baml', config)
+    let calls = 0
+    const failing = async () => {
+      calls++
+      throw unavailable()
+    }
+
+    await expect(client.call({ operation: 'generate_response' }, failing)).rejects.toMatchObject({ status: 503 })
+    expect(calls).toBe(3)
+
+    await expect(client.call({ operation: 'generate_response' }, failing)).rejects.toMatchObject({
+      code: ERROR_CODES.SERVICE_UNAVAILABLE,
+      details: { circuit: 'open', attempts: 0 },
+    })
+    expect(calls).toBe(3)
+  })
+})
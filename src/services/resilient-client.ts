@@ -0,0 +1,314 @@
+import { ApiError } from '../lib/errors.js'
+import { repositories } from '../repositories/index.js'
+import { CircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  type CircuitBreakerStatus,
+  type ErrorCode,
+  type RetryConfig,
+  type ServiceCallOptions,
+  type ServiceRequest,
+  type ServiceRequestsTable,
+} from '../types/index.js'
+
+// Shared wrapper for outbound BAML, vector and E2B calls. Every attempt runs
+// under a hard timeout and is recorded in service_requests, without the
+// content of its request and response; failures that may be transient
+// (timeouts, network errors, 429 and 503) are retried with exponential
+// backoff and jitter per the call's retry_config, and a circuit breaker per
+// service fails calls fast while the service keeps failing.
+
+export type ServiceName = ServiceRequest['service_name']
+
+export interface ResilientClientConfig {
+  timeoutSeconds: number
+  retry: RetryConfig
+  circuit: CircuitBreakerOptions
+}
+
+export interface ServiceCall extends ServiceCallOptions {
+  operation: string
+  // Recorded with each attempt as ids and sizes only
+  parameters?: Record<string, unknown>
+}
+
+export interface ServiceCallResult<T> {
+  data: T
+  request_id: string
+  retry_count: number
+}
+
+export const SERVICE_ERROR_CODES: Record<ServiceName, ErrorCode> = {
+  baml: ERROR_CODES.BAML_SERVICE_ERROR,
+  vector: ERROR_CODES.VECTOR_SERVICE_ERROR,
+  e2b: ERROR_CODES.E2B_SERVICE_ERROR,
+}
+
+export const SERVICE_LABELS: Record<ServiceName, string> = {
+  baml: 'BAML',
+  vector: 'Vector',
+  e2b: 'E2B',
+}
+
+const MAX_RETRY_DELAY_MS = 30_000
+
+export function loadResilientClientConfig(env: NodeJS.ProcessEnv = process.env): ResilientClientConfig {
+  return {
+    timeoutSeconds: integerSetting(env, 'SERVICE_TIMEOUT_SECONDS', 30, 1),
+    retry: {
+      max_retries: integerSetting(env, 'SERVICE_MAX_RETRIES', 2, 0),
+      retry_delay_ms: integerSetting(env, 'SERVICE_RETRY_DELAY_MS', 500, 1),
+      exponential_backoff: true,
+    },
+    circuit: {
+      failureThreshold: integerSetting(env, 'SERVICE_CIRCUIT_FAILURE_THRESHOLD', 5, 1),
+      resetTimeoutMs: integerSetting(env, 'SERVICE_CIRCUIT_RESET_SECONDS', 30, 1) * 1000,
+    },
+  }
+}
+
+function integerSetting(env: NodeJS.ProcessEnv, name: string, fallback: number, min: number): number {
+  const value = env[name]
+  if (value === undefined || value === '') {
+    return fallback
+  }
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${name} "${value}", expected an integer of at least ${min}`)
+  }
+  return parsed
+}
+
+// Delay before retry number `attempt + 1`. Half of it is random ("equal
+// jitter") so clients retrying together spread out.
+export function retryDelay(retry: RetryConfig, attempt: number, random: () => number = Math.random): number {
+  const base = retry.exponential_backoff ? retry.retry_delay_ms * 2 ** attempt : retry.retry_delay_ms
+  const capped = Math.min(base, MAX_RETRY_DELAY_MS)
+  return Math.round(capped / 2 + (random() * capped) / 2)
+}
+
+const RETRYABLE_STATUSES: number[] = [
+  HTTP_STATUS.TOO_MANY_REQUESTS,
+  HTTP_STATUS.SERVICE_UNAVAILABLE,
+  HTTP_STATUS.GATEWAY_TIMEOUT,
+]
+
+// Errors thrown by the task that are worth another attempt: ApiErrors for
+// rate limiting, unavailability and timeouts, and errors other than ApiError,
+// which are network or protocol failures
+export function isRetryable(error: unknown): boolean {
+  if (!(error instanceof ApiError)) {
+    return true
+  }
+  return RETRYABLE_STATUSES.includes(error.status)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
+
+// service_requests is an operational log without access control of its own,
+// while request and response bodies carry prompts, message content and
+// patient context. Only the ids in a body and the sizes of its other fields
+// are recorded.
+function describePayload(data: unknown): Record<string, unknown> {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return { value: describeField(data) }
+  }
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      (key === 'id' || key.endsWith('_id')) && typeof value === 'string' ? value : describeField(value),
+    ])
+  )
+}
+
+function describeField(value: unknown): Record<string, number> {
+  const size = jsonSize(value)
+  return Array.isArray(value) ? { items: value.length, size_bytes: size } : { size_bytes: size }
+}
+
+function jsonSize(value: unknown): number {
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? '')
+  } catch {
+    return 0
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+export class ResilientServiceClient {
+  readonly breaker: CircuitBreaker
+
+  constructor(
+    readonly serviceName: ServiceName,
+    private config: ResilientClientConfig = loadResilientClientConfig()
+  ) {
+    this.breaker = new CircuitBreaker(SERVICE_LABELS[serviceName], config.circuit)
+  }
+
+  // Run `task` until it succeeds, fails with an error that is not
+  // retryable, or runs out of retries. The task must stop when its signal
+  // aborts. Final failures are thrown as ApiError with the request_id and
+  // number of attempts in their details.
+  async call<T>(call: ServiceCall, task: (signal: AbortSignal) => Promise<T>): Promise<ServiceCallResult<T>> {
+    const requestId = call.request_id ?? crypto.randomUUID()
+    const retry = call.retry_config ?? this.config.retry
+
+    for (let attempt = 0; ; attempt++) {
+      const startTime = Date.now()
+      try {
+        this.breaker.acquire()
+      } catch (error) {
+        throw this.finalError(error, requestId, attempt)
+      }
+
+      try {
+        const data = await this.attempt(call, task)
+        this.breaker.recordSuccess()
+        await this.record(call, requestId, attempt, startTime, { status: 'completed', response_data: data })
+        return { data, request_id: requestId, retry_count: attempt }
+      } catch (error) {
+        const cancelled = call.signal?.aborted === true
+        const timedOut = error instanceof ApiError && error.code === ERROR_CODES.SERVICE_TIMEOUT
+        await this.record(call, requestId, attempt, startTime, {
+          status: timedOut ? 'timeout' : 'failed',
+          error_details: errorMessage(error),
+        })
+
+        if (cancelled) {
+          this.breaker.release()
+          throw this.finalError(error, requestId, attempt + 1)
+        }
+        if (!isRetryable(error)) {
+          // The service answered; the request itself was at fault
+          this.breaker.recordSuccess()
+          throw this.finalError(error, requestId, attempt + 1)
+        }
+        this.breaker.recordFailure()
+        if (attempt >= retry.max_retries) {
+          throw this.finalError(error, requestId, attempt + 1)
+        }
+        call.onRetry?.(attempt, error)
+      }
+
+      await sleep(retryDelay(retry, attempt), call.signal)
+      if (call.signal?.aborted) {
+        throw this.finalError(this.cancelled(call), requestId, attempt + 1)
+      }
+    }
+  }
+
+  // One attempt under the hard timeout, rejecting as soon as it expires or
+  // the caller aborts
+  private async attempt<T>(call: ServiceCall, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const timeoutSeconds = call.timeout_seconds ?? this.config.timeoutSeconds
+    const label = `${SERVICE_LABELS[this.serviceName]} ${call.operation}`
+    const controller = new AbortController()
+    const cancel = () => controller.abort(this.cancelled(call))
+    if (call.signal?.aborted) {
+      cancel()
+    }
+    call.signal?.addEventListener('abort', cancel, { once: true })
+    const timer = setTimeout(() => {
+      controller.abort(
+        new ApiError(ERROR_CODES.SERVICE_TIMEOUT, `${label} timed out after ${timeoutSeconds}s`, HTTP_STATUS.GATEWAY_TIMEOUT)
+      )
+    }, timeoutSeconds * 1000)
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        if (controller.signal.aborted) {
+          reject(controller.signal.reason)
+          return
+        }
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true })
+        task(controller.signal).then(resolve, reject)
+      })
+    } finally {
+      clearTimeout(timer)
+      call.signal?.removeEventListener('abort', cancel)
+    }
+  }
+
+  private cancelled(call: ServiceCall): ApiError {
+    return new ApiError(
+      SERVICE_ERROR_CODES[this.serviceName],
+      `${SERVICE_LABELS[this.serviceName]} ${call.operation} was cancelled`
+    )
+  }
+
+  private finalError(error: unknown, requestId: string, attempts: number): ApiError {
+    if (error instanceof ApiError) {
+      return new ApiError(error.code, error.message, error.status, {
+        ...error.details,
+        request_id: requestId,
+        attempts,
+      })
+    }
+    return new ApiError(
+      SERVICE_ERROR_CODES[this.serviceName],
+      `${SERVICE_LABELS[this.serviceName]} request failed: ${errorMessage(error)}`,
+      HTTP_STATUS.BAD_GATEWAY,
+      { request_id: requestId, attempts }
+    )
+  }
+
+  // Recording failures are logged and never fail the call
+  private async record(
+    call: ServiceCall,
+    requestId: string,
+    attempt: number,
+    startTime: number,
+    outcome: { status: ServiceRequestsTable['status']; response_data?: unknown; error_details?: string }
+  ): Promise<void> {
+    const { response_data: data, ...rest } = outcome
+    try {
+      await repositories.serviceRequests.record({
+        request_id: requestId,
+        service_name: this.serviceName,
+        operation: call.operation,
+        parameters: describePayload(call.parameters ?? {}),
+        response_data: data === undefined ? undefined : describePayload(data),
+        ...rest,
+        processing_time_ms: Date.now() - startTime,
+        retry_count: attempt,
+        created_at: new Date(startTime).toISOString(),
+        completed_at: new Date().toISOString(),
+      })
+    } catch (error) {
+      console.error(`Failed to record ${this.serviceName} ${call.operation} request:`, error)
+    }
+  }
+}
+
+const defaultConfig = loadResilientClientConfig()
+
+export const resilientClients: Record<ServiceName, ResilientServiceClient> = {
+  baml: new ResilientServiceClient('baml', defaultConfig),
+  vector: new ResilientServiceClient('vector', defaultConfig),
+  // Code executions are not idempotent, so they are only retried when a
+  // call asks for it
+  e2b: new ResilientServiceClient('e2b', { ...defaultConfig, retry: { ...defaultConfig.retry, max_retries: 0 } }),
+}
+
+export function circuitBreakerStatuses(): Record<ServiceName, CircuitBreakerStatus> {
+  return {
+    baml: resilientClients.baml.breaker.status(),
+    vector: resilientClients.vector.breaker.status(),
+    e2b: resilientClients.e2b.breaker.status(),
+  }
+}
@@ -0,0 +1,125 @@
+import { E2BSandboxBackend } from './e2b-backend.js'
+import { LocalSandboxBackend } from './local-backend.js'
+import type { E2BExecutionRequest, E2BExecutionResult } from '../types/integrations.js'
+
+// Where code actually runs. CodeExecutorService tracks executions and
+// sessions and delegates to a backend: E2BSandboxBackend runs code in E2B
+// cloud sandboxes, LocalSandboxBackend in a local subprocess or container.
+
+export type SandboxBackendName = 'e2b' | 'local'
+
+export interface SandboxRunOutput {
+  status: 'completed' | 'failed' | 'timeout'
+  stdout: string
+  stderr: string
+  return_value?: unknown
+  error_details?: E2BExecutionResult['error_details']
+  memory_used_mb?: number
+}
+
+export type SandboxOutputStream = 'stdout' | 'stderr'
+
+export interface SandboxRunOptions {
+  // Called with output as the code produces it
+  onOutput?: (stream: SandboxOutputStream, text: string) => void
+  // Stops the run; backends that cannot interrupt code let it finish
+  signal?: AbortSignal
+}
+
+// A file in a session, with `path` as the backend accepts it for downloadFile
+export interface SandboxFileInfo {
+  path: string
+  size_bytes: number
+  modified_at: number
+}
+
+export interface SandboxHealth {
+  status: 'connected' | 'disconnected' | 'error'
+  message?: string
+}
+
+export interface SandboxBackend {
+  readonly name: SandboxBackendName
+  createSession(): Promise<string>
+  run(sessionId: string, request: E2BExecutionRequest, options?: SandboxRunOptions): Promise<SandboxRunOutput>
+  uploadFile(sessionId: string, path: string, content: Buffer): Promise<string>
+  downloadFile(sessionId: string, path: string): Promise<Buffer>
+  // Every file in the session's working tree
+  listFiles(sessionId: string): Promise<SandboxFileInfo[]>
+  destroySession(sessionId: string): Promise<void>
+  healthCheck(): Promise<SandboxHealth>
+}
+
+export interface SandboxConfig {
+  backend: SandboxBackendName
+  e2bApiKey?: string
+  pythonPath: string
+  dockerImage?: string
+  session: SessionLimits
+  // Largest file accepted by uploads and kept as an artifact
+  maxUploadBytes: number
+  maxArtifactBytes: number
+}
+
+// Sessions are destroyed once older than ttlMs or unused for idleTimeoutMs
+export interface SessionLimits {
+  ttlMs: number
+  idleTimeoutMs: number
+  maxSessionsPerUser: number
+  maxSessions: number
+}
+
+function isSandboxBackendName(value: string): value is SandboxBackendName {
+  return value === 'e2b' || value === 'local'
+}
+
+// SANDBOX_BACKEND selects the backend, E2B by default. The local runner
+// executes code on the API host, so it is only used when asked for by name;
+// without E2B_API_KEY the default backend fails each execution instead.
+export function loadSandboxConfig(env: NodeJS.ProcessEnv = process.env): SandboxConfig {
+  const requested = env.SANDBOX_BACKEND
+  if (requested !== undefined && !isSandboxBackendName(requested)) {
+    throw new Error(`Invalid SANDBOX_BACKEND "${requested}", expected "e2b" or "local"`)
+  }
+
+  return {
+    backend: requested ?? 'e2b',
+    e2bApiKey: env.E2B_API_KEY || undefined,
+    pythonPath: env.SANDBOX_PYTHON || 'python3',
+    dockerImage: env.SANDBOX_DOCKER_IMAGE || undefined,
+    session: {
+      ttlMs: positiveInteger(env, 'SANDBOX_SESSION_TTL_SECONDS', 30 * 60) * 1000,
+      idleTimeoutMs: positiveInteger(env, 'SANDBOX_SESSION_IDLE_SECONDS', 10 * 60) * 1000,
+      maxSessionsPerUser: positiveInteger(env, 'SANDBOX_MAX_SESSIONS_PER_USER', 3),
+      maxSessions: positiveInteger(env, 'SANDBOX_MAX_SESSIONS', 20),
+    },
+    maxUploadBytes: positiveInteger(env, 'SANDBOX_MAX_UPLOAD_MB', 10) * 1024 * 1024,
+    maxArtifactBytes: positiveInteger(env, 'SANDBOX_MAX_ARTIFACT_MB', 25) * 1024 * 1024,
+  }
+}
+
+function positiveInteger(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name]
+  if (value === undefined || value === '') {
+    return fallback
+  }
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name} "${value}", expected a positive integer`)
+  }
+  return parsed
+}
+
+export function createSandboxBackend(config: SandboxConfig = loadSandboxConfig()): SandboxBackend {
+  if (config.backend === 'e2b') {
+    return new E2BSandboxBackend(config.e2bApiKey, config.session.ttlMs)
+  }
+  if (!config.dockerImage) {
+    console.warn(
+      'WARNING: SANDBOX_BACKEND=local without SANDBOX_DOCKER_IMAGE runs user code as a subprocess of the API ' +
+        'with its privileges, filesystem and network. Use it for local development only.'
+    )
+  }
+  return new LocalSandboxBackend({ pythonPath: config.pythonPath, dockerImage: config.dockerImage })
+}
@@ -0,0 +1,183 @@
+import { ApiError, notFound } from '../lib/errors.js'
+import { ERROR_CODES, HTTP_STATUS, type SandboxSession } from '../types/index.js'
+import type { SandboxBackend, SessionLimits } from './sandbox-backend.js'
+
+// Tracks the sandbox sessions open on a backend: who owns them, when they
+// expire and whether an execution is running in them. A background reaper
+// destroys sessions past their TTL or idle timeout; busy sessions are left
+// for a later pass.
+
+// How often the reaper looks for expired sessions
+const REAP_INTERVAL_MS = 30 * 1000
+
+interface SessionEntry {
+  id: string
+  ownerId?: string
+  createdAt: number
+  lastUsedAt: number
+  executionCount: number
+  // Executions currently running in the session
+  running: number
+}
+
+export class SandboxSessionManager {
+  private sessions = new Map<string, SessionEntry>()
+  // Sessions being created, counted against the limits until they exist
+  private pending = new Map<string | undefined, number>()
+  private reaper?: ReturnType<typeof setInterval>
+
+  constructor(
+    private backend: SandboxBackend,
+    private limits: SessionLimits
+  ) {}
+
+  // Open a session, optionally owned by a user. Fails with
+  // SESSION_LIMIT_EXCEEDED when the user or the server is at capacity.
+  async create(ownerId?: string): Promise<SandboxSession> {
+    await this.reap()
+    this.assertCapacity(ownerId)
+
+    this.pending.set(ownerId, (this.pending.get(ownerId) ?? 0) + 1)
+    try {
+      const id = await this.backend.createSession()
+      const now = Date.now()
+      const entry: SessionEntry = { id, ownerId, createdAt: now, lastUsedAt: now, executionCount: 0, running: 0 }
+      this.sessions.set(id, entry)
+      return this.toSession(entry)
+    } finally {
+      this.pending.set(ownerId, (this.pending.get(ownerId) ?? 1) - 1)
+    }
+  }
+
+  private assertCapacity(ownerId?: string): void {
+    const pendingTotal = [...this.pending.values()].reduce((sum, count) => sum + count, 0)
+    if (this.sessions.size + pendingTotal >= this.limits.maxSessions) {
+      throw new ApiError(
+        ERROR_CODES.SESSION_LIMIT_EXCEEDED,
+        `The sandbox session limit of ${this.limits.maxSessions} has been reached`,
+        HTTP_STATUS.SERVICE_UNAVAILABLE,
+        { limit: this.limits.maxSessions, scope: 'global' }
+      )
+    }
+
+    if (ownerId === undefined) {
+      return
+    }
+    const owned = this.list(ownerId).length + (this.pending.get(ownerId) ?? 0)
+    if (owned >= this.limits.maxSessionsPerUser) {
+      throw new ApiError(
+        ERROR_CODES.SESSION_LIMIT_EXCEEDED,
+        `At most ${this.limits.maxSessionsPerUser} sandbox sessions may be open per user`,
+        HTTP_STATUS.TOO_MANY_REQUESTS,
+        { limit: this.limits.maxSessionsPerUser, scope: 'user' }
+      )
+    }
+  }
+
+  has(sessionId: string): boolean {
+    return this.sessions.has(sessionId)
+  }
+
+  get(sessionId: string): SandboxSession | undefined {
+    const entry = this.sessions.get(sessionId)
+    return entry ? this.toSession(entry) : undefined
+  }
+
+  // Session owned by `ownerId`; sessions of other users are reported as not
+  // found so their ids are not disclosed
+  getOwned(sessionId: string, ownerId: string): SandboxSession {
+    const entry = this.sessions.get(sessionId)
+    if (!entry || entry.ownerId !== ownerId) {
+      throw notFound('Sandbox session', sessionId)
+    }
+    return this.toSession(entry)
+  }
+
+  list(ownerId?: string): SandboxSession[] {
+    return [...this.sessions.values()]
+      .filter((entry) => ownerId === undefined || entry.ownerId === ownerId)
+      .map((entry) => this.toSession(entry))
+  }
+
+  // Run `task` in a session, keeping the reaper away from it meanwhile
+  async use<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const entry = this.sessions.get(sessionId)
+    if (!entry) {
+      throw new Error(`Session ${sessionId} not found`)
+    }
+
+    entry.running += 1
+    entry.executionCount += 1
+    entry.lastUsedAt = Date.now()
+    try {
+      return await task()
+    } finally {
+      entry.running -= 1
+      entry.lastUsedAt = Date.now()
+    }
+  }
+
+  async destroy(sessionId: string): Promise<void> {
+    if (!this.sessions.delete(sessionId)) {
+      return
+    }
+
+    try {
+      await this.backend.destroySession(sessionId)
+    } catch (error) {
+      console.warn(`Error closing session ${sessionId}:`, error)
+    }
+  }
+
+  // Destroy every idle session past its TTL or idle timeout
+  async reap(now = Date.now()): Promise<string[]> {
+    const expired = [...this.sessions.values()]
+      .filter((entry) => entry.running === 0 && now >= this.expiresAt(entry))
+      .map((entry) => entry.id)
+
+    await Promise.all(expired.map((id) => this.destroy(id)))
+    return expired
+  }
+
+  startReaper(intervalMs = REAP_INTERVAL_MS): void {
+    if (this.reaper) {
+      return
+    }
+
+    this.reaper = setInterval(() => {
+      this.reap().catch((error) => {
+        console.error('Sandbox session reaper failed:', error)
+      })
+    }, intervalMs)
+    this.reaper.unref()
+  }
+
+  stopReaper(): void {
+    clearInterval(this.reaper)
+    this.reaper = undefined
+  }
+
+  // Stop reaping and destroy every session, e.g. on shutdown
+  async cleanup(): Promise<void> {
+    this.stopReaper()
+    await Promise.all([...this.sessions.keys()].map((id) => this.destroy(id)))
+  }
+
+  private expiresAt(entry: SessionEntry): number {
+    return Math.min(entry.createdAt + this.limits.ttlMs, entry.lastUsedAt + this.limits.idleTimeoutMs)
+  }
+
+  private toSession(entry: SessionEntry): SandboxSession {
+    return {
+      session_id: entry.id,
+      owner_id: entry.ownerId,
+      backend: this.backend.name,
+      status: entry.running > 0 ? 'busy' : 'idle',
+      execution_count: entry.executionCount,
+      created_at: new Date(entry.createdAt).toISOString(),
+      last_used_at: new Date(entry.lastUsedAt).toISOString(),
+      expires_at: new Date(entry.createdAt + this.limits.ttlMs).toISOString(),
+      idle_expires_at: new Date(entry.lastUsedAt + this.limits.idleTimeoutMs).toISOString(),
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { z } from 'zod'
+import { ApiError } from '../lib/errors.js'
+import { toJsonSchema, type JsonSchema } from '../lib/json-schema.js'
+import { authorize, getAccessScope, type Action, type Resource } from '../lib/permissions.js'
+import { formatIssues } from '../middleware/validation.js'
+import { MEDICAL_ANALYSIS_TOOLS } from './code-executor.js'
+import { prepareMedicalAnalysis } from './job-queue.js'
+import { vectorClient, type VectorClient } from './vector-client.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  MEDICAL_ANALYSIS_TOOL_NAMES,
+  VectorSearchRequestSchema,
+  type MedicalAnalysisToolName,
+  type RequestContext,
+} from '../types/index.js'
+
+// Tools the chat assistant may call. Each is described to the model by a
+// JSON Schema generated from the Zod schema its input is validated against.
+// Tool calls carry an object of parameters, so a tool whose input is not an
+// object takes it as `input`.
+
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: JsonSchema
+}
+
+export interface ChatTool extends ToolDefinition {
+  // Read-only tools, which run without approval when the thread's
+  // tool_settings.auto_execute_safe_tools allows it
+  safe: boolean
+  // The grant a caller needs for the tool to be offered to the model or run
+  permission: [Resource, Action]
+  // Resolves with the execution's output_data
+  run(parameters: Record<string, unknown>, context: RequestContext, signal?: AbortSignal): Promise<Record<string, unknown>>
+}
+
+function isObjectSchema(schema: z.ZodTypeAny): boolean {
+  return schema instanceof z.ZodObject || (schema instanceof z.ZodEffects && isObjectSchema(schema.innerType()))
+}
+
+// Runs MEDICAL_ANALYSIS_TOOLS templates through the code executor; a run
+// that does not complete fails the call
+function medicalAnalysisTool(name: MedicalAnalysisToolName): ChatTool {
+  const template = MEDICAL_ANALYSIS_TOOLS[name]
+  const inputSchema: z.ZodTypeAny = template.input_schema
+  const wrapped = !isObjectSchema(inputSchema)
+
+  return {
+    name,
+    description: template.description,
+    parameters: toJsonSchema(wrapped ? z.object({ input: inputSchema }) : inputSchema),
+    safe: true,
+    permission: ['code_execution', 'create'],
+    async run(parameters, context, signal) {
+      authorize(context, 'code_execution', 'create')
+      const task = await prepareMedicalAnalysis(name, wrapped ? parameters.input : parameters, context)
+      const result = await task({ signal })
+      if (result.status === 'timeout') {
+        throw new ApiError(ERROR_CODES.SERVICE_TIMEOUT, `${template.tool_name} timed out`, HTTP_STATUS.GATEWAY_TIMEOUT)
+      }
+      if (result.status !== 'completed') {
+        throw new Error(result.error_details?.error_message ?? `${template.tool_name} failed`)
+      }
+      return { result: result.return_value ?? null, execution_id: result.execution_id }
+    },
+  }
+}
+
+function vectorSearchTool(client: VectorClient): ChatTool {
+  return {
+    name: 'vector_search',
+    description: 'Search a collection of medical literature, guidelines and notes for passages similar to a query',
+    parameters: toJsonSchema(VectorSearchRequestSchema.omit({ include_embeddings: true })),
+    safe: true,
+    permission: ['vector_documents', 'read'],
+    async run(parameters, context, signal) {
+      authorize(context, 'vector_documents', 'read')
+      const request = VectorSearchRequestSchema.safeParse(parameters)
+      if (!request.success) {
+        throw new ApiError(ERROR_CODES.VALIDATION_ERROR, 'Invalid input for vector_search', HTTP_STATUS.UNPROCESSABLE_ENTITY, {
+          issues: formatIssues(request.error),
+        })
+      }
+      const response = await client.search({ ...request.data, include_embeddings: false }, { signal })
+      return { results: response.results, total_results: response.total_results }
+    },
+  }
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ChatTool>()
+
+  constructor(tools: ChatTool[]) {
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool)
+    }
+  }
+
+  get(name: string): ChatTool | undefined {
+    return this.tools.get(name)
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()]
+  }
+
+  // Whether the named tool exists and `context` holds its grant
+  permitted(name: string, context: RequestContext): boolean {
+    const tool = this.tools.get(name)
+    return !!tool && getAccessScope(context, ...tool.permission) !== null
+  }
+
+  // What the model is shown for the named tools
+  definitions(names: string[]): ToolDefinition[] {
+    return names.flatMap((name) => {
+      const tool = this.tools.get(name)
+      return tool ? [{ name: tool.name, description: tool.description, parameters: tool.parameters }] : []
+    })
+  }
+}
+
+// The medical analysis tools, and vector search when a vector backend is
+// configured
+export const toolRegistry = new ToolRegistry([
+  ...MEDICAL_ANALYSIS_TOOL_NAMES.map(medicalAnalysisTool),
+  ...(vectorClient ? [vectorSearchTool(vectorClient)] : []),
+])
@@ -0,0 +1,204 @@
+import { z } from 'zod'
+import { ApiError } from '../lib/errors.js'
+import { supabaseAdmin } from '../lib/db.js'
+import { applySearchOptions } from '../lib/vector-search.js'
+import { createEmbeddingProvider, type EmbeddingProvider } from './embeddings.js'
+import { HttpTransport, type HttpHealth, type HttpTransportOptions } from './http-transport.js'
+import { InMemoryVectorClient } from './memory-vector-client.js'
+import { PgVectorClient } from './pgvector-client.js'
+import { resilientClients, type ResilientServiceClient } from './resilient-client.js'
+import {
+  ERROR_CODES,
+  HTTP_STATUS,
+  VectorDocumentSchema,
+  VectorSearchResponseSchema,
+  type PaginatedResponse,
+  type ServiceCallOptions,
+  type VectorDocument,
+  type VectorSearchRequest,
+  type VectorSearchResponse,
+  type VectorServiceClient,
+} from '../types/index.js'
+
+// Client for the vector service at VECTOR_SERVICE_URL:
+//   POST   /search                                   VectorSearchRequest -> VectorSearchResponse
+//   GET    /collections                              -> { collections }
+//   POST   /collections                              { name, metadata }
+//   DELETE /collections/:name
+//   GET    /collections/:name/documents?page&page_size -> { documents, total }
+//   POST   /documents                                VectorDocument -> { id }
+//   GET    /documents/:id                            -> VectorDocument
+//   PATCH  /documents/:id                            Partial<VectorDocument>
+//   DELETE /documents/:id
+//   GET    /health
+// Search options are applied again to what the service returns, so the
+// threshold, filters and include flags hold whatever the service supports.
+
+const CollectionsResponseSchema = z.object({ collections: z.array(z.string()) })
+const AddDocumentResponseSchema = z.object({ id: z.string() })
+const DocumentPageSchema = z.object({ documents: z.array(VectorDocumentSchema), total: z.number().int().min(0) })
+
+type Method = 'GET' | 'POST' | 'PATCH' | 'DELETE'
+
+export class HttpVectorClient implements VectorServiceClient {
+  private transport: HttpTransport
+
+  constructor(
+    baseUrl: string,
+    options: HttpTransportOptions = {},
+    private resilient: ResilientServiceClient = resilientClients.vector
+  ) {
+    this.transport = new HttpTransport('vector', baseUrl, options)
+  }
+
+  get baseUrl(): string {
+    return this.transport.baseUrl
+  }
+
+  async search(request: VectorSearchRequest, options: ServiceCallOptions = {}): Promise<VectorSearchResponse> {
+    const response = await this.send('search', 'POST', '/search', { ...request }, VectorSearchResponseSchema, options)
+    const results = applySearchOptions(response.results, request)
+    return {
+      ...response,
+      results,
+      // The service's count no longer holds once results were dropped here
+      total_results: results.length < response.results.length ? results.length : response.total_results,
+      filters_applied: request.filters ?? response.filters_applied,
+    }
+  }
+
+  async addDocument(document: VectorDocument, options: ServiceCallOptions = {}): Promise<string> {
+    const response = await this.send('add_document', 'POST', '/documents', { ...document }, AddDocumentResponseSchema, options)
+    return response.id
+  }
+
+  async updateDocument(id: string, document: Partial<VectorDocument>, options: ServiceCallOptions = {}): Promise<void> {
+    await this.send('update_document', 'PATCH', `/documents/${encodeURIComponent(id)}`, { ...document }, undefined, options)
+  }
+
+  async deleteDocument(id: string, options: ServiceCallOptions = {}): Promise<void> {
+    await this.send('delete_document', 'DELETE', `/documents/${encodeURIComponent(id)}`, undefined, undefined, options)
+  }
+
+  async getDocument(id: string, options: ServiceCallOptions = {}): Promise<VectorDocument> {
+    return this.send('get_document', 'GET', `/documents/${encodeURIComponent(id)}`, undefined, VectorDocumentSchema, options)
+  }
+
+  async listDocuments(
+    collectionName: string,
+    pagination: { page: number; page_size: number },
+    options: ServiceCallOptions = {}
+  ): Promise<PaginatedResponse<VectorDocument>> {
+    const { documents, total } = await this.send(
+      'list_documents',
+      'GET',
+      `/collections/${encodeURIComponent(collectionName)}/documents`,
+      undefined,
+      DocumentPageSchema,
+      options,
+      { page: String(pagination.page), page_size: String(pagination.page_size) }
+    )
+    return {
+      data: documents,
+      total_count: total,
+      page: pagination.page,
+      page_size: pagination.page_size,
+      has_more: pagination.page * pagination.page_size < total,
+    }
+  }
+
+  async createCollection(name: string, metadata?: Record<string, unknown>, options: ServiceCallOptions = {}): Promise<void> {
+    await this.send('create_collection', 'POST', '/collections', { name, metadata }, undefined, options)
+  }
+
+  async deleteCollection(name: string, options: ServiceCallOptions = {}): Promise<void> {
+    await this.send('delete_collection', 'DELETE', `/collections/${encodeURIComponent(name)}`, undefined, undefined, options)
+  }
+
+  async listCollections(options: ServiceCallOptions = {}): Promise<string[]> {
+    const response = await this.send('list_collections', 'GET', '/collections', undefined, CollectionsResponseSchema, options)
+    return response.collections
+  }
+
+  async healthCheck(): Promise<HttpHealth> {
+    return this.transport.healthCheck()
+  }
+
+  private async send<T = void>(
+    operation: string,
+    method: Method,
+    path: string,
+    body: Record<string, unknown> | undefined,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown> | undefined,
+    options: ServiceCallOptions,
+    query?: Record<string, string>
+  ): Promise<T> {
+    const result = await this.resilient.call({ ...options, operation, parameters: body ?? { path } }, (signal) =>
+      this.transport.request({ method, path, body, query, schema, signal })
+    )
+    return result.data
+  }
+}
+
+export type VectorClient = VectorServiceClient & { healthCheck(): Promise<HttpHealth> }
+
+export interface VectorBackendConfig {
+  backend: 'http' | 'pgvector' | 'memory'
+  serviceUrl?: string
+  apiKey?: string
+  // Weight of keyword matches in the embedded backends' ranking; 0 unless
+  // VECTOR_SEARCH_MODE=hybrid
+  keywordWeight: number
+}
+
+export function loadVectorBackendConfig(env: NodeJS.ProcessEnv = process.env): VectorBackendConfig {
+  const backend = env.VECTOR_BACKEND || 'http'
+  if (backend !== 'http' && backend !== 'pgvector' && backend !== 'memory') {
+    throw new Error(`Invalid VECTOR_BACKEND "${backend}", expected "http", "pgvector" or "memory"`)
+  }
+
+  const mode = env.VECTOR_SEARCH_MODE || 'vector'
+  if (mode !== 'vector' && mode !== 'hybrid') {
+    throw new Error(`Invalid VECTOR_SEARCH_MODE "${mode}", expected "vector" or "hybrid"`)
+  }
+  const keywordWeight = Number(env.VECTOR_KEYWORD_WEIGHT || 0.3)
+  if (!(keywordWeight >= 0 && keywordWeight <= 1)) {
+    throw new Error(`Invalid VECTOR_KEYWORD_WEIGHT "${env.VECTOR_KEYWORD_WEIGHT}", expected a number from 0 to 1`)
+  }
+
+  return {
+    backend,
+    serviceUrl: env.VECTOR_SERVICE_URL || undefined,
+    apiKey: env.VECTOR_API_KEY,
+    keywordWeight: mode === 'hybrid' ? keywordWeight : 0,
+  }
+}
+
+// The configured vector backend: the external service at VECTOR_SERVICE_URL
+// (undefined when it is not set), pgvector tables in Supabase, which need
+// SUPABASE_SERVICE_ROLE_KEY, or an in-process store
+export function createVectorClient(
+  config: VectorBackendConfig = loadVectorBackendConfig(),
+  embeddings: () => EmbeddingProvider = () => createEmbeddingProvider()
+): VectorClient | undefined {
+  switch (config.backend) {
+    case 'pgvector':
+      if (!supabaseAdmin) {
+        throw new Error('VECTOR_BACKEND=pgvector requires SUPABASE_SERVICE_ROLE_KEY')
+      }
+      return new PgVectorClient(supabaseAdmin, embeddings(), config.keywordWeight)
+    case 'memory':
+      return new InMemoryVectorClient(embeddings(), config.keywordWeight)
+    case 'http':
+      return config.serviceUrl ? new HttpVectorClient(config.serviceUrl, { apiKey: config.apiKey }) : undefined
+  }
+}
+
+export const vectorClient = createVectorClient()
+
+export function requireVectorClient(): VectorClient {
+  if (!vectorClient) {
+    throw new ApiError(ERROR_CODES.SERVICE_UNAVAILABLE, 'VECTOR_SERVICE_URL is not set', HTTP_STATUS.SERVICE_UNAVAILABLE)
+  }
+  return vectorClient
+}
@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'bun:test'
+import { codeExecutor } from './code-executor.js'
+import { HashEmbeddingProvider } from './embeddings.js'
+import { InMemoryVectorClient } from './memory-vector-client.js'
+import { WorkflowOrchestrator, planWorkflow } from './workflow-orchestrator.js'
+import { ApiError } from '../lib/errors.js'
+import type { RequestContext, UserRole, Workflow, WorkflowStep } from '../types/index.js'
+
+function step(step_id: string, fields: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { step_id, service_name: 'vector', operation: 'list_collections', parameters: {}, timeout_seconds: 30, ...fields }
+}
+
+function workflow(name: string, steps: WorkflowStep[], context?: Record<string, unknown>): Workflow {
+  return { workflow_id: crypto.randomUUID(), name, steps, context, status: 'pending', created_at: new Date().toISOString() }
+}
+
+function context(role: UserRole): RequestContext {
+  return { request_id: 'req-1', timestamp: new Date().toISOString(), user_id: `${role}-1`, role, organization_id: 'org-1' }
+}
+
+function issuesOf(run: () => unknown): string[] {
+  try {
+    run()
+  } catch (error) {
+    expect(error).toBeInstanceOf(ApiError)
+    const { issues } = (error as ApiError).details as { issues: Array<{ path: string; message: string }> }
+    return issues.map((issue) => `${issue.path}: ${issue.message}`)
+  }
+  throw new Error('Expected the workflow to be rejected')
+}
+
+describe('planWorkflow', () => {
+  test('orders steps after their dependencies and keeps submitted order otherwise', () => {
+    const order = planWorkflow([
+      step('report', { depends_on: ['search', 'collections'] }),
+      step('search', { depends_on: ['collections'] }),
+      step('collections'),
+      step('audit'),
+    ])
+    expect(order.map((item) => item.step_id)).toEqual(['collections', 'audit', 'search', 'report'])
+  })
+
+  test('rejects duplicate ids, unknown operations and unknown dependencies', () => {
+    expect(
+      issuesOf(() =>
+        planWorkflow([step('a'), step('a', { operation: 'drop_everything' }), step('b', { depends_on: ['missing'] })])
+      )
+    ).toEqual([
+      'steps.1.step_id: Duplicate step id a',
+      expect.stringContaining('steps.1.operation: Unknown vector operation drop_everything'),
+      'steps.2.depends_on: Step b depends on unknown step missing',
+    ])
+  })
+
+  test('rejects dependency cycles', () => {
+    expect(
+      issuesOf(() => planWorkflow([step('a', { depends_on: ['b'] }), step('b', { depends_on: ['a'] }), step('c')]))
+    ).toEqual(['steps: Steps a, b form a dependency cycle'])
+  })
+
+  test('only allows references to steps that finish first', () => {
+    expect(
+      issuesOf(() =>
+        planWorkflow([
+          step('a'),
+          step('b', { condition: 'steps.a.status == "completed"' }),
+          step('c', { depends_on: ['a'], parameters: { query: '{{ env.SECRET }}' } }),
+          step('d', { depends_on: ['a'], condition: 'steps.a.result ==' }),
+        ])
+      )
+    ).toEqual([
+      'steps.1.condition: Step b references step a without depending on it',
+      'steps.2.parameters: Unknown reference root env; expected context or steps',
+      'steps.3.condition: Unexpected end of expression',
+    ])
+  })
+
+  test('checks every step against the caller grants', () => {
+    const steps = [step('search', { operation: 'search' }), step('add', { operation: 'add_document' })]
+
+    expect(planWorkflow(steps, context('clinician'))).toHaveLength(2)
+    expect(() => planWorkflow(steps, context('researcher'))).toThrow('Role researcher may not create vector_documents')
+    expect(() => planWorkflow([step('run', { service_name: 'e2b', operation: 'execute_code' })], context('patient'))).toThrow(
+      expect.objectContaining({ status: 403 })
+    )
+  })
+})
+
+describe('WorkflowOrchestrator', () => {
+  function orchestrator() {
+    return new WorkflowOrchestrator({ vector: new InMemoryVectorClient(new HashEmbeddingProvider(64)), e2b: codeExecutor })
+  }
+
+  test('passes results between steps and skips steps behind unmet conditions', async () => {
+    const steps = [
+      step('collection', { operation: 'create_collection', parameters: { name: '{{ context.collection }}' } }),
+      step('add', {
+        operation: 'add_document',
+        depends_on: ['collection'],
+        parameters: { collection_name: '{{ steps.collection.result.name }}', content: 'Hydroxyurea reduces pain crises' },
+      }),
+      step('search', {
+        operation: 'search',
+        depends_on: ['add'],
+        condition: 'steps.add.result.id != null',
+        parameters: { collection_name: 'papers', query: 'hydroxyurea pain', similarity_threshold: 0 },
+      }),
+      step('never', { depends_on: ['search'], condition: 'steps.search.result.total_count > 5' }),
+      step('after_never', { depends_on: ['never'] }),
+    ]
+    const execution = await orchestrator().executeWorkflow(workflow('Index and search', steps, { collection: 'papers' }))
+
+    const statuses = Object.fromEntries(execution.step_results.map((result) => [result.step_id, result.status]))
+    expect(statuses).toEqual({
+      collection: 'completed',
+      add: 'completed',
+      search: 'completed',
+      never: 'skipped',
+      after_never: 'skipped',
+    })
+    expect(execution.overall_status).toBe('completed')
+    const search = execution.step_results.find((result) => result.step_id === 'search')
+    expect((search?.result as { results: unknown[] }).results).toHaveLength(1)
+    expect(execution.step_results.at(-1)?.error).toBe('Dependency never skipped')
+  })
+
+  test('fails a step with invalid parameters and skips its dependents', async () => {
+    const steps = [step('remove', { operation: 'delete_document', parameters: {} }), step('list', { depends_on: ['remove'] })]
+    const execution = await orchestrator().executeWorkflow(workflow('Broken', steps))
+
+    expect(execution.overall_status).toBe('failed')
+    expect(execution.step_results.map((result) => [result.step_id, result.status])).toEqual([
+      ['remove', 'failed'],
+      ['list', 'skipped'],
+    ])
+    expect(execution.step_results[0]?.error).toBe('Invalid parameters for vector.delete_document')
+  })
+})
@@ -0,0 +1,502 @@
+import { z } from 'zod'
+import { ApiError } from '../lib/errors.js'
+import { authorize, type Action, type Resource } from '../lib/permissions.js'
+import {
+  conditionReferences,
+  evaluateCondition,
+  resolveTemplates,
+  SCOPE_ROOTS,
+  templateReferences,
+} from '../lib/workflow-expressions.js'
+import { formatIssues, type FieldIssue } from '../middleware/validation.js'
+import { codeExecutor, type CodeExecutorService } from './code-executor.js'
+import { prepareMedicalAnalysis } from './job-queue.js'
+import { resilientClients, SERVICE_ERROR_CODES, SERVICE_LABELS } from './resilient-client.js'
+import { bamlClient } from './baml-client.js'
+import { vectorClient } from './vector-client.js'
+import {
+  BAML_ANALYSIS_TYPES,
+  BAMLPromptSchema,
+  CitationSchema,
+  E2BExecutionRequestSchema,
+  ERROR_CODES,
+  HTTP_STATUS,
+  MEDICAL_ANALYSIS_TOOL_NAMES,
+  MedicalContextSchema,
+  VectorDocumentSchema,
+  VectorSearchRequestSchema,
+  WORKFLOW_OPERATIONS,
+  type BAMLServiceClient,
+  type E2BExecutionResult,
+  type RequestContext,
+  type ServiceCallOptions,
+  type ServiceOrchestrator,
+  type ServiceResponse,
+  type VectorServiceClient,
+  type Workflow,
+  type WorkflowExecution,
+  type WorkflowStep,
+  type WorkflowStepResult,
+} from '../types/index.js'
+
+// Runs workflows: DAGs of steps calling the BAML, vector and E2B services.
+// Steps start as soon as every step they depend on has completed, so
+// independent branches run in parallel. A step whose condition is false is
+// skipped, and so is every step depending on a skipped or failed step.
+// Parameters may reference the workflow context and earlier results through
+// `{{ steps.<id>.result... }}` templates (see lib/workflow-expressions.ts).
+
+type ServiceName = WorkflowStep['service_name']
+
+export interface ServiceClients {
+  baml?: BAMLServiceClient
+  vector?: VectorServiceClient
+  e2b: CodeExecutorService
+}
+
+export interface StepOptions {
+  // Caller the step runs for; sandbox sessions are owned by them and
+  // patient data is checked against their permissions
+  context?: RequestContext
+  signal?: AbortSignal
+}
+
+export interface WorkflowRunOptions extends StepOptions {
+  executionId?: string
+  // Called with a snapshot whenever a step changes status
+  onProgress?: (execution: WorkflowExecution) => void
+}
+
+// What conditions and templates can reference
+interface WorkflowScope {
+  context: Record<string, unknown>
+  steps: Record<string, { status: WorkflowStepResult['status']; result?: unknown; error?: string }>
+}
+
+const CANCELLED_MESSAGE = 'Workflow was cancelled'
+
+// Parameter schemas for operations that do not take a service request type
+// as is
+const OPERATION_SCHEMAS = {
+  analyze_medical_data: z.object({
+    context: MedicalContextSchema,
+    analysis_type: z.enum(BAML_ANALYSIS_TYPES),
+  }),
+  generate_literature_query: z.object({ query: z.string().min(1), context: MedicalContextSchema.optional() }),
+  synthesize_findings: z.object({ citations: z.array(CitationSchema), context: MedicalContextSchema.optional() }),
+  add_document: VectorDocumentSchema.partial({ id: true, created_at: true, updated_at: true }),
+  update_document: z.object({ id: z.string(), document: VectorDocumentSchema.partial() }),
+  delete_document: z.object({ id: z.string() }),
+  create_collection: z.object({ name: z.string().min(1), metadata: z.record(z.unknown()).optional() }),
+  medical_analysis: z.object({ tool_name: z.enum(MEDICAL_ANALYSIS_TOOL_NAMES), input: z.unknown() }),
+}
+
+// The grant each operation needs, matching the integration routes. Medical
+// analyses check the patient's data when the step is prepared.
+const OPERATION_PERMISSIONS: Record<string, [Resource, Action]> = {
+  'baml.generate_response': ['prompts', 'create'],
+  'baml.analyze_medical_data': ['prompts', 'create'],
+  'baml.generate_literature_query': ['prompts', 'create'],
+  'baml.synthesize_findings': ['prompts', 'create'],
+  'vector.search': ['vector_documents', 'read'],
+  'vector.add_document': ['vector_documents', 'create'],
+  'vector.update_document': ['vector_documents', 'update'],
+  'vector.delete_document': ['vector_documents', 'delete'],
+  'vector.create_collection': ['vector_collections', 'create'],
+  'vector.list_collections': ['vector_collections', 'read'],
+  'e2b.execute_code': ['code_execution', 'create'],
+}
+
+function authorizeStep(step: WorkflowStep, context: RequestContext): void {
+  const permission = OPERATION_PERMISSIONS[`${step.service_name}.${step.operation}`]
+  if (permission) {
+    authorize(context, ...permission)
+  }
+}
+
+function parseParameters<T extends z.ZodTypeAny>(schema: T, step: WorkflowStep, parameters: unknown): z.output<T> {
+  const parsed = schema.safeParse(parameters)
+  if (!parsed.success) {
+    throw new ApiError(
+      ERROR_CODES.VALIDATION_ERROR,
+      `Invalid parameters for ${step.service_name}.${step.operation}`,
+      HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      { issues: formatIssues(parsed.error) }
+    )
+  }
+  return parsed.data
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// Check a workflow's steps and return them in topological order, keeping the
+// submitted order among steps that are ready together. Throws a 422 listing
+// every problem found, or a 403 when `context` may not run one of the steps.
+export function planWorkflow(steps: WorkflowStep[], context?: RequestContext): WorkflowStep[] {
+  const issues: FieldIssue[] = []
+  const issue = (path: string, message: string) => issues.push({ path, message, code: 'invalid_workflow' })
+  const byId = new Map<string, WorkflowStep>()
+
+  for (const [index, step] of steps.entries()) {
+    if (byId.has(step.step_id)) {
+      issue(`steps.${index}.step_id`, `Duplicate step id ${step.step_id}`)
+    }
+    byId.set(step.step_id, step)
+
+    const operations: readonly string[] = WORKFLOW_OPERATIONS[step.service_name]
+    if (!operations.includes(step.operation)) {
+      issue(`steps.${index}.operation`, `Unknown ${step.service_name} operation ${step.operation}; expected one of ${operations.join(', ')}`)
+    }
+  }
+
+  for (const [index, step] of steps.entries()) {
+    for (const dependency of step.depends_on ?? []) {
+      if (dependency === step.step_id || !byId.has(dependency)) {
+        issue(`steps.${index}.depends_on`, `Step ${step.step_id} depends on unknown step ${dependency}`)
+      }
+    }
+  }
+  if (issues.length > 0) {
+    throw invalidWorkflow(issues)
+  }
+
+  if (context) {
+    for (const step of steps) {
+      authorizeStep(step, context)
+    }
+  }
+
+  // Kahn's algorithm
+  const order: WorkflowStep[] = []
+  const ancestors = new Map<string, Set<string>>()
+  let remaining = steps
+  while (remaining.length > 0) {
+    const ready = remaining.filter((step) => (step.depends_on ?? []).every((id) => ancestors.has(id)))
+    if (ready.length === 0) {
+      throw invalidWorkflow([
+        {
+          path: 'steps',
+          message: `Steps ${remaining.map((step) => step.step_id).join(', ')} form a dependency cycle`,
+          code: 'invalid_workflow',
+        },
+      ])
+    }
+    for (const step of ready) {
+      const stepAncestors = new Set<string>()
+      for (const id of step.depends_on ?? []) {
+        stepAncestors.add(id)
+        for (const ancestor of ancestors.get(id) ?? []) {
+          stepAncestors.add(ancestor)
+        }
+      }
+      ancestors.set(step.step_id, stepAncestors)
+      order.push(step)
+    }
+    remaining = remaining.filter((step) => !ready.includes(step))
+  }
+
+  // References must point into the scope, and only at steps guaranteed to
+  // have finished first
+  for (const [index, step] of steps.entries()) {
+    const check = (path: string, references: () => string[][]) => {
+      try {
+        for (const [root, stepId] of references()) {
+          if (!SCOPE_ROOTS.includes(root as (typeof SCOPE_ROOTS)[number])) {
+            issue(path, `Unknown reference root ${root}; expected ${SCOPE_ROOTS.join(' or ')}`)
+          } else if (root === 'steps' && (!stepId || !ancestors.get(step.step_id)?.has(stepId))) {
+            issue(path, `Step ${step.step_id} references step ${stepId ?? '(none)'} without depending on it`)
+          }
+        }
+      } catch (error) {
+        issue(path, errorMessage(error))
+      }
+    }
+
+    if (step.condition !== undefined) {
+      const condition = step.condition
+      check(`steps.${index}.condition`, () => conditionReferences(condition))
+    }
+    check(`steps.${index}.parameters`, () => templateReferences(step.parameters))
+  }
+  if (issues.length > 0) {
+    throw invalidWorkflow(issues)
+  }
+
+  return order
+}
+
+function invalidWorkflow(issues: FieldIssue[]): ApiError {
+  return new ApiError(ERROR_CODES.VALIDATION_ERROR, 'Invalid workflow', HTTP_STATUS.UNPROCESSABLE_ENTITY, { issues })
+}
+
+export class WorkflowOrchestrator implements ServiceOrchestrator {
+  constructor(private clients: ServiceClients) {}
+
+  getServiceClient(serviceName: ServiceName): BAMLServiceClient | VectorServiceClient | CodeExecutorService {
+    const client = this.clients[serviceName]
+    if (!client) {
+      throw new ApiError(
+        ERROR_CODES.SERVICE_UNAVAILABLE,
+        `${SERVICE_LABELS[serviceName]} service client is not configured`,
+        HTTP_STATUS.SERVICE_UNAVAILABLE
+      )
+    }
+    return client
+  }
+
+  // Run one step against `context`, the workflow scope its templates are
+  // resolved in. Service calls go through the resilient clients, which
+  // enforce the step's timeout and retry_config. Failures are reported in
+  // the response rather than thrown.
+  async executeStep(
+    step: WorkflowStep,
+    context: Record<string, unknown> = {},
+    options: StepOptions = {}
+  ): Promise<ServiceResponse> {
+    const startTime = Date.now()
+    const requestId = crypto.randomUUID()
+    let retryCount = 0
+    const response = (fields: Pick<ServiceResponse, 'status' | 'data' | 'error'>): ServiceResponse => ({
+      request_id: requestId,
+      service_name: step.service_name,
+      operation: step.operation,
+      ...fields,
+      metadata: { processing_time_ms: Date.now() - startTime, retry_count: retryCount },
+      timestamp: new Date().toISOString(),
+    })
+
+    try {
+      if (options.context) {
+        authorizeStep(step, options.context)
+      }
+      const parameters = resolveTemplates(step.parameters, context)
+      const data = await this.dispatch(step, parameters, options.context, {
+        signal: options.signal,
+        timeout_seconds: step.timeout_seconds,
+        retry_config: step.retry_config,
+        request_id: requestId,
+        onRetry: () => {
+          retryCount++
+        },
+      })
+      return response({ status: 'success', data })
+    } catch (error) {
+      const code = error instanceof ApiError ? error.code : SERVICE_ERROR_CODES[step.service_name]
+      return response({
+        status: code === ERROR_CODES.SERVICE_TIMEOUT ? 'timeout' : 'error',
+        error: {
+          code,
+          message: errorMessage(error),
+          details: error instanceof ApiError ? error.details : undefined,
+        },
+      })
+    }
+  }
+
+  async executeWorkflow(workflow: Workflow, options: WorkflowRunOptions = {}): Promise<WorkflowExecution> {
+    const order = planWorkflow(workflow.steps, options.context)
+    const { signal, onProgress } = options
+    const execution: WorkflowExecution = {
+      execution_id: options.executionId ?? crypto.randomUUID(),
+      workflow_id: workflow.workflow_id,
+      step_results: order.map((step) => ({ step_id: step.step_id, status: 'pending' })),
+      overall_status: 'running',
+      context: workflow.context,
+      started_at: new Date().toISOString(),
+    }
+    const scope: WorkflowScope = { context: workflow.context ?? {}, steps: {} }
+
+    const update = (stepId: string, changes: Omit<WorkflowStepResult, 'step_id'>) => {
+      execution.step_results = execution.step_results.map((result) =>
+        result.step_id === stepId ? { ...result, ...changes } : result
+      )
+      onProgress?.(structuredClone(execution))
+    }
+
+    const finish = (stepId: string, changes: Omit<WorkflowStepResult, 'step_id'>) => {
+      scope.steps[stepId] = { status: changes.status, result: changes.result, error: changes.error }
+      update(stepId, { ...changes, completed_at: new Date().toISOString() })
+    }
+
+    const runStep = async (step: WorkflowStep, dependencies: Promise<void>[]): Promise<void> => {
+      await Promise.all(dependencies)
+
+      const blocker = (step.depends_on ?? []).find((id) => scope.steps[id]?.status !== 'completed')
+      if (signal?.aborted) {
+        return finish(step.step_id, { status: 'skipped', error: CANCELLED_MESSAGE })
+      }
+      if (blocker) {
+        return finish(step.step_id, { status: 'skipped', error: `Dependency ${blocker} ${scope.steps[blocker]?.status}` })
+      }
+      try {
+        if (step.condition !== undefined && !evaluateCondition(step.condition, scope)) {
+          return finish(step.step_id, { status: 'skipped', error: 'Condition not met' })
+        }
+      } catch (error) {
+        return finish(step.step_id, { status: 'failed', error: `Invalid condition: ${errorMessage(error)}` })
+      }
+
+      update(step.step_id, { status: 'running', started_at: new Date().toISOString() })
+      const response = await this.executeStep(step, { ...scope }, options)
+      if (response.status === 'success') {
+        return finish(step.step_id, { status: 'completed', result: response.data })
+      }
+      finish(step.step_id, {
+        status: 'failed',
+        result: response.data,
+        error: signal?.aborted ? CANCELLED_MESSAGE : response.error?.message,
+      })
+    }
+
+    // In topological order every dependency's promise exists before it is
+    // awaited
+    const settled = new Map<string, Promise<void>>()
+    for (const step of order) {
+      const dependencies = (step.depends_on ?? []).map((id) => settled.get(id) ?? Promise.resolve())
+      settled.set(step.step_id, runStep(step, dependencies))
+    }
+    await Promise.all(settled.values())
+
+    execution.overall_status = signal?.aborted
+      ? 'cancelled'
+      : execution.step_results.some((result) => result.status === 'failed')
+        ? 'failed'
+        : 'completed'
+    execution.completed_at = new Date().toISOString()
+    return execution
+  }
+
+  private async dispatch(
+    step: WorkflowStep,
+    parameters: unknown,
+    context: RequestContext | undefined,
+    call: ServiceCallOptions
+  ): Promise<unknown> {
+    switch (step.service_name) {
+      case 'baml':
+        return this.dispatchBaml(step, parameters, call)
+      case 'vector':
+        return this.dispatchVector(step, parameters, call)
+      case 'e2b':
+        return this.dispatchE2B(step, parameters, context, call)
+    }
+  }
+
+  private async dispatchBaml(step: WorkflowStep, parameters: unknown, call: ServiceCallOptions): Promise<unknown> {
+    const client = this.getServiceClient('baml') as BAMLServiceClient
+
+    switch (step.operation) {
+      case 'generate_response':
+        return client.generateResponse(parseParameters(BAMLPromptSchema, step, parameters), call)
+      case 'analyze_medical_data': {
+        const { context, analysis_type } = parseParameters(OPERATION_SCHEMAS.analyze_medical_data, step, parameters)
+        return client.analyzeMedicalData(context, analysis_type, call)
+      }
+      case 'generate_literature_query': {
+        const { query, context } = parseParameters(OPERATION_SCHEMAS.generate_literature_query, step, parameters)
+        return { query: await client.generateLiteratureQuery(query, context, call) }
+      }
+      case 'synthesize_findings': {
+        const { citations, context } = parseParameters(OPERATION_SCHEMAS.synthesize_findings, step, parameters)
+        return { synthesis: await client.synthesizeFindings(citations, context, call) }
+      }
+    }
+    throw this.unknownOperation(step)
+  }
+
+  private async dispatchVector(step: WorkflowStep, parameters: unknown, call: ServiceCallOptions): Promise<unknown> {
+    const client = this.getServiceClient('vector') as VectorServiceClient
+
+    switch (step.operation) {
+      case 'search':
+        return client.search(parseParameters(VectorSearchRequestSchema, step, parameters), call)
+      case 'add_document': {
+        const document = parseParameters(OPERATION_SCHEMAS.add_document, step, parameters)
+        const now = new Date().toISOString()
+        const id = await client.addDocument({
+          ...document,
+          id: document.id ?? crypto.randomUUID(),
+          created_at: document.created_at ?? now,
+          updated_at: document.updated_at ?? now,
+        }, call)
+        return { id }
+      }
+      case 'update_document': {
+        const { id, document } = parseParameters(OPERATION_SCHEMAS.update_document, step, parameters)
+        await client.updateDocument(id, document, call)
+        return { id }
+      }
+      case 'delete_document': {
+        const { id } = parseParameters(OPERATION_SCHEMAS.delete_document, step, parameters)
+        await client.deleteDocument(id, call)
+        return { id }
+      }
+      case 'create_collection': {
+        const { name, metadata } = parseParameters(OPERATION_SCHEMAS.create_collection, step, parameters)
+        await client.createCollection(name, metadata, call)
+        return { name }
+      }
+      case 'list_collections':
+        return { collections: await client.listCollections(call) }
+    }
+    throw this.unknownOperation(step)
+  }
+
+  // E2B steps fail unless the execution completes
+  private async dispatchE2B(
+    step: WorkflowStep,
+    parameters: unknown,
+    context: RequestContext | undefined,
+    call: ServiceCallOptions
+  ): Promise<unknown> {
+    const executor = this.getServiceClient('e2b') as CodeExecutorService
+
+    let run: (signal: AbortSignal) => Promise<E2BExecutionResult>
+    switch (step.operation) {
+      case 'execute_code': {
+        const request = parseParameters(E2BExecutionRequestSchema, step, parameters)
+        run = (signal) => executor.executeCode(request, { ownerId: context?.user_id, signal })
+        break
+      }
+      case 'medical_analysis': {
+        if (!context) {
+          throw new ApiError(ERROR_CODES.UNAUTHORIZED, 'Medical analysis steps require a user', HTTP_STATUS.UNAUTHORIZED)
+        }
+        const { tool_name, input } = parseParameters(OPERATION_SCHEMAS.medical_analysis, step, parameters)
+        const task = await prepareMedicalAnalysis(tool_name, input, context)
+        run = (signal) => task({ signal })
+        break
+      }
+      default:
+        throw this.unknownOperation(step)
+    }
+
+    const { data: result } = await resilientClients.e2b.call(
+      { ...call, operation: step.operation, parameters: parameters as Record<string, unknown> },
+      run
+    )
+
+    // The code failed rather than the service
+    if (result.status !== 'completed') {
+      throw new ApiError(
+        result.status === 'timeout' ? ERROR_CODES.SERVICE_TIMEOUT : ERROR_CODES.E2B_SERVICE_ERROR,
+        result.error_details?.error_message ?? `Execution ${result.status}`,
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        { execution_id: result.execution_id, result }
+      )
+    }
+    return result
+  }
+
+  private unknownOperation(step: WorkflowStep): ApiError {
+    return new ApiError(
+      ERROR_CODES.INVALID_INPUT,
+      `Unknown ${step.service_name} operation ${step.operation}`,
+      HTTP_STATUS.UNPROCESSABLE_ENTITY
+    )
+  }
+}
+
+export const orchestrator = new WorkflowOrchestrator({ baml: bamlClient, vector: vectorClient, e2b: codeExecutor })
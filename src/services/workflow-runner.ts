@@ -0,0 +1,109 @@
+import { repositories } from '../repositories/index.js'
+import type { UpdateWorkflowExecutionInput } from '../repositories/workflow-executions.js'
+import { orchestrator, planWorkflow, type WorkflowOrchestrator } from './workflow-orchestrator.js'
+import type { RequestContext, SubmitWorkflowRequest, WorkflowExecutionsTable } from '../types/index.js'
+
+// Runs submitted workflows in the background and persists their progress,
+// including every step result, to workflow_executions. Runs live in this
+// process; ones interrupted by a restart are failed on startup.
+
+export function isWorkflowFinished(execution: WorkflowExecutionsTable): boolean {
+  return execution.overall_status !== 'pending' && execution.overall_status !== 'running'
+}
+
+export class WorkflowRunner {
+  private running = new Map<string, AbortController>()
+
+  constructor(private orchestrator: WorkflowOrchestrator) {}
+
+  // Validate and persist the workflow, then start it for `context`
+  async submit(
+    request: SubmitWorkflowRequest,
+    context: RequestContext & { user_id: string }
+  ): Promise<WorkflowExecutionsTable> {
+    const order = planWorkflow(request.steps, context)
+    const execution = await repositories.scoped(context).workflowExecutions.create({
+      workflow_id: request.workflow_id ?? crypto.randomUUID(),
+      user_id: context.user_id,
+      name: request.name,
+      description: request.description,
+      steps: request.steps,
+      context: request.context,
+      step_results: order.map((step) => ({ step_id: step.step_id, status: 'pending' })),
+    })
+
+    const controller = new AbortController()
+    this.running.set(execution.id, controller)
+    // run() records its own failures and never rejects
+    this.run(execution, context, controller.signal).finally(() => {
+      this.running.delete(execution.id)
+    })
+    return execution
+  }
+
+  // Abort a run in this process. Steps already running are cancelled where
+  // the service allows it and the rest are skipped.
+  cancel(id: string): boolean {
+    const controller = this.running.get(id)
+    if (!controller) {
+      return false
+    }
+    controller.abort()
+    return true
+  }
+
+  private async run(
+    execution: WorkflowExecutionsTable,
+    context: RequestContext,
+    signal: AbortSignal
+  ): Promise<void> {
+    // Progress updates are written one at a time, in order
+    let written = this.record(execution.id, { overall_status: 'running', started_at: new Date().toISOString() })
+    const enqueue = (changes: UpdateWorkflowExecutionInput) => {
+      written = written.then(() => this.record(execution.id, changes))
+    }
+
+    try {
+      const result = await this.orchestrator.executeWorkflow(
+        {
+          workflow_id: execution.workflow_id,
+          name: execution.name,
+          description: execution.description,
+          steps: execution.steps,
+          context: execution.context,
+          status: 'running',
+          created_at: execution.created_at,
+        },
+        {
+          executionId: execution.id,
+          context,
+          signal,
+          onProgress: (snapshot) => enqueue({ step_results: snapshot.step_results }),
+        }
+      )
+      enqueue({
+        step_results: result.step_results,
+        overall_status: result.overall_status,
+        error_message: result.overall_status === 'cancelled' ? 'Workflow was cancelled' : undefined,
+        completed_at: result.completed_at,
+      })
+    } catch (error) {
+      enqueue({
+        overall_status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date().toISOString(),
+      })
+    }
+    await written
+  }
+
+  private async record(id: string, changes: UpdateWorkflowExecutionInput): Promise<void> {
+    try {
+      await repositories.workflowExecutions.update(id, changes)
+    } catch (error) {
+      console.error(`Failed to record progress of workflow execution ${id}:`, error)
+    }
+  }
+}
+
+export const workflowRunner = new WorkflowRunner(orchestrator)
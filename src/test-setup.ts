@@ -0,0 +1,8 @@
+// Loaded before `bun test`. Modules that reach the repositories need the
+// Supabase settings to load; tests keep their records in memory instead.
+// Urgency detection is off unless a test gives it an alert channel.
+process.env.SUPABASE_URL ||= 'http://localhost:54321'
+process.env.SUPABASE_ANON_KEY ||= 'test-anon-key'
+process.env.DATA_STORE = 'memory'
+process.env.JWT_SECRET ||= 'test-jwt-secret'
+process.env.MEDICAL_URGENCY_DETECTION ||= 'false'
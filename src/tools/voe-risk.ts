@@ -8,27 +8,56 @@
  * `services/code-executor.ts`, ensuring compatibility with the E2B
  * environment.
  *
+ * When `patient_id` is present the patient's VOE history (episodes per 12
+ * months, hospitalization rate, mean pain score, ...) is loaded as the
+ * requesting user, who must be allowed to read it, and passed to the template
+ * as `voe_history`, unless the caller already supplied it.
+ *
  * Example:
  *   import { runVoeRiskAnalysis } from "../tools/voe-risk.js";
- *   const result = await runVoeRiskAnalysis({ age: 12, hbf_level: 3.2, ... });
+ *   const result = await runVoeRiskAnalysis({ patient_id, age: 12, hbf_level: 3.2, ... }, context);
  */
 
-import { codeExecutor, MEDICAL_ANALYSIS_TOOLS } from "../services/code-executor.js"
-import type { E2BExecutionResult } from "../types/integrations.js"
+import { repositories } from "../repositories/index.js"
+import { codeExecutor, MEDICAL_ANALYSIS_TOOLS, type ExecuteOptions } from "../services/code-executor.js"
+import type { RequestContext } from "../types/index.js"
+import type { MedicalAnalysisResult, VoeRiskAnalysisOutput } from "../types/integrations.js"
 
 export type PatientData = Record<string, unknown>
 
 /**
- * Execute the VOE Risk Analysis tool in an E2B sandbox.
+ * Attach the patient's VOE episode analytics as `voe_history`, read with the
+ * permissions of `context`.
+ */
+export async function withVoeHistory(patientData: PatientData, context: RequestContext): Promise<PatientData> {
+  if (patientData.voe_history || typeof patientData.patient_id !== "string") {
+    return patientData
+  }
+
+  const voeHistory = await repositories.scoped(context).voeEpisodes.analytics(patientData.patient_id)
+  return { ...patientData, voe_history: voeHistory }
+}
+
+/**
+ * Execute the VOE Risk Analysis tool in an E2B sandbox. The input is
+ * validated against `VoeRiskAnalysisInputSchema` and a completed result
+ * carries the parsed `VoeRiskAnalysisOutput` as `return_value`.
  * @param patientData – Plain JSON object with patient fields expected by the
- *   underlying Python script (age, hbf_level, hemoglobin, etc.).
+ *   underlying Python script (age, hbf_level, hemoglobin, etc.), optionally
+ *   with `patient_id` to include the patient's episode history.
+ * @param context – The requesting user, whose access the history is read with.
+ * @param options – Execution options such as the session or an abort signal.
  */
-export async function runVoeRiskAnalysis(patientData: PatientData = {}): Promise<E2BExecutionResult> {
+export async function runVoeRiskAnalysis(
+  patientData: PatientData,
+  context: RequestContext,
+  options: ExecuteOptions = {},
+): Promise<MedicalAnalysisResult<VoeRiskAnalysisOutput>> {
   const tool = MEDICAL_ANALYSIS_TOOLS.voe_risk_analysis
 
   if (!tool) {
     throw new Error("VOE Risk Analysis tool definition not found – check MEDICAL_ANALYSIS_TOOLS")
   }
 
-  return codeExecutor.executeMedicalAnalysis(tool, patientData)
+  return codeExecutor.executeMedicalAnalysis(tool, await withVoeHistory(patientData, context), options)
 }
@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import type { Citation } from './medical.js'
+import { IdParamSchema, PaginationQuerySchema } from './database.js'
 
 // Core Chat Types
 export const ThreadSchema = z.object({
@@ -25,9 +26,28 @@ export const MessageSchema = z.object({
     tokens_used: z.number().optional(),
     processing_time_ms: z.number().optional(),
     confidence_score: z.number().min(0).max(1).optional(),
-    citations: z.array(z.string().uuid()).optional(), // Citation IDs
+    citations: z.array(z.string()).optional(), // Ids of the Citations returned with the message
     tools_used: z.array(z.string()).optional(),
     error_details: z.string().optional(),
+    // Set on a reply paused for tool calls that need the user's approval;
+    // holds what is needed to pick the turn up again
+    awaiting_approval: z.object({
+      execution_ids: z.array(z.string().uuid()),
+      // Calls already run for the reply, fed back to the model with the rest
+      tool_result_ids: z.array(z.string().uuid()).optional(),
+      tools: z.array(z.string()),
+      patient_id: z.string().uuid().optional(),
+      include_recent_data: z.boolean().optional(),
+    }).optional(),
+    edited_from: z.string().uuid().optional(), // The message this one is an edit of
+    regenerated_from: z.string().uuid().optional(), // The reply this one was regenerated from
+    analysis: z.lazy(() => MessageAnalysisSchema).optional(), // Set on user messages when urgency detection is on
+    // Set when the analysis found critical urgency and the care team was alerted
+    care_team_alert: z.object({
+      raised_at: z.string().datetime(),
+      insight_id: z.string().uuid().optional(),
+      webhook_notified: z.boolean(),
+    }).optional(),
   }).optional(),
   parent_message_id: z.string().uuid().optional(), // For conversation threading
   created_at: z.string().datetime(),
@@ -88,10 +108,15 @@ export const MessageAnalysisSchema = z.object({
   analyzed_at: z.string().datetime(),
 })
 
+// What a classifier returns for a message's content
+export const MessageClassificationSchema = MessageAnalysisSchema.omit({ message_id: true, analyzed_at: true })
+
 // Tool Execution Results
 export const ToolExecutionSchema = z.object({
   id: z.string().uuid(),
-  message_id: z.string().uuid(),
+  message_id: z.string().uuid().optional(),
+  user_id: z.string().uuid().optional(),
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
   tool_name: z.string(),
   tool_version: z.string().optional(),
   input_parameters: z.record(z.unknown()),
@@ -117,15 +142,135 @@ export const ConversationContextSchema = z.object({
     mention_count: z.number(),
   })).optional(),
   active_patient_context: z.string().uuid().optional(), // Current patient being discussed
+  summarized_through: z.string().uuid().optional(), // Last message rolled into the summary
   last_updated: z.string().datetime(),
 })
 
+// Chat API Request Schemas
+export const CreateThreadRequestSchema = ThreadSchema.pick({
+  title: true,
+  description: true,
+  metadata: true,
+}).extend({
+  initial_message: z.string().min(1).optional(),
+  patient_id: z.string().uuid().optional(),
+})
+
+export const UpdateThreadRequestSchema = ThreadSchema.pick({
+  title: true,
+  description: true,
+  metadata: true,
+}).extend({
+  // Deletion goes through DELETE /api/threads/:id
+  status: z.enum(['active', 'archived']),
+}).partial()
+
+export const ThreadListQuerySchema = PaginationQuerySchema.extend({
+  status: ThreadSchema.shape.status.removeDefault().optional(),
+})
+
+// Message metadata clients may write. The rest is recorded by the server and
+// trusted by it, e.g. awaiting_approval names the tools a resumed reply runs
+// and care_team_alert says the care team was already alerted, so it is
+// dropped from requests.
+export const ClientMessageMetadataSchema = MessageSchema.shape.metadata.unwrap().omit({
+  model_used: true,
+  tokens_used: true,
+  awaiting_approval: true,
+  edited_from: true,
+  regenerated_from: true,
+  analysis: true,
+  care_team_alert: true,
+})
+
+export const CreateMessageRequestSchema = MessageSchema.pick({
+  content: true,
+  content_type: true,
+  parent_message_id: true,
+}).extend({
+  metadata: ClientMessageMetadataSchema.optional(),
+})
+
+export const UpdateMessageRequestSchema = MessageSchema.pick({
+  content: true,
+  content_type: true,
+}).extend({
+  metadata: ClientMessageMetadataSchema,
+}).partial()
+
+// ChatSettings['model_preferences']
+export const ModelPreferencesSchema = z.object({
+  primary_model: z.string().min(1),
+  fallback_model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2),
+  max_tokens: z.number().int().min(1),
+})
+
+// ChatSettings['tool_settings']
+export const ToolSettingsSchema = z.object({
+  enabled_tools: z.array(z.string()),
+  auto_execute_safe_tools: z.boolean(),
+  require_confirmation_for: z.array(z.string()),
+})
+
+// ChatSettings['medical_settings']
+export const MedicalSettingsSchema = z.object({
+  include_patient_context: z.boolean(),
+  auto_cite_medical_sources: z.boolean(),
+  medical_urgency_detection: z.boolean(),
+})
+
+export const ChatCompletionRequestSchema = z.object({
+  thread_id: z.string().uuid(),
+  message: z.string().min(1),
+  stream: z.boolean().optional(),
+  tools: z.array(z.string()).optional(),
+  medical_context: z.object({
+    patient_id: z.string().uuid().optional(),
+    include_recent_data: z.boolean().optional(),
+  }).optional(),
+  // Overrides the thread's and the server's model preferences
+  model_preferences: ModelPreferencesSchema.partial().optional(),
+  // Reply to this message instead of the thread's latest one, starting a new
+  // branch when it already has replies
+  parent_message_id: z.string().uuid().optional(),
+})
+
+// Answer the user message a reply follows again, as a sibling of the reply
+export const RegenerateRequestSchema = ChatCompletionRequestSchema.omit({
+  message: true,
+  parent_message_id: true,
+}).extend({
+  message_id: z.string().uuid(),
+})
+
+// Decisions on every tool call a paused reply is waiting for
+export const ToolApprovalRequestSchema = z.object({
+  thread_id: z.string().uuid(),
+  message_id: z.string().uuid(),
+  decisions: z.array(z.object({
+    execution_id: z.string().uuid(),
+    approved: z.boolean(),
+  })).min(1),
+})
+
+export const MessageParamSchema = IdParamSchema.extend({
+  messageId: z.string().uuid(),
+})
+
+export const ForkThreadRequestSchema = z.object({
+  message_id: z.string().uuid(),
+  title: ThreadSchema.shape.title.optional(),
+  description: z.string().optional(),
+})
+
 // Export TypeScript types
 export type Thread = z.infer<typeof ThreadSchema>
 export type Message = z.infer<typeof MessageSchema>
 export type MessageCitation = z.infer<typeof MessageCitationSchema>
 export type ChatSession = z.infer<typeof ChatSessionSchema>
 export type MessageAnalysis = z.infer<typeof MessageAnalysisSchema>
+export type MessageClassification = z.infer<typeof MessageClassificationSchema>
 export type ToolExecution = z.infer<typeof ToolExecutionSchema>
 export type ConversationContext = z.infer<typeof ConversationContextSchema>
 
@@ -161,6 +306,23 @@ export interface MessageListResponse {
   context?: ConversationContext
 }
 
+export interface MessageTreeNode extends Message {
+  children: MessageTreeNode[]
+}
+
+export interface MessageTreeResponse {
+  messages: MessageTreeNode[]
+  total_count: number
+}
+
+// A message's siblings, itself included, oldest first; `index` is its position
+export interface MessageBranchesResponse {
+  message_id: string
+  parent_message_id: string | null
+  index: number
+  branches: Message[]
+}
+
 export interface ChatCompletionRequest {
   thread_id: string
   message: string
@@ -170,6 +332,18 @@ export interface ChatCompletionRequest {
     patient_id?: string
     include_recent_data?: boolean
   }
+  model_preferences?: Partial<ChatSettings['model_preferences']>
+  parent_message_id?: string
+}
+
+export interface RegenerateRequest extends Omit<ChatCompletionRequest, 'message' | 'parent_message_id'> {
+  message_id: string
+}
+
+export interface ToolApprovalRequest {
+  thread_id: string
+  message_id: string
+  decisions: Array<{ execution_id: string; approved: boolean }>
 }
 
 export interface ChatCompletionResponse {
@@ -1,4 +1,11 @@
 import { z } from 'zod'
+import {
+  E2BExecutionRequestSchema,
+  JOB_PRIORITIES,
+  MEDICAL_ANALYSIS_TOOL_NAMES,
+  WorkflowExecutionSchema,
+  WorkflowStepSchema,
+} from './integrations.js'
 
 // Supabase Database Schema Types
 // These types should align with your actual Supabase database schema
@@ -144,7 +151,7 @@ export const MessagesTableSchema = z.object({
 export const ClinicalInsightsTableSchema = z.object({
   id: z.string().uuid(),
   patient_id: z.string().uuid(),
-  insight_type: z.enum(['risk_assessment', 'treatment_recommendation', 'lab_trend', 'medication_review']),
+  insight_type: z.enum(['risk_assessment', 'treatment_recommendation', 'lab_trend', 'medication_review', 'urgent_message']),
   title: z.string(),
   description: z.string(),
   severity: z.enum(['low', 'medium', 'high', 'critical']),
@@ -210,12 +217,19 @@ export const MessageCitationsTableSchema = z.object({
 // Tool Execution and Service Integration Tables
 export const ToolExecutionsTableSchema = z.object({
   id: z.string().uuid(),
-  message_id: z.string().uuid(),
+  // Set for tool calls made from a chat message; jobs submitted through
+  // /api/jobs have none
+  message_id: z.string().uuid().optional(),
+  // Who requested the execution, and owns the row
+  user_id: z.string().uuid(),
+  priority: z.enum(JOB_PRIORITIES).optional(),
   tool_name: z.string(),
   tool_version: z.string().optional(),
   input_parameters: z.record(z.unknown()),
   output_data: z.record(z.unknown()),
   execution_status: z.enum(['pending', 'running', 'completed', 'failed', 'timeout']),
+  // The server instance that queued or is running the execution
+  instance_id: z.string().optional(),
   execution_time_ms: z.number().optional(),
   error_message: z.string().optional(),
   started_at: z.string().datetime(),
@@ -237,6 +251,25 @@ export const ServiceRequestsTableSchema = z.object({
   completed_at: z.string().datetime().optional(),
 })
 
+// A workflow submitted to /api/workflows together with its progress
+export const WorkflowExecutionsTableSchema = z.object({
+  id: z.string().uuid(),
+  workflow_id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().optional(),
+  steps: z.array(WorkflowStepSchema),
+  context: z.record(z.unknown()).optional(),
+  step_results: WorkflowExecutionSchema.shape.step_results,
+  overall_status: WorkflowExecutionSchema.shape.overall_status,
+  // The server instance running the workflow
+  instance_id: z.string().optional(),
+  error_message: z.string().optional(),
+  created_at: z.string().datetime(),
+  started_at: z.string().datetime().optional(),
+  completed_at: z.string().datetime().optional(),
+})
+
 // Audit and Logging Tables
 export const AuditLogsTableSchema = z.object({
   id: z.string().uuid(),
@@ -265,7 +298,12 @@ export type RiskAssessmentsTable = z.infer<typeof RiskAssessmentsTableSchema>
 export type CitationsTable = z.infer<typeof CitationsTableSchema>
 export type MessageCitationsTable = z.infer<typeof MessageCitationsTableSchema>
 export type ToolExecutionsTable = z.infer<typeof ToolExecutionsTableSchema>
+export type SubmitJobRequest = z.infer<typeof SubmitJobRequestSchema>
+export type JobQuery = z.infer<typeof JobQuerySchema>
 export type ServiceRequestsTable = z.infer<typeof ServiceRequestsTableSchema>
+export type WorkflowExecutionsTable = z.infer<typeof WorkflowExecutionsTableSchema>
+export type SubmitWorkflowRequest = z.infer<typeof SubmitWorkflowRequestSchema>
+export type WorkflowQuery = z.infer<typeof WorkflowQuerySchema>
 export type AuditLogsTable = z.infer<typeof AuditLogsTableSchema>
 
 // Database Query Types
@@ -287,6 +325,17 @@ export interface PaginationParams {
   page_size: number
 }
 
+// Query string pagination (`?page=2&page_size=50`)
+export const PaginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+// Path parameter for routes addressed by a record id (`/:id`)
+export const IdParamSchema = z.object({
+  id: z.string().uuid(),
+})
+
 export interface PaginatedResponse<T> {
   data: T[]
   total_count: number
@@ -297,6 +346,7 @@ export interface PaginatedResponse<T> {
 
 // Database Operation Types
 export interface CreatePatientRequest {
+  user_id?: string
   medical_record_number?: string
   age: number
   gender: 'male' | 'female' | 'other'
@@ -326,6 +376,29 @@ export interface CreateLabResultRequest {
   notes?: string
 }
 
+export interface CreateMedicationRequest {
+  patient_id: string
+  medication_name: string
+  dosage: string
+  frequency: string
+  start_date: string
+  end_date?: string
+  indication?: string
+  prescriber?: string
+  active?: boolean
+}
+
+export interface UpdateMedicationRequest {
+  medication_name?: string
+  dosage?: string
+  frequency?: string
+  start_date?: string
+  end_date?: string
+  indication?: string
+  prescriber?: string
+  active?: boolean
+}
+
 export interface CreateVoeEpisodeRequest {
   patient_id: string
   episode_date: string
@@ -338,6 +411,151 @@ export interface CreateVoeEpisodeRequest {
   notes?: string
 }
 
+// Request validation schemas for the operations above
+export const CreatePatientRequestSchema = PatientsTableSchema.pick({
+  medical_record_number: true,
+  age: true,
+  gender: true,
+  scd_genotype: true,
+  diagnosis_date: true,
+  organization_id: true,
+}).extend({
+  user_id: z.string().uuid().optional(),
+})
+
+export const UpdatePatientRequestSchema = PatientsTableSchema.pick({
+  age: true,
+  gender: true,
+  scd_genotype: true,
+  diagnosis_date: true,
+}).partial()
+
+export const PatientSearchQuerySchema = PaginationQuerySchema.extend({
+  medical_record_number: z.string().min(1).optional(),
+  scd_genotype: PatientsTableSchema.shape.scd_genotype.optional(),
+  age_min: z.coerce.number().min(0).max(120).optional(),
+  age_max: z.coerce.number().min(0).max(120).optional(),
+  organization_id: z.string().uuid().optional(),
+}).refine(
+  (query) => query.age_min === undefined || query.age_max === undefined || query.age_min <= query.age_max,
+  { message: 'age_min must not exceed age_max', path: ['age_min'] }
+)
+
+export const CreateLabResultRequestSchema = LabResultsTableSchema.pick({
+  test_date: true,
+  hemoglobin: true,
+  hematocrit: true,
+  hbf_level: true,
+  reticulocyte_count: true,
+  white_blood_cell_count: true,
+  platelet_count: true,
+  lactate_dehydrogenase: true,
+  bilirubin_total: true,
+  notes: true,
+})
+
+export const BulkCreateLabResultsRequestSchema = z.object({
+  results: z.array(CreateLabResultRequestSchema).min(1).max(100),
+})
+
+// Paginated queries bounded by DatabaseFilters date_from/date_to
+const DateRangeQuerySchema = PaginationQuerySchema.extend({
+  date_from: z.string().datetime().optional(),
+  date_to: z.string().datetime().optional(),
+})
+
+const isOrderedDateRange = (query: { date_from?: string; date_to?: string }) =>
+  !query.date_from || !query.date_to || query.date_from <= query.date_to
+
+const DATE_RANGE_ERROR = { message: 'date_from must not be after date_to', path: ['date_from'] }
+
+export const LabResultQuerySchema = DateRangeQuerySchema.refine(isOrderedDateRange, DATE_RANGE_ERROR)
+
+export const CreateVoeEpisodeRequestSchema = VoeEpisodesTableSchema.pick({
+  episode_date: true,
+  severity: true,
+  location: true,
+  duration_hours: true,
+  hospitalization_required: true,
+  pain_score: true,
+  treatment_given: true,
+  notes: true,
+}).extend({
+  location: VoeEpisodesTableSchema.shape.location.min(1),
+})
+
+export const VoeEpisodeQuerySchema = DateRangeQuerySchema.extend({
+  severity: VoeEpisodesTableSchema.shape.severity.optional(),
+}).refine(isOrderedDateRange, DATE_RANGE_ERROR)
+
+const MedicationFieldsSchema = MedicationsTableSchema.pick({
+  medication_name: true,
+  dosage: true,
+  frequency: true,
+  start_date: true,
+  end_date: true,
+  indication: true,
+  prescriber: true,
+  active: true,
+})
+
+const isOrderedMedicationPeriod = (medication: { start_date?: string; end_date?: string }) =>
+  !medication.start_date || !medication.end_date || medication.start_date <= medication.end_date
+
+const MEDICATION_PERIOD_ERROR = { message: 'end_date must not be before start_date', path: ['end_date'] }
+
+export const CreateMedicationRequestSchema = MedicationFieldsSchema.refine(
+  isOrderedMedicationPeriod,
+  MEDICATION_PERIOD_ERROR
+)
+
+export const UpdateMedicationRequestSchema = MedicationFieldsSchema.partial().refine(
+  isOrderedMedicationPeriod,
+  MEDICATION_PERIOD_ERROR
+)
+
+export const MedicationQuerySchema = PaginationQuerySchema.extend({
+  active: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+})
+
+// Jobs run a code execution or a medical analysis tool in the background
+const JobOptionsSchema = z.object({
+  priority: z.enum(JOB_PRIORITIES).default('normal'),
+})
+
+export const SubmitJobRequestSchema = z.discriminatedUnion('type', [
+  JobOptionsSchema.extend({
+    type: z.literal('code_execution'),
+    request: E2BExecutionRequestSchema,
+  }),
+  JobOptionsSchema.extend({
+    type: z.literal('medical_analysis'),
+    tool_name: z.enum(MEDICAL_ANALYSIS_TOOL_NAMES),
+    input: z.unknown(),
+  }),
+])
+
+export const JobQuerySchema = PaginationQuerySchema.extend({
+  status: ToolExecutionsTableSchema.shape.execution_status.optional(),
+})
+
+export const SubmitWorkflowRequestSchema = z.object({
+  workflow_id: z.string().uuid().optional(),
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  steps: z.array(WorkflowStepSchema).min(1).max(50),
+  context: z.record(z.unknown()).optional(),
+})
+
+export const WorkflowQuerySchema = PaginationQuerySchema.extend({
+  status: WorkflowExecutionSchema.shape.overall_status.optional(),
+})
+
+export const MedicationParamSchema = z.object({
+  id: z.string().uuid(),
+  medicationId: z.string().uuid(),
+})
+
 // Supabase-specific types
 export interface SupabaseConfig {
   url: string
@@ -383,6 +601,8 @@ export const INSIGHT_STATUSES = ['pending', 'reviewed', 'dismissed', 'acted_upon
 export const DB_EXECUTION_STATUSES = ['pending', 'running', 'completed', 'failed', 'timeout'] as const
 export const DB_SERVICE_NAMES = ['baml', 'vector', 'e2b'] as const
 
+export type UserRole = typeof USER_ROLES[number]
+
 // Table names for reference
 export const TABLE_NAMES = {
   USER_PROFILES: 'user_profiles',
@@ -399,5 +619,6 @@ export const TABLE_NAMES = {
   MESSAGE_CITATIONS: 'message_citations',
   TOOL_EXECUTIONS: 'tool_executions',
   SERVICE_REQUESTS: 'service_requests',
+  WORKFLOW_EXECUTIONS: 'workflow_executions',
   AUDIT_LOGS: 'audit_logs',
 } as const 
\ No newline at end of file
@@ -1,3 +1,5 @@
+import type { UserRole } from './database.js'
+
 // Medical Types
 export * from './medical.js'
 
@@ -44,9 +46,17 @@ export interface HealthCheckResponse {
     vector_service: 'connected' | 'disconnected' | 'error'
     e2b_service: 'connected' | 'disconnected' | 'error'
   }
+  circuit_breakers?: Record<'baml' | 'vector' | 'e2b', CircuitBreakerStatus>
   uptime_seconds: number
 }
 
+// Circuit breaker guarding outbound calls to a service
+export interface CircuitBreakerStatus {
+  state: 'closed' | 'open' | 'half_open'
+  consecutive_failures: number
+  opened_at?: string
+}
+
 export interface ServiceDiscoveryResponse {
   service_name: string
   version: string
@@ -73,8 +83,44 @@ export interface EnvironmentConfig {
   
   // Service URLs
   BAML_SERVICE_URL: string
+  BAML_API_KEY?: string
+  CHAT_MODEL?: string
+  CHAT_FALLBACK_MODEL?: string
+  CHAT_TEMPERATURE?: number
+  CHAT_MAX_TOKENS?: number
+  CHAT_HISTORY_MESSAGES?: number
+  CHAT_MAX_TOOL_ROUNDS?: number
+  CARE_TEAM_ALERT_WEBHOOK_URL?: string
+  CARE_TEAM_ALERT_TIMEOUT_MS?: number
+  MEDICAL_URGENCY_DETECTION?: boolean
   VECTOR_SERVICE_URL: string
+  VECTOR_API_KEY?: string
+  VECTOR_BACKEND?: 'http' | 'pgvector' | 'memory'
+  VECTOR_SEARCH_MODE?: 'vector' | 'hybrid'
+  VECTOR_KEYWORD_WEIGHT?: number
+  EMBEDDING_PROVIDER?: 'openai' | 'hash'
+  EMBEDDING_MODEL?: string
+  EMBEDDING_DIMENSIONS?: number
   E2B_API_KEY?: string
+  SANDBOX_BACKEND?: 'e2b' | 'local'
+  SANDBOX_PYTHON?: string
+  SANDBOX_DOCKER_IMAGE?: string
+  SANDBOX_SESSION_TTL_SECONDS?: number
+  SANDBOX_SESSION_IDLE_SECONDS?: number
+  SANDBOX_MAX_SESSIONS_PER_USER?: number
+  SANDBOX_MAX_SESSIONS?: number
+  SANDBOX_MAX_UPLOAD_MB?: number
+  SANDBOX_MAX_ARTIFACT_MB?: number
+  ARTIFACT_STORAGE?: 'local' | 'supabase'
+  ARTIFACT_STORAGE_DIR?: string
+  ARTIFACT_STORAGE_BUCKET?: string
+  JOB_CONCURRENCY?: number
+  INSTANCE_ID?: string
+  SERVICE_TIMEOUT_SECONDS?: number
+  SERVICE_MAX_RETRIES?: number
+  SERVICE_RETRY_DELAY_MS?: number
+  SERVICE_CIRCUIT_FAILURE_THRESHOLD?: number
+  SERVICE_CIRCUIT_RESET_SECONDS?: number
   
   // API Keys
   OPENAI_API_KEY?: string
@@ -82,6 +128,7 @@ export interface EnvironmentConfig {
   
   // Security
   JWT_SECRET?: string
+  SUPABASE_JWT_SECRET?: string
   CORS_ORIGINS: string[]
   
   // Logging
@@ -93,6 +140,7 @@ export interface EnvironmentConfig {
 export interface RequestContext {
   user_id?: string
   organization_id?: string
+  role?: UserRole
   request_id: string
   timestamp: string
   ip_address?: string
@@ -115,15 +163,21 @@ export const DateTimeSchema = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/
 export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
+  ACCEPTED: 202,
   NO_CONTENT: 204,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
   UNPROCESSABLE_ENTITY: 422,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
+  BAD_GATEWAY: 502,
   SERVICE_UNAVAILABLE: 503,
+  GATEWAY_TIMEOUT: 504,
 } as const
 
 // Error codes
@@ -163,6 +217,9 @@ export const ERROR_CODES = {
   BAML_SERVICE_ERROR: 'BAML_SERVICE_ERROR',
   VECTOR_SERVICE_ERROR: 'VECTOR_SERVICE_ERROR',
   E2B_SERVICE_ERROR: 'E2B_SERVICE_ERROR',
+  SESSION_LIMIT_EXCEEDED: 'SESSION_LIMIT_EXCEEDED',
+  FILE_TOO_LARGE: 'FILE_TOO_LARGE',
+  UNSUPPORTED_FILE_TYPE: 'UNSUPPORTED_FILE_TYPE',
   
   // General errors
   INTERNAL_ERROR: 'INTERNAL_ERROR',
@@ -1,6 +1,7 @@
 import { z } from 'zod'
-import type { Citation, MedicalContext } from './medical.js'
-import type { ToolExecution } from './chat.js'
+import { CitationSchema, type Citation, type MedicalContext } from './medical.js'
+import type { MessageClassification, ToolExecution } from './chat.js'
+import type { PaginatedResponse } from './database.js'
 
 // BAML Service Types
 export const BAMLPromptSchema = z.object({
@@ -31,10 +32,27 @@ export const BAMLResponseSchema = z.object({
       parameters: z.record(z.unknown()),
       result: z.unknown().optional(),
     })).optional(),
+    citations: z.array(CitationSchema).optional(),
   }),
   created_at: z.string().datetime(),
 })
 
+// Events the BAML service streams while it generates; `complete` carries the
+// full response as POST /generate would have returned it
+export const BAMLStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('content'), delta: z.string() }),
+  z.object({ type: z.literal('citation'), citation: CitationSchema }),
+  z.object({ type: z.literal('tool_start'), tool_name: z.string(), parameters: z.record(z.unknown()) }),
+  z.object({
+    type: z.literal('tool_result'),
+    tool_name: z.string(),
+    parameters: z.record(z.unknown()),
+    result: z.unknown().optional(),
+  }),
+  z.object({ type: z.literal('complete'), response: BAMLResponseSchema }),
+  z.object({ type: z.literal('error'), message: z.string() }),
+])
+
 export const BAMLMedicalAnalysisSchema = z.object({
   analysis_type: z.enum(['risk_assessment', 'treatment_recommendation', 'lab_interpretation', 'literature_synthesis']),
   patient_context: z.record(z.unknown()).optional(),
@@ -54,19 +72,44 @@ export const BAMLMedicalAnalysisSchema = z.object({
   follow_up_questions: z.array(z.string()).optional(),
 })
 
+// Earlier conversation turns rolled into a summary, with what they discussed
+export const BAMLConversationSummarySchema = z.object({
+  summary: z.string(),
+  key_topics: z.array(z.string()),
+  entities: z.array(z.object({
+    type: z.string(),
+    value: z.string().min(1),
+  })),
+})
+
+// Names the sandbox or its host tools rely on cannot be overridden
+const RESERVED_VARIABLE_NAME = /^(PATH|HOME|LD_\w*|DOCKER_\w*)$/
+
+const EnvironmentVariableNameSchema = z.string()
+  .regex(/^[A-Z_][A-Z0-9_]*$/, 'Variable names are upper-case letters, digits and underscores')
+  .refine((name) => !RESERVED_VARIABLE_NAME.test(name), (name) => ({ message: `${name} is reserved` }))
+
 // E2B Code Execution Types
 export const E2BExecutionRequestSchema = z.object({
   code: z.string(),
   language: z.enum(['python', 'javascript', 'r', 'sql']).default('python'),
   environment: z.object({
     packages: z.array(z.string()).optional(),
-    environment_variables: z.record(z.string()).optional(),
+    environment_variables: z.record(
+      EnvironmentVariableNameSchema,
+      z.string().refine((value) => !/[\r\n\0]/.test(value), 'Variable values must be a single line')
+    ).optional(),
     working_directory: z.string().optional(),
   }).optional(),
   timeout_seconds: z.number().min(1).max(300).default(60),
   memory_limit_mb: z.number().min(128).max(8192).default(1024),
 })
 
+// `?stream=true` streams the response as Server-Sent Events instead
+export const StreamQuerySchema = z.object({
+  stream: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+})
+
 export const E2BExecutionResultSchema = z.object({
   execution_id: z.string().uuid(),
   status: z.enum(['pending', 'running', 'completed', 'failed', 'timeout']),
@@ -78,6 +121,8 @@ export const E2BExecutionResultSchema = z.object({
     path: z.string(),
     size_bytes: z.number(),
     mime_type: z.string().optional(),
+    // Set when the file was kept as a downloadable artifact
+    artifact_id: z.string().uuid().optional(),
   })).optional(),
   execution_time_ms: z.number().optional(),
   memory_used_mb: z.number().optional(),
@@ -91,6 +136,51 @@ export const E2BExecutionResultSchema = z.object({
   completed_at: z.string().datetime().optional(),
 })
 
+// A file created by an execution, kept after its session is destroyed
+export const ExecutionArtifactSchema = z.object({
+  id: z.string().uuid(),
+  execution_id: z.string().uuid(),
+  owner_id: z.string().uuid().optional(),
+  filename: z.string(),
+  mime_type: z.string(),
+  size_bytes: z.number().int(),
+  created_at: z.string().datetime(),
+})
+
+// Multipart upload into a session; `directory` is relative to its working tree
+export const SandboxUploadFormSchema = z.object({
+  file: z.instanceof(File, { message: 'Expected a file' }),
+  directory: z.string()
+    .refine((value) => !value.split('/').includes('..'), 'Directory may not leave the session')
+    .optional(),
+})
+
+export const ArtifactParamSchema = z.object({
+  artifactId: z.string().uuid(),
+})
+
+export const SANDBOX_SESSION_STATUSES = ['idle', 'busy'] as const
+
+export const SandboxSessionSchema = z.object({
+  session_id: z.string(),
+  owner_id: z.string().uuid().optional(),
+  backend: z.enum(['e2b', 'local']),
+  status: z.enum(SANDBOX_SESSION_STATUSES),
+  execution_count: z.number().int(),
+  created_at: z.string().datetime(),
+  last_used_at: z.string().datetime(),
+  // The session is reaped at the earlier of these two
+  expires_at: z.string().datetime(),
+  idle_expires_at: z.string().datetime(),
+})
+
+export const SandboxSessionParamSchema = z.object({
+  sessionId: z.string().min(1),
+})
+
+// Keys of MEDICAL_ANALYSIS_TOOLS in services/code-executor.ts
+export const MEDICAL_ANALYSIS_TOOL_NAMES = ['voe_risk_analysis', 'lab_trend_analysis'] as const
+
 export const E2BMedicalAnalysisToolSchema = z.object({
   tool_name: z.string(),
   description: z.string(),
@@ -104,6 +194,56 @@ export const E2BMedicalAnalysisToolSchema = z.object({
   expected_outputs: z.array(z.string()),
 })
 
+// Medical analysis tool inputs and outputs. Inputs reach the sandbox as JSON
+// bound to `patient_data`; outputs are the JSON the template emits.
+const RiskFactorSchema = z.object({
+  factor: z.string(),
+  weight: z.number(),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+})
+
+export const VoeRiskAnalysisInputSchema = z.object({
+  patient_id: z.string().uuid().optional(),
+  age: z.number().min(0).max(120).optional(),
+  hbf_level: z.number().min(0).max(100).optional(),
+  hemoglobin: z.number().min(0).max(20).optional(),
+  voe_history: z.object({
+    total_episodes: z.number(),
+    episodes_last_12_months: z.number(),
+    hospitalization_rate: z.number().nullable(),
+    mean_pain_score: z.number().nullable(),
+    location_counts: z.record(z.number()),
+    severity_counts: z.record(z.number()),
+    last_episode_date: z.string().nullable(),
+    days_since_last_episode: z.number().nullable(),
+  }).optional(),
+}).passthrough()
+
+export const VoeRiskAnalysisOutputSchema = z.object({
+  risk_score: z.number().min(0).max(100),
+  risk_factors: z.array(RiskFactorSchema),
+  recommendations: z.array(z.string()),
+  confidence: z.number().min(0).max(1),
+  analysis_date: z.string(),
+})
+
+export const LabTrendAnalysisInputSchema = z.array(z.object({
+  test_date: z.string(),
+  hemoglobin: z.number().nullish(),
+  hbf_level: z.number().nullish(),
+  reticulocyte_count: z.number().nullish(),
+  lactate_dehydrogenase: z.number().nullish(),
+}).passthrough()).min(1)
+
+export const LabTrendAnalysisOutputSchema = z.object({
+  trend_statistics: z.record(z.object({
+    slope: z.number(),
+    direction: z.enum(['increasing', 'decreasing', 'stable']),
+    latest_value: z.number().nullable(),
+    change_from_first: z.number(),
+  })),
+})
+
 // Vector Service Types
 export const VectorSearchRequestSchema = z.object({
   query: z.string(),
@@ -132,6 +272,8 @@ export const VectorSearchResponseSchema = z.object({
   filters_applied: z.record(z.unknown()).optional(),
 })
 
+export const VECTOR_DOCUMENT_TYPES = ['research_paper', 'clinical_guideline', 'patient_note', 'lab_report', 'medication_info'] as const
+
 export const VectorDocumentSchema = z.object({
   id: z.string().uuid(),
   content: z.string(),
@@ -139,7 +281,7 @@ export const VectorDocumentSchema = z.object({
     title: z.string().optional(),
     author: z.string().optional(),
     source: z.string().optional(),
-    document_type: z.enum(['research_paper', 'clinical_guideline', 'patient_note', 'lab_report', 'medication_info']).optional(),
+    document_type: z.enum(VECTOR_DOCUMENT_TYPES).optional(),
     publication_date: z.string().datetime().optional(),
     keywords: z.array(z.string()).optional(),
     medical_specialty: z.string().optional(),
@@ -150,13 +292,44 @@ export const VectorDocumentSchema = z.object({
   updated_at: z.string().datetime(),
 })
 
+// Collection names double as path segments
+export const VectorCollectionParamSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]{1,63}$/, 'Collection names contain only letters, digits, _ and - (at most 63)'),
+})
+
+export const CreateVectorCollectionRequestSchema = VectorCollectionParamSchema.extend({
+  metadata: z.record(z.unknown()).optional(),
+})
+
+// The collection comes from the path and timestamps are set on insert
+export const CreateVectorDocumentRequestSchema = VectorDocumentSchema.pick({
+  content: true,
+  metadata: true,
+  embedding: true,
+}).extend({
+  id: z.string().uuid().optional(),
+  content: z.string().min(1),
+})
+
+export const UpdateVectorDocumentRequestSchema = VectorDocumentSchema.pick({
+  content: true,
+  metadata: true,
+  embedding: true,
+})
+  .partial()
+  .refine((update) => Object.values(update).some((value) => value !== undefined), {
+    message: 'Provide at least one of content, metadata or embedding',
+  })
+
 // Service Integration Orchestration Types
+export const JOB_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const
+
 export const ServiceRequestSchema = z.object({
   request_id: z.string().uuid(),
   service_name: z.enum(['baml', 'vector', 'e2b']),
   operation: z.string(),
   parameters: z.record(z.unknown()),
-  priority: z.enum(['low', 'normal', 'high', 'urgent']).default('normal'),
+  priority: z.enum(JOB_PRIORITIES).default('normal'),
   timeout_seconds: z.number().min(1).max(300).default(30),
   retry_config: z.object({
     max_retries: z.number().min(0).max(5).default(3),
@@ -186,13 +359,15 @@ export const ServiceResponseSchema = z.object({
 
 // Multi-Service Workflow Types
 export const WorkflowStepSchema = z.object({
-  step_id: z.string(),
+  // Referenced as `steps.<step_id>` in conditions and templates
+  step_id: z.string().regex(/^[A-Za-z_][A-Za-z0-9_-]*$/, 'Step ids must start with a letter or underscore and contain only letters, digits, _ and -'),
   service_name: z.enum(['baml', 'vector', 'e2b']),
   operation: z.string(),
   parameters: z.record(z.unknown()),
   depends_on: z.array(z.string()).optional(), // Step IDs this step depends on
   condition: z.string().optional(), // Conditional execution logic
-  timeout_seconds: z.number().default(30),
+  timeout_seconds: z.number().min(1).max(300).default(30),
+  retry_config: ServiceRequestSchema.shape.retry_config,
 })
 
 export const WorkflowSchema = z.object({
@@ -227,31 +402,83 @@ export const WorkflowExecutionSchema = z.object({
 // Export TypeScript types
 export type BAMLPrompt = z.infer<typeof BAMLPromptSchema>
 export type BAMLResponse = z.infer<typeof BAMLResponseSchema>
+export type BAMLStreamEvent = z.infer<typeof BAMLStreamEventSchema>
 export type BAMLMedicalAnalysis = z.infer<typeof BAMLMedicalAnalysisSchema>
+export type BAMLConversationSummary = z.infer<typeof BAMLConversationSummarySchema>
 export type E2BExecutionRequest = z.infer<typeof E2BExecutionRequestSchema>
 export type E2BExecutionResult = z.infer<typeof E2BExecutionResultSchema>
+export type ExecutionArtifact = z.infer<typeof ExecutionArtifactSchema>
+export type SandboxSession = z.infer<typeof SandboxSessionSchema>
 export type E2BMedicalAnalysisTool = z.infer<typeof E2BMedicalAnalysisToolSchema>
+export type VoeRiskAnalysisInput = z.infer<typeof VoeRiskAnalysisInputSchema>
+export type VoeRiskAnalysisOutput = z.infer<typeof VoeRiskAnalysisOutputSchema>
+export type LabTrendAnalysisInput = z.infer<typeof LabTrendAnalysisInputSchema>
+export type LabTrendAnalysisOutput = z.infer<typeof LabTrendAnalysisOutputSchema>
+
+// A tool template together with the schemas its input and output are
+// validated against
+export interface MedicalAnalysisTool<TInput = unknown, TOutput = unknown> extends E2BMedicalAnalysisTool {
+  input_schema?: z.ZodType<TInput, z.ZodTypeDef, unknown>
+  output_schema?: z.ZodType<TOutput, z.ZodTypeDef, unknown>
+}
+
+export type MedicalAnalysisResult<TOutput = unknown> = Omit<E2BExecutionResult, 'return_value'> & {
+  return_value?: TOutput
+}
 export type VectorSearchRequest = z.infer<typeof VectorSearchRequestSchema>
 export type VectorSearchResult = z.infer<typeof VectorSearchResultSchema>
 export type VectorSearchResponse = z.infer<typeof VectorSearchResponseSchema>
 export type VectorDocument = z.infer<typeof VectorDocumentSchema>
+export type CreateVectorCollectionRequest = z.infer<typeof CreateVectorCollectionRequestSchema>
+export type CreateVectorDocumentRequest = z.infer<typeof CreateVectorDocumentRequestSchema>
+export type UpdateVectorDocumentRequest = z.infer<typeof UpdateVectorDocumentRequestSchema>
+export type JobPriority = typeof JOB_PRIORITIES[number]
+export type MedicalAnalysisToolName = typeof MEDICAL_ANALYSIS_TOOL_NAMES[number]
 export type ServiceRequest = z.infer<typeof ServiceRequestSchema>
 export type ServiceResponse = z.infer<typeof ServiceResponseSchema>
+export type RetryConfig = NonNullable<ServiceRequest['retry_config']>
 export type WorkflowStep = z.infer<typeof WorkflowStepSchema>
 export type Workflow = z.infer<typeof WorkflowSchema>
 export type WorkflowExecution = z.infer<typeof WorkflowExecutionSchema>
+export type WorkflowStepResult = WorkflowExecution['step_results'][number]
 
 // Service Integration Interfaces
+
+// Per-call overrides for outbound service calls
+export interface ServiceCallOptions {
+  signal?: AbortSignal
+  timeout_seconds?: number
+  retry_config?: RetryConfig
+  // Attempts are recorded in service_requests under this id
+  request_id?: string
+  // Called before each retry with the failed attempt's number and error
+  onRetry?: (attempt: number, error: unknown) => void
+}
+
 export interface BAMLServiceClient {
-  generateResponse(prompt: BAMLPrompt): Promise<BAMLResponse>
-  analyzeMedicalData(context: MedicalContext, analysisType: string): Promise<BAMLMedicalAnalysis>
-  generateLiteratureQuery(query: string, context?: MedicalContext): Promise<string>
-  synthesizeFindings(citations: Citation[], context?: MedicalContext): Promise<string>
+  generateResponse(prompt: BAMLPrompt, options?: ServiceCallOptions): Promise<BAMLResponse>
+  streamResponse(prompt: BAMLPrompt, options?: ServiceCallOptions): AsyncIterable<BAMLStreamEvent>
+  analyzeMedicalData(
+    context: MedicalContext,
+    analysisType: string,
+    options?: ServiceCallOptions
+  ): Promise<BAMLMedicalAnalysis>
+  generateLiteratureQuery(query: string, context?: MedicalContext, options?: ServiceCallOptions): Promise<string>
+  synthesizeFindings(citations: Citation[], context?: MedicalContext, options?: ServiceCallOptions): Promise<string>
+  summarizeConversation(
+    messages: Array<{ role: string; content: string }>,
+    previousSummary?: string,
+    options?: ServiceCallOptions
+  ): Promise<BAMLConversationSummary>
+  classifyMessage(content: string, context?: MedicalContext, options?: ServiceCallOptions): Promise<MessageClassification>
 }
 
 export interface E2BServiceClient {
   executeCode(request: E2BExecutionRequest): Promise<E2BExecutionResult>
-  executeMedicalAnalysis(tool: E2BMedicalAnalysisTool, data: unknown): Promise<E2BExecutionResult>
+  executeMedicalAnalysis<TInput, TOutput>(
+    tool: MedicalAnalysisTool<TInput, TOutput>,
+    data: unknown
+  ): Promise<MedicalAnalysisResult<TOutput>>
   createSession(): Promise<string>
   destroySession(sessionId: string): Promise<void>
   uploadFile(sessionId: string, filename: string, content: Buffer): Promise<string>
@@ -259,12 +486,19 @@ export interface E2BServiceClient {
 }
 
 export interface VectorServiceClient {
-  search(request: VectorSearchRequest): Promise<VectorSearchResponse>
-  addDocument(document: VectorDocument): Promise<string>
-  updateDocument(id: string, document: Partial<VectorDocument>): Promise<void>
-  deleteDocument(id: string): Promise<void>
-  createCollection(name: string, metadata?: Record<string, unknown>): Promise<void>
-  listCollections(): Promise<string[]>
+  search(request: VectorSearchRequest, options?: ServiceCallOptions): Promise<VectorSearchResponse>
+  addDocument(document: VectorDocument, options?: ServiceCallOptions): Promise<string>
+  updateDocument(id: string, document: Partial<VectorDocument>, options?: ServiceCallOptions): Promise<void>
+  deleteDocument(id: string, options?: ServiceCallOptions): Promise<void>
+  getDocument(id: string, options?: ServiceCallOptions): Promise<VectorDocument>
+  listDocuments(
+    collectionName: string,
+    pagination: { page: number; page_size: number },
+    options?: ServiceCallOptions
+  ): Promise<PaginatedResponse<VectorDocument>>
+  createCollection(name: string, metadata?: Record<string, unknown>, options?: ServiceCallOptions): Promise<void>
+  deleteCollection(name: string, options?: ServiceCallOptions): Promise<void>
+  listCollections(options?: ServiceCallOptions): Promise<string[]>
 }
 
 export interface ServiceOrchestrator {
@@ -311,7 +545,13 @@ export interface DemoAnalysisResult {
 export const BAML_ANALYSIS_TYPES = ['risk_assessment', 'treatment_recommendation', 'lab_interpretation', 'literature_synthesis'] as const
 export const E2B_LANGUAGES = ['python', 'javascript', 'r', 'sql'] as const
 export const E2B_OUTPUT_FORMATS = ['json', 'plot', 'table', 'report'] as const
-export const VECTOR_DOCUMENT_TYPES = ['research_paper', 'clinical_guideline', 'patient_note', 'lab_report', 'medication_info'] as const
 export const SERVICE_NAMES = ['baml', 'vector', 'e2b'] as const
 export const WORKFLOW_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled'] as const
+
+// Operations a workflow step may invoke on each service
+export const WORKFLOW_OPERATIONS = {
+  baml: ['generate_response', 'analyze_medical_data', 'generate_literature_query', 'synthesize_findings'],
+  vector: ['search', 'add_document', 'update_document', 'delete_document', 'create_collection', 'list_collections'],
+  e2b: ['execute_code', 'medical_analysis'],
+} as const satisfies Record<typeof SERVICE_NAMES[number], readonly string[]>
 export const EXECUTION_STATUSES = ['pending', 'running', 'completed', 'failed', 'skipped'] as const 
\ No newline at end of file
@@ -1 +1,35 @@
- 
\ No newline at end of file
+import { z } from 'zod'
+
+// Literature reference attached to responses and passed to synthesis
+export const CitationSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  authors: z.array(z.string()).default([]),
+  journal: z.string().optional(),
+  publication_date: z.string().optional(),
+  doi: z.string().optional(),
+  pmid: z.string().optional(),
+  url: z.string().url().optional(),
+  abstract: z.string().optional(),
+  relevance_score: z.number().min(0).max(1).optional(),
+})
+
+// Clinical background sent with BAML prompts and analyses
+export const MedicalContextSchema = z.object({
+  patient_id: z.string().uuid().optional(),
+  condition: z.string().optional(),
+  genotype: z.string().optional(),
+  age: z.number().min(0).optional(),
+  recent_labs: z.array(z.object({
+    test_name: z.string(),
+    value: z.number(),
+    unit: z.string().optional(),
+    collected_at: z.string().optional(),
+  })).optional(),
+  medications: z.array(z.string()).optional(),
+  voe_history: z.record(z.unknown()).optional(),
+  clinical_question: z.string().optional(),
+})
+
+export type Citation = z.infer<typeof CitationSchema>
+export type MedicalContext = z.infer<typeof MedicalContextSchema>